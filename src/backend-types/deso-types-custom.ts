@@ -1,5 +1,10 @@
 import { ec } from 'elliptic';
+import type { DeSoMediaClient, DeSoNodeClient } from '../data/api.js';
 import { PartialWithRequiredFields } from '../data/index.js';
+import type { EntityCache } from '../data/entity-cache.js';
+import type { NonceManager } from '../data/nonce-manager.js';
+import type { Identity } from '../identity/identity.js';
+import type { Signer, StorageProvider } from '../identity/types.js';
 import {
   DAOCoinLimitOrderSimulatedExecutionResult,
   DeSoNonce,
@@ -369,6 +374,19 @@ export interface DAOCoinLimitOrderRequest {
 
 export type DAOCoinMarketOrderRequest = Omit<DAOCoinLimitOrderRequest, 'Price'>;
 
+/**
+ * Returned instead of a SubmitTransactionResponse when a retried submit finds
+ * that an earlier attempt already made it to the mempool. The node doesn't
+ * return the transaction or post entry for it again, so only the hash is
+ * known.
+ */
+export interface DuplicateSubmitTransactionResponse {
+  TxnHashHex: string;
+  Transaction: null;
+  PostEntryResponse: null;
+  IsDuplicate: true;
+}
+
 export interface MetaMaskInitResponse {
   derivedKeyPair: ec.KeyPair;
   derivedPublicKeyBase58Check: string;
@@ -393,6 +411,24 @@ export type TxRequestWithOptionalFeesAndExtraData<T> = Omit<
 > &
   OptionalFeesAndExtraData;
 
+/**
+ * The state a request is made against. The top level functions use the
+ * default instances, while clients created with createDesoClient each have
+ * their own.
+ */
+export interface DesoClientContext {
+  api: DeSoNodeClient;
+  media: DeSoMediaClient;
+  identity: Identity<StorageProvider>;
+  nonceManager: NonceManager;
+  entityCache: EntityCache;
+  config: {
+    MinFeeRateNanosPerKB: number;
+    LocalConstruction: boolean;
+    StrictLocalConstruction: boolean;
+  };
+}
+
 export interface RequestOptions {
   /**
    * This is only relevant for write operations that require a signed
@@ -410,21 +446,70 @@ export interface RequestOptions {
    */
   nodeURI?: string;
 
+  /**
+   * Aborts the request to the node, including any pending retries.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Timeout for each attempt of the request to the node. Overrides the
+   * configured timeoutMs.
+   */
+  timeoutMs?: number;
+
   /**
    * Experimental param. When localConstruction is true, transactions will
    * be constructed locally. This only applies after the balance model fork.
    */
   localConstruction?: boolean;
+
+  /**
+   * When true, any transaction that cannot be constructed locally will throw
+   * instead of falling back to the node. Only applies when local construction
+   * is enabled.
+   */
+  strictLocalConstruction?: boolean;
+
+  /**
+   * The number of blocks until the transaction's nonce expires. Overrides the
+   * configured nonceExpirationBlocks. Only applies to locally constructed
+   * transactions; the node picks its own expiration otherwise.
+   */
+  nonceExpirationBlocks?: number;
+
   /**
    * Function to be used to construct the transaction locally.
    * @param params
-   * @returns Promise with the ConstructedTransactionResponse
+   * @param options the request options, used to construct the transaction
+   * with the request's client, node and nonce expiration
+   * @returns Promise with the ConstructedTransactionResponse, or the wrapper
+   * and inner transactions for atomic transactions
    */
   constructionFunction?: (
-    params: any // TODO: I actually think we want any to be TxRequestWithOptionalFeesAndExtraData
-  ) => Promise<ConstructedTransactionResponse>;
+    params: any, // TODO: I actually think we want any to be TxRequestWithOptionalFeesAndExtraData
+    options?: RequestOptions
+  ) => Promise<
+    | ConstructedTransactionResponse
+    | { TransactionHex: string; InnerTransactionHexes: string[] }
+  >;
 
   jwt?: boolean;
+
+  /**
+   * The signer used to sign and submit the transaction (and the jwt, if one
+   * is required). Defaults to the signer for the logged in identity user.
+   * NOTE: derived key permission checks are done against the logged in
+   * identity user, so pass `checkPermissions: false` when using a signer that
+   * is not backed by identity.
+   */
+  signer?: Signer;
+
+  /**
+   * The client to make the request with. This is set by the methods of a
+   * client created with createDesoClient and defaults to the top level
+   * instances.
+   */
+  client?: DesoClientContext;
 }
 
 export type ConstructedTransactionResponse = {
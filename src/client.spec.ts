@@ -0,0 +1,111 @@
+import { createDesoClient } from './client.js';
+import { getSingleProfile, nonceManager } from './data/index.js';
+import {
+  decodeTransaction,
+  keygen,
+  publicKeyToBase58Check,
+} from './identity/index.js';
+import { jsonResponse } from './test-utils.js';
+
+describe('createDesoClient', () => {
+  const originalFetch = globalThis.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn((url: string) =>
+      jsonResponse(
+        url.endsWith('get-app-state')
+          ? { BlockHeight: url.includes('test.deso.org') ? 500 : 9000 }
+          : {}
+      )
+    );
+    globalThis.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('sends requests to its own node without touching the defaults', async () => {
+    const mainnet = createDesoClient({ nodeURI: 'https://main.deso.org' });
+    const testnet = createDesoClient({
+      network: 'testnet',
+      nodeURI: 'https://test.deso.org',
+    });
+
+    await mainnet.getSingleProfile({ Username: 'alice' });
+    await testnet.getSingleProfile({ Username: 'bob' });
+    await getSingleProfile({ Username: 'carol' });
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://main.deso.org/api/v0/get-single-profile',
+      'https://test.deso.org/api/v0/get-single-profile',
+      'https://node.deso.org/api/v0/get-single-profile',
+    ]);
+    expect(testnet.network).toEqual('testnet');
+    expect(testnet.identity).not.toBe(mainnet.identity);
+  });
+
+  it('constructs transactions with its own fee rate and block height', async () => {
+    const SenderPublicKeyBase58Check = publicKeyToBase58Check(keygen().public);
+    const params = {
+      SenderPublicKeyBase58Check,
+      RecipientPublicKeyOrUsername: SenderPublicKeyBase58Check,
+      AmountNanos: 1000,
+    };
+    const cheap = createDesoClient({
+      nodeURI: 'https://test.deso.org',
+      MinFeeRateNanosPerKB: 1000,
+      nonceExpirationBlocks: 10,
+    });
+    const expensive = createDesoClient({ MinFeeRateNanosPerKB: 5000 });
+
+    const cheapTx = await cheap.constructSendDeSoTransaction(params);
+    const expensiveTx = await expensive.constructSendDeSoTransaction(params);
+
+    expect(
+      decodeTransaction(cheapTx.TransactionHex).nonce?.expirationBlockHeight
+    ).toEqual(510);
+    expect(
+      decodeTransaction(expensiveTx.TransactionHex).nonce?.expirationBlockHeight
+    ).toEqual(9275);
+    expect(Number(expensiveTx.FeeNanos)).toBeGreaterThan(
+      4 * Number(cheapTx.FeeNanos)
+    );
+    expect(cheap.nonceManager.outstanding(SenderPublicKeyBase58Check)).toEqual(
+      [decodeTransaction(cheapTx.TransactionHex).nonce].map((nonce) => ({
+        ExpirationBlockHeight: nonce?.expirationBlockHeight,
+        PartialID: nonce?.partialId,
+      }))
+    );
+    expect(nonceManager.outstanding(SenderPublicKeyBase58Check)).toEqual([]);
+  });
+
+  it('reads the diamonds already given through its own node', async () => {
+    const SenderPublicKeyBase58Check = publicKeyToBase58Check(keygen().public);
+    fetchMock.mockImplementation((url: string) =>
+      jsonResponse(
+        url.endsWith('get-single-post')
+          ? { PostFound: { PostEntryReaderState: { DiamondLevelBestowed: 1 } } }
+          : { BlockHeight: 500 }
+      )
+    );
+    const client = createDesoClient({ nodeURI: 'https://test.deso.org' });
+
+    const { TransactionHex } = await client.constructDiamondTransaction({
+      SenderPublicKeyBase58Check,
+      ReceiverPublicKeyBase58Check: publicKeyToBase58Check(keygen().public),
+      DiamondPostHashHex: '00'.repeat(32),
+      DiamondLevel: 2,
+    });
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://test.deso.org/api/v0/get-single-post',
+      'https://test.deso.org/api/v0/get-app-state',
+    ]);
+    // level 2 is 500,000 nanos and level 1 was already given for 50,000
+    expect(decodeTransaction(TransactionHex).outputs[0].amountNanos).toEqual(
+      450000
+    );
+  });
+});
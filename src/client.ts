@@ -0,0 +1,237 @@
+import { DesoClientContext, RequestOptions } from './backend-types/index.js';
+import {
+  DeSoMediaClient,
+  DeSoNodeClient,
+  EntityCache,
+  NonceManager,
+  paginate,
+  trackTransaction,
+} from './data/index.js';
+import {
+  ConversationSync,
+  ConversationSyncOptions,
+} from './conversation-sync.js';
+import * as dataRequests from './data/data.js';
+import * as mediaRequests from './data/media.js';
+import {
+  DesoProtocolConfiguration,
+  configureClientContext,
+} from './deso-protocol.js';
+import { Identity } from './identity/identity.js';
+import { Network, StorageProvider } from './identity/index.js';
+import { createClientConfig } from './internal.js';
+import * as jwtRequests from './jwt-requests.js';
+import {
+  NotificationsService,
+  NotificationsServiceOptions,
+} from './notifications.js';
+import * as accessGroups from './transactions/access-groups.js';
+import * as associations from './transactions/associations.js';
+import { AtomicBuilder, AtomicBuilderOptions } from './transactions/atomic.js';
+import { DerivedKeyManager } from './transactions/derived-key-manager.js';
+import * as derivedKeys from './transactions/derived-keys.js';
+import * as desoTokens from './transactions/deso-tokens.js';
+import * as financial from './transactions/financial.js';
+import { groupChat } from './transactions/group-chat.js';
+import * as lockup from './transactions/lockup.js';
+import * as nfts from './transactions/nfts.js';
+import * as social from './transactions/social.js';
+import {
+  getDerivedKeysCoverage,
+  planSpendingLimits,
+  requestPlannedPermissions,
+} from './transactions/spending-limit-planner.js';
+import * as stake from './transactions/stake.js';
+import * as validator from './transactions/validator.js';
+
+type AnyFunction = (...args: any[]) => any;
+
+// Request functions that take their options as the only argument rather than
+// after params.
+const OPTIONS_ONLY_REQUESTS = new Set([
+  'healthCheck',
+  'getExchangeRates',
+  'getGlobalParams',
+  'getNextNFTShowcase',
+  'adminGetVerifiedUsers',
+  'adminGetMempoolStats',
+  'adminGetUSDCentsToDESOReserveExchangeRate',
+  'adminGetBuyDesoFeeBasisPoints',
+  'adminGetGlobalParams',
+  'adminGetHotFeedAlgorithm',
+]);
+
+const requestFunctions = {
+  ...dataRequests,
+  ...mediaRequests,
+  ...jwtRequests,
+};
+
+const transactionFunctions = {
+  ...accessGroups,
+  ...associations,
+  ...derivedKeys,
+  ...desoTokens,
+  ...financial,
+  ...lockup,
+  ...nfts,
+  ...social,
+  ...stake,
+  ...validator,
+};
+
+export type DesoClientRequests = typeof requestFunctions;
+export type DesoClientTransactions = typeof transactionFunctions;
+
+export type DesoClient = DesoClientContext &
+  DesoClientRequests &
+  DesoClientTransactions & {
+    network: Network;
+    /**
+     * Updates this client's configuration. Other clients and the top level
+     * functions are not affected.
+     */
+    configure: (options: DesoProtocolConfiguration) => void;
+    trackTransaction: typeof trackTransaction;
+    /**
+     * Paginates a top level data function through this client.
+     */
+    paginate: typeof paginate;
+    /**
+     * Plans, requests and checks derived key permissions with this client's
+     * fee rate, identity and node.
+     */
+    planSpendingLimits: typeof planSpendingLimits;
+    requestPlannedPermissions: typeof requestPlannedPermissions;
+    getDerivedKeysCoverage: typeof getDerivedKeysCoverage;
+    /**
+     * Lists, revokes and rotates derived keys through this client's identity
+     * and node.
+     */
+    derivedKeyManager: DerivedKeyManager;
+    /**
+     * Creates a conversation sync engine that reads through this client's
+     * node and decrypts with its identity.
+     */
+    conversationSync: (
+      options?: Omit<ConversationSyncOptions, 'client'>
+    ) => ConversationSync;
+    /**
+     * Creates a notifications service that polls through this client's node
+     * and updates read state with its identity.
+     */
+    notifications: (
+      options?: Omit<NotificationsServiceOptions, 'client'>
+    ) => NotificationsService;
+    /**
+     * Creates group chats and manages their members and keys with this
+     * client's identity and node.
+     */
+    groupChat: typeof groupChat;
+    /**
+     * Starts an atomic transaction that is signed and submitted with this
+     * client's identity.
+     */
+    atomic: (options?: AtomicBuilderOptions) => AtomicBuilder;
+  };
+
+/**
+ * Binds each function to the client by passing it in the request options.
+ */
+const bindToClient = <T extends Record<string, AnyFunction>>(
+  fns: T,
+  client: DesoClientContext
+): T =>
+  Object.entries(fns).reduce((bound, [name, fn]) => {
+    const optionsIndex = OPTIONS_ONLY_REQUESTS.has(name) ? 0 : 1;
+
+    (bound as Record<string, AnyFunction>)[name] = (...args: any[]) => {
+      const options: RequestOptions | undefined = args[optionsIndex];
+      args[optionsIndex] = { client, ...options };
+      return fn(...args);
+    };
+
+    return bound;
+  }, {} as T);
+
+/**
+ * Creates a client with its own node and media clients, identity instance,
+ * fee rate, storage provider and network. Its methods are the same as the top
+ * level request and transaction functions, but they only ever use the
+ * client's configuration. This makes it possible to talk to mainnet and
+ * testnet from the same process, or to isolate configuration between tests.
+ * The top level functions keep using the instances set up by configure.
+ *
+ * NOTE: bigIntAmounts is a process wide setting and is only applied by
+ * configure.
+ *
+ * @example
+ * ```ts
+ * const testnet = createDesoClient({
+ *   network: 'testnet',
+ *   nodeURI: 'https://test.deso.org',
+ * });
+ *
+ * const profile = await testnet.getSingleProfile({ Username: 'nader' });
+ * await testnet.submitPost(params, { signer });
+ * ```
+ */
+export const createDesoClient = (
+  options: DesoProtocolConfiguration = {}
+): DesoClient => {
+  const api = new DeSoNodeClient();
+  const context = {
+    api,
+    media: new DeSoMediaClient(),
+    identity: new Identity<StorageProvider>(globalThis, api),
+    entityCache: new EntityCache(),
+    config: createClientConfig(),
+  } as DesoClientContext;
+  context.nonceManager = new NonceManager({ client: context });
+  configureClientContext(context, options);
+
+  const client: DesoClient = {
+    ...context,
+    ...bindToClient(requestFunctions, context),
+    ...bindToClient(transactionFunctions, context),
+    network: options.network ?? 'mainnet',
+    configure: (newOptions) => {
+      configureClientContext(context, newOptions);
+      if (newOptions.network) {
+        client.network = newOptions.network;
+      }
+    },
+    trackTransaction: (txnHashHex, trackOptions) =>
+      trackTransaction(txnHashHex, { client: context, ...trackOptions }),
+    paginate: (fn, params, paginateOptions) =>
+      paginate(fn, params, { client: context, ...paginateOptions }),
+    planSpendingLimits: (actions, planOptions) =>
+      planSpendingLimits(actions, { client: context, ...planOptions }),
+    requestPlannedPermissions: (plan, requestOptions) =>
+      requestPlannedPermissions(plan, { client: context, ...requestOptions }),
+    getDerivedKeysCoverage: (plan, publicKey, requestOptions) =>
+      getDerivedKeysCoverage(plan, publicKey, {
+        client: context,
+        ...requestOptions,
+      }),
+    derivedKeyManager: new DerivedKeyManager({}, { client: context }),
+    conversationSync: (syncOptions) =>
+      new ConversationSync({ client: context, ...syncOptions }),
+    notifications: (notificationsOptions) =>
+      new NotificationsService({ client: context, ...notificationsOptions }),
+    groupChat: {
+      create: (params, groupOptions) =>
+        groupChat.create(params, { client: context, ...groupOptions }),
+      addMembers: (params, groupOptions) =>
+        groupChat.addMembers(params, { client: context, ...groupOptions }),
+      removeMembers: (params, groupOptions) =>
+        groupChat.removeMembers(params, { client: context, ...groupOptions }),
+      rotateKey: (params, groupOptions) =>
+        groupChat.rotateKey(params, { client: context, ...groupOptions }),
+    },
+    atomic: (atomicOptions) =>
+      new AtomicBuilder({ client: context, ...atomicOptions }),
+  };
+
+  return client;
+};
@@ -0,0 +1,254 @@
+import { ChatType, NewMessageEntryResponse } from './backend-types/index.js';
+import { ConversationChange } from './conversation-sync.js';
+import { encrypt, encryptChatMessage } from './identity/index.js';
+import {
+  FakeNodeRequest,
+  createAccount,
+  createFakeNodeClient,
+} from './test-utils.js';
+
+const groupInfo = (OwnerPublicKeyBase58Check: string, publicKey: string) => ({
+  OwnerPublicKeyBase58Check,
+  AccessGroupPublicKeyBase58Check: publicKey,
+  AccessGroupKeyName: 'default-key',
+});
+
+describe('ConversationSync', () => {
+  const alice = createAccount();
+  const bob = createAccount();
+  const signer = alice.signer;
+
+  it('fetches new DMs incrementally, merges edits and tracks unread messages', async () => {
+    const dm = async (timestamp: number, text: string) =>
+      ({
+        ChatType: ChatType.DM,
+        SenderInfo: groupInfo(bob.publicKey, bob.publicKey),
+        RecipientInfo: groupInfo(alice.publicKey, alice.publicKey),
+        MessageInfo: {
+          EncryptedText: await encryptChatMessage(
+            bob.seedHex,
+            alice.publicKey,
+            text
+          ),
+          TimestampNanos: timestamp,
+          TimestampNanosString: timestamp.toString(),
+          ExtraData: {},
+        },
+      } as NewMessageEntryResponse);
+    let messages = [
+      await dm(3, 'three'),
+      await dm(2, 'two'),
+      await dm(1, 'one'),
+    ];
+    const calls: FakeNodeRequest[] = [];
+    const client = createFakeNodeClient(
+      {
+        'get-all-user-message-threads': () => ({
+          MessageThreads: [messages[0]],
+        }),
+        'get-paginated-messages-for-dm-thread': (body) => ({
+          ThreadMessages: messages
+            .filter(
+              ({ MessageInfo }) =>
+                MessageInfo.TimestampNanos < Number(body.StartTimeStampString)
+            )
+            .slice(0, body.MaxMessagesToFetch),
+        }),
+      },
+      { calls }
+    );
+    const conversations = client.conversationSync({ signer, pageSize: 2 });
+    const changes: ConversationChange[] = [];
+    conversations.subscribe((change) => changes.push(change));
+
+    const [thread] = await conversations.sync();
+
+    // the first sync only fetches the latest page
+    expect(thread).toMatchObject({
+      id: `dm:${bob.publicKey}:default-key`,
+      LatestTimestampNanosString: '3',
+      unreadCount: 2,
+    });
+    expect(
+      (await conversations.getMessages(thread.id)).map(
+        ({ DecryptedMessage }) => DecryptedMessage
+      )
+    ).toEqual(['two', 'three']);
+    expect(calls.map(({ endpoint }) => endpoint)).toEqual([
+      'get-all-user-message-threads',
+      'get-paginated-messages-for-dm-thread',
+    ]);
+
+    expect(
+      (await conversations.loadOlderMessages(thread.id)).map(
+        ({ DecryptedMessage }) => DecryptedMessage
+      )
+    ).toEqual(['one']);
+    expect(await conversations.getUnreadCount(thread.id)).toEqual(3);
+
+    // later syncs page back until they reach stored messages
+    calls.length = 0;
+    messages = [
+      await dm(6, 'six'),
+      await dm(5, 'five'),
+      await dm(4, 'four'),
+      ...messages,
+    ];
+    await conversations.sync();
+
+    expect(
+      calls
+        .filter(({ endpoint }) => endpoint !== 'get-all-user-message-threads')
+        .map(({ body }) => body.StartTimeStampString)
+    ).toEqual(['7', '5']);
+    expect(
+      (await conversations.getMessages(thread.id)).map(
+        ({ DecryptedMessage }) => DecryptedMessage
+      )
+    ).toEqual(['one', 'two', 'three', 'four', 'five', 'six']);
+
+    calls.length = 0;
+    changes.length = 0;
+    await conversations.markRead(thread.id);
+    messages = [await dm(6, 'six (edited)'), ...messages.slice(1)];
+    await conversations.sync();
+
+    expect(calls.map(({ endpoint }) => endpoint)).toEqual([
+      'get-all-user-message-threads',
+    ]);
+    expect(changes[1]).toMatchObject({
+      type: 'message',
+      operation: 'updated',
+      message: { DecryptedMessage: 'six (edited)', IsEdited: true },
+    });
+    expect(await conversations.getUnreadCount()).toEqual(0);
+  });
+
+  it('decrypts group chats with a cached access group key', async () => {
+    const group = createAccount();
+    const groupMessage = async (timestamp: number, text: string) =>
+      ({
+        ChatType: ChatType.GROUPCHAT,
+        SenderInfo: groupInfo(bob.publicKey, bob.publicKey),
+        RecipientInfo: {
+          OwnerPublicKeyBase58Check: bob.publicKey,
+          AccessGroupPublicKeyBase58Check: group.publicKey,
+          AccessGroupKeyName: 'friends',
+        },
+        MessageInfo: {
+          EncryptedText: await encryptChatMessage(
+            bob.seedHex,
+            group.publicKey,
+            text
+          ),
+          TimestampNanos: timestamp,
+          TimestampNanosString: timestamp.toString(),
+          ExtraData: {},
+        },
+      } as NewMessageEntryResponse);
+    const messages = [await groupMessage(2, 'gm'), await groupMessage(1, 'hi')];
+    const EncryptedKey = await encrypt(alice.public, group.seedHex);
+    const calls: FakeNodeRequest[] = [];
+    const client = createFakeNodeClient(
+      {
+        'get-all-user-message-threads': () => ({
+          MessageThreads: [messages[0]],
+        }),
+        'get-paginated-messages-for-group-chat-thread': () => ({
+          GroupChatMessages: messages,
+        }),
+        'get-all-user-access-groups': () => ({
+          AccessGroupsMember: [
+            {
+              AccessGroupOwnerPublicKeyBase58Check: bob.publicKey,
+              AccessGroupKeyName: 'friends',
+              AccessGroupPublicKeyBase58Check: group.publicKey,
+              AccessGroupMemberEntryResponse: { EncryptedKey },
+            },
+          ],
+        }),
+      },
+      { calls }
+    );
+    const conversations = client.conversationSync({ signer });
+
+    const [thread] = await conversations.sync();
+
+    expect(
+      (await conversations.getMessages(thread.id)).map(
+        ({ DecryptedMessage, error }) => DecryptedMessage || error
+      )
+    ).toEqual(['hi', 'gm']);
+    expect(
+      calls.filter(({ endpoint }) => endpoint === 'get-all-user-access-groups')
+    ).toHaveLength(1);
+  });
+
+  it('retries messages that failed to decrypt and recovers from key rotation', async () => {
+    const oldKey = createAccount();
+    const newKey = createAccount();
+    const groupMessage = async (
+      timestamp: number,
+      text: string,
+      key: ReturnType<typeof createAccount>
+    ) =>
+      ({
+        ChatType: ChatType.GROUPCHAT,
+        SenderInfo: groupInfo(bob.publicKey, bob.publicKey),
+        RecipientInfo: {
+          OwnerPublicKeyBase58Check: bob.publicKey,
+          AccessGroupPublicKeyBase58Check: key.publicKey,
+          AccessGroupKeyName: 'friends',
+        },
+        MessageInfo: {
+          EncryptedText: await encryptChatMessage(
+            bob.seedHex,
+            key.publicKey,
+            text
+          ),
+          TimestampNanos: timestamp,
+          TimestampNanosString: timestamp.toString(),
+          ExtraData: {},
+        },
+      } as NewMessageEntryResponse);
+    const membership = async (key: ReturnType<typeof createAccount>) => [
+      {
+        AccessGroupOwnerPublicKeyBase58Check: bob.publicKey,
+        AccessGroupKeyName: 'friends',
+        AccessGroupPublicKeyBase58Check: key.publicKey,
+        AccessGroupMemberEntryResponse: {
+          EncryptedKey: await encrypt(alice.public, key.seedHex),
+        },
+      },
+    ];
+    let messages = [await groupMessage(1, 'hi', oldKey)];
+    let groups: any[] = [];
+    const client = createFakeNodeClient({
+      'get-all-user-message-threads': () => ({
+        MessageThreads: [messages[0]],
+      }),
+      'get-paginated-messages-for-group-chat-thread': () => ({
+        GroupChatMessages: messages,
+      }),
+      'get-all-user-access-groups': () => ({ AccessGroupsMember: groups }),
+    });
+    const conversations = client.conversationSync({ signer });
+    const readMessages = async () =>
+      (await conversations.getMessages(thread.id)).map(
+        ({ DecryptedMessage, error }) => DecryptedMessage || !!error
+      );
+
+    // alice hasn't been added to the group yet
+    const [thread] = await conversations.sync();
+    expect(await readMessages()).toEqual([true]);
+
+    groups = await membership(oldKey);
+    await conversations.sync();
+    expect(await readMessages()).toEqual(['hi']);
+
+    groups = await membership(newKey);
+    messages = [await groupMessage(2, 'rotated', newKey), ...messages];
+    await conversations.sync();
+    expect(await readMessages()).toEqual(['hi', 'rotated']);
+  });
+});
@@ -0,0 +1,558 @@
+import {
+  AccessGroupEntryResponse,
+  AccessGroupInfo,
+  ChatType,
+  NewMessageEntryResponse,
+  RequestOptions,
+} from './backend-types/index.js';
+import {
+  getAllAccessGroups,
+  getAllMessageThreads,
+  getPaginatedDMThread,
+  getPaginatedGroupChatThread,
+} from './data/index.js';
+import {
+  DecryptedMessageWithEnvelope,
+  Signer,
+  decryptAndParseMessage,
+  decryptChatMessage,
+} from './identity/index.js';
+import { getClientContext } from './internal.js';
+
+/**
+ * An async key value store, e.g. backed by IndexedDB, AsyncStorage or a
+ * database table. Values are plain JSON-serializable objects.
+ */
+export interface AsyncKeyValueStore<V = unknown> {
+  get: (key: string) => Promise<V | undefined>;
+  set: (key: string, value: V) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+  keys: () => Promise<string[]>;
+}
+
+export class MemoryKeyValueStore<V = unknown> implements AsyncKeyValueStore<V> {
+  #values = new Map<string, V>();
+
+  async get(key: string) {
+    return this.#values.get(key);
+  }
+
+  async set(key: string, value: V) {
+    this.#values.set(key, value);
+  }
+
+  async delete(key: string) {
+    this.#values.delete(key);
+  }
+
+  async keys() {
+    return Array.from(this.#values.keys());
+  }
+}
+
+export type ConversationMessage = DecryptedMessageWithEnvelope & {
+  id: string;
+  threadId: string;
+  /**
+   * Set when the message was edited after it was first synced.
+   */
+  IsEdited?: boolean;
+};
+
+export interface ConversationThread {
+  id: string;
+  ChatType: ChatType;
+  /**
+   * The access group of the user that messages in this thread are sent from
+   * or to. For group chats this is the same as PartyInfo.
+   */
+  UserInfo: AccessGroupInfo;
+  /**
+   * The other party of a DM, or the group of a group chat.
+   */
+  PartyInfo: AccessGroupInfo;
+  lastMessage: ConversationMessage | null;
+  LatestTimestampNanosString: string;
+  LastReadTimestampNanosString: string;
+  unreadCount: number;
+}
+
+export type ConversationChange =
+  | { type: 'thread'; thread: ConversationThread }
+  | {
+      type: 'message';
+      operation: 'added' | 'updated';
+      message: ConversationMessage;
+    };
+
+export interface ConversationSyncOptions
+  extends Pick<RequestOptions, 'client' | 'nodeURI'> {
+  /**
+   * Where threads and decrypted messages are kept. Defaults to an in-memory
+   * store.
+   */
+  store?: AsyncKeyValueStore;
+  /**
+   * The signer used to decrypt messages. Defaults to the logged in user.
+   */
+  signer?: Signer;
+  /**
+   * The number of messages fetched per request. Defaults to 50.
+   */
+  pageSize?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const THREAD_KEY_PREFIX = 'thread:';
+const MESSAGES_KEY_PREFIX = 'messages:';
+
+const timestampOf = (message: NewMessageEntryResponse) =>
+  BigInt(
+    message.MessageInfo.TimestampNanosString ??
+      message.MessageInfo.TimestampNanos
+  );
+
+const accessGroupKeyOf = (group: AccessGroupInfo) =>
+  `${group.OwnerPublicKeyBase58Check}:${group.AccessGroupKeyName}`;
+
+const unencryptedHexToPlainText = (hex: string) =>
+  new TextDecoder().decode(
+    new Uint8Array((hex.match(/.{1,2}/g) ?? []).map((b) => parseInt(b, 16)))
+  );
+
+/**
+ * Keeps a local copy of the user's DM and group chat threads with their
+ * decrypted messages. Each sync only fetches messages newer than the ones
+ * already stored, and edits made with updateDMMessage or
+ * updateGroupChatMessage replace the stored message with the same timestamp.
+ * Access group keys are decrypted once and cached in memory, never in the
+ * store.
+ * @example
+ * ```ts
+ * const conversations = new ConversationSync({ store: myIndexedDBStore });
+ *
+ * conversations.subscribe((change) => render(change));
+ * await conversations.sync();
+ * ```
+ */
+export class ConversationSync {
+  #store: AsyncKeyValueStore;
+  #options: ConversationSyncOptions;
+  #pageSize: number;
+  #listeners = new Set<(change: ConversationChange) => void>();
+  // group owner + key name -> decrypted access group seed hex
+  #accessGroupKeys = new Map<string, Promise<string>>();
+  #accessGroups: Promise<AccessGroupEntryResponse[]> | null = null;
+  #pendingSync: Promise<ConversationThread[]> | null = null;
+
+  constructor(options: ConversationSyncOptions = {}) {
+    this.#options = options;
+    this.#store = options.store ?? new MemoryKeyValueStore();
+    this.#pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  /**
+   * Calls the listener for every thread and message that is added or
+   * changed. Returns a function that removes the listener.
+   */
+  subscribe(listener: (change: ConversationChange) => void) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns the stored threads, most recently active first.
+   */
+  async getThreads(): Promise<ConversationThread[]> {
+    const keys = (await this.#store.keys()).filter((key) =>
+      key.startsWith(THREAD_KEY_PREFIX)
+    );
+    const threads = (await Promise.all(
+      keys.map((key) => this.#store.get(key))
+    )) as ConversationThread[];
+
+    return threads.sort((a, b) =>
+      BigInt(b.LatestTimestampNanosString) >
+      BigInt(a.LatestTimestampNanosString)
+        ? 1
+        : -1
+    );
+  }
+
+  /**
+   * Returns the stored messages of a thread, oldest first.
+   */
+  async getMessages(threadId: string): Promise<ConversationMessage[]> {
+    return ((await this.#store.get(`${MESSAGES_KEY_PREFIX}${threadId}`)) ??
+      []) as ConversationMessage[];
+  }
+
+  /**
+   * The number of unread messages in a thread, or across all threads.
+   */
+  async getUnreadCount(threadId?: string): Promise<number> {
+    const threads = threadId
+      ? [await this.#getThread(threadId)]
+      : await this.getThreads();
+
+    return threads.reduce((sum, thread) => sum + (thread?.unreadCount ?? 0), 0);
+  }
+
+  /**
+   * Fetches new messages for every thread that changed since the last sync.
+   * Threads without stored messages only get their latest page. Concurrent
+   * calls share the same sync.
+   */
+  sync(): Promise<ConversationThread[]> {
+    if (!this.#pendingSync) {
+      this.#pendingSync = this.#sync().finally(() => {
+        this.#pendingSync = null;
+      });
+    }
+
+    return this.#pendingSync;
+  }
+
+  /**
+   * Fetches up to one page of messages older than the oldest stored message
+   * of a thread. Resolves to the messages that were added.
+   */
+  async loadOlderMessages(threadId: string): Promise<ConversationMessage[]> {
+    const thread = await this.#getThread(threadId);
+
+    if (!thread) {
+      return [];
+    }
+
+    const [oldest] = await this.getMessages(threadId);
+    const page = await this.#fetchPage(
+      thread,
+      oldest
+        ? timestampOf(oldest).toString()
+        : thread.LatestTimestampNanosString
+    );
+
+    return this.#ingest(thread, page);
+  }
+
+  /**
+   * Adds or replaces a single message, e.g. one that was just sent or
+   * edited, without waiting for the next sync.
+   */
+  async ingestMessage(
+    message: NewMessageEntryResponse
+  ): Promise<ConversationMessage> {
+    const thread = await this.#getOrCreateThread(message);
+    const [stored] = await this.#ingest(thread, [message]);
+
+    return stored;
+  }
+
+  /**
+   * Marks every message in the thread as read.
+   */
+  async markRead(threadId: string) {
+    const thread = await this.#getThread(threadId);
+
+    if (!thread) {
+      return;
+    }
+
+    await this.#saveThread({
+      ...thread,
+      LastReadTimestampNanosString: thread.LatestTimestampNanosString,
+      unreadCount: 0,
+    });
+  }
+
+  async #sync() {
+    const userPublicKey = await this.#getSigner().getPublicKey();
+    const { MessageThreads } = await getAllMessageThreads(
+      { UserPublicKeyBase58Check: userPublicKey },
+      this.#options
+    );
+
+    for (const latest of MessageThreads ?? []) {
+      const thread = await this.#getOrCreateThread(latest);
+      const known = BigInt(thread.LatestTimestampNanosString);
+      const fresh: NewMessageEntryResponse[] = [latest];
+      let cursor = (timestampOf(latest) + BigInt(1)).toString();
+
+      while (timestampOf(latest) > known) {
+        const page = await this.#fetchPage(thread, cursor);
+        const newer = page.filter((message) => timestampOf(message) > known);
+        fresh.push(...newer);
+
+        // The first sync of a thread only fetches the latest page, older
+        // ones are loaded with loadOlderMessages.
+        if (
+          !thread.lastMessage ||
+          page.length < this.#pageSize ||
+          newer.length < page.length
+        ) {
+          break;
+        }
+
+        cursor = newer.reduce((min, message) =>
+          timestampOf(message) < timestampOf(min) ? message : min
+        ).MessageInfo.TimestampNanosString;
+      }
+
+      await this.#ingest(thread, fresh);
+    }
+
+    return this.getThreads();
+  }
+
+  async #ingest(
+    thread: ConversationThread,
+    messages: NewMessageEntryResponse[]
+  ): Promise<ConversationMessage[]> {
+    const stored = new Map(
+      (await this.getMessages(thread.id)).map((message) => [
+        message.id,
+        message,
+      ])
+    );
+    const changes: ConversationMessage[] = [];
+
+    for (const message of messages) {
+      const id = timestampOf(message).toString();
+      const existing = stored.get(id);
+      const isEdited =
+        !!existing &&
+        existing.MessageInfo.EncryptedText !==
+          message.MessageInfo.EncryptedText;
+
+      // Messages that failed to decrypt are retried, e.g. once the user has
+      // been added to the group.
+      if (existing && !isEdited && !existing.error) {
+        continue;
+      }
+
+      const decrypted: ConversationMessage = {
+        ...(await this.#decrypt(message)),
+        id,
+        threadId: thread.id,
+        ...(isEdited || existing?.IsEdited ? { IsEdited: true } : {}),
+      };
+
+      if (existing && !isEdited && decrypted.error) {
+        continue;
+      }
+      stored.set(id, decrypted);
+      changes.push(decrypted);
+      this.#emit({
+        type: 'message',
+        operation: existing ? 'updated' : 'added',
+        message: decrypted,
+      });
+    }
+
+    if (!changes.length) {
+      return [];
+    }
+
+    const sorted = Array.from(stored.values()).sort((a, b) =>
+      timestampOf(a) > timestampOf(b) ? 1 : -1
+    );
+    const lastMessage = sorted[sorted.length - 1];
+    const lastRead = BigInt(thread.LastReadTimestampNanosString);
+    await this.#store.set(`${MESSAGES_KEY_PREFIX}${thread.id}`, sorted);
+    await this.#saveThread({
+      ...thread,
+      lastMessage,
+      LatestTimestampNanosString: timestampOf(lastMessage).toString(),
+      unreadCount: sorted.filter(
+        (message) => !message.IsSender && timestampOf(message) > lastRead
+      ).length,
+    });
+
+    return changes;
+  }
+
+  async #fetchPage(thread: ConversationThread, StartTimeStampString: string) {
+    if (thread.ChatType === ChatType.GROUPCHAT) {
+      const { GroupChatMessages } = await getPaginatedGroupChatThread(
+        {
+          UserPublicKeyBase58Check: thread.PartyInfo.OwnerPublicKeyBase58Check,
+          AccessGroupKeyName: thread.PartyInfo.AccessGroupKeyName,
+          StartTimeStampString,
+          MaxMessagesToFetch: this.#pageSize,
+        },
+        this.#options
+      );
+
+      return GroupChatMessages ?? [];
+    }
+
+    const { ThreadMessages } = await getPaginatedDMThread(
+      {
+        UserGroupOwnerPublicKeyBase58Check:
+          thread.UserInfo.OwnerPublicKeyBase58Check,
+        UserGroupKeyName: thread.UserInfo.AccessGroupKeyName,
+        PartyGroupOwnerPublicKeyBase58Check:
+          thread.PartyInfo.OwnerPublicKeyBase58Check,
+        PartyGroupKeyName: thread.PartyInfo.AccessGroupKeyName,
+        StartTimeStampString,
+        MaxMessagesToFetch: this.#pageSize,
+      },
+      this.#options
+    );
+
+    return ThreadMessages ?? [];
+  }
+
+  async #decrypt(
+    message: NewMessageEntryResponse
+  ): Promise<DecryptedMessageWithEnvelope> {
+    const signer = this.#getSigner();
+
+    if (message.ChatType !== ChatType.GROUPCHAT) {
+      return getClientContext(this.#options).identity.decryptMessage(
+        message,
+        [],
+        signer
+      );
+    }
+
+    const userPublicKey = await signer.getPublicKey();
+    const IsSender =
+      message.SenderInfo.OwnerPublicKeyBase58Check === userPublicKey;
+
+    return decryptAndParseMessage(
+      message,
+      IsSender,
+      async () => {
+        if (message.MessageInfo.ExtraData?.unencrypted) {
+          return unencryptedHexToPlainText(message.MessageInfo.EncryptedText);
+        }
+
+        try {
+          return await this.#decryptGroupMessage(message);
+        } catch {
+          // The cached key is stale if the group key was rotated since, so we
+          // look it up again before giving up.
+          this.#forgetAccessGroupKey(message.RecipientInfo);
+          return this.#decryptGroupMessage(message);
+        }
+      },
+      'Could not decrypt group message'
+    );
+  }
+
+  async #decryptGroupMessage(message: NewMessageEntryResponse) {
+    return decryptChatMessage(
+      await this.#getAccessGroupSeedHex(message.RecipientInfo),
+      message.SenderInfo.AccessGroupPublicKeyBase58Check,
+      message.MessageInfo.EncryptedText
+    );
+  }
+
+  #forgetAccessGroupKey(group: AccessGroupInfo) {
+    this.#accessGroupKeys.delete(accessGroupKeyOf(group));
+    this.#accessGroups = null;
+  }
+
+  #getAccessGroupSeedHex(group: AccessGroupInfo) {
+    const key = accessGroupKeyOf(group);
+    let seedHex = this.#accessGroupKeys.get(key);
+
+    if (!seedHex) {
+      seedHex = this.#findAccessGroup(group).then(({ EncryptedKey }) =>
+        getClientContext(this.#options)
+          .identity.decryptAccessGroupKeyPair(EncryptedKey, this.#getSigner())
+          .then(({ seedHex }) => seedHex)
+      );
+      // don't cache failures, the user may be added to the group later
+      seedHex.catch(() => this.#accessGroupKeys.delete(key));
+      this.#accessGroupKeys.set(key, seedHex);
+    }
+
+    return seedHex;
+  }
+
+  async #findAccessGroup(group: AccessGroupInfo) {
+    const find = (groups: AccessGroupEntryResponse[]) =>
+      groups.find(
+        (g) =>
+          g.AccessGroupOwnerPublicKeyBase58Check ===
+            group.OwnerPublicKeyBase58Check &&
+          g.AccessGroupKeyName === group.AccessGroupKeyName &&
+          g.AccessGroupMemberEntryResponse
+      )?.AccessGroupMemberEntryResponse;
+    let member = this.#accessGroups && find(await this.#accessGroups);
+
+    if (!member) {
+      // the cached list may predate the user joining the group
+      this.#accessGroups = this.#getSigner()
+        .getPublicKey()
+        .then((PublicKeyBase58Check) =>
+          getAllAccessGroups({ PublicKeyBase58Check }, this.#options)
+        )
+        .then(({ AccessGroupsOwned, AccessGroupsMember }) => [
+          ...(AccessGroupsOwned ?? []),
+          ...(AccessGroupsMember ?? []),
+        ]);
+      member = find(await this.#accessGroups);
+    }
+
+    if (!member?.EncryptedKey) {
+      throw new Error('access group key not found for group message');
+    }
+
+    return member;
+  }
+
+  async #getOrCreateThread(
+    message: NewMessageEntryResponse
+  ): Promise<ConversationThread> {
+    const userPublicKey = await this.#getSigner().getPublicKey();
+    const isGroupChat = message.ChatType === ChatType.GROUPCHAT;
+    const isSender =
+      message.SenderInfo.OwnerPublicKeyBase58Check === userPublicKey;
+    const PartyInfo =
+      isGroupChat || isSender ? message.RecipientInfo : message.SenderInfo;
+    const UserInfo =
+      isGroupChat || !isSender ? message.RecipientInfo : message.SenderInfo;
+    const id = `${isGroupChat ? 'group' : 'dm'}:${
+      PartyInfo.OwnerPublicKeyBase58Check
+    }:${PartyInfo.AccessGroupKeyName}`;
+
+    return (
+      (await this.#getThread(id)) ?? {
+        id,
+        ChatType: message.ChatType,
+        UserInfo,
+        PartyInfo,
+        lastMessage: null,
+        LatestTimestampNanosString: '0',
+        LastReadTimestampNanosString: '0',
+        unreadCount: 0,
+      }
+    );
+  }
+
+  async #getThread(threadId: string) {
+    return (await this.#store.get(`${THREAD_KEY_PREFIX}${threadId}`)) as
+      | ConversationThread
+      | undefined;
+  }
+
+  async #saveThread(thread: ConversationThread) {
+    await this.#store.set(`${THREAD_KEY_PREFIX}${thread.id}`, thread);
+    this.#emit({ type: 'thread', thread });
+  }
+
+  #getSigner() {
+    return (
+      this.#options.signer ?? getClientContext(this.#options).identity.signer()
+    );
+  }
+
+  #emit(change: ConversationChange) {
+    this.#listeners.forEach((listener) => listener(change));
+  }
+}
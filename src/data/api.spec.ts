@@ -0,0 +1,156 @@
+import { jsonResponse } from '../test-utils.js';
+import { api, isIdempotentRequest } from './api.js';
+
+describe('api', () => {
+  const originalFetch = globalThis.fetch;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    fetchMock = jest.fn();
+    globalThis.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+    api.configure({
+      nodeURI: 'https://node.deso.org',
+      nodeURIs: ['https://node.deso.org'],
+      retry: { retries: 0 },
+    });
+  });
+
+  it('fails over to the next node when a request fails', async () => {
+    api.configure({
+      nodeURIs: ['https://node-a.test', 'https://node-b.test'],
+      retry: { retries: 1, minDelayMs: 0 },
+    });
+    fetchMock.mockImplementation((url: string) =>
+      url.startsWith('https://node-a.test')
+        ? jsonResponse({ error: 'bad gateway' }, 502)
+        : jsonResponse({ BlockHeight: 10 })
+    );
+
+    const res = await api.get('api/v0/get-app-state');
+
+    expect(res).toEqual({ BlockHeight: 10 });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://node-a.test/api/v0/get-app-state',
+      'https://node-b.test/api/v0/get-app-state',
+    ]);
+  });
+
+  it('does not retry requests that are not idempotent', async () => {
+    api.configure({
+      nodeURIs: ['https://node-c.test', 'https://node-d.test'],
+      retry: { retries: 2, minDelayMs: 0 },
+    });
+    fetchMock.mockImplementation(() =>
+      jsonResponse({ error: 'internal error' }, 500)
+    );
+
+    await expect(
+      api.post('api/v0/admin/update-global-feed', {})
+    ).rejects.toMatchObject({ status: 500 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('resolves a retried submit if the transaction already made it to the mempool', async () => {
+    api.configure({
+      nodeURIs: ['https://node-e.test', 'https://node-f.test'],
+      retry: { retries: 1, minDelayMs: 0 },
+    });
+    fetchMock.mockImplementation((url: string) =>
+      url.endsWith('get-txn')
+        ? jsonResponse({ TxnFound: true })
+        : jsonResponse({ error: 'gateway timeout' }, 504)
+    );
+
+    const res = await api.post(
+      'https://node-e.test/api/v0/submit-transaction',
+      {
+        TransactionHex: '0102',
+      }
+    );
+
+    expect(res).toEqual({
+      TxnHashHex: expect.stringMatching(/^[0-9a-f]{64}$/),
+      Transaction: null,
+      PostEntryResponse: null,
+      IsDuplicate: true,
+    });
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://node-e.test/api/v0/submit-transaction',
+      'https://node-f.test/api/v0/get-txn',
+    ]);
+  });
+
+  it('times out requests that take too long', async () => {
+    api.configure({
+      nodeURIs: ['https://node-g.test'],
+      retry: { retries: 0 },
+    });
+    fetchMock.mockImplementation(
+      (url: string, { signal }: { signal: AbortSignal }) =>
+        new Promise((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+
+    await expect(
+      api.get('api/v0/get-app-state', { timeoutMs: 10 })
+    ).rejects.toThrow(
+      'Request to https://node-g.test/api/v0/get-app-state timed out after 10ms'
+    );
+  });
+
+  it('health checks recovered nodes without holding up requests', async () => {
+    api.configure({
+      nodeURIs: ['https://node-h.test', 'https://node-i.test'],
+      retry: { retries: 1, minDelayMs: 0 },
+      unhealthyNodeCooldownMs: 0,
+    });
+    let passHealthCheck = () => {};
+    fetchMock.mockImplementation((url: string) => {
+      if (url.endsWith('health-check')) {
+        return new Promise((resolve) => {
+          passHealthCheck = () => resolve(jsonResponse({}));
+        });
+      }
+      return url.startsWith('https://node-h.test') &&
+        fetchMock.mock.calls.length === 1
+        ? jsonResponse({ error: 'bad gateway' }, 502)
+        : jsonResponse({ BlockHeight: 10 });
+    });
+
+    await api.get('api/v0/get-app-state');
+    await api.get('api/v0/get-app-state');
+    passHealthCheck();
+    await new Promise((resolve) => setTimeout(resolve));
+    await api.get('api/v0/get-app-state');
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://node-h.test/api/v0/get-app-state',
+      'https://node-h.test/api/v0/health-check',
+      'https://node-i.test/api/v0/get-app-state',
+      'https://node-i.test/api/v0/get-app-state',
+      'https://node-h.test/api/v0/get-app-state',
+    ]);
+  });
+});
+
+describe('isIdempotentRequest', () => {
+  it('treats reads and construction endpoints as idempotent', () => {
+    expect(isIdempotentRequest('GET', 'api/v0/health-check')).toBe(true);
+    expect(isIdempotentRequest('POST', 'api/v0/submit-post')).toBe(true);
+    expect(
+      isIdempotentRequest(
+        'POST',
+        'https://node.deso.org/api/v0/admin/get-nft-drop'
+      )
+    ).toBe(true);
+    expect(isIdempotentRequest('POST', 'api/v0/upload-image')).toBe(false);
+    expect(
+      isIdempotentRequest('POST', 'api/v0/submit-atomic-transaction')
+    ).toBe(false);
+  });
+});
@@ -1,42 +1,278 @@
-class DeSoAPIError {
-  message: string;
+import { sha256 } from '@noble/hashes/sha256';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type {
+  DuplicateSubmitTransactionResponse,
+  RequestOptions,
+} from '../backend-types/index.js';
+import { parseJSON, stringifyJSON } from '../identity/bigint-utils.js';
+import {
+  DeSoErrorOptions,
+  DeSoHTTPError,
+  DeSoNetworkError,
+  DeSoTimeoutError,
+  createHTTPError,
+  summarizeRequestBody,
+} from '../identity/error-types.js';
+
+/**
+ * The subset of the fetch API the clients rely on. The global fetch satisfies
+ * it, as does anything that resolves to an object with these response fields,
+ * e.g. MockDesoNode.fetch.
+ */
+export interface FetchResponse {
+  ok: boolean;
   status: number;
+  statusText?: string;
+  json(): Promise<any>;
+  text(): Promise<string>;
+}
 
-  constructor(message: string, status: number) {
-    this.message = message;
-    this.status = status;
-  }
+export type FetchFunction = (url: string, init?: any) => Promise<FetchResponse>;
 
-  toString() {
-    return this.message;
-  }
-}
+/**
+ * Builds a response for a FetchFunction from a status and the raw body text.
+ * Like a real response, json() rejects if the body is not valid json.
+ */
+export const createFetchResponse = (
+  status: number,
+  text: string,
+  statusText = ''
+): FetchResponse => ({
+  ok: status >= 200 && status < 300,
+  status,
+  statusText,
+  json: () => Promise.resolve(text).then(parseJSON),
+  text: () => Promise.resolve(text),
+});
 
-const wrappedFetch = (url: string, options: any) => {
-  return fetch(url, options).then((res) => {
-    if (!res.ok) {
-      return res.json().then((json) => {
-        throw new DeSoAPIError(json.error, res.status);
+const wrappedFetch = (
+  url: string,
+  options: RequestInit,
+  context: DeSoErrorOptions = {},
+  fetchFn: FetchFunction = fetch
+) => {
+  return fetchFn(url, options).then(
+    (res) => {
+      if (!res.ok) {
+        // Gateways in front of a node can respond with html error pages, so we
+        // fall back to the status text if the body is not json.
+        return res
+          .json()
+          .catch(() => ({ error: res.statusText }))
+          .then((json) => {
+            throw createHTTPError(json.error, res.status, context);
+          });
+      }
+      return res.text().then((rawBodyText) => {
+        if (rawBodyText.length === 0) {
+          // In the case where the response body is empty, it will fail to parse
+          // as JSON so we just handle it as a special case.
+          return null;
+        } else {
+          return parseJSON(rawBodyText);
+        }
       });
+    },
+    (e) => {
+      // fetch rejects with a TypeError when the request could not be sent.
+      // Anything else (e.g. an abort) is passed through as is.
+      throw e instanceof TypeError
+        ? new DeSoNetworkError(`Network request to ${url} failed`, {
+            ...context,
+            cause: e,
+          })
+        : e;
     }
-    return res.text().then((rawBodyText) => {
-      if (rawBodyText.length === 0) {
-        // In the case where the response body is empty, it will fail to parse
-        // as JSON so we just handle it as a special case.
-        return null;
-      } else {
-        return JSON.parse(rawBodyText);
-      }
+  );
+};
+
+/**
+ * Fetches the url, aborting if the signal is aborted or the timeout elapses.
+ */
+const fetchWithTimeout = (
+  url: string,
+  init: RequestInit,
+  {
+    signal,
+    timeoutMs,
+    fetchFn,
+  }: { signal?: AbortSignal; timeoutMs?: number; fetchFn?: FetchFunction },
+  context: DeSoErrorOptions = {}
+) => {
+  if (!signal && !timeoutMs) {
+    return wrappedFetch(url, init, context, fetchFn);
+  }
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  let timedOut = false;
+  const timeoutId = timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs)
+    : undefined;
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
+  }
+
+  return wrappedFetch(
+    url,
+    { ...init, signal: controller.signal },
+    context,
+    fetchFn
+  )
+    .catch((e) => {
+      throw timedOut
+        ? new DeSoTimeoutError(
+            `Request to ${url} timed out after ${timeoutMs}ms`,
+            { ...context, cause: e }
+          )
+        : e;
+    })
+    .finally(() => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     });
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
   });
 };
 
-export interface DesoNodeClientConfig {
+export interface RetryPolicy {
+  /**
+   * The number of times to retry a failed request. Defaults to 0.
+   */
+  retries?: number;
+  /**
+   * The delay before the first retry. Each subsequent retry doubles the delay
+   * up to maxDelayMs. Defaults to 250ms.
+   */
+  minDelayMs?: number;
+  /**
+   * The maximum delay between retries. Defaults to 5000ms.
+   */
+  maxDelayMs?: number;
+  /**
+   * Decides if a failed request should be retried. By default, network
+   * errors, timeouts, 429s and 5xx responses are retried.
+   */
+  shouldRetry?: (error: unknown) => boolean;
+}
+
+export interface APIRequestOptions {
+  /**
+   * Aborts the request, including any pending retries.
+   */
+  signal?: AbortSignal;
+  /**
+   * Aborts a single attempt if it does not complete in time. Overrides the
+   * configured timeoutMs.
+   */
+  timeoutMs?: number;
+  /**
+   * Overrides the configured retry policy. Pass false to disable retries.
+   */
+  retry?: RetryPolicy | false;
+  /**
+   * Whether the request is safe to send more than once. By default, GET
+   * requests and POSTs to read or construction endpoints are considered
+   * idempotent. See isIdempotentRequest.
+   */
+  idempotent?: boolean;
+}
+
+export interface APITransportConfig {
+  /**
+   * Default timeout for each attempt of a request. Defaults to no timeout.
+   */
+  timeoutMs?: number;
+  /**
+   * Default retry policy. Defaults to no retries.
+   */
+  retry?: RetryPolicy;
+  /**
+   * How long a node that failed a request is skipped before it is health
+   * checked and used again. Defaults to 30 seconds.
+   */
+  unhealthyNodeCooldownMs?: number;
+  /**
+   * The fetch implementation used to send requests. Defaults to the global
+   * fetch. Useful for pointing a client at an in-process node, e.g.
+   * MockDesoNode.
+   */
+  fetch?: FetchFunction;
+}
+
+const DEFAULT_MIN_RETRY_DELAY_MS = 250;
+const DEFAULT_MAX_RETRY_DELAY_MS = 5000;
+const DEFAULT_UNHEALTHY_NODE_COOLDOWN_MS = 30 * 1000;
+const HEALTH_CHECK_ENDPOINT = 'api/v0/health-check';
+const SUBMIT_TRANSACTION_ENDPOINT = 'api/v0/submit-transaction';
+
+// Endpoints that change state on the node. Everything else is either a read
+// or constructs an unsigned transaction, so it is safe to send again.
+// submit-transaction is handled separately since the network will never
+// include the same signed transaction twice.
+const NON_IDEMPOTENT_ENDPOINTS = [
+  /api\/v0\/admin\/(?!get-)/,
+  /api\/v0\/(update-user-global-metadata|delete-pii|block-public-key|set-notification-metadata)$/,
+  /api\/v0\/(resend-verify-email|verify-email|upload-image|upload-video)$/,
+  /api\/v0\/(send-phone-number-verification-text|submit-phone-number-verification-code)$/,
+  /api\/v0\/(submit-atomic-transaction)$/,
+];
+
+/**
+ * Returns true if a request can be retried without side effects.
+ */
+export const isIdempotentRequest = (method: string, endpoint: string) => {
+  if (method === 'GET') {
+    return true;
+  }
+
+  const path = endpoint.replace(/^(https?:\/\/[^/]+)?\/*/, '');
+
+  return !NON_IDEMPOTENT_ENDPOINTS.some((pattern) => pattern.test(path));
+};
+
+const isRetryableError = (error: unknown) => {
+  if (error instanceof DeSoHTTPError) {
+    return error.status === 429 || error.status >= 500;
+  }
+
+  return error instanceof DeSoNetworkError || error instanceof DeSoTimeoutError;
+};
+
+export interface DesoNodeClientConfig extends APITransportConfig {
   nodeURI?: string;
+  /**
+   * Ordered list of node URIs. The first healthy node is used for each
+   * request, and failed requests are retried against the next one. If
+   * nodeURI is also provided, it is placed first.
+   */
+  nodeURIs?: string[];
   mediaURI?: string;
 }
 
-export interface DesoMediaClientConfig {
+export interface DesoMediaClientConfig extends APITransportConfig {
   mediaURI?: string;
 }
 
@@ -44,8 +280,12 @@ export const cleanURL = (origin: string, endpoint: string) => {
   return `${origin.replace(/\/+$/, '')}/${endpoint.replace(/^\/+/, '')}`;
 };
 
-class APIClient {
+export class APIClient {
   protected uri = '';
+  protected fallbackURIs: string[] = [];
+  protected transportConfig: APITransportConfig = {};
+  #unhealthyUntil = new Map<string, number>();
+  #probes = new Map<string, Promise<boolean>>();
 
   post(
     endpoint: string,
@@ -53,9 +293,17 @@ class APIClient {
     options: {
       contentType?: 'multipart/form-data';
       headers?: { [k: string]: string };
-    } = {}
+    } & APIRequestOptions = {}
   ): Promise<any> {
-    const contentType = options.contentType ?? 'application/json';
+    const {
+      contentType = 'application/json',
+      headers,
+      signal,
+      timeoutMs,
+      retry,
+      idempotent,
+      ...fetchOptions
+    } = options;
     let body: FormData | string;
 
     switch (contentType) {
@@ -66,65 +314,298 @@ class APIClient {
         }
         break;
       case 'application/json':
-        body = JSON.stringify(data);
+        body = stringifyJSON(data);
         break;
       default:
         throw new Error(`Unsupported content type: ${contentType}`);
     }
 
-    return wrappedFetch(this.#url(endpoint), {
-      method: 'POST',
-      body,
-      headers: {
-        // NOTE: We only set the content type header if it's not
-        // multipart/form-data.  This is because we need the browser to
-        // automatically set the boundary for us when we use FormData:
-        // https://stackoverflow.com/a/39281156
-        ...(contentType !== 'multipart/form-data' && {
-          'Content-Type': contentType,
-        }),
-        ...options.headers,
+    return this.#request(
+      endpoint,
+      {
+        method: 'POST',
+        body,
+        headers: {
+          // NOTE: We only set the content type header if it's not
+          // multipart/form-data.  This is because we need the browser to
+          // automatically set the boundary for us when we use FormData:
+          // https://stackoverflow.com/a/39281156
+          ...(contentType !== 'multipart/form-data' && {
+            'Content-Type': contentType,
+          }),
+          ...headers,
+        },
+        ...fetchOptions,
       },
-      ...options,
-    });
+      { signal, timeoutMs, retry, idempotent },
+      data
+    );
   }
 
-  get(endpoint: string): Promise<any> {
-    return wrappedFetch(this.#url(endpoint), { method: 'GET' });
+  get(endpoint: string, options: APIRequestOptions = {}): Promise<any> {
+    return this.#request(endpoint, { method: 'GET' }, options);
   }
 
   /**
-   * Returns a URL for the given node URI and endpoint after normalizing any
-   * trailing or leading slashes.
+   * Checks the health of every configured node and updates which nodes are
+   * used for subsequent requests.
+   * @returns a map of node URI to whether the node is healthy.
+   */
+  async checkNodeHealth(): Promise<Record<string, boolean>> {
+    const uris = [this.uri, ...this.fallbackURIs];
+    const results = await Promise.all(uris.map((uri) => this.#probe(uri)));
+
+    return uris.reduce((health, uri, i) => {
+      health[uri] = results[i];
+      return health;
+    }, {} as Record<string, boolean>);
+  }
+
+  protected configureTransport({
+    timeoutMs,
+    retry,
+    unhealthyNodeCooldownMs,
+    fetch,
+  }: APITransportConfig) {
+    this.transportConfig = {
+      ...this.transportConfig,
+      ...(typeof timeoutMs === 'number' && { timeoutMs }),
+      ...(retry && { retry }),
+      ...(typeof unhealthyNodeCooldownMs === 'number' && {
+        unhealthyNodeCooldownMs,
+      }),
+      ...(fetch && { fetch }),
+    };
+  }
+
+  /**
+   * Sends the request, retrying failed attempts according to the retry policy.
+   * Relative endpoints, and full URLs on the primary node, fail over to the
+   * next healthy node on each retry.
+   * @private
+   */
+  async #request(
+    endpoint: string,
+    init: RequestInit,
+    options: APIRequestOptions,
+    data?: Record<string, any>
+  ) {
+    const path = this.#relativePath(endpoint);
+    const policy =
+      options.retry === false
+        ? {}
+        : options.retry ?? this.transportConfig.retry ?? {};
+    const isSubmitTransaction =
+      path === SUBMIT_TRANSACTION_ENDPOINT && !!data?.TransactionHex;
+    const canRetry =
+      options.idempotent ?? isIdempotentRequest(init.method ?? 'GET', endpoint);
+    const maxAttempts = 1 + (canRetry ? policy.retries ?? 0 : 0);
+    const shouldRetry = policy.shouldRetry ?? isRetryableError;
+    const timeoutMs = options.timeoutMs ?? this.transportConfig.timeoutMs;
+    const fetchFn = this.transportConfig.fetch;
+    const requestSummary = summarizeRequestBody(data);
+    const triedURIs: string[] = [];
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const uri = path === null ? null : this.#selectNode(triedURIs);
+      const url = uri === null ? endpoint : cleanURL(uri, path as string);
+
+      try {
+        // If a previous attempt to submit this exact transaction made it to
+        // the mempool, sending it again would just fail as a duplicate.
+        if (attempt > 0 && isSubmitTransaction && uri !== null) {
+          const TxnHashHex = bytesToHex(
+            sha256(sha256(hexToBytes(data.TransactionHex)))
+          );
+          const { TxnFound } = await fetchWithTimeout(
+            cleanURL(uri, 'api/v0/get-txn'),
+            {
+              method: 'POST',
+              body: JSON.stringify({ TxnHashHex }),
+              headers: { 'Content-Type': 'application/json' },
+            },
+            { signal: options.signal, timeoutMs, fetchFn }
+          );
+
+          if (TxnFound) {
+            const duplicate: DuplicateSubmitTransactionResponse = {
+              TxnHashHex,
+              Transaction: null,
+              PostEntryResponse: null,
+              IsDuplicate: true,
+            };
+
+            return duplicate;
+          }
+        }
+
+        return await fetchWithTimeout(
+          url,
+          init,
+          { signal: options.signal, timeoutMs, fetchFn },
+          { endpoint: path ?? endpoint, requestSummary }
+        );
+      } catch (e) {
+        lastError = e;
+
+        if (options.signal?.aborted || !shouldRetry(e)) {
+          throw e;
+        }
+
+        if (uri !== null) {
+          triedURIs.push(uri);
+          this.#markUnhealthy(uri);
+        }
+
+        if (attempt + 1 < maxAttempts) {
+          await sleep(
+            Math.min(
+              policy.maxDelayMs ?? DEFAULT_MAX_RETRY_DELAY_MS,
+              (policy.minDelayMs ?? DEFAULT_MIN_RETRY_DELAY_MS) * 2 ** attempt
+            ),
+            options.signal
+          );
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Returns the endpoint relative to the configured nodes, or null if the
+   * endpoint is a full URL for some other host.
    * @private
    */
-  #url(endpoint: string) {
+  #relativePath(endpoint: string): string | null {
     if (endpoint.startsWith('http://') || endpoint.startsWith('https://')) {
-      // If the endpoint is a full URL, just use it directly.
-      // This is an optional case that allows us to override the node URI.
-      return endpoint;
+      // If the endpoint is a full URL, just use it directly. This is an
+      // optional case that allows us to override the node URI. We only fail
+      // over if it points at the primary node.
+      const origin = this.uri.replace(/\/+$/, '');
+      return this.uri && endpoint.startsWith(`${origin}/`)
+        ? endpoint.slice(origin.length + 1)
+        : null;
     }
-    // Otherwise use the node URI and endpoint to construct a URL.
-    // This will be the typical case.
-    return cleanURL(this.uri, endpoint);
+    // Otherwise the endpoint is relative to the node URI. This will be the
+    // typical case.
+    return endpoint.replace(/^\/+/, '');
+  }
+
+  /**
+   * Picks the node for the next attempt. Healthy nodes that have not been
+   * tried yet are preferred in the configured order. Nodes that are past their
+   * cooldown are health checked in the background, so requests never wait on
+   * a probe, and are used again once the check passes.
+   * @private
+   */
+  #selectNode(triedURIs: string[]) {
+    const uris = [this.uri, ...this.fallbackURIs];
+    const now = Date.now();
+    const healthy: string[] = [];
+    const unhealthy: string[] = [];
+
+    for (const uri of uris) {
+      const unhealthyUntil = this.#unhealthyUntil.get(uri);
+
+      if (unhealthyUntil === undefined) {
+        healthy.push(uri);
+      } else {
+        if (unhealthyUntil <= now) {
+          this.#probe(uri);
+        }
+        unhealthy.push(uri);
+      }
+    }
+
+    // If every node is unhealthy or has already been tried, we still try them
+    // again rather than failing without sending anything.
+    const candidates = [...healthy, ...unhealthy];
+
+    return (
+      candidates.find((uri) => !triedURIs.includes(uri)) ??
+      candidates[triedURIs.length % candidates.length]
+    );
+  }
+
+  /**
+   * Health checks the node. Concurrent checks of the same node share a single
+   * request, and a failed check starts a new cooldown.
+   * @private
+   */
+  #probe(uri: string): Promise<boolean> {
+    const pending = this.#probes.get(uri);
+
+    if (pending) {
+      return pending;
+    }
+
+    const probe = fetchWithTimeout(
+      cleanURL(uri, HEALTH_CHECK_ENDPOINT),
+      { method: 'GET' },
+      {
+        timeoutMs: this.transportConfig.timeoutMs,
+        fetchFn: this.transportConfig.fetch,
+      }
+    )
+      .then(
+        () => {
+          this.#unhealthyUntil.delete(uri);
+          return true;
+        },
+        () => {
+          this.#markUnhealthy(uri);
+          return false;
+        }
+      )
+      .finally(() => this.#probes.delete(uri));
+    this.#probes.set(uri, probe);
+
+    return probe;
+  }
+
+  /**
+   * @private
+   */
+  #markUnhealthy(uri: string) {
+    this.#unhealthyUntil.set(
+      uri,
+      Date.now() +
+        (this.transportConfig.unhealthyNodeCooldownMs ??
+          DEFAULT_UNHEALTHY_NODE_COOLDOWN_MS)
+    );
   }
 }
 
-class DeSoNodeClient extends APIClient {
+export class DeSoNodeClient extends APIClient {
   override uri = 'https://node.deso.org';
 
   get nodeURI() {
     return this.uri;
   }
 
+  get nodeURIs() {
+    return [this.uri, ...this.fallbackURIs];
+  }
+
   configure(options: DesoNodeClientConfig) {
-    if (typeof options.nodeURI === 'string') {
+    if (options.nodeURIs?.length) {
+      const nodeURIs = [
+        ...(options.nodeURI ? [options.nodeURI] : []),
+        ...options.nodeURIs,
+      ].filter((uri, i, uris) => uris.indexOf(uri) === i);
+
+      [this.uri, ...this.fallbackURIs] = nodeURIs;
+    } else if (typeof options.nodeURI === 'string') {
       this.uri = options.nodeURI;
     }
+
+    this.configureTransport(options);
   }
 }
 
-class DeSoMediaClient extends APIClient {
+export class DeSoMediaClient extends APIClient {
   override uri = 'https://media.deso.org';
 
   get mediaURI() {
@@ -135,8 +616,24 @@ class DeSoMediaClient extends APIClient {
     if (typeof options.mediaURI === 'string') {
       this.uri = options.mediaURI;
     }
+
+    this.configureTransport(options);
   }
 }
 
 export const media = new DeSoMediaClient();
 export const api = new DeSoNodeClient();
+
+/**
+ * Returns the node client of the client a request is made through, or the
+ * default one.
+ */
+export const getNodeClient = (options?: RequestOptions) =>
+  options?.client?.api ?? api;
+
+/**
+ * Returns the media client of the client a request is made through, or the
+ * default one.
+ */
+export const getMediaClient = (options?: RequestOptions) =>
+  options?.client?.media ?? media;
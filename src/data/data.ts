@@ -51,6 +51,7 @@ import {
   GetNFTShowcaseRequest,
   GetNFTShowcaseResponse,
   GetNotificationsCountRequest,
+  GetNotificationsCountResponse,
   GetNotificationsRequest,
   GetNotificationsResponse,
   GetPaginatedAccessGroupMembersRequest,
@@ -105,7 +106,9 @@ import {
   UserAssociationQuery,
   UserAssociationsResponse,
 } from '../backend-types/index.js';
-import { api, cleanURL } from './api.js';
+import { DeSoTimeoutError } from '../identity/error-types.js';
+import { cleanURL, getNodeClient } from './api.js';
+import { getEntityCache } from './entity-cache.js';
 /**
  * Returns a type that requires the given keys to be present in the partial.
  *
@@ -131,7 +134,7 @@ export const getPostsStateless = (
   options?: RequestOptions
 ): Promise<GetPostsStatelessResponse> => {
   const endpoint = 'api/v0/get-posts-stateless';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -149,9 +152,21 @@ export const getSinglePost = (
   options?: RequestOptions
 ): Promise<GetSinglePostResponse> => {
   const endpoint = 'api/v0/get-single-post';
-  return api.post(
-    options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
-    params
+  const request = (): Promise<GetSinglePostResponse> =>
+    getNodeClient(options).post(
+      options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
+      params
+    );
+  const cache = getEntityCache(options);
+
+  if (!cache.enabled) {
+    return request();
+  }
+
+  return cache.get(
+    `${options?.nodeURI ?? ''}:post:${JSON.stringify(params)}`,
+    request,
+    () => ({ postHashes: [params.PostHashHex] })
   );
 };
 
@@ -172,7 +187,7 @@ export const getPostsForUser = (
   options?: RequestOptions
 ): Promise<GetPostsForPublicKeyResponse> => {
   const endpoint = 'api/v0/get-posts-for-public-key';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -187,7 +202,7 @@ export const getHotFeed = (
   options?: RequestOptions
 ): Promise<HotFeedPageResponse> => {
   const endpoint = 'api/v0/get-hot-feed';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -212,7 +227,7 @@ export const getDiamondedPosts = (
   options?: RequestOptions
 ) => {
   const endpoint = 'api/v0/get-diamonded-posts';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -230,7 +245,7 @@ export const getLikesForPost = (
   options?: RequestOptions
 ): Promise<GetLikesForPostResponse> => {
   const endpoint = 'api/v0/get-likes-for-post';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -248,7 +263,7 @@ export const getDiamondsForPost = (
   options?: RequestOptions
 ): Promise<GetDiamondsForPostResponse> => {
   const endpoint = 'api/v0/get-diamonds-for-post';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -266,7 +281,7 @@ export const getRepostsForPost = (
   options?: RequestOptions
 ): Promise<GetRepostsForPostResponse> => {
   const endpoint = 'api/v0/get-reposts-for-post';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -284,7 +299,7 @@ export const getQuoteRepostsForPost = (
   options?: RequestOptions
 ): Promise<GetQuoteRepostsForPostResponse> => {
   const endpoint = 'api/v0/get-quote-reposts-for-post';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -299,7 +314,7 @@ export const getPostsHashHexList = (
   options?: RequestOptions
 ): Promise<GetPostsHashHexListResponse> => {
   const endpoint = 'api/v0/get-posts-hashhexlist';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -315,15 +330,62 @@ export type GetUsersStatelessParams = PartialWithRequiredFields<
   GetUsersStatelessRequest,
   'PublicKeysBase58Check'
 >;
-export const getUsersStateless = (
+export const getUsersStateless = async (
   params: GetUsersStatelessParams,
   options?: RequestOptions
 ): Promise<GetUsersResponse> => {
   const endpoint = 'api/v0/get-users-stateless';
-  return api.post(
-    options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
-    params
-  );
+  const request = (
+    requestParams: GetUsersStatelessParams
+  ): Promise<GetUsersResponse> =>
+    getNodeClient(options).post(
+      options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
+      requestParams
+    );
+  const cache = getEntityCache(options);
+
+  if (!cache.enabled) {
+    return request(params);
+  }
+
+  // Users requested with the same flags are batched into a single request,
+  // one cache entry per user.
+  const { PublicKeysBase58Check, ...flags } = params;
+  const publicKeys = Array.from(new Set(PublicKeysBase58Check ?? []));
+  const fetchMany = async (batch: string[]) => {
+    const { UserList, ...rest } = await request({
+      ...flags,
+      PublicKeysBase58Check: batch,
+    });
+    return new Map(
+      (UserList ?? []).map((user) => [
+        user.PublicKeyBase58Check,
+        { ...rest, user },
+      ])
+    );
+  };
+  const entries = await Promise.all(
+    publicKeys.map((publicKey) =>
+      cache.getBatched(
+        `${options?.nodeURI ?? ''}:users:${JSON.stringify(flags)}`,
+        publicKey,
+        fetchMany,
+        ({ user }) => ({
+          publicKeys: [user.PublicKeyBase58Check],
+          usernames: [user.ProfileEntryResponse?.Username],
+        })
+      )
+    )
+  );
+  const found = entries.filter(
+    (entry): entry is NonNullable<typeof entry> => !!entry
+  );
+
+  return {
+    UserList: found.map(({ user }) => user),
+    DefaultFeeRateNanosPerKB: found[0]?.DefaultFeeRateNanosPerKB ?? 0,
+    ParamUpdaters: found[0]?.ParamUpdaters ?? {},
+  };
 };
 
 /**
@@ -333,7 +395,7 @@ export const buildProfilePictureUrl = (
   PublicKeyBase58Check: string,
   options?: { fallbackImageUrl?: string } & RequestOptions
 ) => {
-  const nodeURI = options?.nodeURI ?? api.nodeURI;
+  const nodeURI = options?.nodeURI ?? getNodeClient(options).nodeURI;
   return cleanURL(
     nodeURI,
     `/api/v0/get-single-profile-picture/${PublicKeyBase58Check}${
@@ -353,9 +415,27 @@ export const getSingleProfile = (
   options?: RequestOptions
 ): Promise<GetSingleProfileResponse> => {
   const endpoint = 'api/v0/get-single-profile';
-  return api.post(
-    options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
-    params
+  const request = (): Promise<GetSingleProfileResponse> =>
+    getNodeClient(options).post(
+      options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
+      params
+    );
+  const cache = getEntityCache(options);
+
+  if (!cache.enabled) {
+    return request();
+  }
+
+  return cache.get(
+    `${options?.nodeURI ?? ''}:profile:${JSON.stringify({
+      ...params,
+      Username: params.Username?.toLowerCase(),
+    })}`,
+    request,
+    ({ Profile }) => ({
+      publicKeys: [params.PublicKeyBase58Check, Profile?.PublicKeyBase58Check],
+      usernames: [params.Username, Profile?.Username],
+    })
   );
 };
 
@@ -368,7 +448,7 @@ export const getProfiles = (
   options?: RequestOptions
 ): Promise<GetProfilesResponse> => {
   const endpoint = 'api/v0/get-profiles';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -382,7 +462,7 @@ export const getUserMetadata = (
   options?: RequestOptions
 ): Promise<GetUserMetadataResponse> => {
   const endpoint = `api/v0/get-user-metadata/${params.PublicKeyBase58Check}`;
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -395,7 +475,7 @@ export const getUserDerivedKeys = (
   options?: RequestOptions
 ): Promise<GetUserDerivedKeysResponse> => {
   const endpoint = 'api/v0/get-user-derived-keys';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -406,7 +486,7 @@ export const getAllMessagingGroupKeys = (
   options?: RequestOptions
 ): Promise<RegisterMessagingGroupKeyResponse> => {
   const endpoint = 'api/v0/get-all-messaging-group-keys';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -425,7 +505,7 @@ export const registerMessagingGroupKey = (
   options?: RequestOptions
 ): Promise<RegisterMessagingGroupKeyResponse> => {
   const endpoint = 'api/v0/register-messaging-group-key';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -442,7 +522,7 @@ export const getAllMessageThreads = (
   options?: RequestOptions
 ): Promise<GetUserMessageThreadsResponse> => {
   const endpoint = 'api/v0/get-all-user-message-threads';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -480,7 +560,7 @@ export const getPaginatedGroupChatThread = (
     actualParams.StartTimeStampString = actualParams.StartTimeStamp.toString();
   }
   const endpoint = 'api/v0/get-paginated-messages-for-group-chat-thread';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     actualParams
   );
@@ -522,7 +602,7 @@ export const getPaginatedDMThread = (
     actualParams.StartTimeStampString = actualParams.StartTimeStamp.toString();
   }
   const endpoint = 'api/v0/get-paginated-messages-for-dm-thread';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     actualParams
   );
@@ -536,7 +616,7 @@ export const getGroupChatThreads = (
   options?: RequestOptions
 ): Promise<GetUserMessageThreadsResponse> => {
   const endpoint = 'api/v0/get-user-group-chat-threads-ordered-by-timestamp';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -550,7 +630,7 @@ export const getDMThreads = (
   options?: RequestOptions
 ): Promise<GetUserMessageThreadsResponse> => {
   const endpoint = 'api/v0/get-user-dm-threads-ordered-by-timestamp';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -567,7 +647,7 @@ export const getAllAccessGroups = (
   options?: RequestOptions
 ): Promise<GetAccessGroupsResponse> => {
   const endpoint = 'api/v0/get-all-user-access-groups';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -581,7 +661,7 @@ export const getAllAccessGroupsOwned = (
   options?: RequestOptions
 ): Promise<GetAccessGroupsResponse> => {
   const endpoint = 'api/v0/get-all-user-access-groups-owned';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -595,7 +675,7 @@ export const getAllAccessGroupsMemberOnly = (
   options?: RequestOptions
 ): Promise<GetAccessGroupsResponse> => {
   const endpoint = 'api/v0/get-all-user-access-groups-member-only';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -609,7 +689,7 @@ export const checkPartyAccessGroups = (
   options?: RequestOptions
 ): Promise<CheckPartyAccessGroupsResponse> => {
   const endpoint = 'api/v0/check-party-access-groups';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -623,7 +703,7 @@ export const getAccessGroupInfo = (
   options?: RequestOptions
 ): Promise<AccessGroupEntryResponse> => {
   const endpoint = 'api/v0/get-access-group-info';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -637,7 +717,7 @@ export const getAccessGroupMemberInfo = (
   options?: RequestOptions
 ): Promise<AccessGroupMemberEntryResponse> => {
   const endpoint = 'api/v0/get-access-group-member-info';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -656,7 +736,7 @@ export const getPaginatedAccessGroupMembers = (
   options?: RequestOptions
 ): Promise<GetPaginatedAccessGroupMembersResponse> => {
   const endpoint = 'api/v0/get-paginated-access-group-members';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -670,7 +750,7 @@ export const getBulkAccessGroups = (
   options?: RequestOptions
 ): Promise<GetBulkAccessGroupEntriesResponse> => {
   const endpoint = 'api/v0/get-bulk-access-group-entries';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -684,7 +764,7 @@ export const getTransaction = (
   options?: RequestOptions
 ): Promise<GetTxnResponse> => {
   const endpoint = 'api/v0/get-txn';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -694,7 +774,8 @@ export const getTransaction = (
  * Waits for a transaction to be found in the mempool. If it is found before the
  * timeout, it resolves immediately. If it is not found before the timeout, it
  * rejects. Useful for sequencing transactions that depend on other
- * transactions.
+ * transactions. Use trackTransaction to wait for a transaction to be mined or
+ * committed.
  *
  * @param TxnHashHex - hex encoded transaction we are looking for in the mempool
  * @param options - options object
@@ -703,10 +784,10 @@ export const getTransaction = (
  */
 export const waitForTransactionFound = async (
   TxnHashHex: string,
-  { timeout = 60000 }: { timeout?: number } = {}
+  { timeout = 60000, ...options }: { timeout?: number } & RequestOptions = {}
 ): Promise<void> => {
   // In the best case scenario we'll find the tx immediately
-  const { TxnFound } = await getTransaction({ TxnHashHex });
+  const { TxnFound } = await getTransaction({ TxnHashHex }, options);
 
   if (TxnFound) {
     return;
@@ -716,7 +797,7 @@ export const waitForTransactionFound = async (
   return new Promise((resolve, reject) => {
     const interval = setInterval(async () => {
       try {
-        const { TxnFound } = await getTransaction({ TxnHashHex });
+        const { TxnFound } = await getTransaction({ TxnHashHex }, options);
         if (TxnFound) {
           clearInterval(interval);
           resolve();
@@ -727,7 +808,15 @@ export const waitForTransactionFound = async (
       }
       if (Date.now() - start > timeout) {
         clearInterval(interval);
-        reject(new Error('Timed out waiting for transaction to be found'));
+        reject(
+          new DeSoTimeoutError(
+            'Timed out waiting for transaction to be found',
+            {
+              endpoint: 'api/v0/get-txn',
+              requestSummary: { TxnHashHex },
+            }
+          )
+        );
       }
     }, 150);
   });
@@ -741,7 +830,7 @@ export const waitForTransactionFound = async (
  */
 export const healthCheck = (options?: RequestOptions): Promise<void> => {
   const endpoint = 'api/v0/health-check';
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -753,7 +842,7 @@ export const getExchangeRates = (
   options?: RequestOptions
 ): Promise<GetExchangeRateResponse> => {
   const endpoint = 'api/v0/get-exchange-rate';
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -765,9 +854,21 @@ export const getPublicKeyForUsername = (
   options?: RequestOptions
 ): Promise<string> => {
   const endpoint = 'api/v0/get-public-key-for-user-name';
-  return api.get(
-    (options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint) +
-      `/${username}`
+  const request = (): Promise<string> =>
+    getNodeClient(options).get(
+      (options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint) +
+        `/${username}`
+    );
+  const cache = getEntityCache(options);
+
+  if (!cache.enabled) {
+    return request();
+  }
+
+  return cache.get(
+    `${options?.nodeURI ?? ''}:username:${username.toLowerCase()}`,
+    request,
+    (publicKey) => ({ publicKeys: [publicKey], usernames: [username] })
   );
 };
 
@@ -778,7 +879,7 @@ export const getUsernameForPublicKey = (
   options?: RequestOptions
 ): Promise<string> => {
   const endpoint = 'api/v0/get-user-name-for-public-key';
-  return api.get(
+  return getNodeClient(options).get(
     (options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint) +
       `/${publicKey}`
   );
@@ -799,7 +900,7 @@ export const getTransactionInfo = (
   options?: RequestOptions
 ): Promise<APITransactionInfoResponse> => {
   const endpoint = 'api/v1/transaction-info';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -814,7 +915,7 @@ export const getBlock = (
   options?: RequestOptions
 ): Promise<APIBlockResponse> => {
   const endpoint = 'api/v1/block';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -828,7 +929,7 @@ export const getAppState = (
   options?: RequestOptions
 ): Promise<GetAppStateResponse> => {
   const endpoint = 'api/v0/get-app-state';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -838,7 +939,7 @@ export const getGlobalParams = (
   options?: RequestOptions
 ): Promise<GetGlobalParamsResponse> => {
   const endpoint = 'api/v0/get-global-params';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     {}
   );
@@ -855,7 +956,7 @@ export const getTransactionSpendingLimitFromHex = (
   options?: RequestOptions
 ): Promise<TransactionSpendingLimitResponse> => {
   const endpoint = `api/v0/get-transaction-spending-limit-response-from-hex/${hex}`;
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -868,7 +969,7 @@ export const getTransactionSpendingLimitHex = (
   options?: RequestOptions
 ): Promise<GetTransactionSpendingLimitHexStringResponse> => {
   const endpoint = 'api/v0/get-transaction-spending-limit-hex-string';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -888,7 +989,7 @@ export const getNotifications = (
   options?: RequestOptions
 ): Promise<GetNotificationsResponse> => {
   const endpoint = 'api/v0/get-notifications';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -900,9 +1001,9 @@ export const getNotifications = (
 export const getUnreadNotificationsCount = (
   params: GetNotificationsCountRequest,
   options?: RequestOptions
-): Promise<GetNotificationsCountRequest> => {
+): Promise<GetNotificationsCountResponse> => {
   const endpoint = 'api/v0/get-unread-notifications-count';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -919,7 +1020,7 @@ export const getBlockTemplate = (
   options?: RequestOptions
 ): Promise<GetBlockTemplateResponse> => {
   const endpoint = 'api/v0/get-block-template';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -933,7 +1034,7 @@ export const submitBlock = (
   options?: RequestOptions
 ): Promise<SubmitBlockResponse> => {
   const endpoint = 'api/v0/submit-block';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -953,7 +1054,7 @@ export const getNFTsForUser = (
   options?: RequestOptions
 ): Promise<GetNFTsForUserResponse> => {
   const endpoint = 'api/v0/get-nfts-for-user';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -967,7 +1068,7 @@ export const getAllBidsForNFT = (
   options?: RequestOptions
 ): Promise<GetNFTBidsForNFTPostResponse> => {
   const endpoint = 'api/v0/get-nft-bids-for-nft-post';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -984,7 +1085,7 @@ export const getNFTBidsForUser = (
   options?: RequestOptions
 ): Promise<GetNFTBidsForUserResponse> => {
   const endpoint = 'api/v0/get-nft-bids-for-user';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -998,7 +1099,7 @@ export const getNFTShowcase = (
   options?: RequestOptions
 ): Promise<GetNFTShowcaseResponse> => {
   const endpoint = 'api/v0/get-nft-showcase';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1011,7 +1112,7 @@ export const getNextNFTShowcase = (
   options?: RequestOptions
 ): Promise<GetNextNFTShowcaseResponse> => {
   const endpoint = 'api/v0/get-next-nft-showcase';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     {}
   );
@@ -1028,7 +1129,7 @@ export const getNFTCollectionSummary = (
   options?: RequestOptions
 ): Promise<GetNFTCollectionSummaryResponse> => {
   const endpoint = 'api/v0/get-nft-collection-summary';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1045,7 +1146,7 @@ export const getNFTEntriesForPost = (
   options?: RequestOptions
 ): Promise<GetNFTEntriesForPostHashResponse> => {
   const endpoint = 'api/v0/get-nft-entries-for-nft-post';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1067,7 +1168,7 @@ export const getHodlersForUser = (
   options?: RequestOptions
 ): Promise<GetHodlersForPublicKeyResponse> => {
   const endpoint = 'api/v0/get-hodlers-for-public-key';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1087,7 +1188,7 @@ export const getDiamondsForUser = (
   options?: RequestOptions
 ): Promise<GetDiamondsForPublicKeyResponse> => {
   const endpoint = 'api/v0/get-diamonds-for-public-key';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1106,7 +1207,7 @@ export const getFollowersForUser = (
   options?: RequestOptions
 ): Promise<GetFollowsResponse> => {
   const endpoint = 'api/v0/get-follows-stateless';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1120,7 +1221,7 @@ export const getIsFollowing = (
   options?: RequestOptions
 ): Promise<IsFolllowingPublicKeyResponse> => {
   const endpoint = 'api/v0/is-following-public-key';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1137,7 +1238,7 @@ export const getIsHodling = (
   options?: RequestOptions
 ): Promise<IsHodlingPublicKeyResponse> => {
   const endpoint = 'api/v0/is-hodling-public-key';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1157,7 +1258,7 @@ export const getFullTikTokURL = (
   options?: RequestOptions
 ): Promise<GetFullTikTokURLResponse> => {
   const endpoint = 'api/v0/get-full-tiktok-url';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1174,7 +1275,7 @@ export const getUserAssociation = (
   options?: RequestOptions
 ): Promise<AssociationResponse> => {
   const endpoint = `api/v0/user-associations/${associationId}`;
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -1190,7 +1291,7 @@ export const countUserAssociation = (
   options?: RequestOptions
 ): Promise<AssociationsCountResponse> => {
   const endpoint = 'api/v0/user-associations/count';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1207,7 +1308,7 @@ export const countUserAssociations = (
   options?: RequestOptions
 ): Promise<AssociationCountsResponse> => {
   const endpoint = 'api/v0/user-associations/counts';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1221,7 +1322,7 @@ export const getUserAssociations = (
   options?: RequestOptions
 ): Promise<UserAssociationsResponse> => {
   const endpoint = 'api/v0/user-associations/query';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1235,7 +1336,7 @@ export const getPostAssociation = (
   options?: RequestOptions
 ): Promise<AssociationResponse> => {
   const endpoint = `api/v0/post-associations/${associationId}`;
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -1251,7 +1352,7 @@ export const countPostAssociation = (
   options?: RequestOptions
 ): Promise<AssociationsCountResponse> => {
   const endpoint = 'api/v0/post-associations/count';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1268,7 +1369,7 @@ export const countPostAssociations = (
   options?: RequestOptions
 ): Promise<AssociationCountsResponse> => {
   const endpoint = 'api/v0/post-associations/counts';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1282,7 +1383,7 @@ export const getPostAssociations = (
   options?: RequestOptions
 ): Promise<PostAssociationsResponse> => {
   const endpoint = 'api/v0/post-associations/query';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -1293,7 +1394,7 @@ export const getCoinProperties = async (
   options?: RequestOptions
 ): Promise<GetCoinPropertiesResponse> => {
   const endpoint = '/api/v0/get-coin-properties';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
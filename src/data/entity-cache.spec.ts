@@ -0,0 +1,140 @@
+import {
+  FakeNodeRequest,
+  createAccount,
+  createFakeNodeClient,
+} from '../test-utils.js';
+import { EntityCache } from './entity-cache.js';
+
+describe('EntityCache', () => {
+  const alice = createAccount().publicKey;
+  const bob = createAccount().publicKey;
+
+  const createClient = (calls: FakeNodeRequest[]) =>
+    createFakeNodeClient(
+      {
+        'get-users-stateless': (body) => ({
+          UserList: body.PublicKeysBase58Check.map((key: string) => ({
+            PublicKeyBase58Check: key,
+            ProfileEntryResponse: { Username: key.slice(0, 6) },
+          })),
+          DefaultFeeRateNanosPerKB: 1000,
+          ParamUpdaters: {},
+        }),
+        'get-single-profile': () => ({
+          Profile: { PublicKeyBase58Check: alice, Username: 'alice' },
+        }),
+      },
+      {
+        calls,
+        entityCache: { enabled: true },
+        fallback: () => ({ TransactionHex: '00' }),
+      }
+    );
+
+  it('coalesces identical requests and batches user lookups', async () => {
+    const calls: FakeNodeRequest[] = [];
+    const client = createClient(calls);
+
+    const [aliceUsers, bobUsers, bothUsers, profile, sameProfile] =
+      await Promise.all([
+        client.getUsersStateless({ PublicKeysBase58Check: [alice] }),
+        client.getUsersStateless({ PublicKeysBase58Check: [bob] }),
+        client.getUsersStateless({ PublicKeysBase58Check: [bob, alice] }),
+        client.getSingleProfile({ Username: 'alice' }),
+        client.getSingleProfile({ Username: 'Alice' }),
+      ]);
+
+    expect(calls.map(({ endpoint }) => endpoint).sort()).toEqual([
+      'get-single-profile',
+      'get-users-stateless',
+    ]);
+    expect(
+      calls.find(({ endpoint }) => endpoint === 'get-users-stateless')?.body
+        .PublicKeysBase58Check
+    ).toEqual([alice, bob]);
+    expect(aliceUsers.UserList?.map((u) => u.PublicKeyBase58Check)).toEqual([
+      alice,
+    ]);
+    expect(bobUsers.UserList?.map((u) => u.PublicKeyBase58Check)).toEqual([
+      bob,
+    ]);
+    expect(bothUsers).toMatchObject({
+      UserList: [
+        { PublicKeyBase58Check: bob },
+        { PublicKeyBase58Check: alice },
+      ],
+      DefaultFeeRateNanosPerKB: 1000,
+    });
+    expect(sameProfile).toBe(profile);
+
+    calls.length = 0;
+    await client.getUsersStateless({ PublicKeysBase58Check: [alice] });
+    await client.getUsersStateless({
+      PublicKeysBase58Check: [alice],
+      IncludeBalance: true,
+    });
+    expect(calls.map(({ body }) => body)).toEqual([
+      { PublicKeysBase58Check: [alice], IncludeBalance: true },
+    ]);
+
+    jest.spyOn(client.identity, 'signAndSubmit').mockResolvedValue({
+      Transaction: {},
+      TxnHashHex: 'txn-hash',
+      PostEntryResponse: null,
+    } as any);
+    await client.updateFollowingStatus(
+      {
+        FollowerPublicKeyBase58Check: bob,
+        FollowedPublicKeyBase58Check: alice,
+      },
+      { checkPermissions: false }
+    );
+
+    calls.length = 0;
+    await client.getSingleProfile({ Username: 'alice' });
+    await client.getUsersStateless({ PublicKeysBase58Check: [alice, bob] });
+    expect(calls.map(({ endpoint }) => endpoint)).toEqual([
+      'get-single-profile',
+      'get-users-stateless',
+    ]);
+  });
+
+  it('expires, evicts and hydrates entries', async () => {
+    jest.useFakeTimers();
+    const cache = new EntityCache();
+    cache.configure({ enabled: true, ttlMs: 1000, maxEntries: 2 });
+    let fetches = 0;
+    const fetch = (value: string) => () => {
+      fetches++;
+      return Promise.resolve(value);
+    };
+
+    try {
+      await cache.get('a', fetch('a'), () => ({ postHashes: ['post-a'] }));
+      await cache.get('b', fetch('b'));
+      // reading a makes b the least recently used entry
+      await cache.get('a', fetch('a'));
+      await cache.get('c', fetch('c'));
+
+      expect(Object.keys(cache.dehydrate()).sort()).toEqual(['a', 'c']);
+      expect(fetches).toEqual(3);
+
+      const snapshot = cache.dehydrate();
+      const hydrated = new EntityCache();
+      hydrated.configure({ enabled: true });
+      hydrated.hydrate(JSON.parse(JSON.stringify(snapshot)));
+      expect(await hydrated.get('a', fetch('stale'))).toEqual('a');
+
+      hydrated.invalidateTransaction({ ParentStakeID: 'post-a' });
+      expect(await hydrated.get('a', fetch('fresh'))).toEqual('fresh');
+
+      jest.advanceTimersByTime(1000);
+      expect(await cache.get('c', fetch('c2'))).toEqual('c2');
+      expect(cache.dehydrate()).toEqual({
+        c: expect.objectContaining({ value: 'c2' }),
+      });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,415 @@
+import { RequestOptions } from '../backend-types/index.js';
+
+export interface EntityCacheConfig {
+  /**
+   * Whether getSingleProfile, getUsersStateless, getPublicKeyForUsername and
+   * getSinglePost go through the cache. Defaults to false.
+   */
+  enabled?: boolean;
+  /**
+   * How long a cached response is reused. Defaults to 30000ms.
+   */
+  ttlMs?: number;
+  /**
+   * The maximum number of cached entries. The least recently used entries are
+   * evicted first. Defaults to 1000.
+   */
+  maxEntries?: number;
+  /**
+   * How long getUsersStateless waits to collect other lookups into the same
+   * request. Defaults to 10ms.
+   */
+  batchDelayMs?: number;
+  /**
+   * The maximum number of public keys per get-users-stateless request.
+   * Defaults to 100.
+   */
+  maxBatchSize?: number;
+}
+
+export interface EntityCacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+  /**
+   * The public keys, post hashes and usernames the value depends on, used to
+   * invalidate it.
+   */
+  tags: string[];
+}
+
+/**
+ * The serializable contents of a cache, e.g. rendered into a page on the
+ * server and passed to hydrate in the browser.
+ */
+export type EntityCacheSnapshot = Record<string, EntityCacheEntry>;
+
+export interface EntityRefs {
+  publicKeys?: (string | undefined | null)[];
+  postHashes?: (string | undefined | null)[];
+  usernames?: (string | undefined | null)[];
+}
+
+export type EntityCacheEvent =
+  | { type: 'set'; key: string; entry: EntityCacheEntry }
+  | { type: 'delete'; key: string };
+
+interface PendingBatch<T> {
+  ids: Set<string>;
+  timeoutId: ReturnType<typeof setTimeout>;
+  result: Promise<Map<string, T>>;
+  resolve: (values: Map<string, T>) => void;
+  reject: (e: unknown) => void;
+}
+
+const DEFAULT_TTL_MS = 30 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+const DEFAULT_BATCH_DELAY_MS = 10;
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
+// Transaction params that reference a post by a field that doesn't end in
+// PostHashHex.
+const POST_HASH_PARAMS = new Set(['ParentStakeID', 'RepostedPostHashHex']);
+
+const toTags = ({
+  publicKeys = [],
+  postHashes = [],
+  usernames = [],
+}: EntityRefs) => [
+  ...publicKeys.filter(Boolean).map((publicKey) => `pk:${publicKey}`),
+  ...postHashes.filter(Boolean).map((postHashHex) => `post:${postHashHex}`),
+  ...usernames
+    .filter(Boolean)
+    .map((username) => `username:${username?.toLowerCase()}`),
+];
+
+/**
+ * Caches profiles, users and posts read from the node. Identical concurrent
+ * requests share a single request, lookups of individual users are batched
+ * into one get-users-stateless request, and entries expire after ttlMs or are
+ * evicted when the cache is full, least recently used first. Transactions
+ * submitted through the same client invalidate the entries of the public keys
+ * and posts they reference.
+ *
+ * The cache is disabled by default. Enable it with configure, or with
+ * createDesoClient for a single client.
+ * @example
+ * ```ts
+ * configure({ entityCache: { enabled: true, ttlMs: 60 * 1000 } });
+ * ```
+ */
+export class EntityCache {
+  #config: Required<EntityCacheConfig> = {
+    enabled: false,
+    ttlMs: DEFAULT_TTL_MS,
+    maxEntries: DEFAULT_MAX_ENTRIES,
+    batchDelayMs: DEFAULT_BATCH_DELAY_MS,
+    maxBatchSize: DEFAULT_MAX_BATCH_SIZE,
+  };
+  // Map iteration follows insertion order, so re-inserting an entry on every
+  // read keeps the least recently used entry first.
+  #entries = new Map<string, EntityCacheEntry>();
+  #pending = new Map<string, Promise<unknown>>();
+  #batches = new Map<string, PendingBatch<unknown>>();
+  #listeners = new Set<(event: EntityCacheEvent) => void>();
+
+  get enabled() {
+    return this.#config.enabled;
+  }
+
+  configure(config: EntityCacheConfig) {
+    const wasEnabled = this.#config.enabled;
+
+    Object.entries(config).forEach(([key, value]) => {
+      if (value !== undefined) {
+        (this.#config as Record<string, unknown>)[key] = value;
+      }
+    });
+
+    if (wasEnabled && !this.#config.enabled) {
+      this.clear();
+    }
+
+    this.#evict();
+  }
+
+  /**
+   * Returns the cached value for the key, or calls fetch and caches the
+   * result. Concurrent calls with the same key share a single fetch. Failed
+   * fetches are not cached.
+   */
+  async get<T>(
+    key: string,
+    fetch: () => Promise<T>,
+    getRefs: (value: T) => EntityRefs = () => ({})
+  ): Promise<T> {
+    const cached = this.#read<T>(key);
+
+    if (cached) {
+      return cached.value;
+    }
+
+    const pending = this.#pending.get(key) as Promise<T> | undefined;
+
+    if (pending) {
+      return pending;
+    }
+
+    const request = fetch()
+      .then((value) => {
+        this.set(key, value, getRefs(value));
+        return value;
+      })
+      .finally(() => {
+        this.#pending.delete(key);
+      });
+    this.#pending.set(key, request);
+
+    return request;
+  }
+
+  /**
+   * Like get, but for values that are fetched many at a time. Ids requested
+   * within batchDelayMs of each other under the same batch key are fetched
+   * together, in chunks of up to maxBatchSize.
+   */
+  async getBatched<T>(
+    batchKey: string,
+    id: string,
+    fetchMany: (ids: string[]) => Promise<Map<string, T>>,
+    getRefs: (value: T) => EntityRefs = () => ({})
+  ): Promise<T | undefined> {
+    const key = `${batchKey}:${id}`;
+    const cached = this.#read<T>(key);
+
+    if (cached) {
+      return cached.value;
+    }
+
+    const batch = this.#getBatch(batchKey, fetchMany);
+    batch.ids.add(id);
+
+    if (batch.ids.size >= this.#config.maxBatchSize) {
+      clearTimeout(batch.timeoutId);
+      this.#flushBatch(batchKey, fetchMany);
+    }
+
+    const values = (await batch.result) as Map<string, T>;
+    const value = values.get(id);
+
+    if (value !== undefined) {
+      this.set(key, value, getRefs(value));
+    }
+
+    return value;
+  }
+
+  set<T>(key: string, value: T, refs: EntityRefs = {}) {
+    const entry = {
+      value,
+      expiresAt: Date.now() + this.#config.ttlMs,
+      tags: toTags(refs),
+    };
+
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+    this.#emit({ type: 'set', key, entry });
+    this.#evict();
+  }
+
+  /**
+   * Removes the entries that reference any of the given public keys, posts
+   * or usernames.
+   */
+  invalidate(refs: EntityRefs) {
+    const tags = new Set(toTags(refs));
+
+    this.#entries.forEach((entry, key) => {
+      if (entry.tags.some((tag) => tags.has(tag))) {
+        this.#delete(key);
+      }
+    });
+  }
+
+  /**
+   * Invalidates the public keys and posts referenced by the params of a
+   * transaction, e.g. the profile updated by updateProfile or both users of
+   * updateFollowingStatus.
+   */
+  invalidateTransaction(params: Record<string, unknown>) {
+    const refs: Required<Pick<EntityRefs, 'publicKeys' | 'postHashes'>> = {
+      publicKeys: [],
+      postHashes: [],
+    };
+
+    Object.entries(params ?? {}).forEach(([param, value]) => {
+      if (typeof value !== 'string' || !value) {
+        return;
+      }
+
+      if (param.endsWith('PublicKeyBase58Check')) {
+        refs.publicKeys.push(value);
+      } else if (
+        param.endsWith('PostHashHex') ||
+        param.startsWith('PostHashHex') ||
+        POST_HASH_PARAMS.has(param)
+      ) {
+        refs.postHashes.push(value);
+      }
+    });
+
+    this.invalidate(refs);
+  }
+
+  clear() {
+    Array.from(this.#entries.keys()).forEach((key) => this.#delete(key));
+  }
+
+  /**
+   * Returns the unexpired entries so they can be passed to hydrate, e.g. to
+   * reuse what was fetched while rendering on the server.
+   */
+  dehydrate(): EntityCacheSnapshot {
+    const now = Date.now();
+
+    return Object.fromEntries(
+      Array.from(this.#entries.entries()).filter(
+        ([, { expiresAt }]) => expiresAt > now
+      )
+    );
+  }
+
+  /**
+   * Adds the entries of a snapshot created by dehydrate. Expired entries are
+   * skipped and existing entries are replaced.
+   */
+  hydrate(snapshot: EntityCacheSnapshot) {
+    const now = Date.now();
+
+    Object.entries(snapshot ?? {}).forEach(([key, entry]) => {
+      if (entry.expiresAt > now) {
+        this.#entries.delete(key);
+        this.#entries.set(key, entry);
+        this.#emit({ type: 'set', key, entry });
+      }
+    });
+    this.#evict();
+  }
+
+  /**
+   * Calls the listener whenever an entry is set or removed. Returns a
+   * function that removes the listener.
+   */
+  subscribe(listener: (event: EntityCacheEvent) => void) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  #read<T>(key: string): EntityCacheEntry<T> | undefined {
+    const entry = this.#entries.get(key) as EntityCacheEntry<T> | undefined;
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.#delete(key);
+      return undefined;
+    }
+
+    // mark as most recently used
+    this.#entries.delete(key);
+    this.#entries.set(key, entry);
+
+    return entry;
+  }
+
+  #getBatch<T>(
+    batchKey: string,
+    fetchMany: (ids: string[]) => Promise<Map<string, T>>
+  ): PendingBatch<T> {
+    const existing = this.#batches.get(batchKey) as PendingBatch<T> | undefined;
+
+    if (existing) {
+      return existing;
+    }
+
+    const batch = { ids: new Set<string>() } as PendingBatch<T>;
+    batch.result = new Promise((resolve, reject) => {
+      batch.resolve = resolve;
+      batch.reject = reject;
+    });
+    batch.timeoutId = setTimeout(
+      () => this.#flushBatch(batchKey, fetchMany),
+      this.#config.batchDelayMs
+    );
+    this.#batches.set(batchKey, batch as PendingBatch<unknown>);
+
+    return batch;
+  }
+
+  #flushBatch<T>(
+    batchKey: string,
+    fetchMany: (ids: string[]) => Promise<Map<string, T>>
+  ) {
+    const batch = this.#batches.get(batchKey) as PendingBatch<T> | undefined;
+
+    if (!batch) {
+      return;
+    }
+
+    this.#batches.delete(batchKey);
+
+    const ids = Array.from(batch.ids);
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += this.#config.maxBatchSize) {
+      chunks.push(ids.slice(i, i + this.#config.maxBatchSize));
+    }
+
+    Promise.all(chunks.map((chunk) => fetchMany(chunk))).then(
+      (results) =>
+        batch.resolve(
+          new Map(results.flatMap((values) => Array.from(values.entries())))
+        ),
+      batch.reject
+    );
+  }
+
+  #evict() {
+    const now = Date.now();
+
+    this.#entries.forEach(({ expiresAt }, key) => {
+      if (expiresAt <= now) {
+        this.#delete(key);
+      }
+    });
+
+    for (const key of this.#entries.keys()) {
+      if (this.#entries.size <= this.#config.maxEntries) {
+        break;
+      }
+
+      this.#delete(key);
+    }
+  }
+
+  #delete(key: string) {
+    if (this.#entries.delete(key)) {
+      this.#emit({ type: 'delete', key });
+    }
+  }
+
+  #emit(event: EntityCacheEvent) {
+    this.#listeners.forEach((listener) => listener(event));
+  }
+}
+
+export const entityCache = new EntityCache();
+
+/**
+ * Returns the entity cache of the client a request is made through, or the
+ * default one.
+ */
+export const getEntityCache = (options?: Pick<RequestOptions, 'client'>) =>
+  options?.client?.entityCache ?? entityCache;
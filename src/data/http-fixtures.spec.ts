@@ -0,0 +1,131 @@
+import { createDesoClient } from '../client.js';
+import {
+  DeSoNetworkError,
+  createSeedSigner,
+  keygen,
+  publicKeyToBase58Check,
+} from '../identity/index.js';
+import { MockDesoNode } from '../mock-node/index.js';
+import { createFetchResponse } from './api.js';
+import { HttpFixtures } from './http-fixtures.js';
+
+describe('HttpFixtures', () => {
+  it('replays recorded reads against any node', async () => {
+    const upstream = jest.fn((url: string) =>
+      Promise.resolve(
+        createFetchResponse(
+          200,
+          JSON.stringify(
+            url.endsWith('get-posts-stateless')
+              ? { PostsFound: [{ PostHashHex: 'abc', Body: 'gm' }] }
+              : { Notifications: [], LastSeenIndex: 7 }
+          )
+        )
+      )
+    );
+    const recorder = new HttpFixtures();
+    const recording = createDesoClient({
+      nodeURI: 'https://node.deso.org',
+      fetch: recorder.record(upstream),
+    });
+
+    const posts = await recording.getPostsStateless({ NumToFetch: 1 });
+    const notifications = await recording.getNotifications({
+      PublicKeyBase58Check: 'BC1YLfoo',
+      NumToFetch: 10,
+    });
+
+    const fixtures = HttpFixtures.fromJSON(recorder.serialize());
+    const replaying = createDesoClient({
+      nodeURI: 'https://ci.example.com',
+      fetch: fixtures.replay(),
+    });
+
+    expect(await replaying.getPostsStateless({ NumToFetch: 1 })).toEqual(posts);
+    expect(
+      await replaying.getNotifications({
+        NumToFetch: 10,
+        PublicKeyBase58Check: 'BC1YLfoo',
+      })
+    ).toEqual(notifications);
+    await expect(
+      replaying.getPostsStateless({ NumToFetch: 2 })
+    ).rejects.toBeInstanceOf(DeSoNetworkError);
+    expect(upstream).toHaveBeenCalledTimes(2);
+  });
+
+  it('keys requests by their query string', async () => {
+    const upstream = jest.fn((url: string) =>
+      Promise.resolve(
+        createFetchResponse(
+          200,
+          JSON.stringify({
+            title: new URL(url).searchParams.get('url'),
+          })
+        )
+      )
+    );
+    const recorder = new HttpFixtures();
+    const recording = createDesoClient({
+      mediaURI: 'https://media.deso.org',
+      fetch: recorder.record(upstream),
+    });
+
+    await recording.getLinkPreview('https://a.example.com');
+    await recording.getLinkPreview('https://b.example.com');
+
+    const replaying = createDesoClient({
+      mediaURI: 'https://media.example.com',
+      fetch: HttpFixtures.fromJSON(recorder.serialize()).replay(),
+    });
+
+    expect(recorder.fixtures.map(({ endpoint }) => endpoint)).toEqual([
+      'api/v0/link-preview?url=https%3A%2F%2Fa.example.com',
+      'api/v0/link-preview?url=https%3A%2F%2Fb.example.com',
+    ]);
+    expect(await replaying.getLinkPreview('https://b.example.com')).toEqual({
+      title: 'https://b.example.com',
+    });
+    expect(await replaying.getLinkPreview('https://a.example.com')).toEqual({
+      title: 'https://a.example.com',
+    });
+  });
+
+  it('matches construct and submit requests with redacted volatile fields', async () => {
+    const { seedHex, public: publicKey } = keygen();
+    const SenderPublicKeyBase58Check = publicKeyToBase58Check(publicKey);
+    const params = {
+      SenderPublicKeyBase58Check,
+      RecipientPublicKeyOrUsername: publicKeyToBase58Check(keygen().public),
+      AmountNanos: 1000,
+    };
+    const options = {
+      signer: createSeedSigner({ seedHex }),
+      checkPermissions: false,
+    };
+    const node = new MockDesoNode({
+      balances: { [SenderPublicKeyBase58Check]: 1e9 },
+    });
+    const recorder = new HttpFixtures();
+
+    const recorded = await createDesoClient({
+      fetch: recorder.record(node.fetch),
+    }).sendDeso(params, options);
+
+    expect(recorder.fixtures.map(({ endpoint }) => endpoint)).toEqual([
+      'api/v0/send-deso',
+      'api/v0/submit-transaction',
+    ]);
+    expect(recorder.fixtures[1].body).toEqual({ TransactionHex: '[redacted]' });
+
+    // Signing again produces a different signature, which still matches the
+    // recorded submission.
+    const replayed = await createDesoClient({
+      fetch: HttpFixtures.fromJSON(recorder.toJSON()).replay(),
+    }).sendDeso(params, options);
+
+    expect(replayed.submittedTransactionResponse?.TxnHashHex).toEqual(
+      recorded.submittedTransactionResponse?.TxnHashHex
+    );
+  });
+});
@@ -0,0 +1,271 @@
+import { parseJSON, stringifyJSON } from '../identity/bigint-utils.js';
+import {
+  DeSoNetworkError,
+  DeSoValidationError,
+} from '../identity/error-types.js';
+import { FetchFunction, createFetchResponse } from './api.js';
+
+const HTTP_FIXTURES_VERSION = 1;
+const REDACTED = '[redacted]';
+
+/**
+ * Request fields that change on every run. They are replaced before a request
+ * is keyed so that replays match the recording. Signed transactions and jwts
+ * change with every signature, and nonces and timestamps with every
+ * construction.
+ */
+export const DEFAULT_REDACTED_FIELDS = [
+  'TransactionHex',
+  'SignedInnerTransactionsHex',
+  'IncompleteAtomicTransactionHex',
+  'JWT',
+  'Nonce',
+  'PartialID',
+  'ExpirationBlockHeight',
+  'TimestampNanos',
+  'TstampNanos',
+];
+
+export interface HttpFixture {
+  method: string;
+  /**
+   * The path of the request, without the node or media origin, so fixtures
+   * recorded against one node replay against any other. The query string is
+   * kept with its params sorted, e.g. for getLinkPreview.
+   */
+  endpoint: string;
+  /**
+   * The normalized and redacted request body, or null for requests without
+   * one.
+   */
+  body: any;
+  status: number;
+  /**
+   * The parsed response body, or the raw text if it was not json.
+   */
+  response: any;
+}
+
+export interface HttpFixtureFile {
+  version: number;
+  fixtures: HttpFixture[];
+}
+
+export interface HttpFixturesOptions {
+  /**
+   * Request fields to redact, at any depth. Defaults to
+   * DEFAULT_REDACTED_FIELDS.
+   */
+  redactFields?: string[];
+}
+
+const toEndpoint = (url: string) => {
+  const [path, query] = url
+    .replace(/^https?:\/\/[^/]+/, '')
+    .replace(/#.*$/, '')
+    .replace(/^\/+/, '')
+    .split(/\?(.*)/);
+
+  if (!query) {
+    return path;
+  }
+
+  const params = new URLSearchParams(query);
+  params.sort();
+
+  return `${path}?${params}`;
+};
+
+/**
+ * Sorts object keys and replaces redacted fields so that equivalent requests
+ * produce identical bodies.
+ */
+const normalize = (value: any, redactFields: Set<string>): any => {
+  if (Array.isArray(value)) {
+    return value.map((v) => normalize(v, redactFields));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce((acc, key) => {
+        acc[key] = redactFields.has(key)
+          ? REDACTED
+          : normalize(value[key], redactFields);
+        return acc;
+      }, {} as Record<string, any>);
+  }
+
+  return value;
+};
+
+const parseText = (text: string) => {
+  try {
+    return text.length ? parseJSON(text) : null;
+  } catch (e) {
+    return text;
+  }
+};
+
+/**
+ * Records request/response pairs made through APIClient instances so they can
+ * be replayed deterministically without network access, e.g. in CI. Fixtures
+ * are keyed by method, endpoint with its query string and the normalized
+ * request body. When the
+ * same request is recorded more than once, replays return the responses in
+ * the recorded order and then keep returning the last one, which keeps
+ * polling flows like waitForTransactionFound deterministic.
+ *
+ * Persisting fixtures is left to the caller so this works the same in node
+ * and the browser.
+ *
+ * @example
+ * ```ts
+ * // Record against a real node.
+ * const fixtures = new HttpFixtures();
+ * configure({ fetch: fixtures.record() });
+ * await getPostsStateless({ NumToFetch: 10 });
+ * fs.writeFileSync('posts.fixtures.json', fixtures.serialize());
+ *
+ * // Replay in CI.
+ * const fixtures = HttpFixtures.fromJSON(fs.readFileSync('posts.fixtures.json', 'utf8'));
+ * configure({ fetch: fixtures.replay() });
+ * ```
+ */
+export class HttpFixtures {
+  #fixtures: HttpFixture[] = [];
+  #redactFields: Set<string>;
+  // request key -> number of times it has been replayed
+  #replayCounts = new Map<string, number>();
+
+  constructor({
+    redactFields = DEFAULT_REDACTED_FIELDS,
+  }: HttpFixturesOptions = {}) {
+    this.#redactFields = new Set(redactFields);
+  }
+
+  static fromJSON(
+    json: string | HttpFixtureFile,
+    options: HttpFixturesOptions = {}
+  ): HttpFixtures {
+    const file: HttpFixtureFile =
+      typeof json === 'string' ? parseJSON(json) : json;
+
+    if (file?.version !== HTTP_FIXTURES_VERSION) {
+      throw new DeSoValidationError(
+        `Unsupported http fixtures version ${file?.version}`
+      );
+    }
+
+    const fixtures = new HttpFixtures(options);
+    file.fixtures.forEach((fixture) => fixtures.add(fixture));
+
+    return fixtures;
+  }
+
+  get fixtures(): HttpFixture[] {
+    return [...this.#fixtures];
+  }
+
+  add(fixture: HttpFixture) {
+    this.#fixtures.push({
+      ...fixture,
+      body: normalize(fixture.body, this.#redactFields),
+    });
+  }
+
+  /**
+   * Forgets which recorded responses have already been replayed.
+   */
+  rewind() {
+    this.#replayCounts.clear();
+  }
+
+  toJSON(): HttpFixtureFile {
+    return { version: HTTP_FIXTURES_VERSION, fixtures: this.fixtures };
+  }
+
+  serialize(): string {
+    return stringifyJSON(this.toJSON(), 2);
+  }
+
+  /**
+   * Returns a fetch that sends requests through the given fetch and records
+   * them.
+   */
+  record(fetchFn: FetchFunction = (url, init) => fetch(url, init)) {
+    const recordingFetch: FetchFunction = async (url, init = {}) => {
+      const res = await fetchFn(url, init);
+      const text = await res.text();
+
+      this.add({
+        ...this.#describeRequest(url, init),
+        status: res.status,
+        response: parseText(text),
+      });
+
+      return createFetchResponse(res.status, text, res.statusText);
+    };
+
+    return recordingFetch;
+  }
+
+  /**
+   * Returns a fetch that serves the recorded responses. Requests that were
+   * not recorded fail like an unreachable node.
+   */
+  replay() {
+    const replayingFetch: FetchFunction = async (url, init = {}) => {
+      const request = this.#describeRequest(url, init);
+      const key = this.#key(request);
+      const matches = this.#fixtures.filter(
+        (fixture) => this.#key(fixture) === key
+      );
+
+      if (!matches.length) {
+        throw new DeSoNetworkError(
+          `No fixture recorded for ${request.method} ${request.endpoint}`,
+          { endpoint: request.endpoint }
+        );
+      }
+
+      const count = this.#replayCounts.get(key) ?? 0;
+      const { status, response } = matches[Math.min(count, matches.length - 1)];
+      this.#replayCounts.set(key, count + 1);
+
+      return createFetchResponse(
+        status,
+        response === null
+          ? ''
+          : typeof response === 'string'
+          ? response
+          : stringifyJSON(response)
+      );
+    };
+
+    return replayingFetch;
+  }
+
+  #describeRequest(url: string, init: any) {
+    const method = (init.method ?? 'GET').toUpperCase();
+    let body: any = null;
+
+    if (typeof init.body === 'string') {
+      body = parseText(init.body);
+    } else if (init.body !== undefined) {
+      // Multipart uploads can't be compared meaningfully, so they are all
+      // treated as the same body.
+      body = '[form-data]';
+    }
+
+    return {
+      method,
+      endpoint: toEndpoint(url),
+      body: normalize(body, this.#redactFields),
+    };
+  }
+
+  #key({ method, endpoint, body }: Omit<HttpFixture, 'status' | 'response'>) {
+    return `${method} ${endpoint} ${stringifyJSON(body)}`;
+  }
+}
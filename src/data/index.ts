@@ -1,3 +1,8 @@
 export * from './api.js';
 export * from './data.js';
+export * from './entity-cache.js';
+export * from './http-fixtures.js';
 export * from './media.js';
+export * from './nonce-manager.js';
+export * from './paginate.js';
+export * from './transaction-tracker.js';
@@ -2,31 +2,50 @@ import {
   GetVideoStatusRequest,
   GetVideoStatusResponse,
   LinkPreviewResponse,
+  RequestOptions,
 } from '../backend-types/index.js';
-import { cleanURL, media } from './api.js';
+import {
+  DeSoError,
+  DeSoTimeoutError,
+  ERROR_TYPES,
+} from '../identity/error-types.js';
+import { cleanURL, getMediaClient } from './api.js';
 ////////////////////////////////////////////////////////////////////////////////
 // Media: All of these endpoints are hitting a separate server dedicated to
 // handling media requests (images, videos, etc.). The media server is
 // independently configurable and does not receive any of the same same request
-// options as a node.
+// options as a node, other than the client the request is made through.
 ////////////////////////////////////////////////////////////////////////////////
 
+type MediaRequestOptions = Pick<RequestOptions, 'client'>;
+
 /**
  * https://docs.deso.org/deso-backend/api/media-endpoints#get-video-status
  */
 export const getVideoStatus = (
-  params: GetVideoStatusRequest
+  params: GetVideoStatusRequest,
+  options?: MediaRequestOptions
 ): Promise<GetVideoStatusResponse> => {
-  return media.get(`api/v0/get-video-status/${params.videoId}`);
+  return getMediaClient(options).get(
+    `api/v0/get-video-status/${params.videoId}`
+  );
 };
 
-export const getLinkPreview = (url: string): Promise<LinkPreviewResponse> => {
-  return media.get(`api/v0/link-preview?url=${encodeURIComponent(url)}`);
+export const getLinkPreview = (
+  url: string,
+  options?: MediaRequestOptions
+): Promise<LinkPreviewResponse> => {
+  return getMediaClient(options).get(
+    `api/v0/link-preview?url=${encodeURIComponent(url)}`
+  );
 };
 
-export const buildProxyImageURL = (imageURL: string): string => {
+export const buildProxyImageURL = (
+  imageURL: string,
+  options?: MediaRequestOptions
+): string => {
   return cleanURL(
-    media.mediaURI,
+    getMediaClient(options).mediaURI,
     `api/v0/proxy-image?url=${encodeURIComponent(imageURL)}`
   );
 };
@@ -41,22 +60,25 @@ export const pollForVideoReady = async (
   {
     duration = 300,
     timeout = 3e5, // 5 minutes
-  } = {}
+    ...options
+  }: { duration?: number; timeout?: number } & MediaRequestOptions = {}
 ): Promise<void> => {
-  const { status } = await getVideoStatus({ videoId });
+  const { status } = await getVideoStatus({ videoId }, options);
 
   if (status.phase === 'ready') {
     return;
   }
 
   if (status.phase === 'failed') {
-    throw new Error('There was an error processing the video upload.');
+    throw new DeSoError('There was an error processing the video upload.', {
+      code: ERROR_TYPES.VIDEO_PROCESSING_FAILED,
+    });
   }
 
   const startTime = Date.now();
   return new Promise((resolve, reject) => {
     const intervalId = setInterval(() => {
-      getVideoStatus({ videoId })
+      getVideoStatus({ videoId }, options)
         .then(({ status }) => {
           switch (status.phase) {
             case 'ready':
@@ -66,14 +88,19 @@ export const pollForVideoReady = async (
             case 'failed':
               clearTimeout(intervalId);
               reject(
-                new Error('there was an error processing the video upload.')
+                new DeSoError(
+                  'there was an error processing the video upload.',
+                  { code: ERROR_TYPES.VIDEO_PROCESSING_FAILED }
+                )
               );
               return;
           }
 
           if (Date.now() - startTime > timeout) {
             clearTimeout(intervalId);
-            reject(new Error('timed out waiting for video to be ready'));
+            reject(
+              new DeSoTimeoutError('timed out waiting for video to be ready')
+            );
             return;
           }
         })
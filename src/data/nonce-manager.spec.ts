@@ -0,0 +1,58 @@
+import { jsonResponse } from '../test-utils.js';
+import { NonceManager } from './nonce-manager.js';
+
+const PUBLIC_KEY = 'BC1YLhtBTFXAsKZgoaoYNW8mWAJWdfQjycheAeYjaX46azVrnZfJ94s';
+
+describe('NonceManager', () => {
+  const originalFetch = globalThis.fetch;
+  let blockHeight: number;
+  let fetchMock: jest.Mock;
+
+  beforeEach(() => {
+    blockHeight = 1000;
+    fetchMock = jest.fn(() => jsonResponse({ BlockHeight: blockHeight }));
+    globalThis.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('shares one block height lookup across many nonces', async () => {
+    const nonceManager = new NonceManager();
+
+    const nonces = await Promise.all(
+      Array.from({ length: 50 }, () => nonceManager.acquire(PUBLIC_KEY))
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(new Set(nonces.map(({ PartialID }) => PartialID)).size).toEqual(50);
+    nonces.forEach(({ ExpirationBlockHeight, PartialID }) => {
+      expect(ExpirationBlockHeight).toEqual(1275);
+      expect(Number.isSafeInteger(PartialID)).toBe(true);
+    });
+    expect(nonceManager.outstanding(PUBLIC_KEY)).toHaveLength(50);
+  });
+
+  it('uses the per call expiration window and releases expired nonces', async () => {
+    const nonceManager = new NonceManager();
+    nonceManager.configure({ expirationBlocks: 100 });
+
+    const short = await nonceManager.acquire(PUBLIC_KEY, {
+      expirationBlocks: 5,
+    });
+    const long = await nonceManager.acquire(PUBLIC_KEY);
+
+    expect(short.ExpirationBlockHeight).toEqual(1005);
+    expect(long.ExpirationBlockHeight).toEqual(1100);
+
+    blockHeight = 1010;
+    await nonceManager.getBlockHeight({ forceRefresh: true });
+
+    expect(nonceManager.outstanding(PUBLIC_KEY)).toEqual([long]);
+
+    nonceManager.release(PUBLIC_KEY, long.PartialID);
+
+    expect(nonceManager.outstanding(PUBLIC_KEY)).toEqual([]);
+  });
+});
@@ -0,0 +1,219 @@
+import { DeSoNonce, RequestOptions } from '../backend-types/index.js';
+import { DeSoError, ERROR_TYPES } from '../identity/error-types.js';
+import { getAppState } from './data.js';
+
+export interface NonceManagerConfig {
+  /**
+   * The number of blocks after the current block height that a transaction's
+   * nonce expires. Defaults to 275.
+   */
+  expirationBlocks?: number;
+  /**
+   * How long a fetched block height is reused before it is fetched again.
+   * A stale block height only makes nonces expire a little sooner, so this
+   * should be well below the time it takes to produce expirationBlocks
+   * blocks. Defaults to 5000ms.
+   */
+  blockHeightTTLMs?: number;
+}
+
+export interface AcquireNonceOptions {
+  /**
+   * Overrides the configured expirationBlocks for this nonce.
+   */
+  expirationBlocks?: number;
+  /**
+   * Use this exact expiration block height instead of computing one from the
+   * current block height.
+   */
+  expirationBlockHeight?: number;
+  /**
+   * The node to read the block height from. Defaults to the configured node.
+   */
+  nodeURI?: string;
+}
+
+interface CachedBlockHeight {
+  blockHeight?: number;
+  fetchedAt: number;
+  pending?: Promise<number>;
+}
+
+const DEFAULT_EXPIRATION_BLOCKS = 275;
+const DEFAULT_BLOCK_HEIGHT_TTL_MS = 5000;
+const MAX_PARTIAL_ID_ATTEMPTS = 10;
+
+/**
+ * Hands out transaction nonces for locally constructed transactions. The block
+ * height used to compute expirations is cached so that constructing many
+ * transactions doesn't cost a round trip each, and partial IDs are tracked per
+ * public key so the same one is never handed out twice while a previous nonce
+ * with it could still be mined.
+ */
+export class NonceManager {
+  #config: Required<NonceManagerConfig> = {
+    expirationBlocks: DEFAULT_EXPIRATION_BLOCKS,
+    blockHeightTTLMs: DEFAULT_BLOCK_HEIGHT_TTL_MS,
+  };
+  #blockHeights = new Map<string | undefined, CachedBlockHeight>();
+  // public key -> partial id -> expiration block height
+  #outstanding = new Map<string, Map<number, number>>();
+  #requestOptions: Pick<RequestOptions, 'client'>;
+
+  /**
+   * @param requestOptions used when fetching the block height, e.g. to read
+   * it through a specific client's node.
+   */
+  constructor(requestOptions: Pick<RequestOptions, 'client'> = {}) {
+    this.#requestOptions = requestOptions;
+  }
+
+  configure(config: NonceManagerConfig) {
+    if (typeof config.expirationBlocks === 'number') {
+      this.#config.expirationBlocks = config.expirationBlocks;
+    }
+
+    if (typeof config.blockHeightTTLMs === 'number') {
+      this.#config.blockHeightTTLMs = config.blockHeightTTLMs;
+      this.#blockHeights.clear();
+    }
+  }
+
+  /**
+   * Returns the current block height, using the cached value if it was
+   * fetched within blockHeightTTLMs. Concurrent calls share a single request.
+   */
+  async getBlockHeight({
+    nodeURI,
+    forceRefresh = false,
+  }: { nodeURI?: string; forceRefresh?: boolean } = {}): Promise<number> {
+    const cached = this.#blockHeights.get(nodeURI);
+
+    if (cached?.pending) {
+      return cached.pending;
+    }
+
+    if (
+      !forceRefresh &&
+      cached?.blockHeight !== undefined &&
+      Date.now() - cached.fetchedAt < this.#config.blockHeightTTLMs
+    ) {
+      return cached.blockHeight;
+    }
+
+    const pending = getAppState({}, { ...this.#requestOptions, nodeURI })
+      .then(({ BlockHeight }) => {
+        this.#blockHeights.set(nodeURI, {
+          blockHeight: BlockHeight,
+          fetchedAt: Date.now(),
+        });
+        this.#releaseExpired(BlockHeight);
+        return BlockHeight;
+      })
+      .catch((e) => {
+        // Drop the pending request so the next call tries again, but keep
+        // the last known height around for anyone inspecting the cache.
+        this.#blockHeights.set(nodeURI, {
+          blockHeight: cached?.blockHeight,
+          fetchedAt: cached?.fetchedAt ?? 0,
+        });
+        throw e;
+      });
+
+    this.#blockHeights.set(nodeURI, {
+      blockHeight: cached?.blockHeight,
+      fetchedAt: cached?.fetchedAt ?? 0,
+      pending,
+    });
+
+    return pending;
+  }
+
+  /**
+   * Returns the block height a nonce acquired now would expire at.
+   */
+  async getExpirationBlockHeight({
+    nodeURI,
+    expirationBlocks = this.#config.expirationBlocks,
+  }: { nodeURI?: string; expirationBlocks?: number } = {}): Promise<number> {
+    return (await this.getBlockHeight({ nodeURI })) + expirationBlocks;
+  }
+
+  /**
+   * Reserves a nonce for a transaction from the given public key. The partial
+   * ID is unique among the key's outstanding nonces and is held until the
+   * nonce expires or it is released.
+   */
+  async acquire(
+    publicKey: string,
+    options: AcquireNonceOptions = {}
+  ): Promise<DeSoNonce> {
+    const ExpirationBlockHeight =
+      options.expirationBlockHeight ??
+      (await this.getExpirationBlockHeight(options));
+
+    let partialIds = this.#outstanding.get(publicKey);
+    if (!partialIds) {
+      partialIds = new Map();
+      this.#outstanding.set(publicKey, partialIds);
+    }
+
+    for (let attempt = 0; attempt < MAX_PARTIAL_ID_ATTEMPTS; attempt++) {
+      const PartialID = Math.floor(Math.random() * Number.MAX_SAFE_INTEGER);
+
+      if (!partialIds.has(PartialID)) {
+        partialIds.set(PartialID, ExpirationBlockHeight);
+        return { ExpirationBlockHeight, PartialID };
+      }
+    }
+
+    // With 2^53 possible partial ids this is effectively unreachable unless
+    // Math.random has been replaced with something deterministic.
+    throw new DeSoError(
+      `Unable to generate a unique nonce partial id for ${publicKey}`,
+      { code: ERROR_TYPES.BAD_NONCE }
+    );
+  }
+
+  /**
+   * Releases a nonce so its partial ID can be reused, e.g. when the
+   * transaction it was acquired for is never submitted.
+   */
+  release(publicKey: string, partialId: number) {
+    const partialIds = this.#outstanding.get(publicKey);
+
+    partialIds?.delete(partialId);
+    if (partialIds?.size === 0) {
+      this.#outstanding.delete(publicKey);
+    }
+  }
+
+  /**
+   * Returns the nonces acquired for the given public key that have not yet
+   * expired or been released.
+   */
+  outstanding(publicKey: string): DeSoNonce[] {
+    return Array.from(this.#outstanding.get(publicKey) ?? []).map(
+      ([PartialID, ExpirationBlockHeight]) => ({
+        ExpirationBlockHeight,
+        PartialID,
+      })
+    );
+  }
+
+  #releaseExpired(blockHeight: number) {
+    this.#outstanding.forEach((partialIds, publicKey) => {
+      partialIds.forEach((expirationBlockHeight, partialId) => {
+        if (expirationBlockHeight < blockHeight) {
+          partialIds.delete(partialId);
+        }
+      });
+
+      if (partialIds.size === 0) {
+        this.#outstanding.delete(publicKey);
+      }
+    });
+  }
+}
+
+export const nonceManager = new NonceManager();
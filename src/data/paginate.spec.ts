@@ -0,0 +1,104 @@
+import { createDesoClient } from '../client.js';
+import { createFetchResponse } from './api.js';
+import { getHotFeed, getPostsForUser, getSingleProfile } from './data.js';
+import { paginate } from './paginate.js';
+
+const post = (PostHashHex: string) => ({ PostHashHex, Body: PostHashHex });
+
+describe('paginate', () => {
+  const collect = async <T>(iterator: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  it('follows the cursor, dedupes inclusive pages and stops at the last page', async () => {
+    const pages: Record<string, any> = {
+      '': { Posts: [post('a'), post('b')], LastPostHashHex: 'b' },
+      b: { Posts: [post('b'), post('c')], LastPostHashHex: 'c' },
+      c: { Posts: [post('d')], LastPostHashHex: 'd' },
+    };
+    const fetchMock = jest.fn((_: string, init: any) =>
+      Promise.resolve(
+        createFetchResponse(
+          200,
+          JSON.stringify(pages[JSON.parse(init.body).LastPostHashHex ?? ''])
+        )
+      )
+    );
+    const client = createDesoClient({ fetch: fetchMock });
+
+    const posts = await collect(
+      client.paginate(getPostsForUser, { Username: 'nader' }, { pageSize: 2 })
+    );
+
+    expect(posts.map(({ PostHashHex }) => PostHashHex)).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+    expect(
+      fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body))
+    ).toEqual([
+      { Username: 'nader', NumToFetch: 2 },
+      { Username: 'nader', NumToFetch: 2, LastPostHashHex: 'b' },
+      { Username: 'nader', NumToFetch: 2, LastPostHashHex: 'c' },
+    ]);
+
+    fetchMock.mockClear();
+    const limited = await collect(
+      client.paginate(
+        getPostsForUser,
+        { Username: 'nader', NumToFetch: 2 },
+        { maxItems: 3 }
+      )
+    );
+
+    expect(limited).toHaveLength(3);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends seen posts for the hot feed and stops when aborted', async () => {
+    let page = 0;
+    const fetchMock = jest.fn(() => {
+      page++;
+      return Promise.resolve(
+        createFetchResponse(
+          200,
+          JSON.stringify({ HotFeedPage: [post(`${page}a`), post(`${page}b`)] })
+        )
+      );
+    });
+    const client = createDesoClient({ fetch: fetchMock });
+    const controller = new AbortController();
+    const posts: string[] = [];
+
+    await expect(async () => {
+      for await (const { PostHashHex } of client.paginate(
+        getHotFeed,
+        {},
+        { pageSize: 5, signal: controller.signal }
+      )) {
+        posts.push(PostHashHex);
+        if (posts.length === 4) {
+          controller.abort(new Error('stop'));
+        }
+      }
+    }).rejects.toThrow('stop');
+
+    expect(posts).toEqual(['1a', '1b', '2a', '2b']);
+    expect(JSON.parse((fetchMock.mock.calls[1] as any)[1].body)).toEqual({
+      ResponseLimit: 5,
+      SeenPosts: ['1a', '1b'],
+    });
+  });
+
+  it('rejects functions that are not paginated', async () => {
+    await expect(
+      collect(paginate(getSingleProfile as any, { Username: 'nader' }))
+    ).rejects.toThrow('getSingleProfile does not support pagination');
+  });
+});
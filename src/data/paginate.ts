@@ -0,0 +1,387 @@
+import {
+  BalanceEntryResponse,
+  DiamondSenderResponse,
+  GetDiamondsForPostResponse,
+  GetFollowsResponse,
+  GetHodlersForPublicKeyResponse,
+  GetLikesForPostResponse,
+  GetNotificationsResponse,
+  GetPaginatedAccessGroupMembersResponse,
+  GetPaginatedMessagesForDmThreadResponse,
+  GetPaginatedMessagesForGroupChatThreadResponse,
+  GetPostsForPublicKeyResponse,
+  GetQuoteRepostsForPostResponse,
+  GetRepostsForPostResponse,
+  HotFeedPageResponse,
+  NewMessageEntryResponse,
+  PostAssociationResponse,
+  PostAssociationsResponse,
+  PostEntryResponse,
+  ProfileEntryResponse,
+  RequestOptions,
+  TransactionMetadataResponse,
+  UserAssociationResponse,
+  UserAssociationsResponse,
+} from '../backend-types/index.js';
+import { DeSoValidationError } from '../identity/error-types.js';
+import {
+  getDiamondsForPost,
+  getFollowersForUser,
+  getHodlersForUser,
+  getHotFeed,
+  getLikesForPost,
+  getNotifications,
+  getPaginatedAccessGroupMembers,
+  getPaginatedDMThread,
+  getPaginatedGroupChatThread,
+  getPostAssociations,
+  getPostsForUser,
+  getQuoteRepostsForPost,
+  getRepostsForPost,
+  getUserAssociations,
+} from './data.js';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * The item type yielded by paginate for a paginated endpoint's response.
+ */
+export type PaginatedItem<R> = R extends GetPostsForPublicKeyResponse
+  ? PostEntryResponse
+  : R extends GetFollowsResponse
+  ? ProfileEntryResponse
+  : R extends GetNotificationsResponse
+  ? TransactionMetadataResponse
+  : R extends GetPaginatedMessagesForDmThreadResponse
+  ? NewMessageEntryResponse
+  : R extends GetPaginatedMessagesForGroupChatThreadResponse
+  ? NewMessageEntryResponse
+  : R extends GetPaginatedAccessGroupMembersResponse
+  ? string
+  : R extends GetHodlersForPublicKeyResponse
+  ? BalanceEntryResponse
+  : R extends UserAssociationsResponse
+  ? UserAssociationResponse
+  : R extends PostAssociationsResponse
+  ? PostAssociationResponse
+  : R extends HotFeedPageResponse
+  ? PostEntryResponse
+  : R extends GetLikesForPostResponse
+  ? ProfileEntryResponse
+  : R extends GetDiamondsForPostResponse
+  ? DiamondSenderResponse
+  : R extends GetRepostsForPostResponse
+  ? ProfileEntryResponse
+  : R extends GetQuoteRepostsForPostResponse
+  ? PostEntryResponse
+  : never;
+
+type PageSizeParam =
+  | 'NumToFetch'
+  | 'MaxMessagesToFetch'
+  | 'MaxMembersToFetch'
+  | 'Limit'
+  | 'ResponseLimit';
+
+/**
+ * The params of a paginated endpoint. The page size is optional since it can
+ * also be set with the pageSize option.
+ */
+export type PaginateParams<P> = P extends any
+  ? Omit<P, PageSizeParam> & Partial<Pick<P, PageSizeParam & keyof P>>
+  : never;
+
+export interface PaginateOptions extends RequestOptions {
+  /**
+   * The number of items to request per page. Defaults to the page size in the
+   * params, or 50.
+   */
+  pageSize?: number;
+  /**
+   * Stop after this many items have been yielded.
+   */
+  maxItems?: number;
+  /**
+   * Skip items that were already yielded by an earlier page. Some cursors are
+   * inclusive, so this is on by default.
+   */
+  dedupe?: boolean;
+}
+
+interface PaginationScheme {
+  pageSizeParam: PageSizeParam;
+  items: (res: any) => any[] | null | undefined;
+  key: (item: any) => string;
+  /**
+   * Returns the params that move the cursor past the given page, or null if
+   * there are no more pages.
+   */
+  next: (params: any, res: any, items: any[]) => Record<string, any> | null;
+  /**
+   * Whether a page with fewer items than requested is the last one. The hot
+   * feed filters pages after fetching them, so it can't rely on this.
+   */
+  shortPageIsLast?: boolean;
+}
+
+const lastOf = <T>(items: T[]) => items[items.length - 1];
+
+const messageKey = ({ SenderInfo, MessageInfo }: NewMessageEntryResponse) =>
+  `${SenderInfo?.OwnerPublicKeyBase58Check}:${MessageInfo?.TimestampNanosString}`;
+
+const messagesBefore = (items: NewMessageEntryResponse[]) => ({
+  StartTimeStampString: lastOf(items).MessageInfo.TimestampNanosString,
+});
+
+const offsetScheme = (
+  items: (res: any) => any[] | null | undefined,
+  key: (item: any) => string
+): PaginationScheme => ({
+  pageSizeParam: 'Limit',
+  items,
+  key,
+  next: (params, _, page) => ({ Offset: (params.Offset ?? 0) + page.length }),
+});
+
+const PAGINATION_SCHEMES = new Map<unknown, PaginationScheme>([
+  [
+    getPostsForUser,
+    {
+      pageSizeParam: 'NumToFetch',
+      items: (res: GetPostsForPublicKeyResponse) => res.Posts,
+      key: (post: PostEntryResponse) => post.PostHashHex,
+      next: (_, res: GetPostsForPublicKeyResponse) =>
+        res.LastPostHashHex ? { LastPostHashHex: res.LastPostHashHex } : null,
+    },
+  ],
+  [
+    getFollowersForUser,
+    {
+      pageSizeParam: 'NumToFetch',
+      items: (res: GetFollowsResponse) =>
+        Object.values(res.PublicKeyToProfileEntry ?? {}),
+      key: (profile: ProfileEntryResponse) => profile.PublicKeyBase58Check,
+      next: (_, __, profiles: ProfileEntryResponse[]) => ({
+        LastPublicKeyBase58Check: lastOf(profiles).PublicKeyBase58Check,
+      }),
+    },
+  ],
+  [
+    getNotifications,
+    {
+      pageSizeParam: 'NumToFetch',
+      items: (res: GetNotificationsResponse) => res.Notifications,
+      key: (notification: TransactionMetadataResponse) =>
+        String(notification.Index),
+      // Notifications are returned newest first, starting at FetchStartIndex.
+      next: (_, __, notifications: TransactionMetadataResponse[]) => {
+        const FetchStartIndex =
+          Math.min(...notifications.map(({ Index }) => Index)) - 1;
+        return FetchStartIndex >= 0 ? { FetchStartIndex } : null;
+      },
+    },
+  ],
+  [
+    getPaginatedDMThread,
+    {
+      pageSizeParam: 'MaxMessagesToFetch',
+      items: (res: GetPaginatedMessagesForDmThreadResponse) =>
+        res.ThreadMessages,
+      key: messageKey,
+      next: (_, __, messages) => messagesBefore(messages),
+    },
+  ],
+  [
+    getPaginatedGroupChatThread,
+    {
+      pageSizeParam: 'MaxMessagesToFetch',
+      items: (res: GetPaginatedMessagesForGroupChatThreadResponse) =>
+        res.GroupChatMessages,
+      key: messageKey,
+      next: (_, __, messages) => messagesBefore(messages),
+    },
+  ],
+  [
+    getPaginatedAccessGroupMembers,
+    {
+      pageSizeParam: 'MaxMembersToFetch',
+      items: (res: GetPaginatedAccessGroupMembersResponse) =>
+        res.AccessGroupMembersBase58Check,
+      key: (publicKey: string) => publicKey,
+      next: (_, __, members: string[]) => ({
+        StartingAccessGroupMemberPublicKeyBase58Check: lastOf(members),
+      }),
+    },
+  ],
+  [
+    getHodlersForUser,
+    {
+      pageSizeParam: 'NumToFetch',
+      items: (res: GetHodlersForPublicKeyResponse) => res.Hodlers,
+      key: (balance: BalanceEntryResponse) =>
+        `${balance.HODLerPublicKeyBase58Check}:${balance.CreatorPublicKeyBase58Check}`,
+      next: (_, res: GetHodlersForPublicKeyResponse) =>
+        res.LastPublicKeyBase58Check
+          ? { LastPublicKeyBase58Check: res.LastPublicKeyBase58Check }
+          : null,
+    },
+  ],
+  ...[getUserAssociations, getPostAssociations].map(
+    (fn): [unknown, PaginationScheme] => [
+      fn,
+      {
+        pageSizeParam: 'Limit',
+        items: (res: UserAssociationsResponse | PostAssociationsResponse) =>
+          res.Associations,
+        key: (association: { AssociationID: string }) =>
+          association.AssociationID,
+        next: (_, __, associations: { AssociationID: string }[]) => ({
+          LastSeenAssociationID: lastOf(associations).AssociationID,
+        }),
+      },
+    ]
+  ),
+  [
+    getHotFeed,
+    {
+      pageSizeParam: 'ResponseLimit',
+      items: (res: HotFeedPageResponse) => res.HotFeedPage,
+      key: (post: PostEntryResponse) => post.PostHashHex,
+      next: (params, _, posts: PostEntryResponse[]) => ({
+        SeenPosts: [
+          ...(params.SeenPosts ?? []),
+          ...posts.map(({ PostHashHex }) => PostHashHex),
+        ],
+      }),
+      shortPageIsLast: false,
+    },
+  ],
+  [
+    getLikesForPost,
+    offsetScheme(
+      (res: GetLikesForPostResponse) => res.Likers,
+      (profile: ProfileEntryResponse) => profile.PublicKeyBase58Check
+    ),
+  ],
+  [
+    getDiamondsForPost,
+    offsetScheme(
+      (res: GetDiamondsForPostResponse) => res.DiamondSenders,
+      (diamond: DiamondSenderResponse) =>
+        `${diamond.DiamondSenderProfile?.PublicKeyBase58Check}:${diamond.DiamondLevel}`
+    ),
+  ],
+  [
+    getRepostsForPost,
+    offsetScheme(
+      (res: GetRepostsForPostResponse) => res.Reposters,
+      (profile: ProfileEntryResponse) => profile.PublicKeyBase58Check
+    ),
+  ],
+  [
+    getQuoteRepostsForPost,
+    offsetScheme(
+      (res: GetQuoteRepostsForPostResponse) => res.QuoteReposts,
+      (post: PostEntryResponse) => post.PostHashHex
+    ),
+  ],
+]);
+
+/**
+ * Returns true if paginate supports the given data function.
+ */
+export const isPaginated = (fn: unknown) => PAGINATION_SCHEMES.has(fn);
+
+/**
+ * Iterates over every item of a paginated data endpoint, fetching pages as
+ * they are needed. Each endpoint's cursor (LastPostHashHex, FetchStartIndex,
+ * StartTimeStampString, SeenPosts, LastSeenAssociationID, Offset, etc.) is
+ * handled internally, so callers only pass the params for the first page.
+ * Iteration stops at the last page, after maxItems items, or when the signal
+ * is aborted. Breaking out of the loop stops fetching.
+ *
+ * NOTE: pass the top level data functions, e.g. getPostsForUser. To paginate
+ * through a client created with createDesoClient, use client.paginate.
+ *
+ * @example
+ * ```ts
+ * for await (const post of paginate(
+ *   getPostsForUser,
+ *   { Username: 'nader' },
+ *   { pageSize: 20, maxItems: 100 }
+ * )) {
+ *   console.log(post.Body);
+ * }
+ * ```
+ */
+export async function* paginate<P, R>(
+  fn: (params: P, options?: RequestOptions) => Promise<R>,
+  params: PaginateParams<P>,
+  {
+    pageSize,
+    maxItems = Infinity,
+    dedupe = true,
+    ...options
+  }: PaginateOptions = {}
+): AsyncGenerator<PaginatedItem<R>, void, undefined> {
+  const scheme = PAGINATION_SCHEMES.get(fn);
+
+  if (!scheme) {
+    throw new DeSoValidationError(
+      `${fn.name || 'This function'} does not support pagination`
+    );
+  }
+
+  const size =
+    pageSize ??
+    (params as Record<string, any>)[scheme.pageSizeParam] ??
+    DEFAULT_PAGE_SIZE;
+  const seen = new Set<string>();
+  let pageParams: Record<string, any> = {
+    ...params,
+    [scheme.pageSizeParam]: size,
+  };
+  let yielded = 0;
+
+  while (yielded < maxItems) {
+    if (options.signal?.aborted) {
+      throw options.signal.reason;
+    }
+
+    const res = await fn(pageParams as P, options);
+    const items = scheme.items(res) ?? [];
+    let unseen = 0;
+
+    for (const item of items) {
+      const key = scheme.key(item);
+      const isNew = !seen.has(key);
+      seen.add(key);
+
+      if (isNew) {
+        unseen++;
+      } else if (dedupe) {
+        continue;
+      }
+
+      yield item;
+      if (++yielded >= maxItems) {
+        return;
+      }
+    }
+
+    const nextParams = items.length
+      ? scheme.next(pageParams, res, items)
+      : null;
+
+    // A page of nothing but repeats means the cursor is not advancing.
+    if (
+      !nextParams ||
+      !unseen ||
+      (scheme.shortPageIsLast !== false && items.length < size)
+    ) {
+      return;
+    }
+
+    pageParams = { ...pageParams, ...nextParams };
+  }
+}
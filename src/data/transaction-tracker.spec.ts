@@ -0,0 +1,120 @@
+import { ERROR_TYPES } from '../identity/error-types.js';
+import { jsonResponse } from '../test-utils.js';
+import {
+  TransactionStatusEvent,
+  trackTransaction,
+} from './transaction-tracker.js';
+
+const TXN_HASH_HEX =
+  'a3d9e2f9d3c1b0a1e5f6a7b8c9d0e1f2a3b4c5d6e7f8091a2b3c4d5e6f708192';
+
+describe('trackTransaction', () => {
+  const originalFetch = globalThis.fetch;
+  let blockHeight: number;
+  let transactions: any[];
+
+  beforeEach(() => {
+    blockHeight = 100;
+    transactions = [];
+    globalThis.fetch = jest.fn((url: string) => {
+      if (url.endsWith('get-app-state')) {
+        return jsonResponse({ BlockHeight: blockHeight, IsTestnet: false });
+      }
+      if (url.endsWith('transaction-info')) {
+        return jsonResponse({ Transactions: transactions });
+      }
+      return Promise.reject(new Error(`unexpected url: ${url}`));
+    }) as jest.Mock;
+  });
+
+  afterAll(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('emits each status until the transaction is committed', async () => {
+    const tracked = trackTransaction(TXN_HASH_HEX, { pollIntervalMs: 5 });
+    const events: TransactionStatusEvent[] = [];
+
+    tracked.on((event) => {
+      if (event.status === 'in-mempool') {
+        transactions = [{ BlockHashHex: 'aa', BlockInfo: { Height: 101 } }];
+        blockHeight = 101;
+      } else if (event.status === 'mined') {
+        blockHeight = 103;
+      }
+    });
+    transactions = [{ BlockHashHex: '' }];
+
+    for await (const event of tracked) {
+      events.push(event);
+    }
+
+    expect(events.map(({ status }) => status)).toEqual([
+      'submitted',
+      'in-mempool',
+      'mined',
+      'committed',
+    ]);
+    expect(events[3]).toMatchObject({
+      blockHeight: 101,
+      confirmations: 3,
+      currentBlockHeight: 103,
+    });
+  });
+
+  it('rejects when the nonce expires before the transaction is mined', async () => {
+    blockHeight = 200;
+    const tracked = trackTransaction(TXN_HASH_HEX, {
+      pollIntervalMs: 5,
+      expirationBlockHeight: 150,
+    });
+
+    await expect(tracked.confirmed()).rejects.toMatchObject({
+      code: ERROR_TYPES.TRANSACTION_EXPIRED,
+    });
+    expect(tracked.latest.status).toEqual('expired');
+  });
+
+  it('reports failed checks and keeps tracking', async () => {
+    let isNodeDown = true;
+    globalThis.fetch = jest.fn((url: string) =>
+      isNodeDown
+        ? jsonResponse({ error: 'bad request' }, 400)
+        : url.endsWith('get-app-state')
+        ? jsonResponse({ BlockHeight: blockHeight, IsTestnet: false })
+        : jsonResponse({ Transactions: [{ BlockHashHex: '' }] })
+    ) as jest.Mock;
+    const tracked = trackTransaction(TXN_HASH_HEX, { pollIntervalMs: 5 });
+    const events: TransactionStatusEvent[] = [];
+
+    tracked.on((event) => {
+      events.push(event);
+      isNodeDown = false;
+    });
+    await new Promise<void>((resolve) =>
+      tracked.on(({ status }) => status === 'in-mempool' && resolve())
+    );
+    tracked.stop();
+
+    expect(events[0]).toMatchObject({
+      status: 'submitted',
+      error: expect.objectContaining({ status: 400 }),
+    });
+    expect(events[1]).toMatchObject({ status: 'in-mempool' });
+    expect(events[1].error).toBeUndefined();
+  });
+
+  it('rejects pending promises when stopped', async () => {
+    const tracked = trackTransaction(TXN_HASH_HEX, { pollIntervalMs: 5 });
+    const committed = tracked.committed();
+
+    tracked.stop();
+
+    await expect(committed).rejects.toMatchObject({
+      code: ERROR_TYPES.TRACKING_STOPPED,
+    });
+    await expect(tracked.confirmed()).rejects.toMatchObject({
+      code: ERROR_TYPES.TRACKING_STOPPED,
+    });
+  });
+});
@@ -0,0 +1,445 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { RequestOptions } from '../backend-types/index.js';
+import { publicKeyToBase58Check } from '../identity/crypto-utils.js';
+import { DeSoError, ERROR_TYPES } from '../identity/error-types.js';
+import { decodeTransaction } from '../identity/transaction-decoder.js';
+import { getAppState, getBlock, getTransactionInfo } from './data.js';
+
+export type TransactionStatus =
+  | 'submitted'
+  | 'in-mempool'
+  | 'mined'
+  | 'committed'
+  | 'expired'
+  | 'dropped';
+
+export interface TransactionStatusEvent {
+  status: TransactionStatus;
+  txnHashHex: string;
+  /**
+   * The height of the block the transaction was mined in, once it is mined.
+   */
+  blockHeight?: number;
+  /**
+   * The number of blocks at or above the block the transaction was mined in.
+   * 0 until the transaction is mined.
+   */
+  confirmations: number;
+  /**
+   * The tip of the chain when this event was emitted.
+   */
+  currentBlockHeight?: number;
+  /**
+   * Set when the last status check failed, e.g. because the node could not
+   * be reached. The status is unchanged and tracking continues, so the next
+   * successful check emits an event without it.
+   */
+  error?: unknown;
+}
+
+export interface TrackTransactionOptions extends RequestOptions {
+  /**
+   * The signed transaction hex. If provided, the nonce expiration block height
+   * is read from it so we can tell when the transaction has expired.
+   */
+  transactionHex?: string;
+  /**
+   * The nonce expiration block height of the transaction. Takes precedence
+   * over the value decoded from transactionHex.
+   */
+  expirationBlockHeight?: number;
+  /**
+   * The number of confirmations at which a transaction is considered
+   * committed. DeSo's proof of stake consensus commits a block once two
+   * blocks have been built on top of it, so this defaults to 3.
+   */
+  commitConfirmations?: number;
+  /**
+   * How often to check the status of the transaction. All tracked
+   * transactions are checked together at the shortest interval requested.
+   * Defaults to 1000ms.
+   */
+  pollIntervalMs?: number;
+  /**
+   * The number of consecutive checks the transaction can be missing from both
+   * the mempool and the chain before it is considered dropped. Defaults to 10.
+   */
+  maxMissedPolls?: number;
+}
+
+export interface TrackedTransaction
+  extends AsyncIterable<TransactionStatusEvent> {
+  readonly txnHashHex: string;
+  /**
+   * The most recent status event.
+   */
+  readonly latest: TransactionStatusEvent;
+  /**
+   * Registers a listener that is called with every status event. Returns a
+   * function that removes the listener.
+   */
+  on(listener: (event: TransactionStatusEvent) => void): () => void;
+  /**
+   * Resolves once the transaction has been mined and has at least the given
+   * number of confirmations. Rejects if the transaction expires or is dropped.
+   */
+  confirmed(confirmations?: number): Promise<TransactionStatusEvent>;
+  /**
+   * Resolves once the transaction is committed. Rejects if the transaction
+   * expires or is dropped.
+   */
+  committed(): Promise<TransactionStatusEvent>;
+  /**
+   * Stops tracking the transaction. Pending confirmed and committed promises
+   * are rejected with a TRACKING_STOPPED error and async iterators are ended.
+   */
+  stop(): void;
+}
+
+const TERMINAL_STATUSES: TransactionStatus[] = [
+  'committed',
+  'expired',
+  'dropped',
+];
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+
+interface TrackerEntry {
+  txnHashHex: string;
+  options: TrackTransactionOptions;
+  expirationBlockHeight?: number;
+  missedPolls: number;
+  isStopped: boolean;
+  latest: TransactionStatusEvent;
+  listeners: Set<(event: TransactionStatusEvent) => void>;
+  stopListeners: Set<() => void>;
+}
+
+/**
+ * Polls the node for every tracked transaction in a single loop so that
+ * tracking many transactions shares the block height and block lookups.
+ */
+class TransactionTracker {
+  #entries = new Set<TrackerEntry>();
+  #timeoutId: ReturnType<typeof setTimeout> | undefined;
+  #isPolling = false;
+
+  add(entry: TrackerEntry) {
+    this.#entries.add(entry);
+    this.#schedule();
+  }
+
+  remove(entry: TrackerEntry) {
+    this.#entries.delete(entry);
+
+    if (this.#entries.size === 0) {
+      clearTimeout(this.#timeoutId);
+      this.#timeoutId = undefined;
+    }
+  }
+
+  #schedule() {
+    if (
+      this.#timeoutId !== undefined ||
+      this.#isPolling ||
+      this.#entries.size === 0
+    ) {
+      return;
+    }
+
+    const intervalMs = Math.min(
+      ...Array.from(this.#entries).map(
+        ({ options }) => options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS
+      )
+    );
+
+    this.#timeoutId = setTimeout(() => {
+      this.#timeoutId = undefined;
+      this.#isPolling = true;
+      this.#poll().finally(() => {
+        this.#isPolling = false;
+        this.#schedule();
+      });
+    }, intervalMs);
+  }
+
+  async #poll() {
+    const entries = Array.from(this.#entries);
+    // Entries can be tracked against different nodes, so we share lookups per
+    // node rather than globally.
+    const appStates = new Map<
+      string | undefined,
+      ReturnType<typeof getAppState>
+    >();
+    const blockHeights = new Map<string, Promise<number | undefined>>();
+
+    await Promise.all(
+      entries.map(async (entry) => {
+        const { nodeURI, client } = entry.options;
+        const requestOptions = { nodeURI, client };
+        const nodeKey = nodeURI ?? client?.api.nodeURI;
+
+        try {
+          if (!appStates.has(nodeKey)) {
+            appStates.set(nodeKey, getAppState({}, requestOptions));
+          }
+          const { BlockHeight, IsTestnet } = await (appStates.get(
+            nodeKey
+          ) as ReturnType<typeof getAppState>);
+          const { Transactions } = await getTransactionInfo(
+            {
+              TransactionIDBase58Check: publicKeyToBase58Check(
+                hexToBytes(entry.txnHashHex),
+                { network: IsTestnet ? 'testnet' : 'mainnet' }
+              ),
+            },
+            requestOptions
+          );
+          const [txn] = Transactions ?? [];
+
+          entry.expirationBlockHeight =
+            entry.expirationBlockHeight ?? txn?.TxnNonce?.ExpirationBlockHeight;
+
+          if (txn?.BlockHashHex) {
+            const blockKey = `${nodeKey}:${txn.BlockHashHex}`;
+            if (!blockHeights.has(blockKey)) {
+              blockHeights.set(
+                blockKey,
+                txn.BlockInfo?.Height !== undefined
+                  ? Promise.resolve(txn.BlockInfo.Height)
+                  : getBlock(
+                      { HashHex: txn.BlockHashHex },
+                      requestOptions
+                    ).then(({ Header }) => Header?.Height)
+              );
+            }
+            const blockHeight =
+              (await blockHeights.get(blockKey)) ?? BlockHeight;
+            const confirmations = Math.max(BlockHeight - blockHeight + 1, 1);
+
+            entry.missedPolls = 0;
+            update(entry, {
+              status:
+                confirmations >= (entry.options.commitConfirmations ?? 3)
+                  ? 'committed'
+                  : 'mined',
+              blockHeight,
+              confirmations,
+              currentBlockHeight: BlockHeight,
+            });
+          } else if (txn) {
+            entry.missedPolls = 0;
+            update(entry, {
+              status: 'in-mempool',
+              confirmations: 0,
+              currentBlockHeight: BlockHeight,
+            });
+          } else if (
+            entry.expirationBlockHeight !== undefined &&
+            BlockHeight > entry.expirationBlockHeight
+          ) {
+            update(entry, {
+              status: 'expired',
+              confirmations: 0,
+              currentBlockHeight: BlockHeight,
+            });
+          } else {
+            entry.missedPolls++;
+            if (entry.missedPolls >= (entry.options.maxMissedPolls ?? 10)) {
+              update(entry, {
+                status: 'dropped',
+                confirmations: 0,
+                currentBlockHeight: BlockHeight,
+              });
+            }
+          }
+        } catch (e) {
+          // The api client already retried and failed over, so we report the
+          // error and try again on the next poll.
+          update(entry, { ...entry.latest, error: e });
+        }
+
+        if (TERMINAL_STATUSES.includes(entry.latest.status)) {
+          this.remove(entry);
+        }
+      })
+    );
+  }
+}
+
+const tracker = new TransactionTracker();
+
+const update = (
+  entry: TrackerEntry,
+  event: Omit<TransactionStatusEvent, 'txnHashHex'>
+) => {
+  const { latest } = entry;
+
+  if (
+    latest.status === event.status &&
+    latest.confirmations === event.confirmations &&
+    !latest.error &&
+    !event.error
+  ) {
+    return;
+  }
+
+  entry.latest = { ...event, txnHashHex: entry.txnHashHex };
+  entry.listeners.forEach((listener) => listener(entry.latest));
+};
+
+/**
+ * Tracks a submitted transaction through the mempool and into a committed
+ * block, emitting an event each time its status changes:
+ * `submitted → in-mempool → mined → committed`, or `expired`/`dropped` if it
+ * never makes it into a block.
+ *
+ * @example
+ * ```ts
+ * const { TxnHashHex } = await identity.submitTx(signedTxHex);
+ * const tracked = trackTransaction(TxnHashHex, { transactionHex: signedTxHex });
+ *
+ * for await (const { status, blockHeight } of tracked) {
+ *   console.log(status, blockHeight);
+ * }
+ *
+ * // or just wait for it to be committed
+ * await tracked.committed();
+ * ```
+ */
+export const trackTransaction = (
+  txnHashHex: string,
+  options: TrackTransactionOptions = {}
+): TrackedTransaction => {
+  const entry: TrackerEntry = {
+    txnHashHex,
+    options,
+    expirationBlockHeight:
+      options.expirationBlockHeight ??
+      (options.transactionHex
+        ? decodeTransaction(options.transactionHex).nonce?.expirationBlockHeight
+        : undefined),
+    missedPolls: 0,
+    isStopped: false,
+    latest: { status: 'submitted', txnHashHex, confirmations: 0 },
+    listeners: new Set(),
+    stopListeners: new Set(),
+  };
+  const on = (listener: (event: TransactionStatusEvent) => void) => {
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+    };
+  };
+  const waitFor = (
+    isDone: (event: TransactionStatusEvent) => boolean
+  ): Promise<TransactionStatusEvent> => {
+    return new Promise((resolve, reject) => {
+      const onStop = () => {
+        off();
+        reject(
+          new DeSoError(`Stopped tracking transaction ${txnHashHex}`, {
+            code: ERROR_TYPES.TRACKING_STOPPED,
+            requestSummary: { TxnHashHex: txnHashHex },
+          })
+        );
+      };
+      const off = () => {
+        offEvent();
+        entry.stopListeners.delete(onStop);
+      };
+      const check = (event: TransactionStatusEvent) => {
+        if (isDone(event)) {
+          off();
+          resolve(event);
+        } else if (event.status === 'expired' || event.status === 'dropped') {
+          off();
+          reject(
+            new DeSoError(`Transaction ${txnHashHex} was ${event.status}`, {
+              code:
+                event.status === 'expired'
+                  ? ERROR_TYPES.TRANSACTION_EXPIRED
+                  : ERROR_TYPES.TRANSACTION_DROPPED,
+              endpoint: 'api/v1/transaction-info',
+              requestSummary: { TxnHashHex: txnHashHex },
+            })
+          );
+        }
+      };
+      const offEvent = on(check);
+
+      if (entry.isStopped) {
+        onStop();
+        return;
+      }
+
+      entry.stopListeners.add(onStop);
+      check(entry.latest);
+    });
+  };
+
+  tracker.add(entry);
+
+  return {
+    txnHashHex,
+    get latest() {
+      return entry.latest;
+    },
+    on,
+    confirmed: (confirmations = 1) =>
+      waitFor(
+        (event) =>
+          (event.status === 'mined' || event.status === 'committed') &&
+          event.confirmations >= confirmations
+      ),
+    committed: () => waitFor((event) => event.status === 'committed'),
+    stop: () => {
+      entry.isStopped = true;
+      tracker.remove(entry);
+      entry.listeners.clear();
+      entry.stopListeners.forEach((listener) => listener());
+      entry.stopListeners.clear();
+    },
+    [Symbol.asyncIterator]: () => {
+      const queue: TransactionStatusEvent[] = [entry.latest];
+      let notify: (() => void) | undefined;
+      let done = entry.isStopped;
+      const onStop = () => {
+        done = true;
+        notify?.();
+      };
+      const offEvent = on((event) => {
+        queue.push(event);
+        notify?.();
+      });
+      const off = () => {
+        offEvent();
+        entry.stopListeners.delete(onStop);
+      };
+      entry.stopListeners.add(onStop);
+
+      return {
+        next: async (): Promise<IteratorResult<TransactionStatusEvent>> => {
+          while (queue.length === 0 && !done) {
+            await new Promise<void>((resolve) => (notify = resolve));
+          }
+
+          const event = queue.shift();
+          if (!event) {
+            off();
+            return { done: true, value: undefined };
+          }
+          if (TERMINAL_STATUSES.includes(event.status)) {
+            done = true;
+          }
+
+          return { done: false, value: event };
+        },
+        return: async () => {
+          off();
+          done = true;
+          return { done: true, value: undefined };
+        },
+      };
+    },
+  };
+};
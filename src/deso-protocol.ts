@@ -1,8 +1,18 @@
-import { api, media } from './data/index.js';
-import { IdentityConfiguration, identity } from './identity/index.js';
-import { globalConfigOptions } from './internal.js';
+import { DesoClientContext } from './backend-types/index.js';
+import { APITransportConfig, EntityCacheConfig } from './data/index.js';
+import { IdentityConfiguration, setBigIntMode } from './identity/index.js';
+import { getClientContext } from './internal.js';
+
+export interface DesoProtocolConfiguration
+  extends IdentityConfiguration,
+    APITransportConfig {
+  /**
+   * Optional ordered list of node URIs to fail over to when a node is
+   * unhealthy. If nodeURI is not provided, the first node in the list is
+   * used.
+   */
+  nodeURIs?: string[];
 
-export type DesoProtocolConfiguration = IdentityConfiguration & {
   /**
    * The fee rate in nanos per KB to use for all transactions. This can be
    * overridden by passing a different fee rate to the transaction specific
@@ -20,7 +30,43 @@ export type DesoProtocolConfiguration = IdentityConfiguration & {
    * Optionally, use local transaction construction where applicable
    */
   localConstruction?: boolean;
-};
+
+  /**
+   * Optionally, throw an error for any transaction that cannot be constructed
+   * locally instead of falling back to the node. Only applies when
+   * localConstruction is enabled.
+   */
+  strictLocalConstruction?: boolean;
+
+  /**
+   * The number of blocks until the nonce of a locally constructed transaction
+   * expires. Defaults to 275. Can be overridden per call with the
+   * nonceExpirationBlocks request option.
+   */
+  nonceExpirationBlocks?: number;
+
+  /**
+   * How long the block height used for locally constructed nonces is cached.
+   * Defaults to 5000ms.
+   */
+  blockHeightTTLMs?: number;
+
+  /**
+   * Optionally, return amounts and timestamps decoded from transactions as
+   * bigints, and parse integers in node responses that are too large to be
+   * represented exactly as numbers as bigints. Request params accept bigints
+   * either way. This is global, so clients created with createDesoClient
+   * ignore it.
+   */
+  bigIntAmounts?: boolean;
+
+  /**
+   * Optionally, cache the responses of getSingleProfile, getUsersStateless,
+   * getPublicKeyForUsername and getSinglePost. Disabled by default. See
+   * EntityCache.
+   */
+  entityCache?: EntityCacheConfig;
+}
 
 /**
  * Set the configuration options for the library. This should be used instead of
@@ -28,21 +74,73 @@ export type DesoProtocolConfiguration = IdentityConfiguration & {
  * sync between the API and Identity modules.
  */
 export const configure = (options: DesoProtocolConfiguration) => {
+  if (typeof options.bigIntAmounts === 'boolean') {
+    setBigIntMode(options.bigIntAmounts);
+  }
+
+  configureClientContext(getClientContext(), options);
+};
+
+/**
+ * Applies the configuration to a client's instances. Shared by configure and
+ * createDesoClient.
+ */
+export const configureClientContext = (
+  {
+    api,
+    config,
+    entityCache,
+    identity,
+    media,
+    nonceManager,
+  }: DesoClientContext,
+  options: DesoProtocolConfiguration
+) => {
   if (typeof options.MinFeeRateNanosPerKB === 'number') {
-    globalConfigOptions.MinFeeRateNanosPerKB = options.MinFeeRateNanosPerKB;
+    config.MinFeeRateNanosPerKB = options.MinFeeRateNanosPerKB;
   }
 
   if (typeof options.localConstruction === 'boolean') {
-    globalConfigOptions.LocalConstruction = options.localConstruction;
+    config.LocalConstruction = options.localConstruction;
+  }
+
+  if (typeof options.strictLocalConstruction === 'boolean') {
+    config.StrictLocalConstruction = options.strictLocalConstruction;
   }
 
-  identity.configure(options);
+  nonceManager.configure({
+    expirationBlocks: options.nonceExpirationBlocks,
+    blockHeightTTLMs: options.blockHeightTTLMs,
+  });
 
-  if (typeof options.nodeURI === 'string' && options.nodeURI.length > 0) {
-    api.configure({ nodeURI: options.nodeURI });
+  if (options.entityCache) {
+    entityCache.configure(options.entityCache);
   }
 
-  if (typeof options.mediaURI === 'string' && options.mediaURI.length > 0) {
-    media.configure({ mediaURI: options.mediaURI });
+  const nodeURI = options.nodeURI || options.nodeURIs?.[0];
+
+  // cached entities may be stale on a different node
+  if (nodeURI) {
+    entityCache.clear();
   }
+  const transportConfig: APITransportConfig = {
+    timeoutMs: options.timeoutMs,
+    retry: options.retry,
+    unhealthyNodeCooldownMs: options.unhealthyNodeCooldownMs,
+    fetch: options.fetch,
+  };
+
+  identity.configure({ ...options, ...(nodeURI && { nodeURI }) });
+
+  api.configure({
+    ...transportConfig,
+    ...(nodeURI && { nodeURI }),
+    nodeURIs: options.nodeURIs,
+  });
+
+  media.configure({
+    ...transportConfig,
+    ...(typeof options.mediaURI === 'string' &&
+      options.mediaURI.length > 0 && { mediaURI: options.mediaURI }),
+  });
 };
@@ -0,0 +1,65 @@
+import {
+  formatUnits,
+  parseJSON,
+  parseUnits,
+  setBigIntMode,
+  stringifyJSON,
+  toUint256Hex,
+} from './bigint-utils.js';
+import { TransactionOutput } from './transaction-transcoders.js';
+
+describe('bigint mode', () => {
+  afterEach(() => {
+    setBigIntMode(false);
+  });
+
+  it('round trips uint64 amounts above Number.MAX_SAFE_INTEGER', () => {
+    setBigIntMode(true);
+    const output = new TransactionOutput();
+    output.publicKey = new Uint8Array(33);
+    output.amountNanos = BigInt('18446744073709551615');
+
+    const [decoded] = TransactionOutput.fromBytes(output.toBytes()) as [
+      TransactionOutput,
+      Uint8Array
+    ];
+
+    expect(decoded.amountNanos).toEqual(BigInt('18446744073709551615'));
+
+    setBigIntMode(false);
+    const [decodedAsNumber] = TransactionOutput.fromBytes(output.toBytes()) as [
+      TransactionOutput,
+      Uint8Array
+    ];
+
+    expect(typeof decodedAsNumber.amountNanos).toEqual('number');
+  });
+
+  it('preserves large integers through JSON only in bigint mode', () => {
+    const text = '{"AmountNanos":9007199254740993,"FeeNanos":1000}';
+
+    expect(parseJSON(text).AmountNanos).toEqual(9007199254740992);
+
+    setBigIntMode(true);
+    const parsed = parseJSON(text);
+
+    expect(parsed).toEqual({
+      AmountNanos: BigInt('9007199254740993'),
+      FeeNanos: 1000,
+    });
+    expect(stringifyJSON(parsed)).toEqual(text);
+  });
+});
+
+describe('unit conversion', () => {
+  it('converts between decimal strings, base units and uint256 hex', () => {
+    expect(parseUnits('1.5')).toEqual(BigInt('1500000000000000000'));
+    expect(parseUnits('0.123456789999', 9)).toEqual(BigInt(123456789));
+    expect(formatUnits(parseUnits('1.5'))).toEqual('1.5');
+    expect(formatUnits('0xde0b6b3a7640000')).toEqual('1');
+    expect(toUint256Hex(parseUnits('1'))).toEqual('0xde0b6b3a7640000');
+    expect(toUint256Hex('1000')).toEqual('0x3e8');
+    expect(() => toUint256Hex(-1)).toThrow();
+    expect(() => parseUnits('1,5')).toThrow();
+  });
+});
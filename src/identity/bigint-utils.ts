@@ -0,0 +1,147 @@
+import { DeSoValidationError } from './error-types.js';
+
+/**
+ * A uint64 or int64 value. These are numbers unless bigint mode is enabled,
+ * in which case values decoded from transactions are bigints.
+ */
+export type Numeric = number | bigint;
+
+const bigIntConfig = { enabled: false };
+
+/**
+ * Enables or disables bigint mode. When enabled, amounts and timestamps
+ * decoded from transactions are returned as bigints and integers in node
+ * responses that are too large to be represented exactly as numbers are
+ * parsed as bigints. Disabled by default, in which case values above
+ * Number.MAX_SAFE_INTEGER lose precision.
+ */
+export const setBigIntMode = (enabled: boolean) => {
+  bigIntConfig.enabled = enabled;
+};
+
+export const isBigIntMode = () => bigIntConfig.enabled;
+
+/**
+ * Converts a number, bigint, decimal string or 0x prefixed hex string to a
+ * bigint.
+ */
+export const toBigInt = (value: Numeric | string): bigint => {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isInteger(value)) {
+      throw new DeSoValidationError(`${value} is not an integer`);
+    }
+    return BigInt(value);
+  }
+
+  const trimmed = value.trim();
+  if (!/^(0x[0-9a-f]*|-?\d+)$/i.test(trimmed)) {
+    throw new DeSoValidationError(`invalid integer string ${value}`);
+  }
+
+  // The node represents zero as an empty 0x string in some places.
+  return trimmed.toLowerCase() === '0x' ? BigInt(0) : BigInt(trimmed);
+};
+
+/**
+ * Returns a bigint as a bigint in bigint mode, otherwise as a number.
+ */
+export const toNumeric = (value: bigint): Numeric =>
+  bigIntConfig.enabled ? value : Number(value);
+
+const MAX_UINT256 = (BigInt(1) << BigInt(256)) - BigInt(1);
+
+/**
+ * Converts a value to the 0x prefixed hex string the node uses for uint256
+ * values. 0x prefixed strings are returned as is, other strings are treated
+ * as decimal integers.
+ */
+export const toUint256Hex = (value: Numeric | string): string => {
+  if (typeof value === 'string' && /^0x/i.test(value.trim())) {
+    return value.trim();
+  }
+
+  const bigIntValue = toBigInt(value);
+  if (bigIntValue < BigInt(0) || bigIntValue > MAX_UINT256) {
+    throw new DeSoValidationError(`${value} is out of range for a uint256`);
+  }
+
+  return `0x${bigIntValue.toString(16)}`;
+};
+
+/**
+ * Converts a decimal string to base units, e.g. parseUnits('1.5', 18) for a
+ * DeSo token with 18 decimals or parseUnits('1.5', 9) for DESO in nanos.
+ * Digits past the given number of decimals are truncated.
+ */
+export const parseUnits = (value: string, decimals = 18): bigint => {
+  const match = value.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || !(match[1] || match[2])) {
+    throw new DeSoValidationError(`invalid decimal string ${value}`);
+  }
+  const fraction = (match[2] ?? '').slice(0, decimals).padEnd(decimals, '0');
+
+  return BigInt(`${match[1]}${fraction}` || '0');
+};
+
+/**
+ * Formats base units as a decimal string, e.g. formatUnits(BigInt(15e17), 18)
+ * returns '1.5'. Accepts any value toBigInt does, including 0x hex strings
+ * from the node.
+ */
+export const formatUnits = (value: Numeric | string, decimals = 18): string => {
+  const bigIntValue = toBigInt(value);
+  const sign = bigIntValue < BigInt(0) ? '-' : '';
+  const digits = (sign ? -bigIntValue : bigIntValue)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+};
+
+// Bigints are swapped for marker strings while stringifying and parsing since
+// JSON.stringify and JSON.parse don't support them.
+const BIGINT_MARKER = '__deso_bigint__';
+const BIGINT_MARKER_PATTERN = new RegExp(`"${BIGINT_MARKER}(-?\\d+)"`, 'g');
+const JSON_TOKEN_PATTERN =
+  /"(?:[^"\\]|\\.)*"|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/g;
+
+/**
+ * JSON.stringify that writes bigints as plain JSON integers so they reach the
+ * node without losing precision.
+ */
+export const stringifyJSON = (value: unknown, space?: number): string =>
+  JSON.stringify(
+    value,
+    (_, v) => (typeof v === 'bigint' ? `${BIGINT_MARKER}${v.toString()}` : v),
+    space
+  ).replace(BIGINT_MARKER_PATTERN, '$1');
+
+/**
+ * JSON.parse that, in bigint mode, parses integers that are too large to be
+ * represented exactly as numbers as bigints.
+ */
+export const parseJSON = (text: string): any => {
+  if (!bigIntConfig.enabled) {
+    return JSON.parse(text);
+  }
+
+  const marked = text.replace(JSON_TOKEN_PATTERN, (token) =>
+    token.startsWith('"') ||
+    !/^-?\d+$/.test(token) ||
+    Number.isSafeInteger(Number(token))
+      ? token
+      : `"${BIGINT_MARKER}${token}"`
+  );
+
+  return JSON.parse(marked, (_, v) =>
+    typeof v === 'string' && v.startsWith(BIGINT_MARKER)
+      ? BigInt(v.slice(BIGINT_MARKER.length))
+      : v
+  );
+};
@@ -7,7 +7,9 @@ import {
   getSharedSecret as nobleGetSharedSecret,
 } from '@noble/secp256k1';
 import bs58 from 'bs58';
+import { Numeric, toBigInt } from './bigint-utils.js';
 import { PUBLIC_KEY_PREFIXES } from './constants.js';
+import { DeSoValidationError } from './error-types.js';
 import { TransactionV0 } from './transaction-transcoders.js';
 import { KeyPair, Network, jwtAlgorithm } from './types.js';
 
@@ -29,18 +31,27 @@ export function concatUint8Arrays(arrays: Uint8Array[], length?: number) {
   return result;
 }
 
-export const uvarint64ToBuf = (uint: number): Uint8Array => {
+const MAX_UINT64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+export const uvarint64ToBuf = (uint: Numeric): Uint8Array => {
+  let value = toBigInt(uint);
+  if (value < BigInt(0) || value > MAX_UINT64) {
+    throw new DeSoValidationError('uint64 overflow');
+  }
+
   const result: number[] = [];
-  while (uint >= 0x80) {
-    result.push(Number((BigInt(uint) & BigInt(0xff)) | BigInt(0x80)));
-    uint = Number(BigInt(uint) >> BigInt(7));
+  while (value >= BigInt(0x80)) {
+    result.push(Number((value & BigInt(0xff)) | BigInt(0x80)));
+    value >>= BigInt(7);
   }
-  result.push(uint | 0);
+  result.push(Number(value));
 
   return new Uint8Array(result);
 };
 
-export const bufToUvarint64 = (buffer: Uint8Array): [number, Uint8Array] => {
+export const bufToUvarint64BigInt = (
+  buffer: Uint8Array
+): [bigint, Uint8Array] => {
   let x = BigInt(0);
   let s = BigInt(0);
 
@@ -50,49 +61,68 @@ export const bufToUvarint64 = (buffer: Uint8Array): [number, Uint8Array] => {
     const byte = buffer[i];
 
     if (i > 9 || (i == 9 && byte > 1)) {
-      throw new Error('uint64 overflow');
+      throw new DeSoValidationError('uint64 overflow');
     }
 
     if (byte < 0x80) {
-      return [
-        Number(BigInt(x) | (BigInt(byte) << BigInt(s))),
-        buffer.slice(i + 1),
-      ];
+      return [x | (BigInt(byte) << s), buffer.slice(i + 1)];
     }
 
-    x |= BigInt(byte & 0x7f) << BigInt(s);
+    x |= BigInt(byte & 0x7f) << s;
     s += BigInt(7);
   }
 };
 
-export const uint64ToBufBigEndian = (uint: number) => {
+/**
+ * NOTE: values above Number.MAX_SAFE_INTEGER lose precision. Use
+ * bufToUvarint64BigInt for amounts.
+ */
+export const bufToUvarint64 = (buffer: Uint8Array): [number, Uint8Array] => {
+  const [x, rest] = bufToUvarint64BigInt(buffer);
+  return [Number(x), rest];
+};
+
+export const uint64ToBufBigEndian = (uint: Numeric) => {
+  let value = toBigInt(uint);
   const result = [];
-  while (BigInt(uint) >= BigInt(0xff)) {
-    result.push(Number(BigInt(uint) & BigInt(0xff)));
-    uint = Number(BigInt(uint) >> BigInt(8));
+  while (value >= BigInt(0xff)) {
+    result.push(Number(value & BigInt(0xff)));
+    value >>= BigInt(8);
   }
-  result.push(Number(BigInt(uint) | BigInt(0)));
+  result.push(Number(value));
   while (result.length < 8) {
     result.push(0);
   }
   return new Uint8Array(result.reverse());
 };
 
-export const varint64ToBuf = (int: number) => {
-  let ux = BigInt(int) << BigInt(1);
-  if (int < 0) {
-    ux = ~ux;
+export const varint64ToBuf = (int: Numeric) => {
+  const value = toBigInt(int);
+  let ux = BigInt.asUintN(64, value << BigInt(1));
+  if (value < BigInt(0)) {
+    ux = BigInt.asUintN(64, ~ux);
   }
-  return uvarint64ToBuf(Number(ux));
+  return uvarint64ToBuf(ux);
 };
 
-export const bufToVarint64 = (buffer: Uint8Array): [number, Uint8Array] => {
-  const [ux, n] = bufToUvarint64(buffer);
-  let x = BigInt(ux) >> BigInt(1);
-  if (ux & 1) {
+export const bufToVarint64BigInt = (
+  buffer: Uint8Array
+): [bigint, Uint8Array] => {
+  const [ux, n] = bufToUvarint64BigInt(buffer);
+  let x = ux >> BigInt(1);
+  if (ux & BigInt(1)) {
     x = ~x;
   }
-  return [Number(x), n];
+  return [x, n];
+};
+
+/**
+ * NOTE: values outside of +/- Number.MAX_SAFE_INTEGER lose precision. Use
+ * bufToVarint64BigInt for amounts and timestamps.
+ */
+export const bufToVarint64 = (buffer: Uint8Array): [number, Uint8Array] => {
+  const [x, rest] = bufToVarint64BigInt(buffer);
+  return [Number(x), rest];
 };
 
 interface Base58CheckOptions {
@@ -203,16 +233,64 @@ export const signTx = async (
   return ecUtils.bytesToHex(signedTransactionBytes);
 };
 
+/**
+ * Signs the sha256 hash of an arbitrary message and returns the DER encoded
+ * signature.
+ */
+export const signMessage = async (
+  message: Uint8Array | string,
+  seedHex: string
+): Promise<Uint8Array> => {
+  const bytes =
+    typeof message === 'string' ? new TextEncoder().encode(message) : message;
+  const [signature] = await sign(
+    ecUtils.bytesToHex(sha256(new Uint8Array(bytes))),
+    ecUtils.hexToBytes(seedHex)
+  );
+
+  return signature;
+};
+
 export const getSignedJWT = async (
   seedHex: string,
   alg: jwtAlgorithm,
+  options: {
+    derivedPublicKeyBase58Check?: string;
+    expiration?: number;
+    /**
+     * Sets the aud claim, e.g. to the service the token is meant for.
+     */
+    audience?: string;
+  }
+): Promise<string> => {
+  return getSignedJWTWithSigner(
+    (message) => signMessage(message, seedHex),
+    alg,
+    options
+  );
+};
+
+/**
+ * Same as getSignedJWT, but delegates signing so the private key does not
+ * need to be available in this process.
+ * @param signJWTMessage receives the unsigned jwt and returns a DER signature
+ * of its sha256 hash.
+ */
+export const getSignedJWTWithSigner = async (
+  signJWTMessage: (message: Uint8Array) => Promise<Uint8Array>,
+  alg: jwtAlgorithm,
   {
     derivedPublicKeyBase58Check,
     // TODO: actually support this... or remove it.
     expiration,
+    audience,
   }: {
     derivedPublicKeyBase58Check?: string;
     expiration?: number;
+    /**
+     * Sets the aud claim, e.g. to the service the token is meant for.
+     */
+    audience?: string;
   }
 ): Promise<string> => {
   const header = JSON.stringify({ alg, typ: 'JWT' });
@@ -220,14 +298,14 @@ export const getSignedJWT = async (
   const thirtyMinFromNow = issuedAt + 30 * 60;
   const payload = JSON.stringify({
     ...(derivedPublicKeyBase58Check ? { derivedPublicKeyBase58Check } : {}),
+    ...(audience ? { aud: audience } : {}),
     iat: issuedAt,
     exp: thirtyMinFromNow,
   });
 
   const jwt = `${urlSafeBase64(header)}.${urlSafeBase64(payload)}`;
-  const [signature] = await sign(
-    ecUtils.bytesToHex(sha256(new Uint8Array(new TextEncoder().encode(jwt)))),
-    ecUtils.hexToBytes(seedHex)
+  const signature = await signJWTMessage(
+    new Uint8Array(new TextEncoder().encode(jwt))
   );
   const encodedSignature = derToJoseEncoding(signature);
 
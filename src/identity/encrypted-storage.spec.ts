@@ -0,0 +1,75 @@
+import { getAPIFake, getWindowFake } from '../test-utils.js';
+import { LOCAL_STORAGE_KEYS } from './constants.js';
+import { keygen, publicKeyToBase58Check } from './crypto-utils.js';
+import { EncryptedStorageProvider } from './encrypted-storage.js';
+import { ERROR_TYPES } from './error-types.js';
+import { Identity } from './identity.js';
+import { AsyncStorage } from './types.js';
+
+describe('EncryptedStorageProvider', () => {
+  it('encrypts protected values and migrates plaintext ones on unlock', async () => {
+    const { localStorage } = getWindowFake();
+    localStorage.setItem(LOCAL_STORAGE_KEYS.activePublicKey, 'BC1YLowner');
+    const storage = new EncryptedStorageProvider(localStorage, {
+      iterations: 1000,
+    });
+
+    await expect(
+      storage.getItem(LOCAL_STORAGE_KEYS.activePublicKey)
+    ).rejects.toMatchObject({ code: ERROR_TYPES.LOCKED });
+
+    await storage.unlock('correct horse');
+    await storage.setItem(LOCAL_STORAGE_KEYS.identityUsers, '{"seed":"abc"}');
+    await storage.setItem('unprotected', 'value');
+
+    expect(localStorage.getItem(LOCAL_STORAGE_KEYS.activePublicKey)).toMatch(
+      /^desoEncrypted:v1:/
+    );
+    expect(
+      localStorage.getItem(LOCAL_STORAGE_KEYS.identityUsers)
+    ).not.toContain('abc');
+    expect(localStorage.getItem('unprotected')).toEqual('value');
+    expect(await storage.getItem(LOCAL_STORAGE_KEYS.activePublicKey)).toEqual(
+      'BC1YLowner'
+    );
+
+    storage.lock();
+    await expect(storage.unlock('wrong')).rejects.toThrow(
+      'Unable to unlock storage: incorrect passphrase or key'
+    );
+    await new EncryptedStorageProvider(localStorage, {
+      iterations: 1000,
+    }).unlock('correct horse');
+  });
+
+  it('prevents identity from signing while locked', async () => {
+    const windowFake = getWindowFake() as unknown as typeof globalThis;
+    const apiFake = getAPIFake({ get: jest.fn() });
+    const storage = new EncryptedStorageProvider(windowFake.localStorage);
+    const identity = new Identity<AsyncStorage>(windowFake, apiFake);
+    identity.configure({ storageProvider: storage });
+    const owner = publicKeyToBase58Check(keygen().public);
+
+    await storage.unlock(await EncryptedStorageProvider.generateKey());
+    await storage.setItem(LOCAL_STORAGE_KEYS.activePublicKey, owner);
+    await storage.setItem(
+      LOCAL_STORAGE_KEYS.identityUsers,
+      JSON.stringify({
+        [owner]: {
+          publicKey: owner,
+          primaryDerivedKey: {
+            publicKeyBase58Check: owner,
+            derivedSeedHex: keygen().seedHex,
+          },
+        },
+      })
+    );
+    storage.lock();
+
+    await expect(identity.signTx('00')).rejects.toMatchObject({
+      code: ERROR_TYPES.LOCKED,
+    });
+    await identity.refreshDerivedKeyPermissions();
+    expect(apiFake.get).not.toHaveBeenCalled();
+  });
+});
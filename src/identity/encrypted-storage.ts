@@ -0,0 +1,224 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { LOCAL_STORAGE_KEYS } from './constants.js';
+import { DeSoLockedError, DeSoValidationError } from './error-types.js';
+import { LockableStorage, StorageProvider } from './types.js';
+
+export interface EncryptedStorageOptions {
+  /**
+   * The keys whose values are encrypted. Other keys are passed through to the
+   * underlying storage as is. Defaults to all LOCAL_STORAGE_KEYS.
+   */
+  keys?: string[];
+  /**
+   * PBKDF2 iterations used to derive the encryption key from a passphrase.
+   * Defaults to 310000.
+   */
+  iterations?: number;
+}
+
+const ENCRYPTED_VALUE_PREFIX = 'desoEncrypted:v1:';
+const SALT_STORAGE_KEY = 'desoEncryptedStorageSalt';
+const CHECK_STORAGE_KEY = 'desoEncryptedStorageCheck';
+const CHECK_VALUE = 'deso';
+const DEFAULT_ITERATIONS = 310000;
+const IV_LENGTH = 12;
+
+const isEncrypted = (value: string) => value.startsWith(ENCRYPTED_VALUE_PREFIX);
+
+/**
+ * Wraps a storage provider so that the values identity stores, including
+ * derived seeds and messaging keys, are encrypted at rest with AES-GCM. The
+ * encryption key is derived from a passphrase or is a WebCrypto key, ideally a
+ * non-extractable one, and is only held in memory while the storage is
+ * unlocked. Reading a protected value while locked throws a DeSoLockedError,
+ * so signing fails until the app unlocks the storage again.
+ *
+ * Plaintext values written before the storage was wrapped are encrypted the
+ * first time it is unlocked.
+ * @example
+ * ```ts
+ * const storageProvider = new EncryptedStorageProvider(localStorage);
+ *
+ * configure({ storageProvider });
+ * await storageProvider.unlock(passphrase);
+ * ```
+ */
+export class EncryptedStorageProvider implements LockableStorage {
+  #storage: StorageProvider;
+  #keys: Set<string>;
+  #iterations: number;
+  #cryptoKey: CryptoKey | null = null;
+
+  constructor(storage: StorageProvider, options: EncryptedStorageOptions = {}) {
+    this.#storage = storage;
+    this.#keys = new Set(options.keys ?? Object.values(LOCAL_STORAGE_KEYS));
+    this.#iterations = options.iterations ?? DEFAULT_ITERATIONS;
+  }
+
+  /**
+   * Generates a non-extractable AES-GCM key that can be passed to unlock. The
+   * key can be persisted in IndexedDB without its raw bytes ever being
+   * exposed to js.
+   */
+  static generateKey(): Promise<CryptoKey> {
+    return globalThis.crypto.subtle.generateKey(
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  isLocked() {
+    return this.#cryptoKey === null;
+  }
+
+  /**
+   * Unlocks the storage with a passphrase or an AES-GCM key. The first unlock
+   * determines the key the storage is encrypted with, after which unlocking
+   * with anything else throws a DeSoValidationError.
+   */
+  async unlock(secret: string | CryptoKey) {
+    const cryptoKey =
+      typeof secret === 'string' ? await this.#deriveKey(secret) : secret;
+    const check = await this.#storage.getItem(CHECK_STORAGE_KEY);
+
+    if (check) {
+      const value = await this.#decrypt(check, cryptoKey).catch(() => null);
+
+      if (value !== CHECK_VALUE) {
+        throw new DeSoValidationError(
+          'Unable to unlock storage: incorrect passphrase or key'
+        );
+      }
+    } else {
+      await this.#storage.setItem(
+        CHECK_STORAGE_KEY,
+        await this.#encrypt(CHECK_VALUE, cryptoKey)
+      );
+    }
+
+    this.#cryptoKey = cryptoKey;
+    await this.#migratePlaintextValues();
+  }
+
+  /**
+   * Forgets the encryption key. Protected values can't be read or written
+   * until the storage is unlocked again.
+   */
+  lock() {
+    this.#cryptoKey = null;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.#storage.getItem(key);
+
+    if (!this.#keys.has(key) || value === null) {
+      return value;
+    }
+
+    const cryptoKey = this.#getCryptoKey(key);
+
+    return isEncrypted(value) ? this.#decrypt(value, cryptoKey) : value;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    if (!this.#keys.has(key)) {
+      return this.#storage.setItem(key, value);
+    }
+
+    await this.#storage.setItem(
+      key,
+      await this.#encrypt(value, this.#getCryptoKey(key))
+    );
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.#storage.removeItem(key);
+  }
+
+  /**
+   * Removes the protected values. The salt and key check are kept so the
+   * storage can still be unlocked with the same passphrase or key.
+   */
+  async clear(): Promise<void> {
+    await Promise.all(
+      Array.from(this.#keys).map((key) => this.#storage.removeItem(key))
+    );
+  }
+
+  #getCryptoKey(key: string) {
+    if (!this.#cryptoKey) {
+      throw new DeSoLockedError(
+        `Cannot access ${key} while the storage is locked`
+      );
+    }
+
+    return this.#cryptoKey;
+  }
+
+  async #migratePlaintextValues() {
+    for (const key of this.#keys) {
+      const value = await this.#storage.getItem(key);
+
+      if (value !== null && !isEncrypted(value)) {
+        await this.setItem(key, value);
+      }
+    }
+  }
+
+  async #deriveKey(passphrase: string): Promise<CryptoKey> {
+    let saltHex = await this.#storage.getItem(SALT_STORAGE_KEY);
+
+    if (!saltHex) {
+      saltHex = bytesToHex(
+        globalThis.crypto.getRandomValues(new Uint8Array(16))
+      );
+      await this.#storage.setItem(SALT_STORAGE_KEY, saltHex);
+    }
+
+    const passphraseKey = await globalThis.crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(passphrase),
+      'PBKDF2',
+      false,
+      ['deriveKey']
+    );
+
+    return globalThis.crypto.subtle.deriveKey(
+      {
+        name: 'PBKDF2',
+        salt: hexToBytes(saltHex),
+        iterations: this.#iterations,
+        hash: 'SHA-256',
+      },
+      passphraseKey,
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  }
+
+  async #encrypt(value: string, cryptoKey: CryptoKey) {
+    const iv = globalThis.crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+    const cipherBytes = await globalThis.crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv },
+      cryptoKey,
+      new TextEncoder().encode(value)
+    );
+
+    return `${ENCRYPTED_VALUE_PREFIX}${bytesToHex(iv)}${bytesToHex(
+      new Uint8Array(cipherBytes)
+    )}`;
+  }
+
+  async #decrypt(value: string, cryptoKey: CryptoKey) {
+    const bytes = hexToBytes(value.slice(ENCRYPTED_VALUE_PREFIX.length));
+    const plainBytes = await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+      cryptoKey,
+      bytes.slice(IV_LENGTH)
+    );
+
+    return new TextDecoder().decode(plainBytes);
+  }
+}
@@ -0,0 +1,81 @@
+import {
+  DeSoHTTPError,
+  DeSoPermissionError,
+  DeSoRuleError,
+  ERROR_TYPES,
+  createHTTPError,
+  summarizeRequestBody,
+} from './error-types.js';
+
+describe('createHTTPError', () => {
+  it('parses rule errors out of backend messages', () => {
+    const cases: [string, ERROR_TYPES][] = [
+      [
+        'SubmitTransaction: Problem processing transaction: RuleErrorInsufficientBalance',
+        ERROR_TYPES.NO_MONEY,
+      ],
+      [
+        'Problem adding transaction: RuleErrorNonceExpired',
+        ERROR_TYPES.BAD_NONCE,
+      ],
+      [
+        'Problem connecting transaction: RuleErrorDerivedKeyNotAuthorized',
+        ERROR_TYPES.DERIVED_KEY_EXPIRED,
+      ],
+      [
+        'Problem connecting transaction: RuleErrorDerivedKeyTxnSpendsMoreThanGlobalDESOLimit',
+        ERROR_TYPES.SPENDING_LIMIT_EXCEEDED,
+      ],
+      [
+        'Problem connecting transaction: RuleErrorSubmitPostBodyTooLong',
+        ERROR_TYPES.RULE_ERROR,
+      ],
+    ];
+
+    cases.forEach(([message, code]) => {
+      const error = createHTTPError(message, 400, {
+        endpoint: 'api/v0/submit-transaction',
+      });
+
+      expect(error).toBeInstanceOf(DeSoRuleError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.code).toEqual(code);
+      expect(error.endpoint).toEqual('api/v0/submit-transaction');
+    });
+    expect(
+      (createHTTPError(cases[0][0], 400) as DeSoRuleError).ruleError
+    ).toEqual('RuleErrorInsufficientBalance');
+  });
+
+  it('falls back to http and permission errors', () => {
+    const httpError = createHTTPError('internal error', 500);
+    const permissionError = createHTTPError('invalid jwt', 403);
+
+    expect(httpError).toBeInstanceOf(DeSoHTTPError);
+    expect(httpError).not.toBeInstanceOf(DeSoRuleError);
+    expect(httpError.code).toEqual(ERROR_TYPES.HTTP);
+    expect(httpError.toString()).toEqual('internal error');
+    expect(permissionError).toBeInstanceOf(DeSoPermissionError);
+    expect(permissionError.code).toEqual(ERROR_TYPES.PERMISSION_DENIED);
+  });
+});
+
+describe('summarizeRequestBody', () => {
+  it('redacts secrets and truncates long values', () => {
+    expect(
+      summarizeRequestBody({
+        JWT: 'secret',
+        TransactionHex: 'ab'.repeat(100),
+        MinFeeRateNanosPerKB: 1000,
+        TransactionFees: [{}],
+        ExtraData: { foo: 'bar' },
+      })
+    ).toEqual({
+      JWT: '[redacted]',
+      TransactionHex: `${'ab'.repeat(32)}...(200 chars)`,
+      MinFeeRateNanosPerKB: 1000,
+      TransactionFees: '[array(1)]',
+      ExtraData: '[object]',
+    });
+  });
+});
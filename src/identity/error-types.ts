@@ -1,5 +1,253 @@
 export enum ERROR_TYPES {
+  /**
+   * The account can't cover the amounts and fees of a transaction.
+   */
   NO_MONEY = 'NO_MONEY',
   NO_PENDING_REQUEST = 'NO_PENDING_REQUEST',
   IDENTITY_WINDOW_CLOSED = 'IDENTITY_WINDOW_CLOSED',
+  NETWORK = 'NETWORK',
+  TIMEOUT = 'TIMEOUT',
+  HTTP = 'HTTP',
+  RULE_ERROR = 'RULE_ERROR',
+  BAD_NONCE = 'BAD_NONCE',
+  DERIVED_KEY_EXPIRED = 'DERIVED_KEY_EXPIRED',
+  SPENDING_LIMIT_EXCEEDED = 'SPENDING_LIMIT_EXCEEDED',
+  PERMISSION_DENIED = 'PERMISSION_DENIED',
+  VALIDATION = 'VALIDATION',
+  VIDEO_PROCESSING_FAILED = 'VIDEO_PROCESSING_FAILED',
+  TRANSACTION_EXPIRED = 'TRANSACTION_EXPIRED',
+  TRANSACTION_DROPPED = 'TRANSACTION_DROPPED',
+  TRACKING_STOPPED = 'TRACKING_STOPPED',
+  LOCKED = 'LOCKED',
 }
+
+export interface DeSoErrorOptions {
+  code?: ERROR_TYPES;
+  /**
+   * The endpoint that was being requested when the error occurred.
+   */
+  endpoint?: string;
+  /**
+   * A summary of the request body with long values truncated and secrets
+   * redacted. Safe to send to error reporting services.
+   */
+  requestSummary?: Record<string, unknown>;
+  /**
+   * The underlying error, if any.
+   */
+  cause?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by this library. Branch on `code` for a
+ * stable, machine readable reason.
+ */
+export class DeSoError extends Error {
+  code: ERROR_TYPES;
+  endpoint?: string;
+  requestSummary?: Record<string, unknown>;
+  cause?: unknown;
+
+  constructor(
+    message: string,
+    options: DeSoErrorOptions & { code: ERROR_TYPES }
+  ) {
+    super(message);
+    this.name = 'DeSoError';
+    this.code = options.code;
+    this.endpoint = options.endpoint;
+    this.requestSummary = options.requestSummary;
+    this.cause = options.cause;
+  }
+
+  /**
+   * @deprecated use code instead. Kept for compatibility with errors thrown
+   * by earlier versions of the identity module.
+   */
+  get type() {
+    return this.code;
+  }
+}
+
+/**
+ * The request never got a response, e.g. the node is unreachable.
+ */
+export class DeSoNetworkError extends DeSoError {
+  constructor(message: string, options: DeSoErrorOptions = {}) {
+    super(message, { code: ERROR_TYPES.NETWORK, ...options });
+    this.name = 'DeSoNetworkError';
+  }
+}
+
+export class DeSoTimeoutError extends DeSoError {
+  constructor(message: string, options: DeSoErrorOptions = {}) {
+    super(message, { code: ERROR_TYPES.TIMEOUT, ...options });
+    this.name = 'DeSoTimeoutError';
+  }
+}
+
+/**
+ * The node responded with a non 2xx status.
+ */
+export class DeSoHTTPError extends DeSoError {
+  status: number;
+
+  constructor(message: string, status: number, options: DeSoErrorOptions = {}) {
+    super(message, { code: ERROR_TYPES.HTTP, ...options });
+    this.name = 'DeSoHTTPError';
+    this.status = status;
+  }
+
+  // Errors from the api used to be plain objects that stringified to just the
+  // message, so we keep that behavior for anyone rendering them directly.
+  override toString() {
+    return this.message;
+  }
+}
+
+/**
+ * The node rejected a transaction because it violates a consensus or mempool
+ * rule. ruleError is the name of the rule, e.g. RuleErrorInsufficientBalance.
+ */
+export class DeSoRuleError extends DeSoHTTPError {
+  ruleError: string;
+
+  constructor(
+    message: string,
+    status: number,
+    ruleError: string,
+    options: DeSoErrorOptions = {}
+  ) {
+    super(message, status, { code: ERROR_TYPES.RULE_ERROR, ...options });
+    this.name = 'DeSoRuleError';
+    this.ruleError = ruleError;
+  }
+}
+
+export class DeSoPermissionError extends DeSoError {
+  status?: number;
+
+  constructor(
+    message: string,
+    options: DeSoErrorOptions & { status?: number } = {}
+  ) {
+    super(message, { code: ERROR_TYPES.PERMISSION_DENIED, ...options });
+    this.name = 'DeSoPermissionError';
+    this.status = options.status;
+  }
+}
+
+/**
+ * The user closed the identity window without completing the request.
+ */
+export class DeSoUserCancelledError extends DeSoError {
+  constructor(message: string, options: DeSoErrorOptions = {}) {
+    super(message, { code: ERROR_TYPES.IDENTITY_WINDOW_CLOSED, ...options });
+    this.name = 'DeSoUserCancelledError';
+  }
+}
+
+/**
+ * Invalid params were passed to a library function. These are thrown before
+ * any request is made.
+ */
+export class DeSoValidationError extends DeSoError {
+  constructor(message: string, options: DeSoErrorOptions = {}) {
+    super(message, { code: ERROR_TYPES.VALIDATION, ...options });
+    this.name = 'DeSoValidationError';
+  }
+}
+
+/**
+ * The storage provider is locked, so the keys it holds can't be read until it
+ * is unlocked again. See EncryptedStorageProvider.
+ */
+export class DeSoLockedError extends DeSoError {
+  constructor(message: string, options: DeSoErrorOptions = {}) {
+    super(message, { code: ERROR_TYPES.LOCKED, ...options });
+    this.name = 'DeSoLockedError';
+  }
+}
+
+// Checked in order, so more specific patterns must come first.
+const RULE_ERROR_CODES: [RegExp, ERROR_TYPES][] = [
+  [
+    /SpendsMoreThan|SpendingLimit|TxnTypeNotAuthorized|LimitExceeded/i,
+    ERROR_TYPES.SPENDING_LIMIT_EXCEEDED,
+  ],
+  [
+    /DerivedKey\w*(Expired|NotAuthorized)|Expired\w*DerivedPublicKey/i,
+    ERROR_TYPES.DERIVED_KEY_EXPIRED,
+  ],
+  [/Nonce/, ERROR_TYPES.BAD_NONCE],
+  [
+    /Insufficient|not sufficient to cover|InputSpendsNonexistentUtxo/i,
+    ERROR_TYPES.NO_MONEY,
+  ],
+];
+
+/**
+ * Builds the most specific error for a failed response from a node. Rule
+ * errors are parsed out of the backend error message.
+ */
+export const createHTTPError = (
+  message: string,
+  status: number,
+  options: DeSoErrorOptions = {}
+): DeSoHTTPError | DeSoPermissionError => {
+  if (status === 401 || status === 403) {
+    return new DeSoPermissionError(message, { ...options, status });
+  }
+
+  const ruleError = message?.match(/\b(RuleError|TxError)\w+/)?.[0];
+  const [, code] =
+    RULE_ERROR_CODES.find(([pattern]) => pattern.test(message ?? '')) ?? [];
+
+  if (!ruleError && !code) {
+    return new DeSoHTTPError(message, status, options);
+  }
+
+  return new DeSoRuleError(message, status, ruleError ?? '', {
+    code: code ?? ERROR_TYPES.RULE_ERROR,
+    ...options,
+  });
+};
+
+const REDACTED_REQUEST_KEYS = /^JWT$|SeedHex|PrivateKey|Password|AccessToken/i;
+const MAX_SUMMARY_VALUE_LENGTH = 64;
+
+/**
+ * Returns a shallow copy of a request body that is safe to log. Secrets are
+ * redacted, long strings are truncated and nested values are replaced with a
+ * short description.
+ */
+export const summarizeRequestBody = (
+  body: Record<string, any> | undefined | null
+): Record<string, unknown> | undefined => {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+
+  return Object.keys(body).reduce((summary, key) => {
+    const value = body[key];
+
+    if (REDACTED_REQUEST_KEYS.test(key)) {
+      summary[key] = '[redacted]';
+    } else if (typeof value === 'string') {
+      summary[key] =
+        value.length > MAX_SUMMARY_VALUE_LENGTH
+          ? `${value.slice(0, MAX_SUMMARY_VALUE_LENGTH)}...(${
+              value.length
+            } chars)`
+          : value;
+    } else if (Array.isArray(value)) {
+      summary[key] = `[array(${value.length})]`;
+    } else if (value !== null && typeof value === 'object') {
+      summary[key] = '[object]';
+    } else {
+      summary[key] = value;
+    }
+
+    return summary;
+  }, {} as Record<string, unknown>);
+};
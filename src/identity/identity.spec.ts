@@ -2,6 +2,9 @@ import { utils as ecUtils, getPublicKey } from '@noble/secp256k1';
 import { verify } from 'jsonwebtoken';
 import KeyEncoder from 'key-encoder';
 import { ChatType, NewMessageEntryResponse } from '../backend-types/index.js';
+import { createDesoClient } from '../client.js';
+import { createFetchResponse } from '../data/index.js';
+import { verifyDesoJwt } from '../jwt-verification.js';
 import { AsyncStorageFake, getAPIFake, getWindowFake } from '../test-utils.js';
 import { APIError } from './api.js';
 import { DEFAULT_IDENTITY_URI, LOCAL_STORAGE_KEYS } from './constants.js';
@@ -13,10 +16,12 @@ import {
 } from './crypto-utils.js';
 import { ERROR_TYPES } from './error-types.js';
 import { Identity } from './identity.js';
+import { createSeedSigner } from './signer.js';
 import {
   Transaction,
   TransactionExtraData,
   TransactionMetadataBasicTransfer,
+  TransactionMetadataLike,
   TransactionNonce,
 } from './transaction-transcoders.js';
 import { APIProvider, AsyncStorage } from './types.js';
@@ -412,6 +417,90 @@ describe('identity', () => {
 
       expect(errorMessage).toEqual('JsonWebTokenError: invalid signature');
     });
+
+    it('signs the jwt with the provided signer instead of the logged in user', async () => {
+      const { seedHex } = keygen();
+      const jwt = await identity.jwt(
+        createSeedSigner({
+          seedHex,
+          ownerPublicKeyBase58Check: testPublicKeyBase58Check,
+        })
+      );
+      const parsedAndVerifiedJwt = verify(
+        jwt,
+        getPemEncodePublicKey(ecUtils.hexToBytes(seedHex)),
+        { allowInvalidAsymmetricKeyTypes: true }
+      );
+
+      expect(parsedAndVerifiedJwt).toEqual({
+        derivedPublicKeyBase58Check: publicKeyToBase58Check(
+          getPublicKey(seedHex, true)
+        ),
+        iat: expect.any(Number),
+        exp: expect.any(Number),
+      });
+    });
+
+    it('issues tokens for an audience that verifyDesoJwt accepts', async () => {
+      const derivedKeys = keygen();
+      const derivedPublicKeyBase58Check = publicKeyToBase58Check(
+        derivedKeys.public
+      );
+      windowFake.localStorage.setItem(
+        LOCAL_STORAGE_KEYS.identityUsers,
+        JSON.stringify({
+          [testPublicKeyBase58Check]: {
+            primaryDerivedKey: {
+              derivedSeedHex: derivedKeys.seedHex,
+              derivedPublicKeyBase58Check,
+              publicKeyBase58Check: testPublicKeyBase58Check,
+              expirationBlock: 209505,
+              IsValid: true,
+            },
+          },
+        })
+      );
+      const client = createDesoClient({
+        fetch: (url: string) =>
+          Promise.resolve(
+            createFetchResponse(
+              200,
+              JSON.stringify(
+                url.endsWith('get-app-state')
+                  ? { BlockHeight: 100 }
+                  : {
+                      DerivedKeys: {
+                        [derivedPublicKeyBase58Check]: {
+                          IsValid: true,
+                          ExpirationBlock: 209505,
+                        },
+                      },
+                    }
+              )
+            )
+          ),
+      });
+      const jwt = await identity.jwt({ audience: 'my-service' });
+
+      await expect(
+        verifyDesoJwt(jwt, {
+          PublicKeyBase58Check: testPublicKeyBase58Check,
+          audience: 'my-service',
+          client,
+        })
+      ).resolves.toMatchObject({
+        PublicKeyBase58Check: testPublicKeyBase58Check,
+        DerivedPublicKeyBase58Check: derivedPublicKeyBase58Check,
+        payload: { aud: 'my-service' },
+      });
+      await expect(
+        verifyDesoJwt(jwt, {
+          PublicKeyBase58Check: testPublicKeyBase58Check,
+          audience: 'other-service',
+          client,
+        })
+      ).rejects.toThrow('Invalid DeSo jwt: audience mismatch');
+    });
   });
 
   describe('.encryptChatMessage/decryptChatMessage()', () => {
@@ -806,6 +895,65 @@ describe('identity', () => {
       expect(hasPermissions).toBe(false);
     });
   });
+  describe('.signAndSubmit()', () => {
+    it('spends the cost of the transaction from the stored spending limits', async () => {
+      const owner = publicKeyToBase58Check(keygen().public);
+      const { seedHex } = keygen();
+      // Keep the refresh that follows a submission pending.
+      apiFake.get = jest.fn(() => new Promise(() => undefined));
+      windowFake.localStorage.setItem(
+        LOCAL_STORAGE_KEYS.activePublicKey,
+        owner
+      );
+      windowFake.localStorage.setItem(
+        LOCAL_STORAGE_KEYS.identityUsers,
+        JSON.stringify({
+          [owner]: {
+            publicKey: owner,
+            primaryDerivedKey: {
+              publicKeyBase58Check: owner,
+              derivedSeedHex: seedHex,
+              IsValid: true,
+              transactionSpendingLimits: {
+                GlobalDESOLimit: 1000,
+                TransactionCountLimitMap: { LIKE: 1, SUBMIT_POST: 1e9 },
+              },
+            },
+          },
+        })
+      );
+      const metadata = new TransactionMetadataLike();
+      metadata.likedPostHash = new Uint8Array(32);
+      const extraData = new TransactionExtraData();
+      const txn = new Transaction({
+        version: 1,
+        inputs: [],
+        outputs: [],
+        metadata,
+        publicKey: bs58PublicKeyToCompressedBytes(owner),
+        extraData,
+        signature: new Uint8Array(0),
+        feeNanos: 300,
+        nonce: new TransactionNonce(),
+      });
+
+      expect(
+        identity.hasPermissions({ TransactionCountLimitMap: { LIKE: 1 } })
+      ).toBe(true);
+
+      await identity.signAndSubmit({
+        TransactionHex: ecUtils.bytesToHex(txn.toBytes()),
+      });
+
+      expect(await identity.getRemainingSpendingLimits()).toEqual({
+        GlobalDESOLimit: 700,
+        TransactionCountLimitMap: { LIKE: 0, SUBMIT_POST: 1e9 },
+      });
+      expect(
+        identity.hasPermissions({ TransactionCountLimitMap: { LIKE: 1 } })
+      ).toBe(false);
+    });
+  });
   describe('.desoAddressToEthereumAddress()', () => {
     it('works', () => {
       expect(
@@ -5,7 +5,7 @@ import {
   AccessGroupEntryResponse,
   AuthorizeDerivedKeyRequest,
   ChatType,
-  DecryptedMessageEntryResponse,
+  DuplicateSubmitTransactionResponse,
   InfuraResponse,
   MsgDeSoTxn,
   NewMessageEntryResponse,
@@ -28,25 +28,40 @@ import {
   decryptChatMessage,
   deriveAccessGroupKeyPair,
   encryptChatMessage,
-  getSignedJWT,
+  getSignedJWTWithSigner,
   keygen,
   publicKeyToBase58Check,
+  signMessage,
   signTx,
 } from './crypto-utils.js';
 import { generateDerivedKeyPayload } from './derived-key-utils.js';
-import { ERROR_TYPES } from './error-types.js';
+import {
+  DeSoError,
+  DeSoPermissionError,
+  DeSoRuleError,
+  DeSoUserCancelledError,
+  DeSoValidationError,
+  ERROR_TYPES,
+} from './error-types.js';
 import {
   buildTransactionSpendingLimitResponse,
   compareTransactionSpendingLimits,
+  getTransactionSpendingLimitCost,
+  subtractTransactionSpendingLimits,
 } from './permissions-utils.js';
+import { decryptAndParseMessage } from './message-envelope.js';
 import { parseQueryParams } from './query-param-utils.js';
 import {
   AccessGroupPrivateInfo,
+  DecryptedMessageWithEnvelope,
   EtherscanTransaction,
   IdentityResponse,
   IdentityState,
+  JwtOptions,
+  LockableStorage,
   LoginOptions,
   NOTIFICATION_EVENTS,
+  Signer,
   StorageProvider,
   type APIProvider,
   type EtherscanTransactionsByAddressResponse,
@@ -251,6 +266,17 @@ export class Identity<T extends StorageProvider> {
     }
   }
 
+  /**
+   * @private
+   */
+  #isStorageLocked() {
+    const storageProvider = this.#storageProvider as
+      | Partial<LockableStorage>
+      | undefined;
+
+    return !!storageProvider?.isLocked?.();
+  }
+
   /**
    * @private
    */
@@ -258,7 +284,7 @@ export class Identity<T extends StorageProvider> {
     ? string | null
     : Promise<string | null> {
     if (!this.#storageProvider) {
-      throw new Error('No storage provider available.');
+      throw new DeSoValidationError('No storage provider available.');
     }
     const activePublicKey = this.#storageProvider.getItem(
       LOCAL_STORAGE_KEYS.activePublicKey
@@ -278,7 +304,7 @@ export class Identity<T extends StorageProvider> {
     ? Record<string, StoredUser> | null
     : Promise<Record<string, StoredUser> | null> {
     if (!this.#storageProvider) {
-      throw new Error('No storage provider available.');
+      throw new DeSoValidationError('No storage provider available.');
     }
     const storedUsers = this.#storageProvider.getItem(
       LOCAL_STORAGE_KEYS.identityUsers
@@ -508,7 +534,7 @@ export class Identity<T extends StorageProvider> {
     derivedKeyLogin = true,
   }: LoginOptions = {}): Promise<IdentityDerivePayload> {
     if (!this.#storageProvider) {
-      throw new Error(
+      throw new DeSoValidationError(
         'No storage provider available. Did you forget to configure a custom storageProvider?'
       );
     }
@@ -687,7 +713,9 @@ export class Identity<T extends StorageProvider> {
         });
         if (!activePublicKey) {
           this.#pendingWindowRequest.reject(
-            new Error('cannot logout without an active public key')
+            new DeSoPermissionError(
+              'cannot logout without an active public key'
+            )
           );
         } else {
           this.#launchIdentity('logout', { publicKey: activePublicKey });
@@ -730,7 +758,9 @@ export class Identity<T extends StorageProvider> {
 
     if (!primaryDerivedKey?.derivedSeedHex) {
       // This *should* never happen, but just in case we throw here to surface any bugs.
-      throw new Error('Cannot sign transaction without a derived seed hex');
+      throw new DeSoPermissionError(
+        'Cannot sign transaction without a derived seed hex'
+      );
     }
 
     return await signTx(TransactionHex, primaryDerivedKey.derivedSeedHex, {
@@ -738,18 +768,90 @@ export class Identity<T extends StorageProvider> {
     });
   }
 
+  /**
+   * Returns a signer backed by the derived key issued to the currently logged
+   * in user. The user is looked up each time the signer is used, so switching
+   * the active user also switches the keys used by an existing signer.
+   *
+   * @example
+   * ```typescript
+   * const signer = identity.signer();
+   * const publicKey = await signer.getPublicKey();
+   * ```
+   */
+  signer(): Signer {
+    return {
+      getPublicKey: async () => {
+        const { publicKey } = (await this.#getCurrentUser()) ?? {};
+
+        if (!publicKey) {
+          throw new DeSoPermissionError(
+            'Cannot get public key without a logged in user'
+          );
+        }
+
+        return publicKey;
+      },
+      getDerivedPublicKey: async () => {
+        const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
+
+        return primaryDerivedKey?.derivedPublicKeyBase58Check;
+      },
+      signTransaction: (transactionHex) => this.signTx(transactionHex),
+      signMessage: async (message) => {
+        const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
+
+        if (!primaryDerivedKey?.derivedSeedHex) {
+          // This *should* never happen, but just in case we throw here to surface any bugs.
+          throw new DeSoPermissionError(
+            'Cannot sign message without a derived seed hex'
+          );
+        }
+
+        return await signMessage(message, primaryDerivedKey.derivedSeedHex);
+      },
+      encrypt: (recipientPublicKeyBase58Check, plaintext) =>
+        this.encryptMessage(recipientPublicKeyBase58Check, plaintext),
+      decrypt: async (cipherTextHex, publicDecryptionKeyBase58Check) => {
+        const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
+
+        if (!primaryDerivedKey?.messagingPrivateKey) {
+          // This *should* never happen, but just in case we throw here to surface any bugs.
+          throw new DeSoPermissionError(
+            'Cannot decrypt message without a private messaging key'
+          );
+        }
+
+        return publicDecryptionKeyBase58Check
+          ? await decryptChatMessage(
+              primaryDerivedKey.messagingPrivateKey,
+              publicDecryptionKeyBase58Check,
+              cipherTextHex
+            )
+          : await decrypt(primaryDerivedKey.messagingPrivateKey, cipherTextHex);
+      },
+    };
+  }
+
   /**
    * Submits a signed transaction to the network for confirmation. NOTE: you
    * must sign a transaction before submitting it. This method is used
    * internally by the `signAndSubmit` method, which is a convenience method to
    * sign and submit a transaction in a single step.
    *
+   * If the submit is retried and an earlier attempt already made it to the
+   * mempool, this resolves to a DuplicateSubmitTransactionResponse that only
+   * has the TxnHashHex. Check IsDuplicate before reading the transaction or
+   * post entry.
+   *
    * @example
    * ```typescript
    * const submittedTx = await identity.submitTx(signedTxHex);
    * ```
    */
-  async submitTx(TransactionHex: string) {
+  async submitTx(
+    TransactionHex: string
+  ): Promise<SubmitTransactionResponse | DuplicateSubmitTransactionResponse> {
     const res = await this.#api.post(
       `${this.#nodeURI}/api/v0/submit-transaction`,
       {
@@ -797,28 +899,103 @@ export class Identity<T extends StorageProvider> {
    *
    * await identity.signAndSubmit(transactionObject);
    * ```
-   */
-  async signAndSubmit(tx: {
-    TransactionHex: string;
-  }): Promise<SubmitTransactionResponse> {
-    return await this.submitTx(await this.signTx(tx.TransactionHex));
+   *
+   * When the transaction is signed with the logged in user's derived key, its
+   * cost is taken from the locally stored spending limits right away, so
+   * hasPermissions reflects the remaining budget before the node is asked
+   * again.
+   *
+   * @param signer optional signer to use instead of the logged in user's
+   * derived key.
+   */
+  async signAndSubmit(
+    tx: {
+      TransactionHex: string;
+    },
+    signer?: Signer
+  ): Promise<SubmitTransactionResponse | DuplicateSubmitTransactionResponse> {
+    const res = await this.submitTx(
+      await (signer ?? this.signer()).signTransaction(tx.TransactionHex)
+    );
+
+    if (!signer) {
+      await this.#spendFromRemainingLimits([tx.TransactionHex]);
+    }
+
+    return res;
   }
 
-  async signAndSubmitAtomic(tx: {
-    TransactionHex: string;
-    InnerTransactionHexes: string[];
-  }): Promise<{
+  async signAndSubmitAtomic(
+    tx: {
+      TransactionHex: string;
+      InnerTransactionHexes: string[];
+    },
+    signer?: Signer
+  ): Promise<{
     Transaction: MsgDeSoTxn;
     TxnHashHex: string;
     TransactionIDBase58Check: string;
   }> {
     const signedInnerTxns: string[] = [];
     for (let i = 0; i < tx.InnerTransactionHexes.length; i++) {
-      const signedInnerTxn = await this.signTx(tx.InnerTransactionHexes[i]);
+      const signedInnerTxn = await (signer ?? this.signer()).signTransaction(
+        tx.InnerTransactionHexes[i]
+      );
       signedInnerTxns.push(signedInnerTxn);
     }
 
-    return await this.submitAtomicTx(tx.TransactionHex, signedInnerTxns);
+    const res = await this.submitAtomicTx(tx.TransactionHex, signedInnerTxns);
+
+    if (!signer) {
+      await this.#spendFromRemainingLimits(tx.InnerTransactionHexes);
+    }
+
+    return res;
+  }
+
+  /**
+   * Returns the spending limits left on the active user's derived key, as
+   * last reported by the node and reduced by every transaction submitted
+   * with signAndSubmit since. Returns null if there is no logged in user.
+   */
+  async getRemainingSpendingLimits(): Promise<TransactionSpendingLimitResponse | null> {
+    const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
+
+    return primaryDerivedKey?.transactionSpendingLimits ?? null;
+  }
+
+  async #spendFromRemainingLimits(transactionHexes: string[]) {
+    try {
+      const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
+
+      if (!primaryDerivedKey?.transactionSpendingLimits) {
+        return;
+      }
+
+      // The next refreshDerivedKeyPermissions replaces this with the node's
+      // view of the key.
+      await this.#updateUser(primaryDerivedKey.publicKeyBase58Check, {
+        primaryDerivedKey: {
+          ...primaryDerivedKey,
+          transactionSpendingLimits: transactionHexes.reduce(
+            (limits, transactionHex) =>
+              subtractTransactionSpendingLimits(
+                limits,
+                getTransactionSpendingLimitCost(transactionHex, {
+                  network: this.#network,
+                })
+              ),
+            primaryDerivedKey.transactionSpendingLimits
+          ),
+        },
+      });
+    } catch (e) {
+      // The transaction was submitted, so a bookkeeping error shouldn't fail
+      // it.
+      if (this.#window.location?.hostname === 'localhost') {
+        console.error(e);
+      }
+    }
   }
 
   /**
@@ -842,7 +1019,7 @@ export class Identity<T extends StorageProvider> {
       if (e?.message?.includes('RuleErrorDerivedKeyNotAuthorized')) {
         const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
         if (primaryDerivedKey == null) {
-          throw new Error(
+          throw new DeSoPermissionError(
             'Cannot authorize derived key without a logged in user'
           );
         }
@@ -885,7 +1062,9 @@ export class Identity<T extends StorageProvider> {
 
     if (!primaryDerivedKey?.messagingPrivateKey) {
       // This *should* never happen, but just in case we throw here to surface any bugs.
-      throw new Error('Cannot encrypt message without a private messaging key');
+      throw new DeSoPermissionError(
+        'Cannot encrypt message without a private messaging key'
+      );
     }
 
     return await encryptChatMessage(
@@ -900,82 +1079,68 @@ export class Identity<T extends StorageProvider> {
    * endpoints of the DeSo backend api, could be a DM or a Group message.
    * @param groups This is an array of group chats the user belongs to. This is
    * required to decrypt group messages.
-   * @returns
+   * @param signer optional signer to decrypt with instead of the logged in
+   * user's messaging key.
+   * @returns the message with its DecryptedMessage. Messages sent as an
+   * envelope are parsed into Envelope, and DecryptedMessage is set to the
+   * envelope's text so plain text and envelope messages render the same way.
    */
   async decryptMessage(
     message: NewMessageEntryResponse,
-    groups: AccessGroupEntryResponse[]
-  ): Promise<DecryptedMessageEntryResponse> {
-    const { primaryDerivedKey, publicKey: userPublicKeyBase58Check } =
-      (await this.#getCurrentUser()) ?? {};
-    if (!(primaryDerivedKey?.messagingPrivateKey && userPublicKeyBase58Check)) {
-      // This *should* never happen, but just in case we throw here to surface any bugs.
-      throw new Error('Cannot decrypt messages without a logged in user');
-    }
+    groups: AccessGroupEntryResponse[],
+    signer: Signer = this.signer()
+  ): Promise<DecryptedMessageWithEnvelope> {
+    const userPublicKeyBase58Check = await signer.getPublicKey();
 
     const isSender =
       message.SenderInfo.OwnerPublicKeyBase58Check ===
         userPublicKeyBase58Check &&
       (message.SenderInfo.AccessGroupKeyName === this.#defaultGroupName ||
         !message.SenderInfo.AccessGroupKeyName);
-    let DecryptedMessage = '';
-    let errorMsg = '';
-
     switch (message.ChatType) {
       case ChatType.DM:
-        if (message.MessageInfo?.ExtraData?.unencrypted) {
-          DecryptedMessage = unencryptedHexToPlainText(
-            message.MessageInfo.EncryptedText
-          );
-        } else {
-          try {
-            DecryptedMessage = await this.#decryptDM(
-              userPublicKeyBase58Check,
-              primaryDerivedKey.messagingPrivateKey,
-              message,
-              isSender
-            );
-          } catch (e: any) {
-            errorMsg = e?.toString() ?? 'Could not decrypt direct message';
-          }
-        }
-        break;
+        return decryptAndParseMessage(
+          message,
+          isSender,
+          () =>
+            message.MessageInfo?.ExtraData?.unencrypted
+              ? unencryptedHexToPlainText(message.MessageInfo.EncryptedText)
+              : this.#decryptDM(
+                  userPublicKeyBase58Check,
+                  signer,
+                  message,
+                  isSender
+                ),
+          'Could not decrypt direct message'
+        );
       case ChatType.GROUPCHAT:
-        try {
-          DecryptedMessage = await this.#decryptGroupChat(groups, message);
-        } catch (e: any) {
-          errorMsg = e?.toString() ?? 'Could not decrypt group message';
-        }
-        break;
+        return decryptAndParseMessage(
+          message,
+          isSender,
+          () => this.#decryptGroupChat(groups, message, signer),
+          'Could not decrypt group message'
+        );
       default:
         // If we add new chat types, we need to add explicit support for them.
-        throw new Error(`unsupported chat type: ${message.ChatType}`);
+        throw new DeSoValidationError(
+          `unsupported chat type: ${message.ChatType}`
+        );
     }
-
-    return {
-      ...message,
-      ...{ DecryptedMessage, IsSender: isSender, error: errorMsg },
-    };
   }
 
   /**
    * Decrypts the encrypted access group private key that we will need to use to decrypt group messages.
    *
    * @param encryptedKeyHex
+   * @param signer optional signer to decrypt with instead of the logged in
+   * user's messaging key.
    * @returns returns a promise that resolves t the decrypted key pair.
    */
-  async decryptAccessGroupKeyPair(encryptedKeyHex: string) {
-    const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
-
-    if (!primaryDerivedKey?.messagingPrivateKey) {
-      // This *should* never happen, but just in case we throw here to surface any bugs.
-      throw new Error('Cannot encrypt message without a private messaging key');
-    }
-
-    const decryptedPrivateKeyHex = await decrypt(
-      primaryDerivedKey.messagingPrivateKey,
-      encryptedKeyHex
-    );
+  async decryptAccessGroupKeyPair(
+    encryptedKeyHex: string,
+    signer: Signer = this.signer()
+  ) {
+    const decryptedPrivateKeyHex = await signer.decrypt(encryptedKeyHex);
 
     return keygen(decryptedPrivateKeyHex);
   }
@@ -995,7 +1160,9 @@ export class Identity<T extends StorageProvider> {
 
     if (!primaryDerivedKey?.messagingPrivateKey) {
       // This *should* never happen, but just in case we throw here to surface any bugs.
-      throw new Error('Cannot derive access group without a messaging key');
+      throw new DeSoPermissionError(
+        'Cannot derive access group without a messaging key'
+      );
     }
 
     const keys = deriveAccessGroupKeyPair(
@@ -1028,22 +1195,30 @@ export class Identity<T extends StorageProvider> {
    *
    * myApiClient.post('https://myapi.com/some-authenticated-endpoint', { ...data }, { headers: authHeaders });
    * ```
+   *
+   * Pass an audience to issue a token for a specific service, e.g. one that
+   * checks it with verifyDesoJwt:
+   *
+   * ```typescript
+   * const token = await identity.jwt({ audience: 'my-service' });
+   * ```
+   *
+   * @param signerOrOptions optional signer to sign the jwt with instead of the
+   * logged in user's derived key, or the jwt options.
    */
-  async jwt() {
-    const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
-
-    if (!primaryDerivedKey?.derivedSeedHex) {
-      // This *should* never happen, but just in case we throw here to surface any bugs.
-      throw new Error('Cannot sign jwt without a derived seed hex');
-    }
+  async jwt(signerOrOptions: Signer | JwtOptions = {}) {
+    const { signer = this.signer(), audience }: JwtOptions =
+      'signMessage' in signerOrOptions
+        ? { signer: signerOrOptions }
+        : signerOrOptions;
 
-    return await getSignedJWT(
-      primaryDerivedKey.derivedSeedHex,
+    return await getSignedJWTWithSigner(
+      (message) => signer.signMessage(message),
       this.#jwtAlgorithm,
       {
-        derivedPublicKeyBase58Check:
-          primaryDerivedKey.derivedPublicKeyBase58Check,
+        derivedPublicKeyBase58Check: await signer.getDerivedPublicKey?.(),
         expiration: 60 * 10,
+        audience,
       }
     );
   }
@@ -1071,7 +1246,9 @@ export class Identity<T extends StorageProvider> {
 
         if (!activePublicKey) {
           this.#pendingWindowRequest.reject(
-            new Error('Cannot get free deso without a logged in user')
+            new DeSoPermissionError(
+              'Cannot get free deso without a logged in user'
+            )
           );
           return;
         }
@@ -1115,7 +1292,9 @@ export class Identity<T extends StorageProvider> {
 
         if (!activePublicKey) {
           this.#pendingWindowRequest.reject(
-            new Error('Cannon verify phone number without an active user')
+            new DeSoPermissionError(
+              'Cannon verify phone number without an active user'
+            )
           );
         }
 
@@ -1191,6 +1370,11 @@ export class Identity<T extends StorageProvider> {
    * @returns void
    */
   async refreshDerivedKeyPermissions() {
+    if (this.#isStorageLocked()) {
+      // the stored user can't be read until the storage is unlocked
+      return;
+    }
+
     const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
 
     if (
@@ -1248,7 +1432,9 @@ export class Identity<T extends StorageProvider> {
     permissionsToCheck: Partial<TransactionSpendingLimitResponseOptions>
   ): T extends Storage ? boolean : Promise<boolean> {
     if (Object.keys(permissionsToCheck).length === 0) {
-      throw new Error('You must pass at least one permission to check');
+      throw new DeSoValidationError(
+        'You must pass at least one permission to check'
+      );
     }
 
     const users = this.#getUsers();
@@ -1321,7 +1507,9 @@ export class Identity<T extends StorageProvider> {
   ) {
     const { primaryDerivedKey } = (await this.#getCurrentUser()) ?? {};
     if (primaryDerivedKey == null) {
-      throw new Error('Cannot request permissions without a logged in user');
+      throw new DeSoPermissionError(
+        'Cannot request permissions without a logged in user'
+      );
     }
 
     const { publicKeyBase58Check, derivedPublicKeyBase58Check } =
@@ -1365,7 +1553,7 @@ export class Identity<T extends StorageProvider> {
     }
   ): Promise<IdentityDerivePayload> {
     if (!this.#storageProvider) {
-      throw new Error('No storage provider available.');
+      throw new DeSoValidationError('No storage provider available.');
     }
 
     this.#storageProvider.removeItem(LOCAL_STORAGE_KEYS.loginKeyPair);
@@ -1416,12 +1604,12 @@ export class Identity<T extends StorageProvider> {
   // TODO: make sure this works and write a test for it...
   async ethereumAddressToDesoAddress(address: string) {
     if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      throw new Error('Invalid Ethereum address');
+      throw new DeSoValidationError('Invalid Ethereum address');
     }
 
     const transactions = await this.#getETHTransactionsSignedByAddress(address);
     if (transactions.length === 0) {
-      throw new Error(
+      throw new DeSoValidationError(
         `ETH address must sign at least one transaction in order to recover its public key: ${address}`
       );
     }
@@ -1478,7 +1666,7 @@ export class Identity<T extends StorageProvider> {
             };
             break;
           default:
-            throw new Error('Unsupported txn type');
+            throw new DeSoValidationError('Unsupported txn type');
         }
 
         const rstxn = await ethers.utils.resolveProperties(txnData);
@@ -1491,7 +1679,7 @@ export class Identity<T extends StorageProvider> {
         );
         const recoveredAddress = ethers.utils.computeAddress(recoveredPubKey);
         if (recoveredAddress.toLowerCase() !== address.toLowerCase()) {
-          throw new Error(
+          throw new DeSoValidationError(
             `recovered address ${recoveredAddress} does not match expected address ${address}`
           );
         }
@@ -1505,7 +1693,7 @@ export class Identity<T extends StorageProvider> {
     }
 
     if (!ethereumPublicKey) {
-      throw new Error(
+      throw new DeSoValidationError(
         `failed to recover public key for eth address: ${address}`
       );
     }
@@ -1553,7 +1741,7 @@ export class Identity<T extends StorageProvider> {
     address: string
   ): Promise<EtherscanTransaction[]> {
     if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
-      throw new Error('Invalid Ethereum address');
+      throw new DeSoValidationError('Invalid Ethereum address');
     }
 
     const resp = (await this.#api.get(
@@ -1565,7 +1753,7 @@ export class Identity<T extends StorageProvider> {
     )) as EtherscanTransactionsByAddressResponse;
 
     if (resp.status !== '1' || !resp.message.startsWith('OK')) {
-      throw new Error(
+      throw new DeSoValidationError(
         `Error fetching ETH transactions for address ${address}: ${resp.message}`
       );
     }
@@ -1595,7 +1783,7 @@ export class Identity<T extends StorageProvider> {
       newActivePublicKey: string | null
     ): T extends Storage ? void : Promise<void> => {
       if (!(newActivePublicKey && users?.[newActivePublicKey])) {
-        throw new Error(
+        throw new DeSoValidationError(
           `No user found for public key. Stored users: ${JSON.stringify(
             users ?? {}
           )}`
@@ -1603,7 +1791,7 @@ export class Identity<T extends StorageProvider> {
       }
 
       if (!this.#storageProvider) {
-        throw new Error(
+        throw new DeSoValidationError(
           'No storage provider available. Did you forget to configure a storageProvider?'
         );
       }
@@ -1654,7 +1842,7 @@ export class Identity<T extends StorageProvider> {
     const primaryDerivedKey = users?.[ownerPublicKey]?.primaryDerivedKey;
 
     if (primaryDerivedKey == null) {
-      throw new Error(
+      throw new DeSoPermissionError(
         `No primary derived key found for user ${ownerPublicKey}`
       );
     }
@@ -1782,7 +1970,7 @@ export class Identity<T extends StorageProvider> {
               this.#purgeUserDataForPublicKey(currentUser.publicKey);
 
               if (!this.#storageProvider) {
-                throw new Error('No storage provider available.');
+                throw new DeSoValidationError('No storage provider available.');
               }
 
               await this.#storageProvider.removeItem(
@@ -1811,7 +1999,7 @@ export class Identity<T extends StorageProvider> {
           });
         break;
       default:
-        throw new Error(`Unknown method: ${method}`);
+        throw new DeSoValidationError(`Unknown method: ${method}`);
     }
   }
 
@@ -1820,7 +2008,7 @@ export class Identity<T extends StorageProvider> {
    */
   async #handleLoginMethod(payload: IdentityLoginPayload) {
     if (!this.#storageProvider) {
-      throw new Error('No storage provider available.');
+      throw new DeSoValidationError('No storage provider available.');
     }
 
     const activePublicKey = await this.#getActivePublicKey();
@@ -1831,7 +2019,7 @@ export class Identity<T extends StorageProvider> {
     // identifies this as a logout (even though the method is 'login').
     if (!payload.publicKeyAdded) {
       if (!activePublicKey) {
-        throw new Error('No active public key found');
+        throw new DeSoPermissionError('No active public key found');
       }
 
       await this.#storageProvider.removeItem(
@@ -1862,7 +2050,9 @@ export class Identity<T extends StorageProvider> {
       } else if (startEvent === NOTIFICATION_EVENTS.LOGIN_START) {
         endEvent = NOTIFICATION_EVENTS.LOGIN_END;
       } else {
-        throw new Error(`unexpected identity event: ${startEvent}`);
+        throw new DeSoValidationError(
+          `unexpected identity event: ${startEvent}`
+        );
       }
 
       this.#authorizePrimaryDerivedKey(payload.publicKeyAdded)
@@ -1910,7 +2100,7 @@ export class Identity<T extends StorageProvider> {
    */
   async #purgeUserDataForPublicKey(publicKey: string) {
     if (!this.#storageProvider) {
-      throw new Error('No storage provider is available.');
+      throw new DeSoValidationError('No storage provider is available.');
     }
 
     const users = await this.#storageProvider.getItem(
@@ -1949,7 +2139,7 @@ export class Identity<T extends StorageProvider> {
     }
 
     if (!this.#storageProvider) {
-      throw new Error('No storage provider is available.');
+      throw new DeSoValidationError('No storage provider is available.');
     }
 
     // we may or may not have a login key pair in localStorage. If we do, it means we
@@ -2047,7 +2237,7 @@ export class Identity<T extends StorageProvider> {
     attributes: Record<string, any> = {}
   ) {
     if (!this.#storageProvider) {
-      throw new Error('No storage provider is available.');
+      throw new DeSoValidationError('No storage provider is available.');
     }
 
     const users = await this.#storageProvider.getItem(
@@ -2137,9 +2327,8 @@ export class Identity<T extends StorageProvider> {
         // request, then we just reject it so the caller can handle it accordingly.
         if (this.#pendingWindowRequest?.status === 'pending') {
           this.#pendingWindowRequest.reject(
-            new DeSoCoreError(
-              'Identity window was closed without any user interaction.',
-              ERROR_TYPES.IDENTITY_WINDOW_CLOSED
+            new DeSoUserCancelledError(
+              'Identity window was closed without any user interaction.'
             )
           );
         }
@@ -2162,7 +2351,7 @@ export class Identity<T extends StorageProvider> {
     }
 
     if (typeof this.#window.open !== 'function') {
-      throw new Error(
+      throw new DeSoValidationError(
         'No identity presenter is available. Did you forget to configure a custom identityPresenter?'
       );
     }
@@ -2190,7 +2379,18 @@ export class Identity<T extends StorageProvider> {
     const errorType = this.#getErrorType(e);
     if (!errorType) return e;
 
-    return new DeSoCoreError(e.message, errorType, e);
+    const options = {
+      code: errorType,
+      endpoint: e.endpoint,
+      requestSummary: e.requestSummary,
+      cause: e,
+    };
+
+    // Only node responses have a status. Anything else, e.g. an error posted
+    // back by the identity window, can't be a rule error.
+    return typeof e.status === 'number'
+      ? new DeSoRuleError(e.message, e.status, e.ruleError ?? '', options)
+      : new DeSoError(e.message, options);
   }
 
   /**
@@ -2199,7 +2399,8 @@ export class Identity<T extends StorageProvider> {
    */
   async #decryptGroupChat(
     groups: AccessGroupEntryResponse[],
-    message: NewMessageEntryResponse
+    message: NewMessageEntryResponse,
+    signer: Signer
   ) {
     // ASSUMPTION: if it's a group chat, then the RECIPIENT has the group key name we need?
     const accessGroup = groups.find((g) => {
@@ -2212,11 +2413,14 @@ export class Identity<T extends StorageProvider> {
     });
 
     if (!accessGroup?.AccessGroupMemberEntryResponse?.EncryptedKey) {
-      throw new Error('access group key not found for group message');
+      throw new DeSoPermissionError(
+        'access group key not found for group message'
+      );
     }
 
     const decryptedKeys = await this.decryptAccessGroupKeyPair(
-      accessGroup.AccessGroupMemberEntryResponse.EncryptedKey
+      accessGroup.AccessGroupMemberEntryResponse.EncryptedKey,
+      signer
     );
 
     return await decryptChatMessage(
@@ -2231,7 +2435,7 @@ export class Identity<T extends StorageProvider> {
    */
   async #decryptDM(
     userPublicKeyBase58Check: string,
-    privateKeyHex: string,
+    signer: Signer,
     message: NewMessageEntryResponse,
     isSender: boolean
   ) {
@@ -2255,26 +2459,14 @@ export class Identity<T extends StorageProvider> {
         ? message.SenderInfo.AccessGroupPublicKeyBase58Check
         : message.RecipientInfo.AccessGroupPublicKeyBase58Check;
 
-      return await decryptChatMessage(
-        privateKeyHex,
-        publicDecryptionKey,
-        message.MessageInfo.EncryptedText
+      return await signer.decrypt(
+        message.MessageInfo.EncryptedText,
+        publicDecryptionKey
       );
     }
   }
 }
 
-class DeSoCoreError extends Error {
-  type: ERROR_TYPES;
-
-  constructor(message: string, type: ERROR_TYPES, originalError: any = {}) {
-    super(message);
-    Object.assign(this, originalError);
-    this.type = type;
-    this.name = 'DeSoCoreError';
-  }
-}
-
 const unencryptedHexToPlainText = (hex: string) => {
   const bytes = ecUtils.hexToBytes(hex);
   const textDecoder = new TextDecoder();
@@ -1,8 +1,15 @@
+export * from './bigint-utils.js';
 export * from './constants.js';
 export * from './crypto-utils.js';
 export * from './derived-key-utils.js';
+export * from './encrypted-storage.js';
 export * from './error-types.js';
 export * from './identity-instance.js';
+export * from './message-envelope.js';
+export * from './offline-signing.js';
+export * from './signer.js';
+export * from './spending-limit-descriptions.js';
+export * from './transaction-decoder.js';
 export * from './transaction-transcoders.js';
 export * from './transcoder-utils.js';
 export * from './transcoders.js';
@@ -0,0 +1,101 @@
+import { ChatType, NewMessageEntryResponse } from '../backend-types/index.js';
+import {
+  encryptChatMessage,
+  keygen,
+  publicKeyToBase58Check,
+} from './crypto-utils.js';
+import { identity } from './identity-instance.js';
+import {
+  decryptAttachment,
+  encodeMessageEnvelope,
+  encryptAttachment,
+  parseMessageEnvelope,
+} from './message-envelope.js';
+import { createSeedSigner } from './signer.js';
+
+describe('message envelopes', () => {
+  it('round trips envelopes and leaves plain text messages alone', async () => {
+    const replyTo = {
+      SenderPublicKeyBase58Check: publicKeyToBase58Check(keygen().public),
+      TimestampNanosString: '1',
+    };
+    const text = encodeMessageEnvelope({
+      text: 'nice!',
+      replyTo,
+      attachments: [{ type: 'image', url: 'https://images.deso.org/a.webp' }],
+    });
+
+    expect(parseMessageEnvelope(text)).toEqual({
+      v: 1,
+      text: 'nice!',
+      replyTo,
+      attachments: [{ type: 'image', url: 'https://images.deso.org/a.webp' }],
+    });
+    expect(parseMessageEnvelope('hello')).toBeNull();
+    expect(parseMessageEnvelope('{"text":"json from another client"}')).toBe(
+      null
+    );
+    expect(parseMessageEnvelope('{not json')).toBeNull();
+
+    const { data, encryption } = await encryptAttachment(
+      new TextEncoder().encode('image bytes')
+    );
+    expect(
+      new TextDecoder().decode(await decryptAttachment(data, encryption))
+    ).toEqual('image bytes');
+  });
+
+  it('parses envelopes when decrypting messages', async () => {
+    const sender = keygen();
+    const recipient = keygen();
+    const senderPublicKey = publicKeyToBase58Check(sender.public);
+    const recipientPublicKey = publicKeyToBase58Check(recipient.public);
+    const dm = async (plainText: string): Promise<NewMessageEntryResponse> => ({
+      ChatType: ChatType.DM,
+      SenderInfo: {
+        OwnerPublicKeyBase58Check: senderPublicKey,
+        AccessGroupKeyName: 'default-key',
+        AccessGroupPublicKeyBase58Check: senderPublicKey,
+      },
+      RecipientInfo: {
+        OwnerPublicKeyBase58Check: recipientPublicKey,
+        AccessGroupKeyName: 'default-key',
+        AccessGroupPublicKeyBase58Check: recipientPublicKey,
+      },
+      MessageInfo: {
+        EncryptedText: await encryptChatMessage(
+          sender.seedHex,
+          recipientPublicKey,
+          plainText
+        ),
+        TimestampNanos: 0,
+        TimestampNanosString: '',
+        ExtraData: {},
+      },
+    });
+    const signer = createSeedSigner({ seedHex: recipient.seedHex });
+
+    const envelopeMessage = await identity.decryptMessage(
+      await dm(
+        encodeMessageEnvelope({
+          text: 'hey @alice',
+          mentions: [{ PublicKeyBase58Check: senderPublicKey }],
+        })
+      ),
+      [],
+      signer
+    );
+    const plainMessage = await identity.decryptMessage(
+      await dm('hey'),
+      [],
+      signer
+    );
+
+    expect(envelopeMessage.DecryptedMessage).toEqual('hey @alice');
+    expect(envelopeMessage.Envelope?.mentions).toEqual([
+      { PublicKeyBase58Check: senderPublicKey },
+    ]);
+    expect(plainMessage.DecryptedMessage).toEqual('hey');
+    expect(plainMessage.Envelope).toBeUndefined();
+  });
+});
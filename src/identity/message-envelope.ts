@@ -0,0 +1,206 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import type {
+  LinkPreviewResponse,
+  NewMessageEntryResponse,
+} from '../backend-types/index.js';
+import type { DecryptedMessageWithEnvelope } from './types.js';
+
+/**
+ * The envelope version written by encodeMessageEnvelope.
+ */
+export const MESSAGE_ENVELOPE_VERSION = 1;
+
+// Marks a message text as an envelope rather than a plain text message that
+// happens to be json.
+const ENVELOPE_MARKER = 'deso-message';
+const ATTACHMENT_KEY_LENGTH = 32;
+const ATTACHMENT_IV_LENGTH = 12;
+
+/**
+ * Identifies a message by its sender and timestamp, the same way the node
+ * identifies a message when it is updated.
+ */
+export interface MessageReference {
+  SenderPublicKeyBase58Check: string;
+  TimestampNanosString: string;
+}
+
+export interface MessageMention {
+  PublicKeyBase58Check: string;
+  Username?: string;
+}
+
+export interface MessageReaction {
+  /**
+   * The emoji reacted with, e.g. '👍'.
+   */
+  emoji: string;
+  message: MessageReference;
+}
+
+export interface MessageAttachmentEncryption {
+  algorithm: 'AES-GCM';
+  keyHex: string;
+  ivHex: string;
+}
+
+export interface MessageAttachment {
+  type: 'image' | 'video';
+  url: string;
+  mimeType?: string;
+  name?: string;
+  size?: number;
+  /**
+   * The media service asset id of a video, e.g. to pass to pollForVideoReady.
+   */
+  assetId?: string;
+  /**
+   * Set when the uploaded file is encrypted. The key is only ever sent inside
+   * the encrypted message, so only the participants can decrypt the file.
+   */
+  encryption?: MessageAttachmentEncryption;
+}
+
+export interface MessageEnvelope {
+  v: number;
+  text: string;
+  replyTo?: MessageReference;
+  reaction?: MessageReaction;
+  mentions?: MessageMention[];
+  attachments?: MessageAttachment[];
+  linkPreviews?: LinkPreviewResponse[];
+}
+
+export type MessageEnvelopeContent = Omit<MessageEnvelope, 'v'>;
+
+/**
+ * Serializes an envelope into the text that is encrypted and sent as the
+ * message. Clients that don't support envelopes show the raw json.
+ * @example
+ * ```ts
+ * const Message = encodeMessageEnvelope({
+ *   text: 'nice!',
+ *   replyTo: { SenderPublicKeyBase58Check, TimestampNanosString },
+ * });
+ * ```
+ */
+export const encodeMessageEnvelope = (
+  content: MessageEnvelopeContent
+): string =>
+  JSON.stringify({
+    $deso: ENVELOPE_MARKER,
+    ...content,
+    v: MESSAGE_ENVELOPE_VERSION,
+  });
+
+/**
+ * Parses the decrypted text of a message. Returns null for plain text
+ * messages, e.g. ones sent by clients that don't support envelopes. Fields
+ * added by newer envelope versions are kept as is.
+ */
+export const parseMessageEnvelope = (text: string): MessageEnvelope | null => {
+  if (!text?.startsWith('{')) {
+    return null;
+  }
+
+  let parsed: Record<string, unknown>;
+
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+
+  if (
+    parsed?.$deso !== ENVELOPE_MARKER ||
+    typeof parsed.v !== 'number' ||
+    typeof parsed.text !== 'string'
+  ) {
+    return null;
+  }
+
+  const envelope = { ...parsed };
+  delete envelope.$deso;
+
+  return envelope as unknown as MessageEnvelope;
+};
+
+/**
+ * Decrypts a message with the given function and unwraps its envelope, if it
+ * was sent as one. Decryption failures are returned in error rather than
+ * thrown, so one undecryptable message doesn't fail a whole thread.
+ */
+export const decryptAndParseMessage = async (
+  message: NewMessageEntryResponse,
+  IsSender: boolean,
+  decrypt: () => Promise<string> | string,
+  defaultError = 'Could not decrypt message'
+): Promise<DecryptedMessageWithEnvelope> => {
+  let DecryptedMessage = '';
+  let error = '';
+
+  try {
+    DecryptedMessage = await decrypt();
+  } catch (e: any) {
+    error = e?.toString() ?? defaultError;
+  }
+
+  const Envelope = parseMessageEnvelope(DecryptedMessage);
+
+  return {
+    ...message,
+    DecryptedMessage,
+    IsSender,
+    error,
+    ...(Envelope ? { DecryptedMessage: Envelope.text, Envelope } : {}),
+  };
+};
+
+const importAttachmentKey = (keyBytes: Uint8Array, usage: KeyUsage) =>
+  globalThis.crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, [
+    usage,
+  ]);
+
+/**
+ * Encrypts the contents of an attachment with a fresh AES-GCM key. The
+ * returned encryption info belongs in the attachment of the envelope.
+ */
+export const encryptAttachment = async (
+  data: ArrayBuffer | Uint8Array
+): Promise<{ data: Uint8Array; encryption: MessageAttachmentEncryption }> => {
+  const keyBytes = globalThis.crypto.getRandomValues(
+    new Uint8Array(ATTACHMENT_KEY_LENGTH)
+  );
+  const iv = globalThis.crypto.getRandomValues(
+    new Uint8Array(ATTACHMENT_IV_LENGTH)
+  );
+  const cipherText = await globalThis.crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await importAttachmentKey(keyBytes, 'encrypt'),
+    new Uint8Array(data)
+  );
+
+  return {
+    data: new Uint8Array(cipherText),
+    encryption: {
+      algorithm: 'AES-GCM',
+      keyHex: bytesToHex(keyBytes),
+      ivHex: bytesToHex(iv),
+    },
+  };
+};
+
+/**
+ * Decrypts the contents of an attachment encrypted with encryptAttachment.
+ */
+export const decryptAttachment = async (
+  data: ArrayBuffer | Uint8Array,
+  { keyHex, ivHex }: MessageAttachmentEncryption
+): Promise<Uint8Array> =>
+  new Uint8Array(
+    await globalThis.crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: hexToBytes(ivHex) },
+      await importAttachmentKey(hexToBytes(keyHex), 'decrypt'),
+      new Uint8Array(data)
+    )
+  );
@@ -0,0 +1,194 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { keygen, publicKeyToBase58Check } from './crypto-utils.js';
+import {
+  parseUnsignedTransaction,
+  serializeUnsignedTransaction,
+  signTransactionOffline,
+  submitSignedTransaction,
+  verifyTransactionSignature,
+} from './offline-signing.js';
+import {
+  Transaction,
+  TransactionExtraData,
+  TransactionExtraDataKV,
+  TransactionMetadataBasicTransfer,
+  TransactionNonce,
+  TransactionOutput,
+} from './transaction-transcoders.js';
+import { encodeUTF8ToBytes } from './transcoder-utils.js';
+
+function buildTransactionHex(
+  publicKey: Uint8Array,
+  extraData = new TransactionExtraData()
+) {
+  const nonce = new TransactionNonce();
+  nonce.expirationBlockHeight = 1000;
+  nonce.partialId = 1;
+  const output = new TransactionOutput();
+  output.publicKey = keygen().public;
+  output.amountNanos = 1e9;
+
+  return bytesToHex(
+    new Transaction({
+      inputs: [],
+      outputs: [output],
+      version: 1,
+      feeNanos: 168,
+      nonce,
+      publicKey,
+      metadata: new TransactionMetadataBasicTransfer(),
+      signature: new Uint8Array(0),
+      extraData,
+    }).toBytes()
+  );
+}
+
+describe('offline signing', () => {
+  const owner = keygen();
+  const derived = keygen();
+  const ownerPublicKeyBase58Check = publicKeyToBase58Check(owner.public);
+
+  it('round trips an unsigned transaction and rejects edited payloads', () => {
+    const transactionHex = buildTransactionHex(owner.public);
+    const serialized = serializeUnsignedTransaction(transactionHex, {
+      description: 'pay the invoice',
+    });
+
+    const parsed = parseUnsignedTransaction(serialized);
+
+    expect(parsed.transactionHex).toEqual(transactionHex);
+    expect(parsed.description).toEqual('pay the invoice');
+    expect(parsed.summary.publicKeyBase58Check).toEqual(
+      ownerPublicKeyBase58Check
+    );
+    expect(parsed.summary.outputs[0].amountNanos).toEqual(1e9);
+
+    const edited = JSON.parse(serialized);
+    edited.transactionHex = buildTransactionHex(derived.public);
+    expect(() => parseUnsignedTransaction(JSON.stringify(edited))).toThrow(
+      'hash does not match'
+    );
+  });
+
+  it('signs with owner and derived seeds and verifies the signatures', async () => {
+    const transactionHex = buildTransactionHex(owner.public);
+
+    const signedByOwner = await signTransactionOffline(
+      transactionHex,
+      owner.seedHex
+    );
+    expect(verifyTransactionSignature(signedByOwner)).toEqual({
+      isValid: true,
+      status: 'valid',
+      isDerivedKeySignature: false,
+      signerPublicKeyBase58Check: ownerPublicKeyBase58Check,
+      transactionPublicKeyBase58Check: ownerPublicKeyBase58Check,
+    });
+
+    await expect(
+      signTransactionOffline(transactionHex, derived.seedHex)
+    ).rejects.toThrow('Seed does not match');
+
+    const extraData = new TransactionExtraData();
+    extraData.kvs = [
+      new TransactionExtraDataKV(
+        encodeUTF8ToBytes('DerivedPublicKey'),
+        derived.public
+      ),
+    ];
+    const signedByDerivedKey = await signTransactionOffline(
+      buildTransactionHex(owner.public, extraData),
+      derived.seedHex,
+      { isDerivedKey: true }
+    );
+    expect(verifyTransactionSignature(signedByDerivedKey)).toMatchObject({
+      isValid: true,
+      isDerivedKeySignature: true,
+      signerPublicKeyBase58Check: publicKeyToBase58Check(derived.public),
+    });
+
+    // Without the extra data the signature can only be checked against an
+    // expected derived key.
+    const signedWithoutExtraData = await signTransactionOffline(
+      transactionHex,
+      derived.seedHex,
+      { isDerivedKey: true }
+    );
+    expect(verifyTransactionSignature(signedWithoutExtraData)).toMatchObject({
+      isValid: false,
+      status: 'unverifiable',
+      isDerivedKeySignature: true,
+    });
+    expect(
+      verifyTransactionSignature(signedWithoutExtraData, {
+        expectedSignerPublicKeyBase58Check: publicKeyToBase58Check(
+          derived.public
+        ),
+      })
+    ).toMatchObject({
+      isValid: true,
+      status: 'valid',
+      signerPublicKeyBase58Check: publicKeyToBase58Check(derived.public),
+    });
+    expect(
+      verifyTransactionSignature(signedWithoutExtraData, {
+        expectedSignerPublicKeyBase58Check: publicKeyToBase58Check(
+          keygen().public
+        ),
+      })
+    ).toMatchObject({ isValid: false, status: 'invalid' });
+
+    // Tweaking the recovery byte or the signature itself never verifies.
+    const tamper = (index: number) => {
+      const txn = Transaction.fromBytes(
+        hexToBytes(signedWithoutExtraData)
+      )[0] as Transaction;
+      (txn.signature as Uint8Array)[index] ^= 1;
+      return bytesToHex(txn.toBytes());
+    };
+    expect(verifyTransactionSignature(tamper(0)).isValid).toBe(false);
+    expect(
+      verifyTransactionSignature(tamper(10), {
+        expectedSignerPublicKeyBase58Check: publicKeyToBase58Check(
+          derived.public
+        ),
+      }).isValid
+    ).toBe(false);
+  });
+
+  it('submits to an explicit node and refuses invalid signatures', async () => {
+    const originalFetch = globalThis.fetch;
+    const fetchMock = jest.fn(() =>
+      Promise.resolve({
+        ok: true,
+        status: 200,
+        json: () => Promise.resolve({ TxnHashHex: 'abc' }),
+        text: () => Promise.resolve(JSON.stringify({ TxnHashHex: 'abc' })),
+      })
+    );
+    globalThis.fetch = fetchMock as any;
+
+    const transactionHex = buildTransactionHex(owner.public);
+    const signed = await signTransactionOffline(transactionHex, owner.seedHex);
+
+    await expect(
+      submitSignedTransaction(transactionHex, {
+        nodeURI: 'https://test.deso.org',
+      })
+    ).rejects.toThrow('signature is invalid');
+
+    const res = await submitSignedTransaction(signed, {
+      nodeURI: 'https://test.deso.org/',
+    });
+
+    expect(res).toEqual({ TxnHashHex: 'abc' });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://test.deso.org/api/v0/submit-transaction',
+      expect.objectContaining({
+        body: JSON.stringify({ TransactionHex: signed }),
+      })
+    );
+
+    globalThis.fetch = originalFetch;
+  });
+});
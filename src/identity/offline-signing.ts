@@ -0,0 +1,355 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { recoverPublicKey, verify } from '@noble/secp256k1';
+import {
+  DuplicateSubmitTransactionResponse,
+  SubmitTransactionResponse,
+} from '../backend-types/index.js';
+import { api, cleanURL } from '../data/index.js';
+import { parseJSON, stringifyJSON } from './bigint-utils.js';
+import {
+  bs58PublicKeyToCompressedBytes,
+  keygen,
+  publicKeyToBase58Check,
+  sha256X2,
+  signTx,
+} from './crypto-utils.js';
+import { DeSoValidationError } from './error-types.js';
+import { identity } from './identity-instance.js';
+import {
+  DecodedTransaction,
+  decodeSignature,
+  decodeTransaction,
+} from './transaction-decoder.js';
+import { Transaction } from './transaction-transcoders.js';
+import { decodeBytesToUTF8 } from './transcoder-utils.js';
+import { Network } from './types.js';
+
+const OFFLINE_TRANSACTION_VERSION = 1;
+
+/**
+ * An unsigned transaction along with everything the signer needs to review
+ * it. This is what gets carried from the online machine to the offline one.
+ */
+export interface OfflineTransaction {
+  version: number;
+  network: Network;
+  transactionHex: string;
+  /**
+   * The hash of the unsigned transaction. Checked when parsing to catch
+   * corrupted or edited payloads.
+   */
+  unsignedTxnHashHex: string;
+  /**
+   * The decoded transaction. This is regenerated from transactionHex when the
+   * payload is parsed, so it always describes what will actually be signed.
+   */
+  summary: DecodedTransaction;
+  /**
+   * An optional note from whoever prepared the transaction.
+   */
+  description?: string;
+}
+
+export interface SerializeUnsignedTransactionOptions {
+  network?: Network;
+  description?: string;
+}
+
+export interface SignTransactionOfflineOptions {
+  /**
+   * Set this when the seed is a derived key of the transaction's public key.
+   * Otherwise the seed must belong to the transaction's public key.
+   */
+  isDerivedKey?: boolean;
+}
+
+/**
+ * unverifiable means the transaction is signed with a derived key but there
+ * is no key to check the signature against: it has no DerivedPublicKey extra
+ * data and no expectedSignerPublicKeyBase58Check was given.
+ */
+export type TransactionSignatureStatus =
+  | 'valid'
+  | 'invalid'
+  | 'unsigned'
+  | 'unverifiable';
+
+export interface TransactionSignatureVerification {
+  /**
+   * True only if the signature was checked against a known key.
+   */
+  isValid: boolean;
+  status: TransactionSignatureStatus;
+  isDerivedKeySignature: boolean;
+  /**
+   * The public key that produced the signature. For derived key signatures
+   * this is the derived key, taken from the DerivedPublicKey extra data or
+   * expectedSignerPublicKeyBase58Check. When the status is unverifiable this
+   * is the key recovered from the signature, which any signature recovers
+   * to, so it must not be trusted without checking it separately. Null if
+   * the transaction is unsigned or no key could be recovered.
+   */
+  signerPublicKeyBase58Check: string | null;
+  transactionPublicKeyBase58Check: string;
+}
+
+export interface VerifyTransactionSignatureOptions {
+  network?: Network;
+  /**
+   * The key the signature must come from. Required to verify derived key
+   * signatures of transactions without DerivedPublicKey extra data.
+   */
+  expectedSignerPublicKeyBase58Check?: string;
+}
+
+export interface SubmitSignedTransactionOptions {
+  /**
+   * The node to submit to. Defaults to the node identity is configured with.
+   */
+  nodeURI?: string;
+  /**
+   * Verify the signature before submitting. Defaults to true.
+   */
+  verifySignature?: boolean;
+  /**
+   * The derived key the transaction was signed with, if it has no
+   * DerivedPublicKey extra data. See verifyTransactionSignature.
+   */
+  expectedSignerPublicKeyBase58Check?: string;
+}
+
+const parseTransaction = (txnHex: string) =>
+  Transaction.fromBytes(hexToBytes(txnHex))[0] as Transaction;
+
+const getUnsignedTxnBytes = (txn: Transaction) =>
+  new Transaction({ ...txn, signature: new Uint8Array(0) }).toBytes();
+
+/**
+ * Serializes an unsigned transaction for transfer to an offline machine. The
+ * result is a JSON string that includes a decoded summary of the transaction
+ * for review.
+ *
+ * @example
+ * ```ts
+ * const { TransactionHex } = await constructSendDeSoTransaction(params);
+ * fs.writeFileSync('unsigned.json', serializeUnsignedTransaction(TransactionHex));
+ * ```
+ */
+export const serializeUnsignedTransaction = (
+  tx: string | { TransactionHex: string },
+  options: SerializeUnsignedTransactionOptions = {}
+): string => {
+  const transactionHex = typeof tx === 'string' ? tx : tx.TransactionHex;
+  const txn = parseTransaction(transactionHex);
+
+  if (txn.signature?.length) {
+    throw new DeSoValidationError('Transaction is already signed');
+  }
+
+  const payload: OfflineTransaction = {
+    version: OFFLINE_TRANSACTION_VERSION,
+    network: options.network ?? 'mainnet',
+    transactionHex,
+    unsignedTxnHashHex: bytesToHex(sha256X2(getUnsignedTxnBytes(txn))),
+    summary: decodeTransaction(transactionHex, { network: options.network }),
+    ...(options.description && { description: options.description }),
+  };
+
+  return stringifyJSON(payload);
+};
+
+/**
+ * Parses the output of serializeUnsignedTransaction. The summary is decoded
+ * again from the transaction hex rather than trusted from the payload.
+ */
+export const parseUnsignedTransaction = (
+  serialized: string
+): OfflineTransaction => {
+  let payload: OfflineTransaction;
+  try {
+    payload = parseJSON(serialized);
+  } catch (e) {
+    throw new DeSoValidationError('Invalid offline transaction payload', {
+      cause: e,
+    });
+  }
+
+  if (payload?.version !== OFFLINE_TRANSACTION_VERSION) {
+    throw new DeSoValidationError(
+      `Unsupported offline transaction version ${payload?.version}`
+    );
+  }
+
+  const txn = parseTransaction(payload.transactionHex);
+  if (
+    bytesToHex(sha256X2(getUnsignedTxnBytes(txn))) !==
+    payload.unsignedTxnHashHex
+  ) {
+    throw new DeSoValidationError(
+      'Offline transaction hash does not match its transaction hex'
+    );
+  }
+
+  return {
+    ...payload,
+    summary: decodeTransaction(payload.transactionHex, {
+      network: payload.network,
+    }),
+  };
+};
+
+/**
+ * Signs a transaction with a raw seed hex. Nothing is read from or written to
+ * identity or its storage, so this is safe to run on an air-gapped machine.
+ */
+export const signTransactionOffline = async (
+  tx: string | OfflineTransaction,
+  seedHex: string,
+  options: SignTransactionOfflineOptions = {}
+): Promise<string> => {
+  const transactionHex = typeof tx === 'string' ? tx : tx.transactionHex;
+  const txn = parseTransaction(transactionHex);
+  const seedPublicKeyHex = bytesToHex(keygen(seedHex).public);
+
+  if (!options.isDerivedKey && seedPublicKeyHex !== bytesToHex(txn.publicKey)) {
+    throw new DeSoValidationError(
+      'Seed does not match the transaction public key. Set isDerivedKey if signing with a derived key.'
+    );
+  }
+
+  // signTx hashes the bytes it is given, so any existing signature has to be
+  // removed first.
+  return signTx(bytesToHex(getUnsignedTxnBytes(txn)), seedHex, {
+    isDerivedKey: !!options.isDerivedKey,
+  });
+};
+
+/**
+ * Checks a signed transaction's signature without making any network
+ * requests. For derived key signatures this only proves the derived key
+ * signed the transaction, not that it is authorized for the transaction's
+ * public key.
+ */
+export const verifyTransactionSignature = (
+  signedTxHex: string,
+  {
+    network = 'mainnet',
+    expectedSignerPublicKeyBase58Check,
+  }: VerifyTransactionSignatureOptions = {}
+): TransactionSignatureVerification => {
+  const txn = parseTransaction(signedTxHex);
+  const decodedSignature = decodeSignature(txn.signature);
+  const transactionPublicKeyBase58Check = publicKeyToBase58Check(
+    txn.publicKey,
+    { network }
+  );
+
+  if (!decodedSignature || !txn.signature) {
+    return {
+      isValid: false,
+      status: 'unsigned',
+      isDerivedKeySignature: false,
+      signerPublicKeyBase58Check: null,
+      transactionPublicKeyBase58Check,
+    };
+  }
+
+  const { isDerivedKeySignature, recoveryParam } = decodedSignature;
+  const txnHash = sha256X2(getUnsignedTxnBytes(txn));
+  // Derived key signatures store the recovery param in the first byte, which
+  // has to be reset to the DER sequence tag before verifying.
+  const derSignature = txn.signature.slice();
+  derSignature[0] = 0x30;
+
+  let signerPublicKey: Uint8Array | null = txn.publicKey;
+  if (isDerivedKeySignature) {
+    signerPublicKey =
+      txn.extraData?.kvs.find(
+        ({ key }) => decodeBytesToUTF8(key) === 'DerivedPublicKey'
+      )?.value ?? null;
+
+    if (!signerPublicKey && expectedSignerPublicKeyBase58Check) {
+      signerPublicKey = bs58PublicKeyToCompressedBytes(
+        expectedSignerPublicKeyBase58Check
+      );
+    }
+
+    if (!signerPublicKey) {
+      // Any signature recovers to some key, so the recovered key is only
+      // reported, never verified against.
+      let recoveredPublicKey: Uint8Array | null = null;
+      try {
+        recoveredPublicKey = recoverPublicKey(
+          txnHash,
+          derSignature,
+          recoveryParam ?? 0,
+          true
+        );
+      } catch (e) {
+        recoveredPublicKey = null;
+      }
+
+      return {
+        isValid: false,
+        status: 'unverifiable',
+        isDerivedKeySignature,
+        signerPublicKeyBase58Check: recoveredPublicKey
+          ? publicKeyToBase58Check(recoveredPublicKey, { network })
+          : null,
+        transactionPublicKeyBase58Check,
+      };
+    }
+  }
+
+  const signerPublicKeyBase58Check = publicKeyToBase58Check(signerPublicKey, {
+    network,
+  });
+  const isValid =
+    (!expectedSignerPublicKeyBase58Check ||
+      bytesToHex(
+        bs58PublicKeyToCompressedBytes(expectedSignerPublicKeyBase58Check)
+      ) === bytesToHex(signerPublicKey)) &&
+    verify(derSignature, txnHash, signerPublicKey);
+
+  return {
+    isValid,
+    status: isValid ? 'valid' : 'invalid',
+    isDerivedKeySignature,
+    signerPublicKeyBase58Check,
+    transactionPublicKeyBase58Check,
+  };
+};
+
+/**
+ * Submits a transaction signed offline, either through identity's configured
+ * node or an explicit node URI. Resolves to a
+ * DuplicateSubmitTransactionResponse if a retry finds that an earlier attempt
+ * already made it to the mempool.
+ */
+export const submitSignedTransaction = async (
+  signedTxHex: string,
+  options: SubmitSignedTransactionOptions = {}
+): Promise<SubmitTransactionResponse | DuplicateSubmitTransactionResponse> => {
+  if (options.verifySignature !== false) {
+    const { status } = verifyTransactionSignature(signedTxHex, {
+      expectedSignerPublicKeyBase58Check:
+        options.expectedSignerPublicKeyBase58Check,
+    });
+
+    if (status === 'unverifiable') {
+      throw new DeSoValidationError(
+        'Transaction signature cannot be verified without the derived public key. Pass expectedSignerPublicKeyBase58Check.'
+      );
+    }
+
+    if (status !== 'valid') {
+      throw new DeSoValidationError('Transaction signature is invalid');
+    }
+  }
+
+  return options.nodeURI
+    ? api.post(cleanURL(options.nodeURI, 'api/v0/submit-transaction'), {
+        TransactionHex: signedTxHex,
+      })
+    : identity.submitTx(signedTxHex);
+};
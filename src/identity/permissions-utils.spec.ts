@@ -1,6 +1,27 @@
-import { buildTransactionSpendingLimitResponse } from './permissions-utils.js';
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  bs58PublicKeyToCompressedBytes,
+  keygen,
+  publicKeyToBase58Check,
+} from './crypto-utils.js';
+import {
+  buildTransactionSpendingLimitResponse,
+  diffTransactionSpendingLimits,
+  getTransactionSpendingLimitCost,
+  mergeTransactionSpendingLimits,
+  subtractTransactionSpendingLimits,
+} from './permissions-utils.js';
+import {
+  Transaction,
+  TransactionExtraData,
+  TransactionMetadataTransferDAOCoin,
+  TransactionNonce,
+  TransactionOutput,
+} from './transaction-transcoders.js';
 import { TransactionSpendingLimitResponseOptions } from './types.js';
 
+const profile = 'BC1YLhtBTFXAsKZgoaoYNW8mWAJWdfQjycheAeYjaX46azVrnZfJ94s';
+
 describe('permissions-utils', () => {
   describe('buildTransactionSpendingLimits', () => {
     it('sets UNLIMITED values to 1e9', () => {
@@ -184,4 +205,97 @@ describe('permissions-utils', () => {
       });
     });
   });
+
+  describe('spending limit algebra', () => {
+    it('merges limits and diffs what is requested against what is granted', () => {
+      const merged = mergeTransactionSpendingLimits(
+        {
+          GlobalDESOLimit: 1e6,
+          TransactionCountLimitMap: { SUBMIT_POST: 2 },
+          StakeLimitMap: [
+            { ValidatorPublicKeyBase58Check: profile, StakeLimit: '0x10' },
+          ],
+        },
+        {
+          GlobalDESOLimit: 5e5,
+          TransactionCountLimitMap: { SUBMIT_POST: 3, LIKE: 'UNLIMITED' },
+          DAOCoinOperationLimitMap: { [profile]: { transfer: 2 } },
+          StakeLimitMap: [
+            { ValidatorPublicKeyBase58Check: profile, StakeLimit: '0x20' },
+          ],
+        }
+      );
+
+      expect(merged).toEqual({
+        GlobalDESOLimit: 1.5e6,
+        TransactionCountLimitMap: { SUBMIT_POST: 5, LIKE: 'UNLIMITED' },
+        DAOCoinOperationLimitMap: { [profile]: { transfer: 2 } },
+        StakeLimitMap: [
+          { ValidatorPublicKeyBase58Check: profile, StakeLimit: '0x30' },
+        ],
+      });
+      expect(
+        diffTransactionSpendingLimits(merged, {
+          GlobalDESOLimit: 1e6,
+          TransactionCountLimitMap: { SUBMIT_POST: 10, LIKE: 5 },
+          DAOCoinOperationLimitMap: { '': { any: 1e9 } },
+          StakeLimitMap: [
+            { ValidatorPublicKeyBase58Check: profile, StakeLimit: '0x18' },
+          ],
+        })
+      ).toEqual({
+        GlobalDESOLimit: 5e5,
+        TransactionCountLimitMap: { LIKE: 'UNLIMITED' },
+        StakeLimitMap: [
+          { ValidatorPublicKeyBase58Check: profile, StakeLimit: '0x18' },
+        ],
+      });
+      expect(
+        diffTransactionSpendingLimits(merged, { IsUnlimited: true })
+      ).toEqual({});
+    });
+
+    it('subtracts the cost of a transaction from a limit', () => {
+      const sender = publicKeyToBase58Check(keygen().public);
+      const metadata = new TransactionMetadataTransferDAOCoin();
+      metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(profile);
+      metadata.daoCoinToTransferNanos = new Uint8Array([1]);
+      metadata.receiverPublicKey = bs58PublicKeyToCompressedBytes(profile);
+      const output = new TransactionOutput();
+      output.publicKey = bs58PublicKeyToCompressedBytes(profile);
+      output.amountNanos = 1000;
+      const txn = new Transaction({
+        version: 1,
+        inputs: [],
+        outputs: [output],
+        metadata,
+        publicKey: bs58PublicKeyToCompressedBytes(sender),
+        extraData: new TransactionExtraData(),
+        signature: new Uint8Array(0),
+        feeNanos: 150,
+        nonce: new TransactionNonce(),
+      });
+
+      const cost = getTransactionSpendingLimitCost(bytesToHex(txn.toBytes()));
+
+      expect(cost).toEqual({
+        GlobalDESOLimit: 1150,
+        DAOCoinOperationLimitMap: { [profile]: { transfer: 1 } },
+      });
+      expect(
+        subtractTransactionSpendingLimits(
+          {
+            GlobalDESOLimit: 2000,
+            TransactionCountLimitMap: { BASIC_TRANSFER: 1e9 },
+            DAOCoinOperationLimitMap: { [profile]: { any: 1 } },
+          },
+          cost
+        )
+      ).toEqual({
+        GlobalDESOLimit: 850,
+        TransactionCountLimitMap: { BASIC_TRANSFER: 1e9 },
+        DAOCoinOperationLimitMap: { [profile]: { any: 0 } },
+      });
+    });
+  });
 });
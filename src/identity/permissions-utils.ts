@@ -1,6 +1,42 @@
 import { TransactionSpendingLimitResponse } from '../backend-types/index.js';
+import {
+  DecodeTransactionOptions,
+  decodeTransaction,
+} from './transaction-decoder.js';
 import { TransactionSpendingLimitResponseOptions } from './types.js';
 
+type SpendingLimits =
+  | TransactionSpendingLimitResponse
+  | TransactionSpendingLimitResponseOptions;
+
+type LimitValue = number | string;
+
+// Counts of 1e9 or more are how UNLIMITED is encoded for the node.
+const UNLIMITED_COUNT = 1e9;
+
+// Fields of the array based limit maps that hold the limit itself. Every other
+// field identifies the item.
+const ITEM_AMOUNT_FIELDS = ['OpCount', 'StakeLimit', 'UnstakeLimit'];
+
+// Amounts that are uint256 hex strings rather than numbers.
+const HEX_AMOUNT_FIELDS = new Set(['StakeLimit', 'UnstakeLimit']);
+
+const CREATOR_COIN_OPERATIONS = ['buy', 'sell'];
+const DAO_COIN_OPERATIONS = [
+  'mint',
+  'burn',
+  'disable_minting',
+  'update_transfer_restriction_status',
+];
+const NFT_OPERATIONS: Record<string, string> = {
+  UPDATE_NFT: 'update',
+  ACCEPT_NFT_BID: 'accept_nft_bid',
+  NFT_BID: 'nft_bid',
+  NFT_TRANSFER: 'transfer',
+  ACCEPT_NFT_TRANSFER: 'accept_nft_transfer',
+  BURN_NFT: 'burn',
+};
+
 export function compareTransactionSpendingLimits(
   expectedPermissions: TransactionSpendingLimitResponseOptions,
   actualPermissions: TransactionSpendingLimitResponse
@@ -329,3 +365,332 @@ function normalizeCount(count?: number | 'UNLIMITED') {
   // check if there are no more transactions left to spend.
   return count === 'UNLIMITED' || count === 1e9 ? 1 : count ?? 0;
 }
+
+interface LimitEntry {
+  path: string[];
+  value: LimitValue;
+  // The identifying fields of an item in an array based limit map.
+  item?: Record<string, unknown>;
+}
+
+const entryKey = (path: string[]) => JSON.stringify(path);
+
+const isUnlimitedValue = (value: LimitValue | undefined, field: string) =>
+  value === 'UNLIMITED' ||
+  (typeof value === 'number' &&
+    field !== 'GlobalDESOLimit' &&
+    !HEX_AMOUNT_FIELDS.has(field) &&
+    value >= UNLIMITED_COUNT);
+
+const toAmount = (value?: LimitValue | bigint | null) =>
+  typeof value === 'bigint'
+    ? value
+    : typeof value === 'string'
+    ? BigInt(value.startsWith('0x') ? value : `0x${value}`)
+    : BigInt(Math.round(value ?? 0));
+
+const fromAmount = (amount: bigint, field: string): LimitValue =>
+  HEX_AMOUNT_FIELDS.has(field) ? `0x${amount.toString(16)}` : Number(amount);
+
+/**
+ * Flattens a spending limit into its individual limits, keyed by path. Items
+ * of the array based maps are keyed by their identifying fields, so the same
+ * item in two limits gets the same path.
+ */
+function flattenLimits(limits: SpendingLimits): Map<string, LimitEntry> {
+  const entries = new Map<string, LimitEntry>();
+  const add = (entry: LimitEntry) => entries.set(entryKey(entry.path), entry);
+
+  Object.entries(limits ?? {}).forEach(([mapName, value]) => {
+    if (mapName === 'IsUnlimited' || value === undefined || value === null) {
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      value.forEach((item: Record<string, any>) => {
+        const amountField = ITEM_AMOUNT_FIELDS.find((f) => f in item);
+        if (!amountField) return;
+
+        const { [amountField]: amount, ...identity } = item;
+        add({
+          path: [mapName, stableStringify(identity), amountField],
+          value: amount,
+          item: identity,
+        });
+      });
+    } else {
+      walkObj(value, (val, path) =>
+        add({ path: [mapName, ...path], value: val })
+      );
+    }
+  });
+
+  return entries;
+}
+
+function unflattenLimits(
+  entries: Iterable<LimitEntry>
+): TransactionSpendingLimitResponseOptions {
+  const result: any = {};
+
+  for (const { path, value, item } of entries) {
+    if (item) {
+      const [mapName, , amountField] = path;
+      result[mapName] = (result[mapName] ?? []).concat({
+        ...item,
+        [amountField]: value,
+      });
+    } else {
+      setDeepValue(result, path, value);
+    }
+  }
+
+  return result;
+}
+
+function stableStringify(obj: Record<string, unknown>) {
+  return JSON.stringify(
+    Object.keys(obj)
+      .sort()
+      .map((key) => [key, obj[key]])
+  );
+}
+
+/**
+ * The paths that can satisfy a limit, in the order the node spends them.
+ * Operation limits on a specific profile or NFT fall back to the "any"
+ * operation, and then to the "any profile" or "any NFT" entries.
+ */
+function candidatePaths(path: string[]): string[][] {
+  const [mapName] = path;
+
+  if (
+    (mapName === 'CreatorCoinOperationLimitMap' ||
+      mapName === 'DAOCoinOperationLimitMap') &&
+    path.length === 3
+  ) {
+    const [, key, op] = path;
+    return [
+      [mapName, key, op],
+      [mapName, key, 'any'],
+      [mapName, '', op],
+      [mapName, '', 'any'],
+    ];
+  }
+
+  if (mapName === 'NFTOperationLimitMap' && path.length === 4) {
+    const [, hash, serial, op] = path;
+    return [
+      [mapName, hash, serial, op],
+      [mapName, hash, serial, 'any'],
+      [mapName, '', '0', op],
+      [mapName, '', '0', 'any'],
+    ];
+  }
+
+  return [path];
+}
+
+/**
+ * Combines two spending limits into one that allows everything either of
+ * them allows. Counts and amounts are added together, and unlimited counts
+ * stay unlimited.
+ *
+ * @example
+ * ```ts
+ * mergeTransactionSpendingLimits(
+ *   { TransactionCountLimitMap: { SUBMIT_POST: 2 } },
+ *   { TransactionCountLimitMap: { SUBMIT_POST: 3, LIKE: 'UNLIMITED' } }
+ * );
+ * // { TransactionCountLimitMap: { SUBMIT_POST: 5, LIKE: 'UNLIMITED' } }
+ * ```
+ */
+export function mergeTransactionSpendingLimits(
+  a: SpendingLimits,
+  b: SpendingLimits
+): TransactionSpendingLimitResponseOptions {
+  if (a.IsUnlimited || b.IsUnlimited) {
+    return { IsUnlimited: true };
+  }
+
+  const merged = flattenLimits(a);
+
+  flattenLimits(b).forEach((entry, key) => {
+    const existing = merged.get(key);
+    const field = entry.path[entry.path.length - 1];
+
+    if (!existing) {
+      merged.set(key, entry);
+    } else if (
+      isUnlimitedValue(existing.value, field) ||
+      isUnlimitedValue(entry.value, field)
+    ) {
+      merged.set(key, { ...entry, value: 'UNLIMITED' });
+    } else {
+      merged.set(key, {
+        ...entry,
+        value: fromAmount(
+          toAmount(existing.value) + toAmount(entry.value),
+          field
+        ),
+      });
+    }
+  });
+
+  return unflattenLimits(merged.values());
+}
+
+/**
+ * Returns the part of the requested limits that the granted limits don't
+ * cover. An empty object means the granted limits cover the whole request.
+ * Operation limits granted for "any" operation, profile or NFT are taken into
+ * account.
+ *
+ * @example
+ * ```ts
+ * diffTransactionSpendingLimits(
+ *   { GlobalDESOLimit: 1e9, TransactionCountLimitMap: { LIKE: 10 } },
+ *   { GlobalDESOLimit: 4e8, TransactionCountLimitMap: { LIKE: 20 } }
+ * );
+ * // { GlobalDESOLimit: 6e8 }
+ * ```
+ */
+export function diffTransactionSpendingLimits(
+  requested: SpendingLimits,
+  granted: SpendingLimits
+): TransactionSpendingLimitResponseOptions {
+  if (granted?.IsUnlimited) {
+    return {};
+  }
+
+  if (requested.IsUnlimited) {
+    return { IsUnlimited: true };
+  }
+
+  const grantedEntries = flattenLimits(granted);
+  const missing: LimitEntry[] = [];
+
+  flattenLimits(requested).forEach((entry) => {
+    const field = entry.path[entry.path.length - 1];
+    const grantedValues = candidatePaths(entry.path)
+      .map((path) => grantedEntries.get(entryKey(path))?.value)
+      .filter((value): value is LimitValue => value !== undefined);
+
+    if (grantedValues.some((value) => isUnlimitedValue(value, field))) {
+      return;
+    }
+
+    if (isUnlimitedValue(entry.value, field)) {
+      missing.push({ ...entry, value: 'UNLIMITED' });
+      return;
+    }
+
+    const grantedAmount = grantedValues
+      .map(toAmount)
+      .reduce((max, amount) => (amount > max ? amount : max), BigInt(0));
+    const missingAmount = toAmount(entry.value) - grantedAmount;
+
+    if (missingAmount > BigInt(0)) {
+      missing.push({ ...entry, value: fromAmount(missingAmount, field) });
+    }
+  });
+
+  return unflattenLimits(missing);
+}
+
+/**
+ * Spends a cost, such as the one returned by getTransactionSpendingLimitCost,
+ * from a spending limit. Each part of the cost is taken from the first limit
+ * that can pay for it, and never goes below zero. Unlimited counts are left
+ * as is.
+ */
+export function subtractTransactionSpendingLimits<T extends SpendingLimits>(
+  limits: T,
+  cost: SpendingLimits
+): T {
+  if (limits.IsUnlimited) {
+    return { ...limits };
+  }
+
+  const remaining = flattenLimits(limits);
+
+  flattenLimits(cost).forEach((entry) => {
+    const field = entry.path[entry.path.length - 1];
+    const key = candidatePaths(entry.path)
+      .map(entryKey)
+      .find((k) => remaining.has(k));
+    const existing = key && remaining.get(key);
+
+    if (!key || !existing || isUnlimitedValue(existing.value, field)) {
+      return;
+    }
+
+    const amount = toAmount(existing.value) - toAmount(entry.value);
+    remaining.set(key, {
+      ...existing,
+      value: fromAmount(amount > BigInt(0) ? amount : BigInt(0), field),
+    });
+  });
+
+  return unflattenLimits(remaining.values()) as T;
+}
+
+/**
+ * Computes what a signed or unsigned transaction spends from its signer's
+ * derived key limits: the DESO it spends and one use of the limit for its
+ * type. Creator coin, DAO coin and NFT operations use their operation limit
+ * maps, every other type uses the TransactionCountLimitMap.
+ */
+export function getTransactionSpendingLimitCost(
+  transactionHex: string,
+  options?: DecodeTransactionOptions
+): TransactionSpendingLimitResponse {
+  const txn = decodeTransaction(transactionHex, options);
+  const data: Record<string, any> = txn.metadata?.data ?? {};
+  const type = txn.txnTypeString;
+
+  let spentNanos =
+    toAmount(txn.feeNanos) +
+    txn.outputs
+      .filter(
+        ({ publicKeyBase58Check }) =>
+          publicKeyBase58Check !== txn.publicKeyBase58Check
+      )
+      .reduce((sum, { amountNanos }) => sum + toAmount(amountNanos), BigInt(0));
+
+  if (type === 'CREATOR_COIN' && data.operationType === 0) {
+    spentNanos += toAmount(data.desoToSellNanos);
+  }
+
+  const cost: TransactionSpendingLimitResponse = {
+    GlobalDESOLimit: Number(spentNanos),
+  };
+
+  if (type === 'CREATOR_COIN' || type === 'CREATOR_COIN_TRANSFER') {
+    cost.CreatorCoinOperationLimitMap = {
+      [data.profilePublicKey]: {
+        [type === 'CREATOR_COIN'
+          ? CREATOR_COIN_OPERATIONS[data.operationType]
+          : 'transfer']: 1,
+      },
+    };
+  } else if (type === 'DAO_COIN' || type === 'DAO_COIN_TRANSFER') {
+    cost.DAOCoinOperationLimitMap = {
+      [data.profilePublicKey]: {
+        [type === 'DAO_COIN'
+          ? DAO_COIN_OPERATIONS[data.operationType]
+          : 'transfer']: 1,
+      },
+    };
+  } else if (NFT_OPERATIONS[type]) {
+    cost.NFTOperationLimitMap = {
+      [data.nftPostHash]: {
+        [data.serialNumber]: { [NFT_OPERATIONS[type]]: 1 },
+      },
+    };
+  } else {
+    cost.TransactionCountLimitMap = { [type]: 1 };
+  }
+
+  return cost;
+}
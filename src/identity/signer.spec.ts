@@ -0,0 +1,104 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { sha256 } from '@noble/hashes/sha256';
+import { verify } from '@noble/secp256k1';
+import {
+  bs58PublicKeyToCompressedBytes,
+  encrypt,
+  keygen,
+  publicKeyToBase58Check,
+} from './crypto-utils.js';
+import { createSeedSigner } from './signer.js';
+import { decodeTransaction } from './transaction-decoder.js';
+import {
+  Transaction,
+  TransactionExtraData,
+  TransactionMetadataBasicTransfer,
+} from './transaction-transcoders.js';
+
+function buildTransactionHex(publicKeyBase58Check: string) {
+  return bytesToHex(
+    new Transaction({
+      inputs: [],
+      outputs: [],
+      version: 1,
+      feeNanos: 100,
+      nonce: null,
+      publicKey: bs58PublicKeyToCompressedBytes(publicKeyBase58Check),
+      metadata: new TransactionMetadataBasicTransfer(),
+      signature: new Uint8Array(0),
+      extraData: new TransactionExtraData(),
+    }).toBytes()
+  );
+}
+
+describe('createSeedSigner', () => {
+  it('signs as the owner when no owner public key is provided', async () => {
+    const keys = keygen();
+    const signer = createSeedSigner({ seedHex: keys.seedHex });
+    const publicKey = await signer.getPublicKey();
+
+    const { signature } = decodeTransaction(
+      await signer.signTransaction(buildTransactionHex(publicKey))
+    );
+
+    expect(publicKey).toEqual(publicKeyToBase58Check(keys.public));
+    expect(await signer.getDerivedPublicKey?.()).toBeUndefined();
+    expect(signature?.isDerivedKeySignature).toBe(false);
+  });
+
+  it('signs as a derived key when the owner public key differs', async () => {
+    const ownerKeys = keygen();
+    const derivedKeys = keygen();
+    const ownerPublicKey = publicKeyToBase58Check(ownerKeys.public);
+    const signer = createSeedSigner({
+      seedHex: derivedKeys.seedHex,
+      ownerPublicKeyBase58Check: ownerPublicKey,
+    });
+
+    const { signature } = decodeTransaction(
+      await signer.signTransaction(buildTransactionHex(ownerPublicKey))
+    );
+
+    expect(await signer.getPublicKey()).toEqual(ownerPublicKey);
+    expect(await signer.getDerivedPublicKey?.()).toEqual(
+      publicKeyToBase58Check(derivedKeys.public)
+    );
+    expect(signature?.isDerivedKeySignature).toBe(true);
+  });
+
+  it('signs the sha256 hash of a message', async () => {
+    const keys = keygen();
+    const signer = createSeedSigner({ seedHex: keys.seedHex });
+    const message = new TextEncoder().encode('hello');
+
+    const signature = await signer.signMessage(message);
+
+    expect(verify(signature, sha256(message), keys.public)).toBe(true);
+  });
+
+  it('encrypts and decrypts messages with its messaging key', async () => {
+    const sender = createSeedSigner({ seedHex: keygen().seedHex });
+    const recipientMessagingKeys = keygen();
+    const recipient = createSeedSigner({
+      seedHex: keygen().seedHex,
+      messagingPrivateKeyHex: recipientMessagingKeys.seedHex,
+    });
+    const recipientMessagingPublicKey = publicKeyToBase58Check(
+      recipientMessagingKeys.public
+    );
+
+    const cipherTextHex = await sender.encrypt(
+      recipientMessagingPublicKey,
+      'hello'
+    );
+
+    expect(
+      await recipient.decrypt(cipherTextHex, await sender.getPublicKey())
+    ).toEqual('hello');
+    expect(
+      await recipient.decrypt(
+        await encrypt(recipientMessagingPublicKey, 'group key')
+      )
+    ).toEqual('group key');
+  });
+});
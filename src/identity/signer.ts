@@ -0,0 +1,77 @@
+import {
+  decrypt,
+  decryptChatMessage,
+  encryptChatMessage,
+  keygen,
+  publicKeyToBase58Check,
+  signMessage,
+  signTx,
+} from './crypto-utils.js';
+import { Network, Signer } from './types.js';
+
+export interface SeedSignerOptions {
+  /**
+   * The seed hex of the key used for signing transactions and jwts.
+   */
+  seedHex: string;
+  /**
+   * The owner public key of the account. If this is provided and does not
+   * match the public key of the seed, the seed is treated as a derived key.
+   */
+  ownerPublicKeyBase58Check?: string;
+  /**
+   * The private key used to encrypt and decrypt messages. Defaults to the
+   * seed hex.
+   */
+  messagingPrivateKeyHex?: string;
+  network?: Network;
+}
+
+/**
+ * Creates a signer backed by a raw seed hex. This is useful in server
+ * environments where there is no identity window to log in with.
+ * @example
+ * ```ts
+ * const signer = createSeedSigner({ seedHex: process.env.DESO_SEED_HEX });
+ *
+ * await submitPost(params, { signer });
+ * ```
+ */
+export const createSeedSigner = ({
+  seedHex,
+  ownerPublicKeyBase58Check,
+  messagingPrivateKeyHex = seedHex,
+  network = 'mainnet',
+}: SeedSignerOptions): Signer => {
+  const signingPublicKeyBase58Check = publicKeyToBase58Check(
+    keygen(seedHex).public,
+    { network }
+  );
+  const isDerivedKey =
+    !!ownerPublicKeyBase58Check &&
+    ownerPublicKeyBase58Check !== signingPublicKeyBase58Check;
+
+  return {
+    getPublicKey: async () =>
+      ownerPublicKeyBase58Check ?? signingPublicKeyBase58Check,
+    getDerivedPublicKey: async () =>
+      isDerivedKey ? signingPublicKeyBase58Check : undefined,
+    signTransaction: (transactionHex) =>
+      signTx(transactionHex, seedHex, { isDerivedKey }),
+    signMessage: (message) => signMessage(message, seedHex),
+    encrypt: (recipientPublicKeyBase58Check, plaintext) =>
+      encryptChatMessage(
+        messagingPrivateKeyHex,
+        recipientPublicKeyBase58Check,
+        plaintext
+      ),
+    decrypt: (cipherTextHex, publicDecryptionKeyBase58Check) =>
+      publicDecryptionKeyBase58Check
+        ? decryptChatMessage(
+            messagingPrivateKeyHex,
+            publicDecryptionKeyBase58Check,
+            cipherTextHex
+          )
+        : decrypt(messagingPrivateKeyHex, cipherTextHex),
+  };
+};
@@ -0,0 +1,117 @@
+import { createDesoClient } from '../client.js';
+import { createFetchResponse } from '../data/index.js';
+import { describeSpendingLimits } from './spending-limit-descriptions.js';
+
+const alice = 'BC1YLhtBTFXAsKZgoaoYNW8mWAJWdfQjycheAeYjaX46azVrnZfJ94s';
+const bob = 'BC1YLgTKfwSeHuNWtuqQmwduJM2QZ7ZQ9C7HFuLpyXuunUN7zTEr5WL';
+
+describe('describeSpendingLimits', () => {
+  it('describes a spending limit and resolves usernames in one request', async () => {
+    const fetchMock = jest.fn(() =>
+      Promise.resolve(
+        createFetchResponse(
+          200,
+          JSON.stringify({
+            UserList: [
+              {
+                PublicKeyBase58Check: alice,
+                ProfileEntryResponse: { Username: 'alice' },
+              },
+              { PublicKeyBase58Check: bob, ProfileEntryResponse: null },
+            ],
+          })
+        )
+      )
+    );
+    const client = createDesoClient({ fetch: fetchMock });
+
+    const descriptions = await describeSpendingLimits(
+      {
+        GlobalDESOLimit: 0.5 * 1e9,
+        TransactionCountLimitMap: { SUBMIT_POST: 10, AUTHORIZE_DERIVED_KEY: 1 },
+        DAOCoinOperationLimitMap: { [alice]: { transfer: 1e9 } },
+        CreatorCoinOperationLimitMap: { [bob]: { buy: 2 } },
+        AssociationLimitMap: [
+          {
+            AssociationClass: 'Post',
+            AssociationType: 'ENDORSEMENT',
+            AppScopeType: 'Any',
+            AppPublicKeyBase58Check: '',
+            AssociationOperation: 'Create',
+            OpCount: 1e9,
+          },
+        ],
+      },
+      { client }
+    );
+
+    expect(descriptions.map(({ text }) => text)).toEqual([
+      'Spend up to 0.5 DESO in fees',
+      'Perform up to 10 post transactions',
+      'Perform 1 derived key authorization transaction',
+      `Buy ${bob} creator coins up to 2 times`,
+      'Transfer unlimited @alice tokens',
+      'Create associations of type ENDORSEMENT on any post',
+    ]);
+    expect(descriptions[4]).toEqual({
+      kind: 'daoCoinOperation',
+      operation: 'transfer',
+      count: 'UNLIMITED',
+      profile: { PublicKeyBase58Check: alice, Username: 'alice' },
+      text: 'Transfer unlimited @alice tokens',
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse((fetchMock.mock.calls[0] as any)[1].body)).toEqual({
+      PublicKeysBase58Check: [bob, alice],
+      SkipForLeaderboard: true,
+    });
+  });
+
+  it('accepts spending limit options and a custom formatter', async () => {
+    const descriptions = await describeSpendingLimits(
+      {
+        NFTOperationLimitMap: { '': { 0: { nft_bid: 'UNLIMITED' } } },
+        StakeLimitMap: [
+          {
+            ValidatorPublicKeyBase58Check: alice,
+            StakeLimit: '0x3b9aca00',
+          },
+        ],
+      },
+      {
+        resolveProfiles: false,
+        format: ({ kind, count, amountNanos }) =>
+          `${kind}:${count ?? amountNanos}`,
+      }
+    );
+
+    expect(descriptions.map(({ text }) => text)).toEqual([
+      'nftOperation:UNLIMITED',
+      'stake:1000000000',
+    ]);
+    expect(descriptions[1].profile).toEqual({ PublicKeyBase58Check: alice });
+    expect(
+      (await describeSpendingLimits({ IsUnlimited: true }))[0].text
+    ).toEqual('Perform any transaction without limits');
+  });
+
+  it('describes unlimited stake and unstake limits', async () => {
+    const descriptions = await describeSpendingLimits(
+      {
+        StakeLimitMap: [
+          { ValidatorPublicKeyBase58Check: alice, StakeLimit: 'UNLIMITED' },
+        ],
+        UnstakeLimitMap: [
+          { ValidatorPublicKeyBase58Check: '', UnstakeLimit: 'UNLIMITED' },
+        ],
+      },
+      { resolveProfiles: false }
+    );
+
+    expect(descriptions.map(({ text }) => text)).toEqual([
+      `Stake unlimited DESO with ${alice}`,
+      'Unstake unlimited DESO with any validator',
+    ]);
+    expect(descriptions[0].amountNanos).toEqual('UNLIMITED');
+  });
+});
@@ -0,0 +1,488 @@
+import {
+  RequestOptions,
+  TransactionSpendingLimitResponse,
+} from '../backend-types/index.js';
+import { getUsersStateless } from '../data/index.js';
+import { TransactionSpendingLimitResponseOptions } from './types.js';
+
+// buildTransactionSpendingLimitResponse encodes UNLIMITED counts as 1e9.
+const UNLIMITED_COUNT = 1e9;
+
+// The DAOCoinLimitOrderLimitMap key used for DESO.
+const DESO_COIN_KEY = 'DESO';
+
+export type SpendingLimitDescriptionKind =
+  | 'unlimited'
+  | 'globalDESOLimit'
+  | 'transactionCount'
+  | 'creatorCoinOperation'
+  | 'daoCoinOperation'
+  | 'nftOperation'
+  | 'daoCoinLimitOrder'
+  | 'association'
+  | 'accessGroup'
+  | 'accessGroupMember'
+  | 'stake'
+  | 'unstake'
+  | 'unlockStake'
+  | 'lockup';
+
+export interface SpendingLimitProfile {
+  PublicKeyBase58Check: string;
+  /**
+   * Only set if the public key has a profile.
+   */
+  Username?: string;
+}
+
+/**
+ * A single permission granted by a spending limit. The fields that are set
+ * depend on the kind. A null profile or coin means any profile or coin.
+ */
+export interface SpendingLimitDescription {
+  kind: SpendingLimitDescriptionKind;
+  /**
+   * The transaction type, operation or association operation, as it appears
+   * in the spending limit.
+   */
+  operation?: string;
+  count?: number | 'UNLIMITED';
+  amountNanos?: number | 'UNLIMITED';
+  profile?: SpendingLimitProfile | null;
+  /**
+   * The coin sold by limit orders. The profile is the coin bought.
+   */
+  sellingProfile?: SpendingLimitProfile | null;
+  NFTPostHashHex?: string | null;
+  SerialNumber?: number | null;
+  AssociationClass?: string;
+  AssociationType?: string | null;
+  AccessGroupKeyName?: string | null;
+  /**
+   * An english description, e.g. "Transfer unlimited @alice tokens".
+   */
+  text: string;
+}
+
+export type SpendingLimitFormatter = (
+  description: Omit<SpendingLimitDescription, 'text'>
+) => string;
+
+export interface DescribeSpendingLimitsOptions extends RequestOptions {
+  /**
+   * Replaces the english text of each description, e.g. to localize it.
+   */
+  format?: SpendingLimitFormatter;
+  /**
+   * Whether to look up usernames with getUsersStateless. Defaults to true.
+   */
+  resolveProfiles?: boolean;
+}
+
+const TRANSACTION_TYPE_LABELS: Record<string, string> = {
+  BASIC_TRANSFER: 'DESO transfer',
+  SUBMIT_POST: 'post',
+  UPDATE_PROFILE: 'profile update',
+  FOLLOW: 'follow',
+  LIKE: 'like',
+  NEW_MESSAGE: 'message',
+  AUTHORIZE_DERIVED_KEY: 'derived key authorization',
+};
+
+const CREATOR_COIN_VERBS: Record<string, string> = {
+  any: 'Perform any operation on',
+  buy: 'Buy',
+  sell: 'Sell',
+  transfer: 'Transfer',
+};
+
+const DAO_COIN_VERBS: Record<string, string> = {
+  any: 'Perform any operation on',
+  mint: 'Mint',
+  burn: 'Burn',
+  disable_minting: 'Disable minting of',
+  update_transfer_restriction_status: 'Update transfer restrictions of',
+  transfer: 'Transfer',
+};
+
+const NFT_VERBS: Record<string, string> = {
+  any: 'Perform any operation on',
+  update: 'Update',
+  nft_bid: 'Bid on',
+  accept_nft_bid: 'Accept bids on',
+  transfer: 'Transfer',
+  accept_nft_transfer: 'Accept transfers of',
+  burn: 'Burn',
+};
+
+const LOCKUP_VERBS: Record<string, string> = {
+  Any: 'Perform any lockup operation on',
+  CoinLockup: 'Lock up',
+  UpdateCoinLockupYieldCurve: 'Update the yield curve of locked',
+  UpdateCoinLockupTransferRestrictions:
+    'Update transfer restrictions of locked',
+  CoinLockupTransferOperationString: 'Transfer locked',
+  CoinLockupUnlock: 'Unlock',
+};
+
+const normalizeCount = (count: number | 'UNLIMITED') =>
+  count === 'UNLIMITED' || count >= UNLIMITED_COUNT ? 'UNLIMITED' : count;
+
+/**
+ * Formats nanos as DESO without trailing zeros, e.g. 500000000 -> "0.5".
+ */
+const formatDeso = (nanos: number) =>
+  (nanos / 1e9).toFixed(9).replace(/\.?0+$/, '');
+
+const formatDesoAmount = (nanos: number | 'UNLIMITED' = 0) =>
+  nanos === 'UNLIMITED' ? 'unlimited DESO' : `up to ${formatDeso(nanos)} DESO`;
+
+const parseHexNanos = (hex: string | 'UNLIMITED') =>
+  hex === 'UNLIMITED'
+    ? hex
+    : Number(BigInt(hex.startsWith('0x') ? hex : `0x${hex}`));
+
+const formatProfile = (profile?: SpendingLimitProfile | null) =>
+  profile
+    ? profile.Username
+      ? `@${profile.Username}`
+      : profile.PublicKeyBase58Check
+    : 'any';
+
+const formatTimes = (count?: number | 'UNLIMITED') =>
+  count === 'UNLIMITED' || count === undefined
+    ? ''
+    : count === 1
+    ? ' once'
+    : ` up to ${count} times`;
+
+const formatCoin = (profile?: SpendingLimitProfile | null) =>
+  profile === null
+    ? 'any coin'
+    : profile?.PublicKeyBase58Check === DESO_COIN_KEY
+    ? 'DESO'
+    : formatProfile(profile);
+
+const labelTransactionType = (txnType: string) =>
+  TRANSACTION_TYPE_LABELS[txnType] ?? txnType.toLowerCase().replace(/_/g, ' ');
+
+/**
+ * The default english formatter used by describeSpendingLimits.
+ */
+export const formatSpendingLimitDescription: SpendingLimitFormatter = (d) => {
+  const { count, profile } = d;
+  const op = d.operation ?? '';
+
+  switch (d.kind) {
+    case 'unlimited':
+      return 'Perform any transaction without limits';
+    case 'globalDESOLimit':
+      return `Spend ${formatDesoAmount(d.amountNanos)} in fees`;
+    case 'transactionCount':
+      return count === 'UNLIMITED'
+        ? `Perform unlimited ${labelTransactionType(op)} transactions`
+        : count === 1
+        ? `Perform 1 ${labelTransactionType(op)} transaction`
+        : `Perform up to ${count} ${labelTransactionType(op)} transactions`;
+    case 'creatorCoinOperation':
+    case 'daoCoinOperation': {
+      const verb =
+        (d.kind === 'creatorCoinOperation'
+          ? CREATOR_COIN_VERBS
+          : DAO_COIN_VERBS)[op] ?? op;
+      const coin =
+        d.kind === 'creatorCoinOperation' ? 'creator coins' : 'tokens';
+
+      return count === 'UNLIMITED'
+        ? `${verb} unlimited ${formatProfile(profile)} ${coin}`
+        : `${verb} ${formatProfile(profile)} ${coin}${formatTimes(count)}`;
+    }
+    case 'nftOperation': {
+      const nft = d.NFTPostHashHex
+        ? `NFT ${d.NFTPostHashHex}${
+            d.SerialNumber ? ` #${d.SerialNumber}` : ''
+          }`
+        : 'any NFT';
+      return `${NFT_VERBS[op] ?? op} ${nft}${formatTimes(count)}`;
+    }
+    case 'daoCoinLimitOrder':
+      return `Place limit orders buying ${formatCoin(
+        profile
+      )} with ${formatCoin(d.sellingProfile)}${formatTimes(count)}`;
+    case 'association': {
+      const operation =
+        op === 'Any'
+          ? 'Create or delete'
+          : op === 'Delete'
+          ? 'Delete'
+          : 'Create';
+      const type = d.AssociationType
+        ? `of type ${d.AssociationType}`
+        : 'of any type';
+      const target = d.AssociationClass === 'Post' ? 'post' : 'user';
+      const app = profile ? ` for the app ${formatProfile(profile)}` : '';
+
+      return `${operation} associations ${type} on any ${target}${app}${formatTimes(
+        count
+      )}`;
+    }
+    case 'accessGroup':
+    case 'accessGroupMember': {
+      const group = d.AccessGroupKeyName
+        ? `the access group ${d.AccessGroupKeyName} owned by ${formatProfile(
+            profile
+          )}`
+        : 'any access group';
+      const operation = op === 'Any' ? 'Manage' : op;
+
+      return d.kind === 'accessGroup'
+        ? `${operation} ${group}${formatTimes(count)}`
+        : `${operation} members of ${group}${formatTimes(count)}`;
+    }
+    case 'stake':
+    case 'unstake':
+      return `${d.kind === 'stake' ? 'Stake' : 'Unstake'} ${formatDesoAmount(
+        d.amountNanos
+      )} with ${profile ? formatProfile(profile) : 'any validator'}`;
+    case 'unlockStake':
+      return `Unlock stake from ${
+        profile ? formatProfile(profile) : 'any validator'
+      }${formatTimes(count)}`;
+    case 'lockup':
+      return `${LOCKUP_VERBS[op] ?? op} ${formatProfile(
+        profile
+      )} tokens${formatTimes(count)}`;
+  }
+};
+
+/**
+ * Collects the descriptions of a spending limit with the public keys it
+ * references as placeholder profiles.
+ */
+const collectDescriptions = (
+  limits:
+    | TransactionSpendingLimitResponse
+    | TransactionSpendingLimitResponseOptions
+) => {
+  const descriptions: Omit<SpendingLimitDescription, 'text'>[] = [];
+  const toProfile = (publicKey?: string) =>
+    publicKey ? { PublicKeyBase58Check: publicKey } : null;
+
+  if (limits.IsUnlimited) {
+    return [{ kind: 'unlimited' as const }];
+  }
+
+  if (limits.GlobalDESOLimit) {
+    descriptions.push({
+      kind: 'globalDESOLimit',
+      amountNanos: Number(limits.GlobalDESOLimit),
+    });
+  }
+
+  Object.entries(limits.TransactionCountLimitMap ?? {}).forEach(
+    ([operation, count]) => {
+      descriptions.push({
+        kind: 'transactionCount',
+        operation,
+        count: normalizeCount(count),
+      });
+    }
+  );
+
+  (
+    [
+      ['creatorCoinOperation', limits.CreatorCoinOperationLimitMap],
+      ['daoCoinOperation', limits.DAOCoinOperationLimitMap],
+    ] as const
+  ).forEach(([kind, map]) => {
+    Object.entries(map ?? {}).forEach(([publicKey, operations]) => {
+      Object.entries(operations).forEach(([operation, count]) => {
+        descriptions.push({
+          kind,
+          operation,
+          count: normalizeCount(count),
+          profile: toProfile(publicKey),
+        });
+      });
+    });
+  });
+
+  Object.entries(limits.NFTOperationLimitMap ?? {}).forEach(
+    ([postHashHex, serials]) => {
+      Object.entries(serials).forEach(([serialNumber, operations]) => {
+        Object.entries(
+          operations as Record<string, number | 'UNLIMITED'>
+        ).forEach(([operation, count]) => {
+          descriptions.push({
+            kind: 'nftOperation',
+            operation,
+            count: normalizeCount(count),
+            NFTPostHashHex: postHashHex || null,
+            SerialNumber: Number(serialNumber) || null,
+          });
+        });
+      });
+    }
+  );
+
+  Object.entries(limits.DAOCoinLimitOrderLimitMap ?? {}).forEach(
+    ([buyingPublicKey, selling]) => {
+      Object.entries(selling).forEach(([sellingPublicKey, count]) => {
+        descriptions.push({
+          kind: 'daoCoinLimitOrder',
+          count: normalizeCount(count),
+          profile: toProfile(buyingPublicKey),
+          sellingProfile: toProfile(sellingPublicKey),
+        });
+      });
+    }
+  );
+
+  (limits.AssociationLimitMap ?? []).forEach((item) => {
+    descriptions.push({
+      kind: 'association',
+      operation: item.AssociationOperation,
+      count: normalizeCount(item.OpCount),
+      profile:
+        item.AppScopeType === 'Scoped'
+          ? toProfile(item.AppPublicKeyBase58Check)
+          : null,
+      AssociationClass: item.AssociationClass,
+      AssociationType: item.AssociationType || null,
+    });
+  });
+
+  (
+    [
+      ['accessGroup', limits.AccessGroupLimitMap ?? []],
+      ['accessGroupMember', limits.AccessGroupMemberLimitMap ?? []],
+    ] as const
+  ).forEach(([kind, items]) => {
+    items.forEach((item) => {
+      const isScoped = item.ScopeType === 'Scoped';
+      descriptions.push({
+        kind,
+        operation: item.OperationType,
+        count: normalizeCount(item.OpCount),
+        profile: isScoped
+          ? toProfile(item.AccessGroupOwnerPublicKeyBase58Check)
+          : null,
+        AccessGroupKeyName: isScoped ? item.AccessGroupKeyName : null,
+      });
+    });
+  });
+
+  (limits.StakeLimitMap ?? []).forEach((item) => {
+    descriptions.push({
+      kind: 'stake',
+      amountNanos: parseHexNanos(item.StakeLimit),
+      profile: toProfile(item.ValidatorPublicKeyBase58Check),
+    });
+  });
+
+  (limits.UnstakeLimitMap ?? []).forEach((item) => {
+    descriptions.push({
+      kind: 'unstake',
+      amountNanos: parseHexNanos(item.UnstakeLimit),
+      profile: toProfile(item.ValidatorPublicKeyBase58Check),
+    });
+  });
+
+  (limits.UnlockStakeLimitMap ?? []).forEach((item) => {
+    descriptions.push({
+      kind: 'unlockStake',
+      count: normalizeCount(item.OpCount),
+      profile: toProfile(item.ValidatorPublicKeyBase58Check),
+    });
+  });
+
+  (limits.LockupLimitMap ?? []).forEach((item) => {
+    descriptions.push({
+      kind: 'lockup',
+      operation: item.Operation,
+      count: normalizeCount(item.OpCount),
+      profile:
+        item.ScopeType === 'ScopedCoins'
+          ? toProfile(item.ProfilePublicKeyBase58Check)
+          : null,
+    });
+  });
+
+  return descriptions;
+};
+
+/**
+ * Turns a spending limit into a list of descriptions that can be shown to a
+ * user before approving a derived key, or when auditing existing ones. The
+ * public keys it references are resolved to usernames with a single
+ * getUsersStateless request.
+ *
+ * @example
+ * ```ts
+ * const descriptions = await describeSpendingLimits({
+ *   GlobalDESOLimit: 0.5 * 1e9,
+ *   DAOCoinOperationLimitMap: {
+ *     [alicePublicKey]: { transfer: 'UNLIMITED' },
+ *   },
+ * });
+ *
+ * descriptions.map(({ text }) => text);
+ * // ['Spend up to 0.5 DESO in fees', 'Transfer unlimited @alice tokens']
+ * ```
+ */
+export const describeSpendingLimits = async (
+  limits:
+    | TransactionSpendingLimitResponse
+    | TransactionSpendingLimitResponseOptions,
+  {
+    format = formatSpendingLimitDescription,
+    resolveProfiles = true,
+    ...options
+  }: DescribeSpendingLimitsOptions = {}
+): Promise<SpendingLimitDescription[]> => {
+  const descriptions = collectDescriptions(limits);
+  const publicKeys = new Set<string>();
+
+  descriptions.forEach(({ profile, sellingProfile }) => {
+    [profile, sellingProfile].forEach((p) => {
+      if (p && p.PublicKeyBase58Check !== DESO_COIN_KEY) {
+        publicKeys.add(p.PublicKeyBase58Check);
+      }
+    });
+  });
+
+  const usernames = new Map<string, string>();
+
+  if (resolveProfiles && publicKeys.size) {
+    const { UserList } = await getUsersStateless(
+      { PublicKeysBase58Check: [...publicKeys], SkipForLeaderboard: true },
+      options
+    );
+
+    (UserList ?? []).forEach(
+      ({ PublicKeyBase58Check, ProfileEntryResponse }) => {
+        if (ProfileEntryResponse?.Username) {
+          usernames.set(PublicKeyBase58Check, ProfileEntryResponse.Username);
+        }
+      }
+    );
+  }
+
+  const resolve = (profile?: SpendingLimitProfile | null) =>
+    profile && usernames.has(profile.PublicKeyBase58Check)
+      ? { ...profile, Username: usernames.get(profile.PublicKeyBase58Check) }
+      : profile;
+
+  return descriptions.map((description) => {
+    const resolved = { ...description };
+
+    if (description.profile !== undefined) {
+      resolved.profile = resolve(description.profile);
+    }
+    if (description.sellingProfile !== undefined) {
+      resolved.sellingProfile = resolve(description.sellingProfile);
+    }
+
+    return { ...resolved, text: format(resolved) };
+  });
+};
@@ -0,0 +1,168 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import {
+  bs58PublicKeyToCompressedBytes,
+  keygen,
+  publicKeyToBase58Check,
+  sha256X2,
+  signTx,
+} from './crypto-utils.js';
+import { decodeTransaction } from './transaction-decoder.js';
+import {
+  InnerTransaction,
+  Transaction,
+  TransactionExtraData,
+  TransactionExtraDataKV,
+  TransactionMetadataAtomicTxnWrapper,
+  TransactionMetadataBasicTransfer,
+  TransactionMetadataSubmitPost,
+  TransactionMetadataTransferDAOCoin,
+  TransactionNonce,
+  TransactionOutput,
+} from './transaction-transcoders.js';
+import { encodeUTF8ToBytes } from './transcoder-utils.js';
+
+const PUBLIC_KEY = 'BC1YLiot3hqKeKhK82soKAeK3BFdTnMjpd2w4HPfesaFzYHUpUzJ2ay';
+const RECIPIENT = 'BC1YLgWMZWj8TVmDB9eJ7ZtWYYZHBDUUsz5ENmbseF3pF7CmopfXhb7';
+
+function buildTransaction(attributes: { [k: string]: any } = {}) {
+  const nonce = new TransactionNonce();
+  nonce.expirationBlockHeight = 10000;
+  nonce.partialId = 10988297;
+  const extraData = new TransactionExtraData();
+  extraData.kvs = [
+    new TransactionExtraDataKV(
+      encodeUTF8ToBytes('DerivedPublicKey'),
+      bs58PublicKeyToCompressedBytes(RECIPIENT)
+    ),
+    new TransactionExtraDataKV(
+      encodeUTF8ToBytes('Language'),
+      encodeUTF8ToBytes('en')
+    ),
+  ];
+  const metadata = new TransactionMetadataSubmitPost();
+  metadata.body = encodeUTF8ToBytes(JSON.stringify({ Body: 'hello' }));
+  metadata.timestampNanos = 1000;
+
+  return new Transaction({
+    inputs: [],
+    outputs: [],
+    version: 1,
+    feeNanos: 168,
+    nonce,
+    publicKey: bs58PublicKeyToCompressedBytes(PUBLIC_KEY),
+    metadata,
+    signature: new Uint8Array(0),
+    extraData,
+    ...attributes,
+  });
+}
+
+describe('decodeTransaction', () => {
+  it('decodes the common transaction fields', () => {
+    const output = new TransactionOutput();
+    output.publicKey = bs58PublicKeyToCompressedBytes(RECIPIENT);
+    output.amountNanos = 5000;
+    const txBytes = buildTransaction({ outputs: [output] }).toBytes();
+
+    const decoded = decodeTransaction(bytesToHex(txBytes));
+
+    expect(decoded.txnHashHex).toEqual(bytesToHex(sha256X2(txBytes)));
+    expect(decoded.txnTypeString).toEqual('SUBMIT_POST');
+    expect(decoded.publicKeyBase58Check).toEqual(PUBLIC_KEY);
+    expect(decoded.outputs).toEqual([
+      { publicKeyBase58Check: RECIPIENT, amountNanos: 5000 },
+    ]);
+    expect(decoded.feeNanos).toEqual(168);
+    expect(decoded.nonce).toEqual({
+      expirationBlockHeight: 10000,
+      partialId: 10988297,
+    });
+    expect(decoded.extraData).toEqual({
+      DerivedPublicKey: RECIPIENT,
+      Language: 'en',
+    });
+    expect(decoded.signature).toBeNull();
+  });
+
+  it('decodes metadata into human readable values', () => {
+    const metadata = new TransactionMetadataTransferDAOCoin();
+    metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(PUBLIC_KEY);
+    metadata.receiverPublicKey = bs58PublicKeyToCompressedBytes(RECIPIENT);
+    metadata.daoCoinToTransferNanos = Uint8Array.from([0x01, 0x00]);
+
+    const decodedPost = decodeTransaction(
+      bytesToHex(buildTransaction().toBytes())
+    );
+    const decodedTransfer = decodeTransaction(
+      bytesToHex(buildTransaction({ metadata }).toBytes())
+    );
+
+    expect(decodedPost.metadata?.txnType).toEqual(5);
+    expect(decodedPost.metadata?.data).toEqual({
+      postHashToModify: '',
+      parentStakeId: '',
+      body: JSON.stringify({ Body: 'hello' }),
+      creatorBasisPoints: 0,
+      stakeMultipleBasisPoints: 0,
+      timestampNanos: 1000,
+      isHidden: false,
+    });
+    expect(decodedTransfer.metadata?.data).toEqual({
+      profilePublicKey: PUBLIC_KEY,
+      daoCoinToTransferNanos: '0x0100',
+      receiverPublicKey: RECIPIENT,
+    });
+  });
+
+  it('parses derived key signatures', async () => {
+    const { seedHex } = keygen();
+    const signedTxHex = await signTx(
+      bytesToHex(buildTransaction().toBytes()),
+      seedHex,
+      { isDerivedKey: true }
+    );
+
+    const { signature } = decodeTransaction(signedTxHex);
+
+    expect(signature?.isDerivedKeySignature).toBe(true);
+    expect(signature?.recoveryParam).toBeGreaterThanOrEqual(0);
+    expect(signature?.rHex).toHaveLength(64);
+    expect(signature?.sHex).toHaveLength(64);
+  });
+
+  it('recursively decodes atomic transactions', () => {
+    const innerTxn = buildTransaction({
+      metadata: new TransactionMetadataBasicTransfer(),
+    });
+    const inner = new InnerTransaction();
+    Object.assign(inner, innerTxn, {
+      length: innerTxn.toBytes().length,
+    });
+    const wrapper = new TransactionMetadataAtomicTxnWrapper();
+    wrapper.metadata = [inner];
+    const { public: publicKey } = keygen();
+
+    const decoded = decodeTransaction(
+      bytesToHex(
+        buildTransaction({
+          metadata: wrapper,
+          publicKey,
+          extraData: new TransactionExtraData(),
+        }).toBytes()
+      )
+    );
+
+    expect(decoded.publicKeyBase58Check).toEqual(
+      publicKeyToBase58Check(publicKey)
+    );
+    expect(decoded.metadata?.txnTypeString).toEqual('ATOMIC_TXNS_WRAPPER');
+    if (decoded.metadata?.txnType !== 44) {
+      throw new Error('expected an atomic transaction');
+    }
+    const [decodedInner] = decoded.metadata.data.innerTransactions;
+    expect(decodedInner.txnTypeString).toEqual('BASIC_TRANSFER');
+    expect(decodedInner.txnHashHex).toEqual(
+      bytesToHex(sha256X2(innerTxn.toBytes()))
+    );
+  });
+});
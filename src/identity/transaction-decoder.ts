@@ -0,0 +1,338 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { Numeric } from './bigint-utils.js';
+import { publicKeyToBase58Check, sha256X2 } from './crypto-utils.js';
+import {
+  InnerTransaction,
+  Transaction,
+  TransactionExtraData,
+  TransactionMetadataAtomicTxnWrapper,
+  TransactionMetadataRecord,
+  TransactionTypeMetadataMap,
+  TransactionTypeToStringMap,
+} from './transaction-transcoders.js';
+import { BinaryRecord, TranscoderMetadata } from './transcoders.js';
+import { Network } from './types.js';
+
+/**
+ * Maps a transcoder field type to its human readable representation. Byte
+ * arrays become strings (base58 public keys, utf8 text, hex) and nested
+ * records are decoded recursively.
+ */
+export type DecodedValue<V> = V extends Uint8Array
+  ? string
+  : V extends (infer U)[]
+  ? DecodedValue<U>[]
+  : V extends BinaryRecord
+  ? DecodedRecord<V>
+  : V;
+
+export type DecodedRecord<T> = {
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  [K in keyof T as T[K] extends Function ? never : K]: DecodedValue<T[K]>;
+};
+
+type TransactionTypeMetadataMapType = typeof TransactionTypeMetadataMap;
+
+export interface DecodedAtomicTxnWrapper {
+  innerTransactions: DecodedTransaction[];
+}
+
+/**
+ * A discriminated union over every entry in TransactionTypeMetadataMap. Narrow
+ * on txnType to get the decoded fields of a specific metadata record.
+ */
+export type DecodedTransactionMetadata = {
+  [K in keyof TransactionTypeMetadataMapType]: {
+    txnType: K;
+    txnTypeString: string;
+    data: K extends 44
+      ? DecodedAtomicTxnWrapper
+      : DecodedRecord<InstanceType<TransactionTypeMetadataMapType[K]>>;
+  };
+}[keyof TransactionTypeMetadataMapType];
+
+export interface DecodedSignature {
+  derHex: string;
+  rHex: string;
+  sHex: string;
+  /**
+   * Derived key signatures encode the recovery param in the first byte of the
+   * DER signature so the backend can recover the signing key.
+   */
+  isDerivedKeySignature: boolean;
+  recoveryParam: number | null;
+}
+
+export interface DecodedTransaction {
+  txnHashHex: string;
+  txnType: number;
+  txnTypeString: string;
+  version: number | null;
+  publicKeyBase58Check: string;
+  inputs: { txIdHex: string; index: number }[];
+  outputs: { publicKeyBase58Check: string; amountNanos: Numeric }[];
+  metadata: DecodedTransactionMetadata | null;
+  extraData: { [k: string]: string };
+  feeNanos: number | null;
+  nonce: { expirationBlockHeight: number; partialId: Numeric } | null;
+  signature: DecodedSignature | null;
+}
+
+export interface DecodeTransactionOptions {
+  network?: Network;
+}
+
+// Metadata fields that hold uint256 values. The backend represents these as
+// 0x prefixed hex strings, so we do the same.
+const UINT256_FIELDS = new Set([
+  'coinsToMintNanos',
+  'coinsToBurnNanos',
+  'daoCoinToTransferNanos',
+  'scaledExchangeRateCoinsToSellPerCoinToBuy',
+  'quantityToFillInBaseUnits',
+  'stakeAmountNanos',
+  'unstakeAmountNanos',
+  'lockupAmountBaseUnits',
+  'lockedCoinsToTransferBaseUnits',
+]);
+
+// Metadata fields that hold plain utf8 text.
+const UTF8_FIELDS = new Set([
+  'body',
+  'newUsername',
+  'newDescription',
+  'newProfilePic',
+  'associationType',
+  'associationValue',
+  'messagingGroupKeyName',
+  'groupMemberKeyName',
+  'accessGroupKeyName',
+  'accessGroupMemberKeyName',
+  'senderAccessGroupKeyName',
+  'recipientAccessGroupKeyname',
+  'domains',
+]);
+
+// ExtraData values that are raw public key bytes rather than utf8 text.
+const PUBLIC_KEY_EXTRA_DATA_KEYS = new Set(['DerivedPublicKey']);
+
+const isPublicKeyField = (name: string) => /(PublicKey|PKID)$/.test(name);
+
+const decodeUTF8OrHex = (bytes: Uint8Array): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch (e) {
+    return bytesToHex(bytes);
+  }
+};
+
+const decodeBytes = (
+  name: string,
+  bytes: Uint8Array,
+  options: Required<DecodeTransactionOptions>
+): string => {
+  if (UINT256_FIELDS.has(name)) {
+    return `0x${bytes.length ? bytesToHex(bytes) : '0'}`;
+  }
+  if (UTF8_FIELDS.has(name)) {
+    return decodeUTF8OrHex(bytes);
+  }
+  if (isPublicKeyField(name) && bytes.length === 33) {
+    return publicKeyToBase58Check(bytes, options);
+  }
+  return bytesToHex(bytes);
+};
+
+const decodeFieldValue = (
+  name: string,
+  value: unknown,
+  options: Required<DecodeTransactionOptions>
+): unknown => {
+  if (value instanceof Uint8Array) {
+    return decodeBytes(name, value, options);
+  }
+  if (Array.isArray(value)) {
+    return value.map((v) => decodeFieldValue(name, v, options));
+  }
+  if (value instanceof TransactionExtraData) {
+    return decodeExtraData(value, options);
+  }
+  if (value instanceof BinaryRecord) {
+    return decodeRecord(value, options);
+  }
+  return value;
+};
+
+const decodeRecord = <T extends BinaryRecord>(
+  record: T,
+  options: Required<DecodeTransactionOptions>
+): DecodedRecord<T> => {
+  const transcoders: TranscoderMetadata[] =
+    Reflect.getMetadata('transcoders', record) || [];
+
+  return transcoders.reduce((decoded, { name }) => {
+    decoded[name] = decodeFieldValue(name, (record as any)[name], options);
+    return decoded;
+  }, {} as { [k: string]: unknown }) as DecodedRecord<T>;
+};
+
+const decodeExtraData = (
+  extraData: TransactionExtraData | null,
+  options: Required<DecodeTransactionOptions>
+): { [k: string]: string } => {
+  return (extraData?.kvs || []).reduce((extraDataMap, kv) => {
+    const key = decodeUTF8OrHex(kv.key);
+    extraDataMap[key] =
+      PUBLIC_KEY_EXTRA_DATA_KEYS.has(key) && kv.value.length === 33
+        ? publicKeyToBase58Check(kv.value, options)
+        : decodeUTF8OrHex(kv.value);
+    return extraDataMap;
+  }, {} as { [k: string]: string });
+};
+
+// DER integers are minimally encoded with a sign byte, so we normalize them back
+// to 32 byte big endian values.
+const derIntegerToHex = (int: Uint8Array): string => {
+  const padded = new Uint8Array(32);
+  const value = int.slice(Math.max(int.length - 32, 0));
+  padded.set(value, 32 - value.length);
+  return bytesToHex(padded);
+};
+
+/**
+ * Parses a DER encoded signature as produced by signTx. Returns null for
+ * unsigned transactions.
+ */
+export const decodeSignature = (
+  signature: Uint8Array | null
+): DecodedSignature | null => {
+  if (!signature?.length) {
+    return null;
+  }
+
+  // A standard DER signature starts with 0x30. signTx adds 1 + recoveryParam
+  // to this byte when signing with a derived key.
+  const isDerivedKeySignature = signature[0] > 0x30 && signature[0] <= 0x34;
+  let offset = 3;
+  const rLength = signature[offset];
+  offset += 1;
+  const r = signature.slice(offset, offset + rLength);
+  offset += rLength + 1;
+  const sLength = signature[offset];
+  offset += 1;
+  const s = signature.slice(offset, offset + sLength);
+
+  return {
+    derHex: bytesToHex(signature),
+    rHex: derIntegerToHex(r),
+    sHex: derIntegerToHex(s),
+    isDerivedKeySignature,
+    recoveryParam: isDerivedKeySignature ? signature[0] - 0x31 : null,
+  };
+};
+
+const decodeMetadata = (
+  metadata: TransactionMetadataRecord | null,
+  txnType: number,
+  options: Required<DecodeTransactionOptions>
+): DecodedTransactionMetadata | null => {
+  if (metadata === null) {
+    return null;
+  }
+
+  const data =
+    metadata instanceof TransactionMetadataAtomicTxnWrapper
+      ? {
+          innerTransactions: metadata.metadata.map((inner) =>
+            decodeInnerTransaction(inner, options)
+          ),
+        }
+      : decodeRecord(metadata, options);
+
+  return {
+    txnType,
+    txnTypeString: TransactionTypeToStringMap[txnType],
+    data,
+  } as DecodedTransactionMetadata;
+};
+
+const decodeInnerTransaction = (
+  inner: InnerTransaction,
+  options: Required<DecodeTransactionOptions>
+): DecodedTransaction => {
+  // Inner transactions are the same as a regular transaction, just with a
+  // length prefix. Re-wrapping them gives us the correct bytes for the hash.
+  const txn = new Transaction({
+    inputs: inner.inputs,
+    outputs: inner.outputs,
+    metadata: inner.metadata,
+    publicKey: inner.publicKey,
+    extraData: inner.extraData,
+    signature: inner.signature,
+    version: inner.version,
+    feeNanos: inner.feeNanos,
+    nonce: inner.nonce,
+  });
+
+  return decodeTransactionRecord(txn, options);
+};
+
+const decodeTransactionRecord = (
+  txn: Transaction,
+  options: Required<DecodeTransactionOptions>
+): DecodedTransaction => {
+  const txnType = txn.getTxnType();
+
+  return {
+    txnHashHex: bytesToHex(sha256X2(txn.toBytes())),
+    txnType,
+    txnTypeString: txn.getTxnTypeString(),
+    version: txn.version,
+    publicKeyBase58Check: publicKeyToBase58Check(txn.publicKey, options),
+    inputs: txn.inputs.map((input) => ({
+      txIdHex: bytesToHex(input.id),
+      index: input.index,
+    })),
+    outputs: txn.outputs.map((output) => ({
+      publicKeyBase58Check: publicKeyToBase58Check(output.publicKey, options),
+      amountNanos: output.amountNanos,
+    })),
+    metadata: decodeMetadata(txn.metadata, txnType, options),
+    extraData: decodeExtraData(txn.extraData, options),
+    feeNanos: txn.feeNanos,
+    nonce: txn.nonce
+      ? {
+          expirationBlockHeight: txn.nonce.expirationBlockHeight,
+          partialId: txn.nonce.partialId,
+        }
+      : null,
+    signature: decodeSignature(txn.signature),
+  };
+};
+
+/**
+ * Decodes a transaction hex string into a human readable structure without
+ * making any network requests. Public keys are base58check encoded for the
+ * given network (mainnet by default), and atomic transactions have their
+ * inner transactions decoded recursively.
+ * @example
+ * ```ts
+ * const { txnHashHex, metadata } = decodeTransaction(TransactionHex);
+ * if (metadata?.txnType === 5) {
+ *   console.log(metadata.data.body);
+ * }
+ * ```
+ */
+export const decodeTransaction = (
+  txnHex: string,
+  options?: DecodeTransactionOptions
+): DecodedTransaction => {
+  const [txn] = Transaction.fromBytes(hexToBytes(txnHex)) as [
+    Transaction,
+    Uint8Array
+  ];
+
+  return decodeTransactionRecord(txn, {
+    network: options?.network ?? 'mainnet',
+  });
+};
@@ -4,6 +4,7 @@ import {
   MsgDeSoTxn,
   TransactionType,
 } from '../backend-types/index.js';
+import { Numeric } from './bigint-utils.js';
 import { bufToUvarint64, publicKeyToBase58Check } from './crypto-utils.js';
 import { decodeBytesToUTF8 } from './transcoder-utils.js';
 import {
@@ -16,6 +17,8 @@ import {
   Optional,
   Record,
   TransactionNonceTranscoder,
+  NumericUvarint64,
+  NumericVarint64,
   Transcode,
   Uint8,
   Uvarint64,
@@ -23,7 +26,6 @@ import {
   instanceToType,
   VarBufferArray,
   BoolOptional,
-  Varint64,
 } from './transcoders.js';
 export class TransactionInput extends BinaryRecord {
   @Transcode(FixedBuffer(32))
@@ -37,16 +39,16 @@ export class TransactionOutput extends BinaryRecord {
   @Transcode(FixedBuffer(33))
   publicKey: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Uvarint64)
-  amountNanos = 0;
+  @Transcode(NumericUvarint64)
+  amountNanos: Numeric = 0;
 }
 
 export class TransactionNonce extends BinaryRecord {
   @Transcode(Uvarint64)
   expirationBlockHeight = 0;
 
-  @Transcode(Uvarint64)
-  partialId = 0;
+  @Transcode(NumericUvarint64)
+  partialId: Numeric = 0;
 }
 
 export class TransactionExtraDataKV extends BinaryRecord {
@@ -97,8 +99,8 @@ export class TransactionMetadataPrivateMessage extends TransactionMetadataRecord
   @Transcode(VarBuffer)
   encryptedText: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Uvarint64)
-  timestampNanos = 0;
+  @Transcode(NumericUvarint64)
+  timestampNanos: Numeric = 0;
 }
 
 export class TransactionMetadataSubmitPost extends TransactionMetadataRecord {
@@ -117,8 +119,8 @@ export class TransactionMetadataSubmitPost extends TransactionMetadataRecord {
   @Transcode(Uvarint64)
   stakeMultipleBasisPoints = 0;
 
-  @Transcode(Uvarint64)
-  timestampNanos = 0;
+  @Transcode(NumericUvarint64)
+  timestampNanos: Numeric = 0;
 
   @Transcode(Boolean)
   isHidden = false;
@@ -175,20 +177,20 @@ export class TransactionMetadataCreatorCoin extends TransactionMetadataRecord {
   @Transcode(Uint8)
   operationType = 0;
 
-  @Transcode(Uvarint64)
-  desoToSellNanos = 0;
+  @Transcode(NumericUvarint64)
+  desoToSellNanos: Numeric = 0;
 
-  @Transcode(Uvarint64)
-  creatorCoinToSellNanos = 0;
+  @Transcode(NumericUvarint64)
+  creatorCoinToSellNanos: Numeric = 0;
 
-  @Transcode(Uvarint64)
-  desoToAddNanos = 0;
+  @Transcode(NumericUvarint64)
+  desoToAddNanos: Numeric = 0;
 
-  @Transcode(Uvarint64)
-  minDeSoExpectedNanos = 0;
+  @Transcode(NumericUvarint64)
+  minDeSoExpectedNanos: Numeric = 0;
 
-  @Transcode(Uvarint64)
-  minCreatorCoinExpectedNanos = 0;
+  @Transcode(NumericUvarint64)
+  minCreatorCoinExpectedNanos: Numeric = 0;
 }
 
 export class TransactionMetadataSwapIdentity extends TransactionMetadataRecord {
@@ -205,8 +207,8 @@ export class TransactionMetadataCreatorCoinTransfer extends TransactionMetadataR
   @Transcode(VarBuffer)
   profilePublicKey: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Uvarint64)
-  creatorCoinToTransferNanos = 0;
+  @Transcode(NumericUvarint64)
+  creatorCoinToTransferNanos: Numeric = 0;
 
   @Transcode(VarBuffer)
   receiverPublicKey: Uint8Array = new Uint8Array(0);
@@ -225,8 +227,8 @@ export class TransactionMetadataCreateNFT extends TransactionMetadataRecord {
   @Transcode(Boolean)
   isForSale = false;
 
-  @Transcode(Uvarint64)
-  minBidAmountNanos = 0;
+  @Transcode(NumericUvarint64)
+  minBidAmountNanos: Numeric = 0;
 
   @Transcode(Uvarint64)
   nftRoyaltyToCreatorBasisPoints = 0;
@@ -245,8 +247,8 @@ export class TransactionMetadataUpdateNFT extends TransactionMetadataRecord {
   @Transcode(Boolean)
   isForSale = false;
 
-  @Transcode(Uvarint64)
-  minBidAmountNanos = 0;
+  @Transcode(NumericUvarint64)
+  minBidAmountNanos: Numeric = 0;
 }
 
 export class TransactionMetadataAcceptNFTBid extends TransactionMetadataRecord {
@@ -259,8 +261,8 @@ export class TransactionMetadataAcceptNFTBid extends TransactionMetadataRecord {
   @Transcode(VarBuffer)
   bidderPKID: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Uvarint64)
-  bidAmountNanos = 0;
+  @Transcode(NumericUvarint64)
+  bidAmountNanos: Numeric = 0;
 
   @Transcode(VarBuffer)
   encryptedUnlockableText: Uint8Array = new Uint8Array(0);
@@ -276,8 +278,8 @@ export class TransactionMetadataNFTBid extends TransactionMetadataRecord {
   @Transcode(Uvarint64)
   serialNumber = 0;
 
-  @Transcode(Uvarint64)
-  bidAmountNanos = 0;
+  @Transcode(NumericUvarint64)
+  bidAmountNanos: Numeric = 0;
 }
 
 export class TransactionMetadataNFTTransfer extends TransactionMetadataRecord {
@@ -437,8 +439,8 @@ export class TransactionDAOCoinLimitOrderLimitMapItem extends BinaryRecord {
 }
 
 export class TransactionSpendingLimitRecord extends BinaryRecord {
-  @Transcode(Uvarint64)
-  globalDESOLimit = 0;
+  @Transcode(NumericUvarint64)
+  globalDESOLimit: Numeric = 0;
 
   @Transcode(ArrayOf(TransactionCountLimitMapItem))
   txnCountLimitMap: TransactionCountLimitMapItem[] = [];
@@ -595,8 +597,8 @@ export class TransactionMetadataNewMessage extends BinaryRecord {
   @Transcode(VarBuffer)
   encryptedText: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Uvarint64)
-  timestampNanos = 0;
+  @Transcode(NumericUvarint64)
+  timestampNanos: Numeric = 0;
 
   @Transcode(Uint8)
   newMessageType = 0;
@@ -673,11 +675,11 @@ export class TransactionMetadataCoinLockup extends BinaryRecord {
   @Transcode(VarBuffer)
   recipientPublicKey: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Varint64)
-  unlockTimestampNanoSecs = 0;
+  @Transcode(NumericVarint64)
+  unlockTimestampNanoSecs: Numeric = 0;
 
-  @Transcode(Varint64)
-  vestingEndTimestampNanoSecs = 0;
+  @Transcode(NumericVarint64)
+  vestingEndTimestampNanoSecs: Numeric = 0;
 
   // TODO: We may want a better way to handle uint256s.
   @Transcode(BoolOptional(VarBuffer))
@@ -685,8 +687,8 @@ export class TransactionMetadataCoinLockup extends BinaryRecord {
 }
 
 export class TransactionMetadataUpdateCoinLockupParams extends BinaryRecord {
-  @Transcode(Varint64)
-  lockupYieldDurationNanoSecs = 0;
+  @Transcode(NumericVarint64)
+  lockupYieldDurationNanoSecs: Numeric = 0;
 
   @Transcode(Uvarint64)
   lockupYieldAPYBasisPoints = 0;
@@ -708,8 +710,8 @@ export class TransactionMetadataCoinLockupTransfer extends BinaryRecord {
   @Transcode(VarBuffer)
   profilePublicKey: Uint8Array = new Uint8Array(0);
 
-  @Transcode(Varint64)
-  unlockTimestampNanoSecs = 0;
+  @Transcode(NumericVarint64)
+  unlockTimestampNanoSecs: Numeric = 0;
 
   // TODO: We may want a better way to handle uint256s.
   @Transcode(BoolOptional(VarBuffer))
@@ -1,7 +1,10 @@
 import 'reflect-metadata';
+import { Numeric, toNumeric } from './bigint-utils.js';
 import {
   bufToUvarint64,
+  bufToUvarint64BigInt,
   bufToVarint64,
+  bufToVarint64BigInt,
   concatUint8Arrays,
   uvarint64ToBuf,
   varint64ToBuf,
@@ -76,6 +79,32 @@ export const Varint64: Transcoder<number> = {
   write: (int) => varint64ToBuf(int),
 };
 
+/**
+ * Uvarint64 for amounts and other values that can exceed
+ * Number.MAX_SAFE_INTEGER. Reads bigints in bigint mode and numbers
+ * otherwise. Writes either.
+ */
+export const NumericUvarint64: Transcoder<Numeric> = {
+  read: (bytes) => {
+    const [value, rest] = bufToUvarint64BigInt(bytes);
+    return [toNumeric(value), rest];
+  },
+  write: (uint) => uvarint64ToBuf(uint),
+};
+
+/**
+ * Varint64 for amounts and timestamps that can exceed
+ * Number.MAX_SAFE_INTEGER, like nanosecond timestamps. Reads bigints in bigint
+ * mode and numbers otherwise. Writes either.
+ */
+export const NumericVarint64: Transcoder<Numeric> = {
+  read: (bytes) => {
+    const [value, rest] = bufToVarint64BigInt(bytes);
+    return [toNumeric(value), rest];
+  },
+  write: (int) => varint64ToBuf(int),
+};
+
 export const Boolean: Transcoder<boolean> = {
   read: (bytes) => [bytes.at(0) != 0, bytes.slice(1)],
   write: (bool) => {
@@ -2,6 +2,7 @@ import {
   AccessGroupLimitMapItem,
   AccessGroupMemberLimitMapItem,
   AssociationLimitMapItem,
+  DecryptedMessageEntryResponse,
   LockupLimitMapItem,
   StakeLimitMapItem,
   TransactionSpendingLimitResponse,
@@ -9,6 +10,7 @@ import {
   UnlockStakeLimitMapItem,
   UnstakeLimitMapItem,
 } from '../backend-types/index.js';
+import type { MessageEnvelope } from './message-envelope.js';
 export type Network = 'mainnet' | 'testnet';
 
 export interface IdentityResponse {
@@ -366,3 +368,75 @@ export interface AsyncStorage {
 }
 
 export type StorageProvider = Storage | AsyncStorage;
+
+/**
+ * A storage provider that can be locked, e.g. because it encrypts what it
+ * stores. Identity won't read from it while it is locked.
+ */
+export interface LockableStorage extends AsyncStorage {
+  isLocked: () => boolean;
+}
+
+/**
+ * A signer holds the keys used to sign transactions, jwts and to encrypt or
+ * decrypt messages on behalf of a user. The identity instance provides a
+ * signer backed by the logged in user's derived key (see `identity.signer()`),
+ * and `createSeedSigner` provides one backed by a raw seed hex. Implement this
+ * interface to keep keys in a separate process, an HSM, a keystore file, etc.
+ */
+export interface Signer {
+  /**
+   * The public key of the account this signer acts on behalf of. For derived
+   * keys this is the owner public key, not the derived public key.
+   */
+  getPublicKey(): Promise<string>;
+  /**
+   * The public key of the derived key used for signing, if any. This is
+   * included in jwts so the backend can validate them.
+   */
+  getDerivedPublicKey?(): Promise<string | undefined>;
+  /**
+   * Signs a transaction and returns the signed transaction hex.
+   */
+  signTransaction(transactionHex: string): Promise<string>;
+  /**
+   * Signs the sha256 hash of a message and returns the DER encoded signature.
+   */
+  signMessage(message: Uint8Array): Promise<Uint8Array>;
+  /**
+   * Encrypts a message for the recipient using the shared secret between the
+   * signer's messaging key and the recipient public key.
+   */
+  encrypt(
+    recipientPublicKeyBase58Check: string,
+    plaintext: string
+  ): Promise<string>;
+  /**
+   * Decrypts cipher text with the signer's messaging key. If a public
+   * decryption key is provided, the shared secret between the messaging key and
+   * that public key is used, otherwise the messaging key is used directly.
+   */
+  decrypt(
+    cipherTextHex: string,
+    publicDecryptionKeyBase58Check?: string
+  ): Promise<string>;
+}
+
+export interface JwtOptions {
+  /**
+   * Signs the jwt instead of the logged in user's derived key.
+   */
+  signer?: Signer;
+  /**
+   * Sets the aud claim, e.g. to the service the token is meant for.
+   */
+  audience?: string;
+}
+
+export type DecryptedMessageWithEnvelope = DecryptedMessageEntryResponse & {
+  /**
+   * Set when the message was sent as an envelope. DecryptedMessage is then
+   * the envelope's text.
+   */
+  Envelope?: MessageEnvelope;
+};
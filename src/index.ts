@@ -1,15 +1,24 @@
 export * from './backend-types/index.js';
+export * from './client.js';
+export * from './conversation-sync.js';
 export * from './data/index.js';
 export * from './deso-protocol.js';
 export * from './identity/index.js';
 export * from './jwt-requests.js';
+export * from './jwt-verification.js';
+export * from './message-attachments.js';
+export * from './notifications.js';
 export * from './transactions/access-groups.js';
+export * from './transactions/atomic.js';
 export * from './transactions/associations.js';
+export * from './transactions/derived-key-manager.js';
 export * from './transactions/derived-keys.js';
 export * from './transactions/deso-tokens.js';
 export * from './transactions/financial.js';
+export * from './transactions/group-chat.js';
 export * from './transactions/nfts.js';
 export * from './transactions/social.js';
 export * from './transactions/validator.js';
 export * from './transactions/stake.js';
 export * from './transactions/lockup.js';
+export * from './transactions/spending-limit-planner.js';
@@ -2,6 +2,8 @@ import { bytesToHex } from '@noble/hashes/utils';
 import {
   ConstructedTransactionResponse,
   DeSoNonce,
+  DesoClientContext,
+  DuplicateSubmitTransactionResponse,
   OptionalFeesAndExtraData,
   RequestOptions,
   SubmitTransactionResponse,
@@ -13,9 +15,12 @@ import {
   PartialWithRequiredFields,
   api,
   cleanURL,
-  getAppState,
+  entityCache,
+  media,
+  nonceManager,
 } from './data/index.js';
 import {
+  DeSoValidationError,
   Transaction,
   TransactionExtraData,
   TransactionExtraDataKV,
@@ -33,20 +38,94 @@ import {
   identity,
   publicKeyToBase58Check,
   sha256X2,
+  toUint256Hex,
 } from './identity/index.js';
 ////////////////////////////////////////////////////////////////////////////////
 // This is all the stuff we don't export to consumers of the library. If
 // anything here needs to be exported, it should be moved to another file.
 ////////////////////////////////////////////////////////////////////////////////
 
+export const createClientConfig = (): DesoClientContext['config'] => ({
+  MinFeeRateNanosPerKB: 1500,
+  LocalConstruction: false,
+  StrictLocalConstruction: false,
+});
+
 // This can be mutated by the user of the library via the configure function,
 // but it's not exported explicitly. Whatever changes are made externally will
 // be reflected in the library.
-export const globalConfigOptions = {
-  MinFeeRateNanosPerKB: 1500,
-  LocalConstruction: false,
+export const globalConfigOptions = createClientConfig();
+
+const defaultClientContext: DesoClientContext = {
+  api,
+  media,
+  identity,
+  nonceManager,
+  entityCache,
+  config: globalConfigOptions,
 };
 
+/**
+ * Returns the client a request is made through, or the default instances if
+ * it was made through the top level functions.
+ */
+export const getClientContext = (
+  options?: Pick<RequestOptions, 'client'>
+): DesoClientContext => options?.client ?? defaultClientContext;
+
+/**
+ * Determines whether a transaction should be constructed locally. In strict
+ * mode we throw instead of quietly falling back to the node when there is no
+ * local construction function for the endpoint.
+ */
+const shouldConstructLocally = (
+  endpoint: string,
+  options: RequestOptions
+): boolean => {
+  const { config } = getClientContext(options);
+
+  if (!(options.localConstruction || config.LocalConstruction)) {
+    return false;
+  }
+
+  if (options.constructionFunction) {
+    return true;
+  }
+
+  if (options.strictLocalConstruction ?? config.StrictLocalConstruction) {
+    throw new DeSoValidationError(
+      `Local construction is not supported for ${endpoint}`,
+      { endpoint }
+    );
+  }
+
+  return false;
+};
+
+// Request fields the node expects as 0x prefixed uint256 hex strings.
+const UINT256_PARAMS = [
+  'CoinsToMintNanos',
+  'CoinsToBurnNanos',
+  'DAOCoinToTransferNanos',
+  'StakeAmountNanos',
+  'UnstakeAmountNanos',
+  'LockupAmountBaseUnits',
+  'LockedCoinsToTransferBaseUnits',
+];
+
+/**
+ * Converts any bigint uint256 params to the hex strings the node expects.
+ * Other bigint params are sent as plain JSON integers.
+ */
+const withUint256Params = (params: OptionalFeesAndExtraData & any) =>
+  UINT256_PARAMS.reduce(
+    (acc, key) =>
+      typeof acc[key] === 'bigint'
+        ? { ...acc, [key]: toUint256Hex(acc[key]) }
+        : acc,
+    params
+  );
+
 /**
  * Wraps signing and submit to include the configurable fee, and add defaults
  * for optional params.
@@ -62,32 +141,41 @@ export const handleSignAndSubmit = async <T = ConstructedTransactionResponse>(
   options: RequestOptions = { broadcast: true }
 ): Promise<{
   constructedTransactionResponse: T;
-  submittedTransactionResponse: SubmitTransactionResponse | null;
+  submittedTransactionResponse:
+    | SubmitTransactionResponse
+    | DuplicateSubmitTransactionResponse
+    | null;
 }> => {
-  const constructedTransactionResponse = await ((options.localConstruction ||
-    globalConfigOptions.LocalConstruction) &&
+  const { api, config, entityCache, identity } = getClientContext(options);
+  const constructLocally = shouldConstructLocally(endpoint, options);
+  const constructedTransactionResponse = await (constructLocally &&
   options.constructionFunction
-    ? options.constructionFunction(params)
+    ? options.constructionFunction(params, options)
     : api.post(
         options.nodeURI ? `${cleanURL(options.nodeURI, endpoint)}` : endpoint,
         {
-          ...params,
+          ...withUint256Params(params),
           MinFeeRateNanosPerKB:
-            params.MinFeeRateNanosPerKB ??
-            globalConfigOptions.MinFeeRateNanosPerKB,
-        }
+            params.MinFeeRateNanosPerKB ?? config.MinFeeRateNanosPerKB,
+        },
+        { signal: options.signal, timeoutMs: options.timeoutMs }
       ));
-  if (
-    (options.localConstruction || globalConfigOptions.LocalConstruction) &&
-    options.constructionFunction
-  ) {
+  if (constructLocally) {
     console.log(constructedTransactionResponse);
   }
   const submittedTransactionResponse =
     options.broadcast !== false
-      ? await identity.signAndSubmit(constructedTransactionResponse)
+      ? await identity.signAndSubmit(
+          constructedTransactionResponse,
+          options.signer
+        )
       : null;
 
+  if (submittedTransactionResponse) {
+    // the profiles and posts this transaction touches are stale now
+    entityCache.invalidateTransaction(params);
+  }
+
   return {
     constructedTransactionResponse,
     submittedTransactionResponse,
@@ -103,7 +191,9 @@ export const handleSignAndSubmit = async <T = ConstructedTransactionResponse>(
  * @param options options for the request, including whether to broadcast
  */
 
-// TODO: Note that this function assumes that all the transactions in the atomic have the primary user as a transactor
+// NOTE: this function assumes that all the transactions in the atomic have the
+// primary user as a transactor. Use AtomicBuilder to compose bundles that are
+// signed by more than one user.
 export const handleSignAndSubmitAtomic = async <
   T = ConstructedTransactionResponse
 >(
@@ -118,23 +208,25 @@ export const handleSignAndSubmitAtomic = async <
   };
   submittedTransactionResponse: SubmitTransactionAtomicResponse | null;
 }> => {
+  const { api, config, entityCache, identity } = getClientContext(options);
+  const constructLocally = shouldConstructLocally(endpoint, options);
   let jwt: string | undefined;
-  if (options.jwt) {
-    jwt = await identity.jwt();
+  if (options.jwt && !constructLocally) {
+    jwt = await identity.jwt(options.signer);
   }
-  const constructedTransactionResponse = await ((options.localConstruction ||
-    globalConfigOptions.LocalConstruction) &&
+  const constructedTransactionResponse = await (constructLocally &&
   options.constructionFunction
-    ? options.constructionFunction(params)
+    ? options.constructionFunction(params, options)
     : api.post(
         options.nodeURI ? `${cleanURL(options.nodeURI, endpoint)}` : endpoint,
         {
-          ...params,
+          ...withUint256Params(params),
           MinFeeRateNanosPerKB:
-            params.MinFeeRateNanosPerKB ??
-            globalConfigOptions.MinFeeRateNanosPerKB,
+            params.MinFeeRateNanosPerKB ?? config.MinFeeRateNanosPerKB,
         },
         {
+          signal: options.signal,
+          timeoutMs: options.timeoutMs,
           ...(jwt
             ? {
                 headers: {
@@ -144,17 +236,22 @@ export const handleSignAndSubmitAtomic = async <
             : {}),
         }
       ));
-  if (
-    (options.localConstruction || globalConfigOptions.LocalConstruction) &&
-    options.constructionFunction
-  ) {
+  if (constructLocally) {
     console.log(constructedTransactionResponse);
   }
   const submittedTransactionResponse =
     options.broadcast !== false
-      ? await identity.signAndSubmitAtomic(constructedTransactionResponse)
+      ? await identity.signAndSubmitAtomic(
+          constructedTransactionResponse,
+          options.signer
+        )
       : null;
 
+  if (submittedTransactionResponse) {
+    // the profiles and posts this transaction touches are stale now
+    entityCache.invalidateTransaction(params);
+  }
+
   return {
     constructedTransactionResponse,
     submittedTransactionResponse,
@@ -195,7 +292,8 @@ const makeTransactionNonce = (
   const nonce = new TransactionNonce();
   nonce.expirationBlockHeight =
     desoNonce?.ExpirationBlockHeight || Number.MAX_SAFE_INTEGER;
-  // TODO: cache partial IDs so we don't generate the same one twice.
+  // Only fee estimates get here without a partial id. Transactions that will
+  // be submitted reserve one from the nonce manager in constructBalanceModelTx.
   nonce.partialId = desoNonce?.PartialID || Math.floor(Math.random() * 1e18);
   return nonce;
 };
@@ -203,7 +301,8 @@ const makeTransactionNonce = (
 export const getTxWithFeeNanos = (
   pubKey: string,
   metadata: TransactionMetadataRecord,
-  txFields?: BalanceModelTransactionFields
+  txFields?: BalanceModelTransactionFields,
+  options?: Pick<RequestOptions, 'client'>
 ) => {
   const nonce = makeTransactionNonce(txFields?.Nonce);
 
@@ -232,27 +331,34 @@ export const getTxWithFeeNanos = (
 
   return computeFee(
     transaction,
-    txFields?.MinFeeRateNanosPerKB ?? globalConfigOptions.MinFeeRateNanosPerKB
+    txFields?.MinFeeRateNanosPerKB ??
+      getClientContext(options).config.MinFeeRateNanosPerKB
   );
 };
 
+/**
+ * Builds and serializes a balance model transaction. The nonce is reserved
+ * from, and the default fee rate read from, the client in the options, or the
+ * default instances if there is none.
+ */
 export const constructBalanceModelTx = async (
   pubKey: string,
   metadata: TransactionMetadataRecord,
-  txFields?: BalanceModelTransactionFields
+  txFields?: BalanceModelTransactionFields,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
-  // TODO: cache block height somewhere.
-  if (!txFields?.Nonce) {
-    const { BlockHeight } = await getAppState();
-    if (!txFields) {
-      txFields = {};
-    }
-    txFields.Nonce = {
-      ExpirationBlockHeight: BlockHeight + 275,
+  if (!txFields?.Nonce?.PartialID) {
+    txFields = {
+      ...txFields,
+      Nonce: await getClientContext(options).nonceManager.acquire(pubKey, {
+        expirationBlockHeight: txFields?.Nonce?.ExpirationBlockHeight,
+        expirationBlocks: options?.nonceExpirationBlocks,
+        nodeURI: options?.nodeURI,
+      }),
     };
   }
 
-  const txnWithFee = getTxWithFeeNanos(pubKey, metadata, txFields);
+  const txnWithFee = getTxWithFeeNanos(pubKey, metadata, txFields, options);
 
   const txnBytes = txnWithFee.toBytes();
   const TransactionHex = bytesToHex(txnBytes);
@@ -260,7 +366,10 @@ export const constructBalanceModelTx = async (
   // TODO: maintain backward compatibility with everything returned in the constructed transaction
   // response object for each type. this will be a headache no doubt.
   const fees = txnWithFee.feeNanos;
-  const outputSum = txnWithFee.outputs.reduce((a, b) => a + b.amountNanos, 0);
+  const spendAmountNanos = txnWithFee.outputs.reduce(
+    (a, b) => a + Number(b.amountNanos),
+    fees
+  );
   // TODO: sum extra spend for creator coins, dao coin limit orders (ugh), create NFTs, create profile
   // NFT buys. Probably not necessarily, but would be best to have this.
   const txnHash = sha256X2(txnBytes);
@@ -270,15 +379,15 @@ export const constructBalanceModelTx = async (
     FeeNanos: fees,
     TransactionHex,
     ChangeAmountNanos: 0,
-    TotalInputNanos: fees + outputSum,
-    SpendAmountNanos: fees + outputSum,
+    TotalInputNanos: spendAmountNanos,
+    SpendAmountNanos: spendAmountNanos,
     TransactionIDBase58Check: publicKeyToBase58Check(txnHash),
     TxnHashHex: bytesToHex(txnHash),
     PostHashHex:
       txnType === TransactionType.SubmitPost ? bytesToHex(txnHash) : undefined,
     TstampNanos:
       txnType === TransactionType.SubmitPost
-        ? (metadata as TransactionMetadataSubmitPost).timestampNanos
+        ? Number((metadata as TransactionMetadataSubmitPost).timestampNanos)
         : undefined,
     NFTPostHashHex:
       txnType === TransactionType.CreateNFT ||
@@ -311,11 +420,13 @@ export const constructBalanceModelTx = async (
     BidAmountNanos:
       txnType === TransactionType.NFTBid ||
       txnType === TransactionType.AcceptNFTBid
-        ? (
-            metadata as
-              | TransactionMetadataAcceptNFTBid
-              | TransactionMetadataNFTBid
-          ).bidAmountNanos
+        ? Number(
+            (
+              metadata as
+                | TransactionMetadataAcceptNFTBid
+                | TransactionMetadataNFTBid
+            ).bidAmountNanos
+          )
         : undefined,
     BidderPublicKeyBase58Check:
       txnType === TransactionType.AcceptNFTBid
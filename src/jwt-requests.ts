@@ -66,18 +66,22 @@ import {
 } from './backend-types/index.js';
 import {
   PartialWithRequiredFields,
-  api,
   cleanURL,
-  media,
+  getMediaClient,
+  getNodeClient,
 } from './data/index.js';
 import {
+  DeSoPermissionError,
   TransactionExtraDataKV,
   TransactionMetadataUpdateGlobalParams,
   encodeUTF8ToBytes,
-  identity,
   uvarint64ToBuf,
 } from './identity/index.js';
-import { constructBalanceModelTx, handleSignAndSubmit } from './internal.js';
+import {
+  constructBalanceModelTx,
+  getClientContext,
+  handleSignAndSubmit,
+} from './internal.js';
 import { ConstructedAndSubmittedTx } from './types.js';
 const jwtPost = async (
   endpoint: string,
@@ -87,11 +91,16 @@ const jwtPost = async (
   const isAdminRequest = endpoint.includes('api/v0/admin');
   let AdminPublicKey = '';
 
-  if (isAdminRequest) {
-    const { currentUser } = await identity.snapshot();
+  if (isAdminRequest && options?.signer) {
+    AdminPublicKey = await options.signer.getPublicKey();
+  } else if (isAdminRequest) {
+    const { currentUser } = await getClientContext(options).identity.snapshot();
 
     if (!currentUser) {
-      throw new Error('Cannot issue an admin request without a logged in user');
+      throw new DeSoPermissionError(
+        'Cannot issue an admin request without a logged in user',
+        { endpoint }
+      );
     }
 
     AdminPublicKey = currentUser.publicKey;
@@ -100,14 +109,16 @@ const jwtPost = async (
   const postParams = {
     ...params,
     ...(isAdminRequest && { AdminPublicKey }),
-    JWT: params.JWT ?? (await identity.jwt()),
+    JWT:
+      params.JWT ??
+      (await getClientContext(options).identity.jwt(options?.signer)),
   };
 
   if (options?.broadcast) {
     return handleSignAndSubmit(endpoint, postParams, options);
   }
 
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     postParams
   );
@@ -319,7 +330,7 @@ export const adminGetUSDCentsToDESOReserveExchangeRate = (
   options?: RequestOptions
 ): Promise<GetUSDCentsToDeSoExchangeRateResponse> => {
   const endpoint = 'api/v0/admin/get-usd-cents-to-deso-reserve-exchange-rate';
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -335,7 +346,7 @@ export const adminGetBuyDesoFeeBasisPoints = (
   options?: RequestOptions
 ): Promise<GetBuyDeSoFeeBasisPointsResponse> => {
   const endpoint = 'api/v0/admin/get-buy-deso-fee-basis-points';
-  return api.get(
+  return getNodeClient(options).get(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint
   );
 };
@@ -364,7 +375,8 @@ export const adminUpdateGlobalParams = async (
 };
 
 export const constructAdminUpdateGlobalParamsTransaction = async (
-  params: AdminUpdateGlobalParamsRequestParams
+  params: AdminUpdateGlobalParamsRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataUpdateGlobalParams();
   const consensusExtraDataKVs: TransactionExtraDataKV[] = [];
@@ -408,12 +420,17 @@ export const constructAdminUpdateGlobalParamsTransaction = async (
       )
     );
   }
-  return constructBalanceModelTx(params.UpdaterPublicKeyBase58Check, metadata, {
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-    ConsensusExtraDataKVs: consensusExtraDataKVs,
-  });
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      ConsensusExtraDataKVs: consensusExtraDataKVs,
+    },
+    options
+  );
 };
 
 export const adminGetGlobalParams = (
@@ -538,7 +555,7 @@ export const verifyEmail = (
   options?: RequestOptions
 ): Promise<void> => {
   const endpoint = 'api/v0/verify-email';
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     params
   );
@@ -551,10 +568,12 @@ export const uploadImage = async (
   >,
   options?: RequestOptions
 ): Promise<UploadImageResponse> => {
-  const JWT = params.JWT ?? (await identity.jwt());
+  const JWT =
+    params.JWT ??
+    (await getClientContext(options).identity.jwt(options?.signer));
   const endpoint = 'api/v0/upload-image';
 
-  return api.post(
+  return getNodeClient(options).post(
     options?.nodeURI ? cleanURL(options.nodeURI, endpoint) : endpoint,
     { JWT, ...params },
     { contentType: 'multipart/form-data' }
@@ -565,11 +584,12 @@ export const uploadVideo = async (
   params: PartialWithRequiredFields<
     UploadVideoRequest,
     'UserPublicKeyBase58Check' | 'file'
-  >
+  >,
+  options?: Pick<RequestOptions, 'client'>
 ): Promise<UploadVideoV2Response> => {
-  const JWT = params.JWT ?? (await identity.jwt());
+  const JWT = params.JWT ?? (await getClientContext(options).identity.jwt());
   const endpoint = 'api/v0/upload-video';
-  return media.post(
+  return getMediaClient(options).post(
     endpoint,
     { JWT, ...params },
     { contentType: 'multipart/form-data' }
@@ -0,0 +1,138 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { sign } from '@noble/secp256k1';
+import { createDesoClient } from './client.js';
+import { createFetchResponse } from './data/index.js';
+import {
+  getSignedJWT,
+  keygen,
+  publicKeyToBase58Check,
+} from './identity/index.js';
+import { verifyDesoJwt, withDesoJwt } from './jwt-verification.js';
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+describe('verifyDesoJwt', () => {
+  const owner = keygen();
+  const ownerPublicKey = publicKeyToBase58Check(owner.public);
+
+  const signToken = async (payload: Record<string, unknown>) => {
+    const encode = (value: unknown) =>
+      base64Url(new TextEncoder().encode(JSON.stringify(value)));
+    const jwt = `${encode({ alg: 'ES256', typ: 'JWT' })}.${encode(payload)}`;
+    const signature = await sign(
+      sha256(new TextEncoder().encode(jwt)),
+      owner.seedHex,
+      { der: false }
+    );
+
+    return `${jwt}.${base64Url(signature)}`;
+  };
+
+  it('verifies tokens signed by the owner', async () => {
+    const token = await getSignedJWT(owner.seedHex, 'ES256', {
+      audience: 'my-service',
+    });
+
+    const verified = await verifyDesoJwt(token, {
+      PublicKeyBase58Check: ownerPublicKey,
+      audience: ['my-service'],
+      maxAge: 60,
+    });
+
+    expect(verified.PublicKeyBase58Check).toEqual(ownerPublicKey);
+    expect(verified.payload.aud).toEqual('my-service');
+    await expect(
+      verifyDesoJwt(token, {
+        PublicKeyBase58Check: publicKeyToBase58Check(keygen().public),
+      })
+    ).rejects.toThrow('Invalid DeSo jwt: invalid signature');
+    await expect(
+      verifyDesoJwt(token, {
+        PublicKeyBase58Check: ownerPublicKey,
+        audience: 'other-service',
+      })
+    ).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('requires an expiration and rejects tokens issued in the future', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const options = { PublicKeyBase58Check: ownerPublicKey };
+
+    await expect(
+      verifyDesoJwt(await signToken({ iat: now }), options)
+    ).rejects.toThrow('Invalid DeSo jwt: missing exp claim');
+    await expect(
+      verifyDesoJwt(await signToken({ iat: now - 120, exp: now - 60 }), options)
+    ).rejects.toThrow('Invalid DeSo jwt: token expired');
+
+    const future = await signToken({ iat: now + 60, exp: now + 600 });
+    await expect(verifyDesoJwt(future, options)).rejects.toThrow(
+      'Invalid DeSo jwt: token issued in the future'
+    );
+    await expect(
+      verifyDesoJwt(future, { ...options, clockTolerance: 120 })
+    ).resolves.toMatchObject({ PublicKeyBase58Check: ownerPublicKey });
+  });
+
+  it('checks that derived keys are authorized and caches the lookup', async () => {
+    const derived = keygen();
+    const derivedPublicKey = publicKeyToBase58Check(derived.public);
+    const token = await getSignedJWT(derived.seedHex, 'ES256', {
+      derivedPublicKeyBase58Check: derivedPublicKey,
+    });
+    const responses: Record<string, any> = {
+      'get-app-state': { BlockHeight: 100 },
+      'get-user-derived-keys': {
+        DerivedKeys: {
+          [derivedPublicKey]: { IsValid: true, ExpirationBlock: 200 },
+        },
+      },
+    };
+    const fetchMock = jest.fn((url: string) =>
+      Promise.resolve(
+        createFetchResponse(
+          200,
+          JSON.stringify(responses[url.split('/').pop() as string])
+        )
+      )
+    );
+    const client = createDesoClient({ fetch: fetchMock });
+    const handler = jest.fn((req: any, res: any) => res.end('ok'));
+    const res = { statusCode: 200, end: jest.fn() };
+
+    await withDesoJwt(handler, { client })(
+      {
+        headers: {
+          authorization: `Bearer ${token}`,
+          'x-deso-public-key': ownerPublicKey,
+        },
+      },
+      res
+    );
+
+    expect(handler.mock.calls[0][0].deso).toMatchObject({
+      PublicKeyBase58Check: ownerPublicKey,
+      DerivedPublicKeyBase58Check: derivedPublicKey,
+    });
+
+    responses['get-user-derived-keys'].DerivedKeys[derivedPublicKey].IsValid =
+      false;
+    await verifyDesoJwt(token, {
+      PublicKeyBase58Check: ownerPublicKey,
+      client,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    await expect(
+      verifyDesoJwt(token, {
+        PublicKeyBase58Check: ownerPublicKey,
+        client,
+        derivedKeysCacheTTLMs: 0,
+      })
+    ).rejects.toThrow(`derived key ${derivedPublicKey} is not authorized`);
+  });
+});
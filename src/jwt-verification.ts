@@ -0,0 +1,370 @@
+import { sha256 } from '@noble/hashes/sha256';
+import { verify } from '@noble/secp256k1';
+import {
+  DesoClientContext,
+  GetUserDerivedKeysResponse,
+  RequestOptions,
+} from './backend-types/index.js';
+import { getAppState, getUserDerivedKeys } from './data/index.js';
+import {
+  DeSoError,
+  DeSoPermissionError,
+  bs58PublicKeyToCompressedBytes,
+} from './identity/index.js';
+import { getClientContext } from './internal.js';
+
+export interface DesoJwtPayload {
+  derivedPublicKeyBase58Check?: string;
+  aud?: string | string[];
+  iat?: number;
+  exp?: number;
+  [claim: string]: unknown;
+}
+
+export interface VerifiedDesoJwt {
+  /**
+   * The owner public key the token was verified for.
+   */
+  PublicKeyBase58Check: string;
+  /**
+   * Set when the token was signed by a derived key of the owner.
+   */
+  DerivedPublicKeyBase58Check?: string;
+  payload: DesoJwtPayload;
+}
+
+export interface VerifyDesoJwtOptions extends RequestOptions {
+  /**
+   * The owner public key the caller claims to be. Tokens don't include the
+   * owner, so it has to be sent alongside the token, the same way the node
+   * expects it for jwt requests.
+   */
+  PublicKeyBase58Check: string;
+  /**
+   * The maximum age of the token in seconds, based on its iat claim.
+   */
+  maxAge?: number;
+  /**
+   * Rejects tokens whose aud claim does not include one of these.
+   */
+  audience?: string | string[];
+  /**
+   * Seconds of clock skew to allow when checking iat and exp. Defaults to 0.
+   */
+  clockTolerance?: number;
+  /**
+   * How long a fetched list of derived keys is reused. Defaults to 60000ms.
+   */
+  derivedKeysCacheTTLMs?: number;
+}
+
+interface CachedDerivedKeys {
+  fetchedAt: number;
+  pending: Promise<{
+    DerivedKeys: GetUserDerivedKeysResponse['DerivedKeys'];
+    BlockHeight: number;
+  }>;
+}
+
+const DEFAULT_DERIVED_KEYS_CACHE_TTL_MS = 60 * 1000;
+// client context -> owner public key -> derived keys
+const derivedKeysCaches = new WeakMap<
+  DesoClientContext,
+  Map<string, CachedDerivedKeys>
+>();
+
+const base64UrlDecode = (str: string) => {
+  const base64 = str.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = globalThis.atob(
+    base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=')
+  );
+
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const invalidToken = (reason: string, cause?: unknown) =>
+  new DeSoPermissionError(`Invalid DeSo jwt: ${reason}`, {
+    status: 401,
+    cause,
+  });
+
+const getDerivedKeys = (owner: string, options: VerifyDesoJwtOptions) => {
+  const client = getClientContext(options);
+  const ttl =
+    options.derivedKeysCacheTTLMs ?? DEFAULT_DERIVED_KEYS_CACHE_TTL_MS;
+  const cache = derivedKeysCaches.get(client) ?? new Map();
+  derivedKeysCaches.set(client, cache);
+  const cached = cache.get(owner);
+
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return cached.pending;
+  }
+
+  const requestOptions = { client: options.client, nodeURI: options.nodeURI };
+  const pending = Promise.all([
+    getUserDerivedKeys({ PublicKeyBase58Check: owner }, requestOptions),
+    getAppState({}, requestOptions),
+  ]).then(([{ DerivedKeys }, { BlockHeight }]) => ({
+    DerivedKeys,
+    BlockHeight,
+  }));
+  // don't cache failures
+  pending.catch(() => cache.delete(owner));
+  cache.set(owner, { fetchedAt: Date.now(), pending });
+
+  return pending;
+};
+
+/**
+ * Verifies a jwt issued by identity.jwt or getSignedJWT, e.g. in a backend
+ * that receives requests from a DeSo app. The signature is checked against
+ * the claimed owner public key, or against the derived key in the token, in
+ * which case the derived key must also be authorized for the owner and not
+ * expired. Tokens must have an exp claim and can't be issued in the future.
+ * Derived keys are looked up through the configured node and cached.
+ * Throws a DeSoPermissionError with status 401 if the token is not valid.
+ * @example
+ * ```ts
+ * const { PublicKeyBase58Check } = await verifyDesoJwt(token, {
+ *   PublicKeyBase58Check: req.body.PublicKeyBase58Check,
+ *   maxAge: 60 * 10,
+ * });
+ * ```
+ */
+export const verifyDesoJwt = async (
+  token: string,
+  options: VerifyDesoJwtOptions
+): Promise<VerifiedDesoJwt> => {
+  const [encodedHeader, encodedPayload, encodedSignature] = (token ?? '').split(
+    '.'
+  );
+
+  if (!encodedHeader || !encodedPayload || !encodedSignature) {
+    throw invalidToken('malformed token');
+  }
+
+  let header: { alg?: string };
+  let payload: DesoJwtPayload;
+  let signature: Uint8Array;
+
+  try {
+    header = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(encodedHeader))
+    );
+    payload = JSON.parse(
+      new TextDecoder().decode(base64UrlDecode(encodedPayload))
+    );
+    signature = base64UrlDecode(encodedSignature);
+  } catch (e) {
+    throw invalidToken('malformed token', e);
+  }
+
+  if (header.alg !== 'ES256' && header.alg !== 'ES256K') {
+    throw invalidToken(`unsupported algorithm ${header.alg}`);
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const clockTolerance = options.clockTolerance ?? 0;
+
+  if (typeof payload.exp !== 'number') {
+    throw invalidToken('missing exp claim');
+  }
+
+  if (now - clockTolerance >= payload.exp) {
+    throw invalidToken('token expired');
+  }
+
+  if (typeof payload.iat === 'number' && payload.iat > now + clockTolerance) {
+    throw invalidToken('token issued in the future');
+  }
+
+  if (typeof options.maxAge === 'number') {
+    if (typeof payload.iat !== 'number') {
+      throw invalidToken('missing iat claim');
+    }
+
+    if (now - payload.iat > options.maxAge + clockTolerance) {
+      throw invalidToken('token exceeds max age');
+    }
+  }
+
+  if (options.audience) {
+    const expected = ([] as string[]).concat(options.audience);
+    const actual = ([] as string[]).concat(payload.aud ?? []);
+
+    if (!actual.some((aud) => expected.includes(aud))) {
+      throw invalidToken('audience mismatch');
+    }
+  }
+
+  const owner = options.PublicKeyBase58Check;
+  const derived = payload.derivedPublicKeyBase58Check;
+  let isValidSignature: boolean;
+
+  try {
+    isValidSignature = verify(
+      signature,
+      sha256(new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)),
+      bs58PublicKeyToCompressedBytes(derived || owner)
+    );
+  } catch (e) {
+    throw invalidToken('invalid signature', e);
+  }
+
+  if (!isValidSignature) {
+    throw invalidToken('invalid signature');
+  }
+
+  if (derived && derived !== owner) {
+    const { DerivedKeys, BlockHeight } = await getDerivedKeys(owner, options);
+    const derivedKey = DerivedKeys?.[derived];
+
+    if (!derivedKey?.IsValid) {
+      throw invalidToken(`derived key ${derived} is not authorized`);
+    }
+
+    if (derivedKey.ExpirationBlock <= BlockHeight) {
+      throw invalidToken(`derived key ${derived} is expired`);
+    }
+  }
+
+  return {
+    PublicKeyBase58Check: owner,
+    ...(derived && derived !== owner
+      ? { DerivedPublicKeyBase58Check: derived }
+      : {}),
+    payload,
+  };
+};
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export interface DesoJwtRequest {
+  headers: Headers;
+  /**
+   * Set to the verified token once the request is authenticated.
+   */
+  deso?: VerifiedDesoJwt;
+}
+
+export interface DesoJwtAuthOptions
+  extends Omit<VerifyDesoJwtOptions, 'PublicKeyBase58Check'> {
+  /**
+   * Reads the claimed owner public key from the request headers. Defaults to
+   * the x-deso-public-key header.
+   */
+  getPublicKey?: (headers: Headers) => string | undefined;
+}
+
+const getHeader = (headers: Headers, name: string) => {
+  const value = headers[name] ?? headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+const authenticate = async (
+  headers: Headers,
+  { getPublicKey, ...options }: DesoJwtAuthOptions
+) => {
+  const [scheme, token] = (getHeader(headers, 'authorization') ?? '').split(
+    ' '
+  );
+  const PublicKeyBase58Check = getPublicKey
+    ? getPublicKey(headers)
+    : getHeader(headers, 'x-deso-public-key');
+
+  if (scheme !== 'Bearer' || !token) {
+    throw invalidToken('missing bearer token');
+  }
+
+  if (!PublicKeyBase58Check) {
+    throw invalidToken('missing public key');
+  }
+
+  return verifyDesoJwt(token, { ...options, PublicKeyBase58Check });
+};
+
+const getErrorStatus = (e: unknown) =>
+  e instanceof DeSoPermissionError ? e.status ?? 401 : 500;
+
+/**
+ * Wraps a node http request handler so it is only called for requests with a
+ * valid DeSo jwt in the authorization header. Other requests get a 401.
+ * @example
+ * ```ts
+ * http.createServer(withDesoJwt((req, res) => {
+ *   res.end(req.deso?.PublicKeyBase58Check);
+ * }));
+ * ```
+ */
+export const withDesoJwt =
+  <
+    Req extends DesoJwtRequest,
+    Res extends { statusCode: number; end: (body?: string) => void }
+  >(
+    handler: (req: Req, res: Res) => void | Promise<void>,
+    options: DesoJwtAuthOptions = {}
+  ) =>
+  async (req: Req, res: Res) => {
+    try {
+      req.deso = await authenticate(req.headers, options);
+    } catch (e) {
+      res.statusCode = getErrorStatus(e);
+      res.end(
+        JSON.stringify({
+          error: e instanceof DeSoError ? e.message : 'Internal error',
+        })
+      );
+      return;
+    }
+
+    return handler(req, res);
+  };
+
+/**
+ * Connect style middleware, e.g. for express. Failed verifications are passed
+ * to next as a DeSoPermissionError, so the app's error handler decides how to
+ * respond.
+ * @example
+ * ```ts
+ * app.use(desoJwtMiddleware({ audience: 'my-service' }));
+ * ```
+ */
+export const desoJwtMiddleware =
+  (options: DesoJwtAuthOptions = {}) =>
+  (req: DesoJwtRequest, _res: unknown, next: (err?: unknown) => void) => {
+    authenticate(req.headers, options).then(
+      (verified) => {
+        req.deso = verified;
+        next();
+      },
+      (e) => next(e)
+    );
+  };
+
+/**
+ * Koa style middleware. The verified token is set on ctx.state.deso and
+ * failed verifications respond with a 401.
+ */
+export const desoJwtKoaMiddleware =
+  (options: DesoJwtAuthOptions = {}) =>
+  async (
+    ctx: {
+      headers: Headers;
+      state: Record<string, unknown>;
+      status: number;
+      body: unknown;
+    },
+    next: () => Promise<unknown>
+  ) => {
+    try {
+      ctx.state.deso = await authenticate(ctx.headers, options);
+    } catch (e) {
+      ctx.status = getErrorStatus(e);
+      ctx.body = {
+        error: e instanceof DeSoError ? e.message : 'Internal error',
+      };
+      return;
+    }
+
+    await next();
+  };
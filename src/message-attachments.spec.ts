@@ -0,0 +1,147 @@
+import { createDesoClient } from './client.js';
+import { createFetchResponse } from './data/index.js';
+import { encryptAttachment, parseMessageEnvelope } from './identity/index.js';
+import {
+  fetchMessageAttachment,
+  uploadMessageAttachment,
+} from './message-attachments.js';
+import {
+  FakeNodeRequest,
+  createAccount,
+  createFakeNodeClient,
+} from './test-utils.js';
+
+const readBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.readAsArrayBuffer(blob);
+  });
+
+describe('message attachments', () => {
+  const UserPublicKeyBase58Check = createAccount().publicKey;
+
+  it('uploads images as is and decrypts encrypted attachments when fetched', async () => {
+    const uploads: File[] = [];
+    const client = createDesoClient({
+      fetch: (url: string, init: any) => {
+        uploads.push(init.body.get('file'));
+        return Promise.resolve(
+          createFetchResponse(
+            200,
+            JSON.stringify({ ImageURL: 'https://images.deso.org/a.png' })
+          )
+        );
+      },
+    });
+    const file = new File(['image bytes'], 'a.png', { type: 'image/png' });
+
+    const attachment = await uploadMessageAttachment(
+      { file, UserPublicKeyBase58Check, JWT: 'jwt' },
+      { client }
+    );
+
+    expect(attachment).toEqual({
+      type: 'image',
+      url: 'https://images.deso.org/a.png',
+      mimeType: 'image/png',
+      name: 'a.png',
+      size: file.size,
+    });
+    expect(uploads[0]).toBe(file);
+
+    // encrypted files are hosted outside of the media service
+    const { data, encryption } = await encryptAttachment(
+      new TextEncoder().encode('image bytes')
+    );
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      arrayBuffer: () => Promise.resolve(data.buffer),
+    });
+    const blob = await fetchMessageAttachment(
+      { ...attachment, url: 'https://files.example.com/a', encryption },
+      { fetch: fetchMock }
+    );
+
+    expect(fetchMock).toHaveBeenCalledWith('https://files.example.com/a');
+    expect(blob.type).toEqual('image/png');
+    expect(new TextDecoder().decode(await readBytes(blob))).toEqual(
+      'image bytes'
+    );
+  });
+
+  it('uploads videos unencrypted and sends them in the message envelope', async () => {
+    const calls: FakeNodeRequest[] = [];
+    const client = createFakeNodeClient(
+      {
+        'upload-video': () => ({
+          asset: { id: 'asset-id', playbackId: 'playback-id' },
+        }),
+        'check-party-access-groups': () => ({
+          SenderAccessGroupPublicKeyBase58Check: UserPublicKeyBase58Check,
+          SenderAccessGroupKeyName: 'default-key',
+          RecipientAccessGroupPublicKeyBase58Check: UserPublicKeyBase58Check,
+          RecipientAccessGroupKeyName: 'default-key',
+        }),
+        'send-dm-message': (body) => ({
+          TransactionHex: body.EncryptedMessageText,
+        }),
+      },
+      { calls }
+    );
+    const file = new File(['video bytes'], 'a.mp4', { type: 'video/mp4' });
+
+    const attachment = await uploadMessageAttachment(
+      { file, UserPublicKeyBase58Check, JWT: 'jwt' },
+      { client }
+    );
+    const { encryption } = await encryptAttachment(new Uint8Array(1));
+
+    await expect(
+      client.sendMessage(
+        {
+          SenderPublicKeyBase58Check: UserPublicKeyBase58Check,
+          RecipientPublicKeyBase58Check: UserPublicKeyBase58Check,
+          Message: 'secret',
+          Envelope: { attachments: [{ ...attachment, encryption }] },
+        },
+        { sendMessageUnencrypted: true, checkPermissions: false }
+      )
+    ).rejects.toThrow('Encrypted attachments cannot be sent');
+    const { constructedTransactionResponse } = await client.sendMessage(
+      {
+        SenderPublicKeyBase58Check: UserPublicKeyBase58Check,
+        RecipientPublicKeyBase58Check: UserPublicKeyBase58Check,
+        Message: 'watch this',
+        Envelope: { attachments: [attachment] },
+      },
+      {
+        sendMessageUnencrypted: true,
+        broadcast: false,
+        checkPermissions: false,
+      }
+    );
+
+    expect(attachment).toMatchObject({
+      type: 'video',
+      url: 'https://lvpr.tv/?v=playback-id',
+      assetId: 'asset-id',
+    });
+    expect(calls.map(({ endpoint }) => endpoint)).toEqual([
+      'upload-video',
+      'check-party-access-groups',
+      'send-dm-message',
+    ]);
+    expect(
+      parseMessageEnvelope(
+        new TextDecoder().decode(
+          Uint8Array.from(
+            constructedTransactionResponse.TransactionHex.match(/../g) ?? [],
+            (byte) => parseInt(byte, 16)
+          )
+        )
+      )
+    ).toEqual({ v: 1, text: 'watch this', attachments: [attachment] });
+  });
+});
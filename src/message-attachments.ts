@@ -0,0 +1,98 @@
+import { RequestOptions } from './backend-types/index.js';
+import {
+  DeSoHTTPError,
+  MessageAttachment,
+  decryptAttachment,
+} from './identity/index.js';
+import { uploadImage, uploadVideo } from './jwt-requests.js';
+
+export interface UploadMessageAttachmentParams {
+  file: File;
+  UserPublicKeyBase58Check: string;
+  JWT?: string;
+}
+
+const VIDEO_PLAYBACK_URL = 'https://lvpr.tv/?v=';
+
+/**
+ * Uploads a file to attach to a message, with uploadImage or uploadVideo
+ * depending on its type. The file is uploaded as is: the media service only
+ * accepts images and videos it can process, so it can't host encrypted files.
+ * To share a file with the participants of an encrypted message only, encrypt
+ * it with encryptAttachment, upload the result to storage that accepts
+ * arbitrary files and add the returned encryption to the attachment.
+ * @example
+ * ```ts
+ * const attachment = await uploadMessageAttachment({
+ *   file,
+ *   UserPublicKeyBase58Check,
+ * });
+ *
+ * await sendMessage({ ...params, Envelope: { attachments: [attachment] } });
+ * ```
+ */
+export const uploadMessageAttachment = async (
+  { file, UserPublicKeyBase58Check, JWT }: UploadMessageAttachmentParams,
+  options?: RequestOptions
+): Promise<MessageAttachment> => {
+  const details = {
+    mimeType: file.type || undefined,
+    name: file.name,
+    size: file.size,
+  };
+
+  if (file.type.startsWith('video/')) {
+    const { asset } = await uploadVideo(
+      { file, UserPublicKeyBase58Check, ...(JWT ? { JWT } : {}) },
+      options
+    );
+
+    return {
+      type: 'video',
+      url: `${VIDEO_PLAYBACK_URL}${asset.playbackId}`,
+      assetId: asset.id,
+      ...details,
+    };
+  }
+
+  const { ImageURL } = await uploadImage(
+    { file, UserPublicKeyBase58Check, ...(JWT ? { JWT } : {}) },
+    options
+  );
+
+  return {
+    type: 'image',
+    url: ImageURL,
+    ...details,
+  };
+};
+
+/**
+ * Downloads the file of an attachment, decrypting it if it was uploaded
+ * encrypted.
+ */
+export const fetchMessageAttachment = async (
+  attachment: MessageAttachment,
+  { fetch = globalThis.fetch }: { fetch?: typeof globalThis.fetch } = {}
+): Promise<Blob> => {
+  const res = await fetch(attachment.url);
+
+  if (!res.ok) {
+    throw new DeSoHTTPError(
+      `Failed to fetch attachment ${attachment.url}`,
+      res.status
+    );
+  }
+
+  const data = await res.arrayBuffer();
+  const type = attachment.mimeType ?? '';
+
+  return new Blob(
+    [
+      attachment.encryption
+        ? await decryptAttachment(data, attachment.encryption)
+        : data,
+    ],
+    { type }
+  );
+};
@@ -0,0 +1,138 @@
+import { createDesoClient } from '../client.js';
+import { signTransactionOffline } from '../identity/index.js';
+import { createAccount } from '../test-utils.js';
+import { MockDesoNode } from './mock-node.js';
+
+describe('MockDesoNode', () => {
+  const alice = createAccount();
+  const bob = createAccount();
+  let node: MockDesoNode;
+  let client: ReturnType<typeof createDesoClient>;
+
+  beforeEach(() => {
+    node = new MockDesoNode({ balances: { [alice.publicKey]: 1e9 } });
+    client = createDesoClient({
+      nodeURI: 'https://mock.deso.test',
+      fetch: node.fetch,
+    });
+  });
+
+  it('runs a whole flow through the node without network access', async () => {
+    const options = { signer: alice.signer, checkPermissions: false };
+
+    await client.updateProfile(
+      {
+        UpdaterPublicKeyBase58Check: alice.publicKey,
+        ProfilePublicKeyBase58Check: '',
+        NewUsername: 'alice',
+        NewCreatorBasisPoints: 1000,
+        NewStakeMultipleBasisPoints: 12500,
+      },
+      options
+    );
+    await client.sendDeso(
+      {
+        SenderPublicKeyBase58Check: alice.publicKey,
+        RecipientPublicKeyOrUsername: bob.publicKey,
+        AmountNanos: 5000,
+      },
+      options
+    );
+    const { submittedTransactionResponse } = await client.submitPost(
+      {
+        UpdaterPublicKeyBase58Check: alice.publicKey,
+        BodyObj: { Body: 'gm', ImageURLs: [], VideoURLs: [] },
+      },
+      options
+    );
+    await client.updateFollowingStatus(
+      {
+        FollowerPublicKeyBase58Check: bob.publicKey,
+        FollowedPublicKeyBase58Check: alice.publicKey,
+      },
+      { signer: bob.signer, checkPermissions: false }
+    );
+
+    const { Profile } = await client.getSingleProfile({ Username: 'Alice' });
+    const { UserList } = await client.getUsersStateless({
+      PublicKeysBase58Check: [bob.publicKey],
+    });
+
+    expect(Profile?.PublicKeyBase58Check).toEqual(alice.publicKey);
+    expect(submittedTransactionResponse?.PostEntryResponse?.Body).toEqual('gm');
+    expect(UserList?.[0].PublicKeysBase58CheckFollowedByUser).toEqual([
+      alice.publicKey,
+    ]);
+    expect(node.getBalance(bob.publicKey)).toBeLessThan(5000);
+    expect(node.getBalance(alice.publicKey)).toBeLessThan(1e9 - 5000);
+    expect(node.ledger.transactions.size).toEqual(4);
+  });
+
+  it('rejects bad signatures, reused nonces and insufficient balances', async () => {
+    const { TransactionHex } = await client.constructSendDeSoTransaction({
+      SenderPublicKeyBase58Check: alice.publicKey,
+      RecipientPublicKeyOrUsername: bob.publicKey,
+      AmountNanos: 5000,
+    });
+
+    await expect(
+      client.identity.submitTx(
+        await signTransactionOffline(TransactionHex, bob.seedHex, {
+          isDerivedKey: true,
+        })
+      )
+    ).rejects.toThrow('RuleErrorDerivedKeyNotAuthorized');
+
+    const signed = await signTransactionOffline(TransactionHex, alice.seedHex);
+    await client.identity.submitTx(signed);
+    await expect(client.identity.submitTx(signed)).rejects.toThrow(
+      'TxErrorDuplicate'
+    );
+
+    await expect(
+      client.sendDeso(
+        {
+          SenderPublicKeyBase58Check: bob.publicKey,
+          RecipientPublicKeyOrUsername: alice.publicKey,
+          AmountNanos: 1e9,
+        },
+        { signer: bob.signer, checkPermissions: false }
+      )
+    ).rejects.toThrow('RuleErrorInsufficientBalance');
+  });
+
+  it('enforces its minimum fee rate and nonce expiration', async () => {
+    node.minFeeRateNanosPerKB = 5000;
+    const { TransactionHex } = await client.constructSendDeSoTransaction({
+      SenderPublicKeyBase58Check: alice.publicKey,
+      RecipientPublicKeyOrUsername: bob.publicKey,
+      AmountNanos: 5000,
+      MinFeeRateNanosPerKB: 1000,
+    });
+
+    await expect(
+      client.identity.submitTx(
+        await signTransactionOffline(TransactionHex, alice.seedHex)
+      )
+    ).rejects.toThrow('RuleErrorTxnFeeBelowNetworkMinimum');
+
+    const { constructedTransactionResponse } = await client.sendDeso(
+      {
+        SenderPublicKeyBase58Check: alice.publicKey,
+        RecipientPublicKeyOrUsername: bob.publicKey,
+        AmountNanos: 5000,
+      },
+      { broadcast: false, checkPermissions: false }
+    );
+    node.mineBlocks(300);
+
+    await expect(
+      client.identity.submitTx(
+        await signTransactionOffline(
+          constructedTransactionResponse.TransactionHex,
+          alice.seedHex
+        )
+      )
+    ).rejects.toThrow('RuleErrorNonceExpired');
+  });
+});
@@ -0,0 +1,767 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { verify } from '@noble/secp256k1';
+import {
+  ConstructedTransactionResponse,
+  GetAppStateResponse,
+  PostEntryResponse,
+  ProfileEntryResponse,
+  SubmitTransactionResponse,
+  User,
+} from '../backend-types/index.js';
+import { FetchFunction, createFetchResponse } from '../data/index.js';
+import {
+  Network,
+  Transaction,
+  TransactionMetadataAuthorizeDerivedKey,
+  TransactionMetadataFollow,
+  TransactionMetadataSubmitPost,
+  TransactionMetadataUpdateProfile,
+  TransactionToMsgDeSoTxn,
+  bs58PublicKeyToCompressedBytes,
+  decodeBytesToUTF8,
+  encodeUTF8ToBytes,
+  parseJSON,
+  publicKeyToBase58Check,
+  sha256X2,
+  stringifyJSON,
+  uint64ToBufBigEndian,
+  verifyTransactionSignature,
+} from '../identity/index.js';
+import { isMaybeDeSoPublicKey } from '../internal.js';
+import { constructAuthorizeDerivedKey } from '../transactions/derived-keys.js';
+import { constructSendDeSoTransaction } from '../transactions/financial.js';
+import {
+  constructFollowTransaction,
+  constructLikeTransaction,
+  constructSubmitPost,
+  constructUpdateProfileTransaction,
+} from '../transactions/social.js';
+
+export interface MockDesoNodeConfig {
+  /**
+   * The starting block height. Defaults to 1000. Use mineBlocks to advance it.
+   */
+  blockHeight?: number;
+  /**
+   * The minimum fee rate enforced on submitted transactions, and used for
+   * constructed transactions that ask for less. Defaults to 1000.
+   */
+  minFeeRateNanosPerKB?: number;
+  /**
+   * The number of blocks until the nonces of constructed transactions expire.
+   * Defaults to 275.
+   */
+  nonceExpirationBlocks?: number;
+  network?: Network;
+  /**
+   * Starting balances in nanos, keyed by public key.
+   */
+  balances?: Record<string, number>;
+}
+
+export interface MockProfile {
+  PublicKeyBase58Check: string;
+  Username: string;
+  Description: string;
+  ProfilePic: string;
+  CreatorBasisPoints: number;
+  IsHidden: boolean;
+}
+
+export interface MockPost {
+  PostHashHex: string;
+  PosterPublicKeyBase58Check: string;
+  ParentStakeID: string;
+  Body: string;
+  ImageURLs: string[] | null;
+  VideoURLs: string[] | null;
+  TimestampNanos: number;
+  IsHidden: boolean;
+  ConfirmationBlockHeight: number;
+}
+
+export interface MockLedger {
+  /**
+   * Public key -> balance in nanos.
+   */
+  balances: Map<string, number>;
+  /**
+   * Public key -> profile.
+   */
+  profiles: Map<string, MockProfile>;
+  /**
+   * Post hash hex -> post.
+   */
+  posts: Map<string, MockPost>;
+  /**
+   * Follower public key -> followed public keys.
+   */
+  follows: Map<string, Set<string>>;
+  /**
+   * Owner public key -> authorized derived public keys.
+   */
+  derivedKeys: Map<string, Set<string>>;
+  /**
+   * `${publicKey}:${partialId}` -> expiration block height, for every nonce
+   * that has been used and not yet expired.
+   */
+  nonces: Map<string, number>;
+  /**
+   * Transaction hash hex -> the submitted transaction.
+   */
+  transactions: Map<string, { TransactionHex: string; BlockHeight: number }>;
+}
+
+type RouteHandler = (body: any) => any;
+
+/**
+ * Thrown by route handlers to respond with an error status. The message is
+ * sent back in the error field, the same way the node reports errors.
+ */
+class MockNodeRequestError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const respond = (status: number, body: any) =>
+  createFetchResponse(
+    status,
+    body === null || body === undefined ? '' : stringifyJSON(body),
+    status === 404 ? 'Not Found' : ''
+  );
+
+const parseBody = (body: any) => {
+  if (typeof body !== 'string' || body.length === 0) {
+    return {};
+  }
+
+  try {
+    return parseJSON(body);
+  } catch (e) {
+    throw new MockNodeRequestError('Invalid JSON request body');
+  }
+};
+
+/**
+ * An in-process stand-in for a DeSo node. It implements the endpoints this
+ * library calls to read app state and profiles, construct the common social
+ * and transfer transactions, and submit them, backed by a simple in-memory
+ * ledger. Submitted transactions are decoded and checked with the library's
+ * own transcoders: signatures (including derived key authorization), nonces,
+ * fees and balances are validated before the ledger is updated.
+ *
+ * Point a client at it by passing its fetch to configure or createDesoClient.
+ * Requests are routed by path, so any nodeURI works.
+ *
+ * It is not part of the main entry so it stays out of application bundles.
+ * Import it from `deso-protocol/mock-node` instead.
+ *
+ * @example
+ * ```ts
+ * import { MockDesoNode } from 'deso-protocol/mock-node';
+ *
+ * const node = new MockDesoNode({ balances: { [publicKey]: 1e9 } });
+ * configure({ fetch: node.fetch });
+ *
+ * await sendDeso(params, { signer, checkPermissions: false });
+ * node.getBalance(recipient); // => params.AmountNanos
+ * ```
+ */
+export class MockDesoNode {
+  readonly ledger: MockLedger = {
+    balances: new Map(),
+    profiles: new Map(),
+    posts: new Map(),
+    follows: new Map(),
+    derivedKeys: new Map(),
+    nonces: new Map(),
+    transactions: new Map(),
+  };
+  blockHeight: number;
+  minFeeRateNanosPerKB: number;
+  #nonceExpirationBlocks: number;
+  #network: Network;
+  #nextPartialId = 1;
+  #routes: Record<string, RouteHandler> = {
+    'api/v0/health-check': () => null,
+    'api/v0/get-app-state': () => this.#getAppState(),
+    'api/v0/get-txn': ({ TxnHashHex }) => ({
+      TxnFound: this.ledger.transactions.has(TxnHashHex),
+    }),
+    'api/v0/submit-transaction': ({ TransactionHex }) =>
+      this.submitTransaction(TransactionHex),
+    'api/v0/get-single-profile': (body) => this.#getSingleProfile(body),
+    'api/v0/get-users-stateless': ({ PublicKeysBase58Check }) => ({
+      UserList: (PublicKeysBase58Check ?? []).map((publicKey: string) =>
+        this.#getUser(publicKey)
+      ),
+    }),
+    'api/v0/get-access-bytes': (body) => this.#getAccessBytes(body),
+    'api/v0/send-deso': (params) =>
+      this.#construct(params.SenderPublicKeyBase58Check, params, (p) =>
+        constructSendDeSoTransaction({
+          ...p,
+          RecipientPublicKeyOrUsername: this.#resolvePublicKey(
+            p.RecipientPublicKeyOrUsername
+          ),
+        })
+      ),
+    'api/v0/submit-post': (params) =>
+      this.#construct(
+        params.UpdaterPublicKeyBase58Check,
+        params,
+        constructSubmitPost
+      ),
+    'api/v0/update-profile': (params) =>
+      this.#construct(
+        params.UpdaterPublicKeyBase58Check,
+        params,
+        constructUpdateProfileTransaction
+      ),
+    'api/v0/create-follow-txn-stateless': (params) =>
+      this.#construct(params.FollowerPublicKeyBase58Check, params, (p) =>
+        constructFollowTransaction({
+          ...p,
+          FollowedPublicKeyBase58Check: this.#resolvePublicKey(
+            p.FollowedPublicKeyBase58Check ?? p.FollowedUsername
+          ),
+        })
+      ),
+    'api/v0/create-like-stateless': (params) =>
+      this.#construct(
+        params.ReaderPublicKeyBase58Check,
+        params,
+        constructLikeTransaction
+      ),
+    'api/v0/authorize-derived-key': (params) =>
+      this.#construct(
+        params.OwnerPublicKeyBase58Check,
+        params,
+        constructAuthorizeDerivedKey
+      ),
+  };
+
+  constructor({
+    blockHeight = 1000,
+    minFeeRateNanosPerKB = 1000,
+    nonceExpirationBlocks = 275,
+    network = 'mainnet',
+    balances = {},
+  }: MockDesoNodeConfig = {}) {
+    this.blockHeight = blockHeight;
+    this.minFeeRateNanosPerKB = minFeeRateNanosPerKB;
+    this.#nonceExpirationBlocks = nonceExpirationBlocks;
+    this.#network = network;
+    Object.entries(balances).forEach(([publicKey, nanos]) =>
+      this.setBalance(publicKey, nanos)
+    );
+  }
+
+  /**
+   * A fetch implementation that serves requests from this node. Unknown
+   * endpoints respond with a 404.
+   */
+  fetch: FetchFunction = async (url, init = {}) => {
+    const path = url
+      .replace(/^https?:\/\/[^/]+/, '')
+      .replace(/[?#].*$/, '')
+      .replace(/^\/+/, '');
+    const handler = this.#routes[path];
+
+    if (!handler) {
+      return respond(404, { error: `MockDesoNode: ${path} is not supported` });
+    }
+
+    try {
+      return respond(200, await handler(parseBody(init.body)));
+    } catch (e: any) {
+      return respond(e instanceof MockNodeRequestError ? e.status : 500, {
+        error: e?.message ?? String(e),
+      });
+    }
+  };
+
+  setBalance(publicKey: string, nanos: number) {
+    this.ledger.balances.set(publicKey, nanos);
+  }
+
+  getBalance(publicKey: string) {
+    return this.ledger.balances.get(publicKey) ?? 0;
+  }
+
+  /**
+   * Advances the block height, which expires nonces and lets their partial
+   * ids be used again.
+   */
+  mineBlocks(count = 1) {
+    this.blockHeight += count;
+    this.ledger.nonces.forEach((expiration, key) => {
+      if (expiration < this.blockHeight) {
+        this.ledger.nonces.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Validates a signed transaction and applies it to the ledger. This is what
+   * the submit-transaction endpoint calls.
+   */
+  submitTransaction(TransactionHex: string): SubmitTransactionResponse {
+    let txn: Transaction;
+    try {
+      [txn] = Transaction.fromBytes(hexToBytes(TransactionHex)) as [
+        Transaction,
+        Uint8Array
+      ];
+    } catch (e) {
+      throw new MockNodeRequestError('Could not decode transaction');
+    }
+
+    const TxnHashHex = bytesToHex(sha256X2(hexToBytes(TransactionHex)));
+    if (this.ledger.transactions.has(TxnHashHex)) {
+      throw new MockNodeRequestError('TxErrorDuplicate');
+    }
+
+    const publicKey = this.#toBase58(txn.publicKey);
+    this.#validateSignature(TransactionHex, txn, publicKey);
+    const nonceKey = this.#validateNonce(txn, publicKey);
+    this.#validateFee(txn);
+
+    const outputs = txn.outputs.map((output) => ({
+      publicKey: this.#toBase58(output.publicKey),
+      amountNanos: Number(output.amountNanos),
+    }));
+    const totalSpend = outputs.reduce(
+      (total, { amountNanos }) => total + amountNanos,
+      txn.feeNanos
+    );
+    if (this.getBalance(publicKey) < totalSpend) {
+      throw new MockNodeRequestError('RuleErrorInsufficientBalance');
+    }
+
+    // Everything that can fail is checked before any state is changed.
+    const applyMetadata = this.#prepareMetadata(txn, publicKey, TxnHashHex);
+
+    this.setBalance(publicKey, this.getBalance(publicKey) - totalSpend);
+    outputs.forEach(({ publicKey: recipient, amountNanos }) =>
+      this.setBalance(recipient, this.getBalance(recipient) + amountNanos)
+    );
+    this.ledger.nonces.set(nonceKey, txn.nonce?.expirationBlockHeight ?? 0);
+    this.ledger.transactions.set(TxnHashHex, {
+      TransactionHex,
+      BlockHeight: this.blockHeight,
+    });
+    const post = applyMetadata();
+
+    return {
+      Transaction: TransactionToMsgDeSoTxn(txn),
+      TxnHashHex,
+      PostEntryResponse: post ? this.#toPostEntryResponse(post) : null,
+    };
+  }
+
+  #toBase58(publicKey: Uint8Array) {
+    return publicKeyToBase58Check(publicKey, { network: this.#network });
+  }
+
+  #findProfileByUsername(username: string) {
+    const lowerCaseUsername = username.toLowerCase();
+    return Array.from(this.ledger.profiles.values()).find(
+      ({ Username }) => Username.toLowerCase() === lowerCaseUsername
+    );
+  }
+
+  #resolvePublicKey(publicKeyOrUsername: string) {
+    if (isMaybeDeSoPublicKey(publicKeyOrUsername)) {
+      return publicKeyOrUsername;
+    }
+
+    const profile = this.#findProfileByUsername(publicKeyOrUsername ?? '');
+    if (!profile) {
+      throw new MockNodeRequestError(
+        `Could not find profile for username ${publicKeyOrUsername}`
+      );
+    }
+
+    return profile.PublicKeyBase58Check;
+  }
+
+  #getAppState(): Partial<GetAppStateResponse> {
+    return {
+      BlockHeight: this.blockHeight,
+      IsTestnet: this.#network === 'testnet',
+      DefaultFeeRateNanosPerKB: this.minFeeRateNanosPerKB,
+      MinSatoshisBurnedForProfileCreation: 0,
+      CreateProfileFeeNanos: 0,
+      TransactionFeeMap: {},
+    };
+  }
+
+  #getSingleProfile({
+    PublicKeyBase58Check,
+    Username,
+  }: {
+    PublicKeyBase58Check?: string;
+    Username?: string;
+  }) {
+    const profile = PublicKeyBase58Check
+      ? this.ledger.profiles.get(PublicKeyBase58Check)
+      : this.#findProfileByUsername(Username ?? '');
+
+    if (!profile) {
+      throw new MockNodeRequestError(
+        'GetSingleProfile: could not find profile for username or public key',
+        404
+      );
+    }
+
+    return {
+      Profile: this.#toProfileEntryResponse(profile),
+      IsBlacklisted: false,
+      IsGraylisted: false,
+    };
+  }
+
+  #getUser(publicKey: string): Partial<User> {
+    const profile = this.ledger.profiles.get(publicKey);
+
+    return {
+      PublicKeyBase58Check: publicKey,
+      ProfileEntryResponse: profile
+        ? this.#toProfileEntryResponse(profile)
+        : null,
+      BalanceNanos: this.getBalance(publicKey),
+      UnminedBalanceNanos: 0,
+      PublicKeysBase58CheckFollowedByUser: Array.from(
+        this.ledger.follows.get(publicKey) ?? []
+      ),
+      CanCreateProfile: true,
+      BlockedPubKeys: {},
+      IsBlacklisted: false,
+      IsGraylisted: false,
+    };
+  }
+
+  /**
+   * The real node encodes the spending limit with its binary transcoder. We
+   * only need the bytes to be deterministic, so the JSON is used instead.
+   */
+  #getAccessBytes({
+    DerivedPublicKeyBase58Check,
+    ExpirationBlock,
+    TransactionSpendingLimit,
+  }: {
+    DerivedPublicKeyBase58Check: string;
+    ExpirationBlock: number;
+    TransactionSpendingLimit?: any;
+  }) {
+    const transactionSpendingLimitBytes = encodeUTF8ToBytes(
+      stringifyJSON(TransactionSpendingLimit ?? {})
+    );
+
+    return {
+      TransactionSpendingLimitHex: bytesToHex(transactionSpendingLimitBytes),
+      AccessBytesHex: bytesToHex(
+        new Uint8Array([
+          ...bs58PublicKeyToCompressedBytes(DerivedPublicKeyBase58Check),
+          ...uint64ToBufBigEndian(ExpirationBlock),
+          ...transactionSpendingLimitBytes,
+        ])
+      ),
+    };
+  }
+
+  /**
+   * Constructs a transaction with the library's own construction functions,
+   * using a nonce and fee rate from this node.
+   */
+  #construct<T extends Record<string, any>>(
+    publicKey: string,
+    params: T,
+    constructionFunction: (
+      params: T & Record<string, any>
+    ) => Promise<ConstructedTransactionResponse>
+  ) {
+    if (!publicKey) {
+      throw new MockNodeRequestError('Missing transactor public key');
+    }
+
+    return constructionFunction({
+      ...params,
+      MinFeeRateNanosPerKB: Math.max(
+        params.MinFeeRateNanosPerKB ?? 0,
+        this.minFeeRateNanosPerKB
+      ),
+      Nonce: {
+        ExpirationBlockHeight: this.blockHeight + this.#nonceExpirationBlocks,
+        PartialID: this.#nextPartialId++,
+      },
+    });
+  }
+
+  #validateSignature(
+    TransactionHex: string,
+    txn: Transaction,
+    publicKey: string
+  ) {
+    const verification = verifyTransactionSignature(TransactionHex, {
+      network: this.#network,
+    });
+
+    if (verification.status === 'unverifiable') {
+      // Without DerivedPublicKey extra data the node checks the signature
+      // against the keys that could have signed it: the key being authorized
+      // or one of the owner's derived keys.
+      const candidates = [
+        ...(txn.metadata instanceof TransactionMetadataAuthorizeDerivedKey
+          ? [this.#toBase58(txn.metadata.derivedPublicKey)]
+          : []),
+        ...(this.ledger.derivedKeys.get(publicKey) ?? []),
+      ];
+      const isValid = candidates.some(
+        (expectedSignerPublicKeyBase58Check) =>
+          verifyTransactionSignature(TransactionHex, {
+            network: this.#network,
+            expectedSignerPublicKeyBase58Check,
+          }).isValid
+      );
+
+      if (!isValid) {
+        throw new MockNodeRequestError('RuleErrorDerivedKeyNotAuthorized');
+      }
+
+      return;
+    }
+
+    const { isValid, isDerivedKeySignature, signerPublicKeyBase58Check } =
+      verification;
+
+    if (!isValid || !signerPublicKeyBase58Check) {
+      throw new MockNodeRequestError('RuleErrorInvalidTransactionSignature');
+    }
+
+    if (!isDerivedKeySignature) {
+      return;
+    }
+
+    // A derived key is allowed to sign its own authorization.
+    const isAuthorizingSigner =
+      txn.metadata instanceof TransactionMetadataAuthorizeDerivedKey &&
+      this.#toBase58(txn.metadata.derivedPublicKey) ===
+        signerPublicKeyBase58Check;
+
+    if (
+      !isAuthorizingSigner &&
+      !this.ledger.derivedKeys.get(publicKey)?.has(signerPublicKeyBase58Check)
+    ) {
+      throw new MockNodeRequestError('RuleErrorDerivedKeyNotAuthorized');
+    }
+  }
+
+  #validateNonce(txn: Transaction, publicKey: string) {
+    if (!txn.nonce) {
+      throw new MockNodeRequestError('RuleErrorMissingNonce');
+    }
+
+    if (txn.nonce.expirationBlockHeight < this.blockHeight) {
+      throw new MockNodeRequestError('RuleErrorNonceExpired');
+    }
+
+    const nonceKey = `${publicKey}:${txn.nonce.partialId}`;
+    if (this.ledger.nonces.has(nonceKey)) {
+      throw new MockNodeRequestError('RuleErrorReusedNonce');
+    }
+
+    return nonceKey;
+  }
+
+  /**
+   * Checks the fee the same way computeFee estimates it: the unsigned size
+   * plus a typical signature.
+   */
+  #validateFee(txn: Transaction) {
+    const unsignedSize = new Transaction({
+      ...txn,
+      signature: new Uint8Array(0),
+    }).toBytes().length;
+    const minFeeNanos = Math.ceil(
+      ((unsignedSize + 71) * this.minFeeRateNanosPerKB) / 1000
+    );
+
+    if (txn.feeNanos < minFeeNanos) {
+      throw new MockNodeRequestError(
+        `RuleErrorTxnFeeBelowNetworkMinimum: ${txn.feeNanos} < ${minFeeNanos}`
+      );
+    }
+  }
+
+  /**
+   * Validates the transaction metadata against the ledger and returns a
+   * function that applies it. Returns the post for submit post transactions.
+   */
+  #prepareMetadata(
+    txn: Transaction,
+    publicKey: string,
+    TxnHashHex: string
+  ): () => MockPost | void {
+    const { metadata } = txn;
+
+    if (metadata instanceof TransactionMetadataUpdateProfile) {
+      // The construction functions encode "update my own profile" as zeros.
+      const profilePublicKey = metadata.profilePublicKey.some((b) => b !== 0)
+        ? this.#toBase58(metadata.profilePublicKey)
+        : publicKey;
+      const existing = this.ledger.profiles.get(profilePublicKey);
+      const Username = decodeBytesToUTF8(metadata.newUsername);
+      const usernameOwner = Username && this.#findProfileByUsername(Username);
+
+      if (
+        usernameOwner &&
+        usernameOwner.PublicKeyBase58Check !== profilePublicKey
+      ) {
+        throw new MockNodeRequestError('RuleErrorProfileUsernameExists');
+      }
+      if (!existing && !Username) {
+        throw new MockNodeRequestError('RuleErrorProfileUsernameTooShort');
+      }
+
+      return () => {
+        // Empty fields leave the existing values unchanged, like the node.
+        this.ledger.profiles.set(profilePublicKey, {
+          PublicKeyBase58Check: profilePublicKey,
+          Username: Username || (existing?.Username ?? ''),
+          Description:
+            decodeBytesToUTF8(metadata.newDescription) ||
+            (existing?.Description ?? ''),
+          ProfilePic:
+            decodeBytesToUTF8(metadata.newProfilePic) ||
+            (existing?.ProfilePic ?? ''),
+          CreatorBasisPoints: metadata.newCreatorBasisPoints,
+          IsHidden: metadata.isHidden,
+        });
+      };
+    }
+
+    if (metadata instanceof TransactionMetadataFollow) {
+      const followed = this.#toBase58(metadata.followedPublicKey);
+
+      if (!this.ledger.profiles.has(followed)) {
+        throw new MockNodeRequestError('RuleErrorFollowingNonexistentProfile');
+      }
+
+      return () => {
+        const following = this.ledger.follows.get(publicKey) ?? new Set();
+        if (metadata.isUnfollow) {
+          following.delete(followed);
+        } else {
+          following.add(followed);
+        }
+        this.ledger.follows.set(publicKey, following);
+      };
+    }
+
+    if (metadata instanceof TransactionMetadataSubmitPost) {
+      const PostHashHex = metadata.postHashToModify.length
+        ? bytesToHex(metadata.postHashToModify)
+        : TxnHashHex;
+      const existing = this.ledger.posts.get(PostHashHex);
+
+      if (metadata.postHashToModify.length && !existing) {
+        throw new MockNodeRequestError(
+          'RuleErrorSubmitPostModifyingNonexistentPost'
+        );
+      }
+
+      let body: { Body?: string; ImageURLs?: string[]; VideoURLs?: string[] };
+      try {
+        body = JSON.parse(decodeBytesToUTF8(metadata.body) || '{}');
+      } catch (e) {
+        throw new MockNodeRequestError('RuleErrorSubmitPostInvalidBody');
+      }
+
+      return () => {
+        const post: MockPost = {
+          PostHashHex,
+          PosterPublicKeyBase58Check: publicKey,
+          ParentStakeID: bytesToHex(metadata.parentStakeId),
+          Body: body.Body ?? '',
+          ImageURLs: body.ImageURLs ?? null,
+          VideoURLs: body.VideoURLs ?? null,
+          TimestampNanos: Number(metadata.timestampNanos),
+          IsHidden: metadata.isHidden,
+          ConfirmationBlockHeight:
+            existing?.ConfirmationBlockHeight ?? this.blockHeight,
+        };
+        this.ledger.posts.set(PostHashHex, post);
+        return post;
+      };
+    }
+
+    if (metadata instanceof TransactionMetadataAuthorizeDerivedKey) {
+      const derivedPublicKey = this.#toBase58(metadata.derivedPublicKey);
+      const transactionSpendingLimitKV = txn.extraData?.kvs.find(
+        ({ key }) => decodeBytesToUTF8(key) === 'TransactionSpendingLimit'
+      );
+      const accessBytes = new Uint8Array([
+        ...metadata.derivedPublicKey,
+        ...uint64ToBufBigEndian(metadata.expirationBlock),
+        ...(transactionSpendingLimitKV?.value ?? []),
+      ]);
+
+      if (
+        !verify(
+          metadata.accessSignature,
+          sha256X2(accessBytes),
+          bs58PublicKeyToCompressedBytes(publicKey)
+        )
+      ) {
+        throw new MockNodeRequestError(
+          'RuleErrorAuthorizeDerivedKeyAccessSignatureNotValid'
+        );
+      }
+
+      return () => {
+        const derivedKeys = this.ledger.derivedKeys.get(publicKey) ?? new Set();
+        if (metadata.operationType === 0) {
+          derivedKeys.delete(derivedPublicKey);
+        } else {
+          derivedKeys.add(derivedPublicKey);
+        }
+        this.ledger.derivedKeys.set(publicKey, derivedKeys);
+      };
+    }
+
+    // Other transaction types only move DESO as far as this node is concerned.
+    return () => undefined;
+  }
+
+  #toProfileEntryResponse(profile: MockProfile): ProfileEntryResponse {
+    return {
+      PublicKeyBase58Check: profile.PublicKeyBase58Check,
+      Username: profile.Username,
+      Description: profile.Description,
+      IsHidden: profile.IsHidden,
+      IsReserved: false,
+      IsVerified: false,
+      DESOBalanceNanos: this.getBalance(profile.PublicKeyBase58Check),
+      ExtraData: profile.ProfilePic
+        ? { LargeProfilePicURL: profile.ProfilePic }
+        : {},
+    } as ProfileEntryResponse;
+  }
+
+  #toPostEntryResponse(post: MockPost): PostEntryResponse {
+    const profile = this.ledger.profiles.get(post.PosterPublicKeyBase58Check);
+
+    return {
+      ...post,
+      InMempool: false,
+      LikeCount: 0,
+      DiamondCount: 0,
+      ProfileEntryResponse: profile
+        ? this.#toProfileEntryResponse(profile)
+        : null,
+    } as PostEntryResponse;
+  }
+}
@@ -0,0 +1,178 @@
+import { TransactionMetadataResponse } from './backend-types/index.js';
+import { NotificationsEvent } from './notifications.js';
+import {
+  FakeNodeRequest,
+  createAccount,
+  createFakeNodeClient,
+} from './test-utils.js';
+
+describe('NotificationsService', () => {
+  const user = createAccount();
+  const alice = createAccount();
+  const signer = user.signer;
+
+  const notification = (
+    Index: number,
+    TxnType: string,
+    metadata: Record<string, unknown> = {}
+  ) =>
+    ({
+      Index,
+      Txn: { TransactionIDBase58Check: `txn-${Index}` },
+      TxnOutputResponses: [
+        { PublicKeyBase58Check: user.publicKey, AmountNanos: 5 },
+      ],
+      Metadata: {
+        TxnType,
+        TransactorPublicKeyBase58Check: alice.publicKey,
+        AffectedPublicKeys: [],
+        ...metadata,
+      },
+    } as unknown as TransactionMetadataResponse);
+
+  it('classifies, hydrates and deduplicates notifications', async () => {
+    let notifications = [
+      notification(2, 'LIKE', {
+        LikeTxindexMetadata: { IsUnlike: false, PostHashHex: 'post-1' },
+      }),
+      notification(1, 'LIKE', {
+        LikeTxindexMetadata: { IsUnlike: true, PostHashHex: 'post-1' },
+      }),
+      notification(0, 'FOLLOW', {
+        FollowTxindexMetadata: { IsUnfollow: false },
+      }),
+    ];
+    const calls: FakeNodeRequest[] = [];
+    const client = createFakeNodeClient(
+      {
+        'get-notifications': () => ({
+          Notifications: notifications,
+          ProfilesByPublicKey: {},
+          PostsByHash: {},
+          LastSeenIndex: 0,
+        }),
+        'get-unread-notifications-count': () => ({
+          LastUnreadNotificationIndex: notifications[0].Index,
+        }),
+        'get-users-stateless': () => ({
+          UserList: [
+            {
+              PublicKeyBase58Check: alice.publicKey,
+              ProfileEntryResponse: { Username: 'alice' },
+            },
+          ],
+        }),
+        'get-single-post': ({ PostHashHex }) => ({
+          PostFound: { PostHashHex, Body: 'gm' },
+        }),
+      },
+      { calls }
+    );
+    const service = client.notifications({ signer });
+    const events: NotificationsEvent[] = [];
+    service.subscribe((event) => events.push(event));
+
+    await service.refresh();
+
+    expect(service.getNotifications()).toMatchObject([
+      {
+        id: 'txn-2',
+        kind: 'like',
+        actor: { Username: 'alice' },
+        post: { Body: 'gm' },
+        isRead: false,
+      },
+      { id: 'txn-0', kind: 'follow', isRead: true },
+    ]);
+    expect(service.getUnreadCount()).toEqual(1);
+
+    calls.length = 0;
+    await service.refresh();
+    expect(calls.map(({ endpoint }) => endpoint)).toEqual([
+      'get-unread-notifications-count',
+    ]);
+
+    notifications = [
+      notification(3, 'BASIC_TRANSFER', {
+        BasicTransferTxindexMetadata: { DiamondLevel: 0 },
+      }),
+      ...notifications,
+    ];
+    events.length = 0;
+    await service.refresh();
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: 'notifications',
+      notifications: [{ id: 'txn-3', kind: 'transfer', AmountNanos: 5 }],
+    });
+    // alice's profile was hydrated by the first refresh
+    expect(
+      calls.filter(({ endpoint }) => endpoint === 'get-users-stateless')
+    ).toHaveLength(0);
+  });
+
+  it('updates the read state and backs off while polling fails', async () => {
+    jest.useFakeTimers();
+    let failing = true;
+    const calls: FakeNodeRequest[] = [];
+    const client = createFakeNodeClient(
+      {
+        'get-notifications': () => {
+          if (failing) {
+            throw new Error('node unavailable');
+          }
+          return {
+            Notifications: [
+              notification(1, 'FOLLOW', {
+                FollowTxindexMetadata: { IsUnfollow: false },
+              }),
+            ],
+            ProfilesByPublicKey: {
+              [alice.publicKey]: { Username: 'alice' },
+            },
+            PostsByHash: {},
+            LastSeenIndex: -1,
+          };
+        },
+        'set-notification-metadata': () => ({}),
+      },
+      { calls }
+    );
+    const service = client.notifications({
+      signer,
+      pollIntervalMs: 1000,
+      maxBackoffMs: 3000,
+    });
+    const errors: unknown[] = [];
+    service.subscribe((event) => event.type === 'error' && errors.push(event));
+
+    try {
+      service.start();
+      await jest.advanceTimersByTimeAsync(0);
+      await jest.advanceTimersByTimeAsync(2000);
+      expect(errors).toHaveLength(2);
+
+      failing = false;
+      await jest.advanceTimersByTimeAsync(3000);
+      service.stop();
+      expect(errors).toHaveLength(2);
+      expect(service.getUnreadCount()).toEqual(1);
+
+      await service.markRead();
+
+      const { body } = calls[calls.length - 1];
+      expect(body).toMatchObject({
+        PublicKeyBase58Check: user.publicKey,
+        LastSeenIndex: 1,
+        LastUnreadNotificationIndex: 1,
+        UnreadNotifications: 0,
+      });
+      expect(body.JWT).toBeTruthy();
+      expect(service.getNotifications()[0].isRead).toBe(true);
+    } finally {
+      service.stop();
+      jest.useRealTimers();
+    }
+  });
+});
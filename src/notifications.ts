@@ -0,0 +1,633 @@
+import {
+  GetNotificationsResponse,
+  PostEntryResponse,
+  ProfileEntryResponse,
+  RequestOptions,
+  TransactionMetadataResponse,
+  TransactionType,
+} from './backend-types/index.js';
+import {
+  getNotifications,
+  getSinglePost,
+  getUnreadNotificationsCount,
+  getUsersStateless,
+} from './data/index.js';
+import { Signer } from './identity/index.js';
+import { getClientContext } from './internal.js';
+import { setNotificationMetadata } from './jwt-requests.js';
+
+interface NotificationBase {
+  /**
+   * The hash of the transaction that caused the notification.
+   */
+  id: string;
+  Index: number;
+  TxnType: string;
+  /**
+   * The public key of the user whose transaction caused the notification.
+   */
+  ActorPublicKeyBase58Check: string;
+  actor: ProfileEntryResponse | null;
+  isRead: boolean;
+  raw: TransactionMetadataResponse;
+}
+
+interface PostNotificationBase extends NotificationBase {
+  PostHashHex: string;
+  post: PostEntryResponse | null;
+}
+
+export type DesoNotification =
+  | (NotificationBase & { kind: 'follow' })
+  | (PostNotificationBase & { kind: 'like' })
+  | (PostNotificationBase & { kind: 'diamond'; DiamondLevel: number })
+  | (PostNotificationBase & { kind: 'repost' })
+  | (PostNotificationBase & { kind: 'reply' })
+  | (PostNotificationBase & { kind: 'mention' })
+  | (NotificationBase & { kind: 'transfer'; AmountNanos: number })
+  | (NotificationBase & { kind: 'creator-coin-buy'; DeSoToSellNanos: number })
+  | (NotificationBase & {
+      kind: 'creator-coin-transfer';
+      CreatorUsername: string;
+      CreatorCoinToTransferNanos: number;
+    })
+  | (NotificationBase & {
+      kind: 'dao-coin-transfer';
+      CreatorUsername: string;
+      DAOCoinToTransferNanos: number[];
+    })
+  | (PostNotificationBase & {
+      kind: 'nft-bid';
+      SerialNumber: number;
+      BidAmountNanos: number;
+      IsBuyNowBid: boolean;
+    })
+  | (PostNotificationBase & { kind: 'nft-transfer'; SerialNumber: number })
+  | (NotificationBase & {
+      kind: 'association';
+      target: 'user' | 'post';
+      AssociationType: string;
+      AssociationValue: string;
+      PostHashHex?: string;
+      post?: PostEntryResponse | null;
+    })
+  | (NotificationBase & { kind: 'message' })
+  | (NotificationBase & { kind: 'unknown' });
+
+export type DesoNotificationKind = DesoNotification['kind'];
+
+export type NotificationsEvent =
+  | { type: 'notifications'; notifications: DesoNotification[] }
+  | { type: 'read'; LastSeenIndex: number }
+  | { type: 'error'; error: unknown };
+
+export interface NotificationsServiceOptions
+  extends Pick<RequestOptions, 'client' | 'nodeURI'> {
+  /**
+   * The user to fetch notifications for. Defaults to the public key of the
+   * signer.
+   */
+  PublicKeyBase58Check?: string;
+  /**
+   * The signer used for the jwt that updates the read state. Defaults to the
+   * logged in user.
+   */
+  signer?: Signer;
+  /**
+   * The number of notifications fetched per request. Defaults to 50.
+   */
+  pageSize?: number;
+  /**
+   * How often to poll while started. Defaults to 30000ms.
+   */
+  pollIntervalMs?: number;
+  /**
+   * The longest delay between polls after consecutive failures. Defaults to
+   * 300000ms.
+   */
+  maxBackoffMs?: number;
+  /**
+   * Passed through to getNotifications, e.g. { like: true } to leave out
+   * likes.
+   */
+  FilteredOutNotificationCategories?: Record<string, boolean>;
+}
+
+// Omit that keeps the union, so each kind keeps its own fields.
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+type NotificationDetails = DistributiveOmit<
+  DesoNotification,
+  keyof NotificationBase | 'post'
+>;
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_POLL_INTERVAL_MS = 30 * 1000;
+const DEFAULT_MAX_BACKOFF_MS = 5 * 60 * 1000;
+
+/**
+ * Works out what a notification means for the user it was fetched for.
+ * Returns null for transactions that shouldn't be shown, e.g. unlikes.
+ */
+const classifyNotification = (
+  { Metadata, TxnOutputResponses }: TransactionMetadataResponse,
+  userPublicKey: string
+): NotificationDetails | null => {
+  const affected = (Metadata.AffectedPublicKeys ?? []).find(
+    ({ PublicKeyBase58Check }) => PublicKeyBase58Check === userPublicKey
+  );
+
+  switch (Metadata.TxnType) {
+    case TransactionType.Follow:
+      return Metadata.FollowTxindexMetadata?.IsUnfollow
+        ? null
+        : { kind: 'follow' };
+    case TransactionType.Like:
+      return !Metadata.LikeTxindexMetadata ||
+        Metadata.LikeTxindexMetadata.IsUnlike
+        ? null
+        : {
+            kind: 'like',
+            PostHashHex: Metadata.LikeTxindexMetadata.PostHashHex,
+          };
+    case TransactionType.BasicTransfer: {
+      const { DiamondLevel = 0, PostHashHex = '' } =
+        Metadata.BasicTransferTxindexMetadata ?? {};
+
+      return DiamondLevel > 0
+        ? { kind: 'diamond', DiamondLevel, PostHashHex }
+        : {
+            kind: 'transfer',
+            AmountNanos: (TxnOutputResponses ?? [])
+              .filter(
+                ({ PublicKeyBase58Check }) =>
+                  PublicKeyBase58Check === userPublicKey
+              )
+              .reduce((sum, { AmountNanos }) => sum + AmountNanos, 0),
+          };
+    }
+    case TransactionType.SubmitPost: {
+      const PostHashHex =
+        Metadata.SubmitPostTxindexMetadata?.PostHashBeingModifiedHex ?? '';
+
+      switch (affected?.Metadata) {
+        case 'MentionedPublicKeyBase58Check':
+          return { kind: 'mention', PostHashHex };
+        case 'RepostedPublicKeyBase58Check':
+          return { kind: 'repost', PostHashHex };
+        case 'ParentPosterPublicKeyBase58Check':
+          return { kind: 'reply', PostHashHex };
+        default:
+          return { kind: 'unknown' };
+      }
+    }
+    case TransactionType.CreatorCoin:
+      return Metadata.CreatorCoinTxindexMetadata?.OperationType === 'buy'
+        ? {
+            kind: 'creator-coin-buy',
+            DeSoToSellNanos:
+              Metadata.CreatorCoinTxindexMetadata.DeSoToSellNanos,
+          }
+        : { kind: 'unknown' };
+    case TransactionType.CreatorCoinTransfer: {
+      const metadata = Metadata.CreatorCoinTransferTxindexMetadata;
+
+      if (!metadata) {
+        return { kind: 'unknown' };
+      }
+
+      return metadata.DiamondLevel > 0
+        ? {
+            kind: 'diamond',
+            DiamondLevel: metadata.DiamondLevel,
+            PostHashHex: metadata.PostHashHex,
+          }
+        : {
+            kind: 'creator-coin-transfer',
+            CreatorUsername: metadata.CreatorUsername,
+            CreatorCoinToTransferNanos: metadata.CreatorCoinToTransferNanos,
+          };
+    }
+    case TransactionType.DAOCoinTransfer:
+      return Metadata.DAOCoinTransferTxindexMetadata
+        ? {
+            kind: 'dao-coin-transfer',
+            CreatorUsername:
+              Metadata.DAOCoinTransferTxindexMetadata.CreatorUsername,
+            DAOCoinToTransferNanos:
+              Metadata.DAOCoinTransferTxindexMetadata.DAOCoinToTransferNanos,
+          }
+        : { kind: 'unknown' };
+    case TransactionType.NFTBid:
+      return Metadata.NFTBidTxindexMetadata
+        ? {
+            kind: 'nft-bid',
+            PostHashHex: Metadata.NFTBidTxindexMetadata.NFTPostHashHex,
+            SerialNumber: Metadata.NFTBidTxindexMetadata.SerialNumber,
+            BidAmountNanos: Metadata.NFTBidTxindexMetadata.BidAmountNanos,
+            IsBuyNowBid: Metadata.NFTBidTxindexMetadata.IsBuyNowBid,
+          }
+        : { kind: 'unknown' };
+    case TransactionType.NFTTransfer:
+      return Metadata.NFTTransferTxindexMetadata
+        ? {
+            kind: 'nft-transfer',
+            PostHashHex: Metadata.NFTTransferTxindexMetadata.NFTPostHashHex,
+            SerialNumber: Metadata.NFTTransferTxindexMetadata.SerialNumber,
+          }
+        : { kind: 'unknown' };
+    case TransactionType.CreateUserAssociation:
+      return Metadata.CreateUserAssociationTxindexMetadata
+        ? {
+            kind: 'association',
+            target: 'user',
+            AssociationType:
+              Metadata.CreateUserAssociationTxindexMetadata.AssociationType,
+            AssociationValue:
+              Metadata.CreateUserAssociationTxindexMetadata.AssociationValue,
+          }
+        : { kind: 'unknown' };
+    case TransactionType.CreatePostAssociation:
+      return Metadata.CreatePostAssociationTxindexMetadata
+        ? {
+            kind: 'association',
+            target: 'post',
+            AssociationType:
+              Metadata.CreatePostAssociationTxindexMetadata.AssociationType,
+            AssociationValue:
+              Metadata.CreatePostAssociationTxindexMetadata.AssociationValue,
+            PostHashHex:
+              Metadata.CreatePostAssociationTxindexMetadata.PostHashHex,
+          }
+        : { kind: 'unknown' };
+    case TransactionType.NewMessage:
+    case TransactionType.PrivateMessage:
+      return { kind: 'message' };
+    default:
+      return { kind: 'unknown' };
+  }
+};
+
+const postHashOf = (details: NotificationDetails | null) =>
+  details && 'PostHashHex' in details ? details.PostHashHex ?? '' : '';
+
+const notificationId = ({ Txn, Index }: TransactionMetadataResponse) =>
+  Txn?.TransactionIDBase58Check ?? `index:${Index}`;
+
+/**
+ * Polls the node for a user's notifications and keeps them in memory as
+ * typed notifications, newest first. Notifications are deduplicated by
+ * transaction hash, and the profile of the user who caused each one, plus
+ * the post it is about, are hydrated from the response or fetched with
+ * getUsersStateless and getSinglePost. Read state is the node's: everything
+ * up to LastSeenIndex is read, and marking notifications read updates it
+ * with setNotificationMetadata.
+ * @example
+ * ```ts
+ * const notifications = new NotificationsService();
+ *
+ * notifications.subscribe((event) => {
+ *   if (event.type === 'notifications') render(event.notifications);
+ * });
+ * notifications.start();
+ * ```
+ */
+export class NotificationsService {
+  #options: NotificationsServiceOptions;
+  #pageSize: number;
+  #listeners = new Set<(event: NotificationsEvent) => void>();
+  #notifications = new Map<string, DesoNotification>();
+  #profiles = new Map<string, ProfileEntryResponse | null>();
+  #posts = new Map<string, PostEntryResponse | null>();
+  #lastSeenIndex = -1;
+  #pendingRefresh: Promise<DesoNotification[]> | null = null;
+  #timeoutId: ReturnType<typeof setTimeout> | undefined;
+  #failures = 0;
+  #started = false;
+
+  constructor(options: NotificationsServiceOptions = {}) {
+    this.#options = options;
+    this.#pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  /**
+   * Calls the listener with new notifications, read state changes and poll
+   * errors. Returns a function that removes the listener.
+   */
+  subscribe(listener: (event: NotificationsEvent) => void) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Returns the notifications fetched so far, newest first.
+   */
+  getNotifications(kinds?: DesoNotificationKind[]): DesoNotification[] {
+    return Array.from(this.#notifications.values())
+      .filter(({ kind }) => !kinds || kinds.includes(kind))
+      .sort((a, b) => b.Index - a.Index);
+  }
+
+  /**
+   * The number of fetched notifications that are not read yet.
+   */
+  getUnreadCount(): number {
+    return this.getNotifications().filter(({ isRead }) => !isRead).length;
+  }
+
+  /**
+   * Starts polling. After a failed poll, the next one is delayed
+   * exponentially up to maxBackoffMs.
+   */
+  start() {
+    if (!this.#started) {
+      this.#started = true;
+      this.#poll();
+    }
+  }
+
+  stop() {
+    this.#started = false;
+    clearTimeout(this.#timeoutId);
+  }
+
+  /**
+   * Fetches notifications newer than the ones already fetched. Concurrent
+   * calls share the same request. Resolves to the new notifications.
+   */
+  refresh(): Promise<DesoNotification[]> {
+    if (!this.#pendingRefresh) {
+      this.#pendingRefresh = this.#refresh().finally(() => {
+        this.#pendingRefresh = null;
+      });
+    }
+
+    return this.#pendingRefresh;
+  }
+
+  /**
+   * Fetches up to one page of notifications older than the oldest one
+   * fetched so far. Resolves to the notifications that were added.
+   */
+  async loadOlder(): Promise<DesoNotification[]> {
+    const indexes = Array.from(this.#notifications.values()).map(
+      ({ Index }) => Index
+    );
+
+    if (indexes.length && Math.min(...indexes) <= 0) {
+      return [];
+    }
+
+    const res = await this.#fetchPage(
+      indexes.length ? Math.min(...indexes) - 1 : -1
+    );
+
+    return this.#ingest(res);
+  }
+
+  /**
+   * Marks every notification up to and including the given index as read,
+   * or all of them if no index is given.
+   */
+  async markRead(upToIndex?: number) {
+    const latestIndex = this.getNotifications()[0]?.Index ?? -1;
+    const LastSeenIndex = Math.min(upToIndex ?? latestIndex, latestIndex);
+
+    if (LastSeenIndex <= this.#lastSeenIndex) {
+      return;
+    }
+
+    await setNotificationMetadata(
+      {
+        PublicKeyBase58Check: await this.#getPublicKey(),
+        LastSeenIndex,
+        LastUnreadNotificationIndex: latestIndex,
+        UnreadNotifications: this.getNotifications().filter(
+          ({ Index }) => Index > LastSeenIndex
+        ).length,
+      },
+      { ...this.#requestOptions(), signer: this.#options.signer }
+    );
+
+    this.#setLastSeenIndex(LastSeenIndex);
+  }
+
+  async #refresh() {
+    const known = this.getNotifications()[0]?.Index ?? -1;
+
+    if (known >= 0) {
+      const { LastUnreadNotificationIndex } = await getUnreadNotificationsCount(
+        { PublicKeyBase58Check: await this.#getPublicKey() },
+        this.#requestOptions()
+      );
+
+      if (LastUnreadNotificationIndex <= known) {
+        return [];
+      }
+    }
+
+    const added: DesoNotification[] = [];
+    let FetchStartIndex = -1;
+
+    // Page back until we reach notifications we already have.
+    for (;;) {
+      const res = await this.#fetchPage(FetchStartIndex);
+      const page = res.Notifications ?? [];
+      added.push(...(await this.#ingest(res, false)));
+
+      const oldest = Math.min(...page.map(({ Index }) => Index));
+
+      // The first refresh only fetches the latest page, older ones are
+      // loaded with loadOlder.
+      if (known < 0 || page.length < this.#pageSize || oldest <= known + 1) {
+        break;
+      }
+
+      FetchStartIndex = oldest - 1;
+    }
+
+    if (added.length) {
+      this.#emit({ type: 'notifications', notifications: added });
+    }
+
+    return added;
+  }
+
+  #poll() {
+    this.refresh().then(
+      () => {
+        this.#failures = 0;
+        this.#scheduleNextPoll();
+      },
+      (error) => {
+        this.#failures++;
+        this.#emit({ type: 'error', error });
+        this.#scheduleNextPoll();
+      }
+    );
+  }
+
+  #scheduleNextPoll() {
+    if (!this.#started) {
+      return;
+    }
+
+    const interval = this.#options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    const delay = Math.min(
+      interval * 2 ** this.#failures,
+      this.#options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS
+    );
+
+    clearTimeout(this.#timeoutId);
+    this.#timeoutId = setTimeout(() => this.#poll(), delay);
+  }
+
+  async #fetchPage(FetchStartIndex: number) {
+    return getNotifications(
+      {
+        PublicKeyBase58Check: await this.#getPublicKey(),
+        FetchStartIndex,
+        NumToFetch: this.#pageSize,
+        FilteredOutNotificationCategories:
+          this.#options.FilteredOutNotificationCategories ?? {},
+      },
+      this.#requestOptions()
+    );
+  }
+
+  async #ingest(
+    {
+      Notifications,
+      ProfilesByPublicKey,
+      PostsByHash,
+      LastSeenIndex,
+    }: GetNotificationsResponse,
+    emit = true
+  ): Promise<DesoNotification[]> {
+    const userPublicKey = await this.#getPublicKey();
+    const fresh = (Notifications ?? [])
+      .filter((raw) => !this.#notifications.has(notificationId(raw)))
+      .map((raw) => ({
+        raw,
+        details: classifyNotification(raw, userPublicKey),
+      }))
+      .filter(({ details }) => !!details);
+
+    Object.entries(ProfilesByPublicKey ?? {}).forEach(([publicKey, profile]) =>
+      this.#profiles.set(publicKey, profile)
+    );
+    Object.entries(PostsByHash ?? {}).forEach(([postHashHex, post]) =>
+      this.#posts.set(postHashHex, post)
+    );
+    await this.#hydrate(
+      fresh.map(({ raw }) => raw.Metadata.TransactorPublicKeyBase58Check),
+      fresh.map(({ details }) => postHashOf(details))
+    );
+
+    if (typeof LastSeenIndex === 'number') {
+      this.#lastSeenIndex = Math.max(this.#lastSeenIndex, LastSeenIndex);
+    }
+
+    const added = fresh.map(({ raw, details }) => {
+      const notification = {
+        ...details,
+        id: notificationId(raw),
+        Index: raw.Index,
+        TxnType: raw.Metadata.TxnType,
+        ActorPublicKeyBase58Check: raw.Metadata.TransactorPublicKeyBase58Check,
+        actor:
+          this.#profiles.get(raw.Metadata.TransactorPublicKeyBase58Check) ??
+          null,
+        isRead: raw.Index <= this.#lastSeenIndex,
+        raw,
+        ...(postHashOf(details)
+          ? { post: this.#posts.get(postHashOf(details)) ?? null }
+          : {}),
+      } as DesoNotification;
+
+      this.#notifications.set(notification.id, notification);
+      return notification;
+    });
+
+    if (emit && added.length) {
+      this.#emit({ type: 'notifications', notifications: added });
+    }
+
+    return added;
+  }
+
+  /**
+   * Fetches the profiles and posts that weren't included in the
+   * notifications response. Missing posts, e.g. deleted ones, are cached as
+   * null.
+   */
+  async #hydrate(publicKeys: string[], postHashes: string[]) {
+    const missingProfiles = Array.from(new Set(publicKeys)).filter(
+      (publicKey) => publicKey && !this.#profiles.has(publicKey)
+    );
+    const missingPosts = Array.from(new Set(postHashes)).filter(
+      (postHashHex) => postHashHex && !this.#posts.has(postHashHex)
+    );
+
+    await Promise.all([
+      missingProfiles.length
+        ? getUsersStateless(
+            {
+              PublicKeysBase58Check: missingProfiles,
+              SkipForLeaderboard: true,
+            },
+            this.#requestOptions()
+          ).then(({ UserList }) => {
+            missingProfiles.forEach((publicKey) =>
+              this.#profiles.set(
+                publicKey,
+                UserList?.find(
+                  ({ PublicKeyBase58Check }) =>
+                    PublicKeyBase58Check === publicKey
+                )?.ProfileEntryResponse ?? null
+              )
+            );
+          })
+        : null,
+      ...missingPosts.map((PostHashHex) =>
+        getSinglePost({ PostHashHex }, this.#requestOptions()).then(
+          ({ PostFound }) => this.#posts.set(PostHashHex, PostFound),
+          () => this.#posts.set(PostHashHex, null)
+        )
+      ),
+    ]);
+  }
+
+  #setLastSeenIndex(LastSeenIndex: number) {
+    this.#lastSeenIndex = LastSeenIndex;
+    this.#notifications.forEach((notification, id) => {
+      this.#notifications.set(id, {
+        ...notification,
+        isRead: notification.Index <= LastSeenIndex,
+      });
+    });
+    this.#emit({ type: 'read', LastSeenIndex });
+  }
+
+  #requestOptions() {
+    return { client: this.#options.client, nodeURI: this.#options.nodeURI };
+  }
+
+  async #getPublicKey() {
+    return (
+      this.#options.PublicKeyBase58Check ??
+      (
+        this.#options.signer ??
+        getClientContext(this.#options).identity.signer()
+      ).getPublicKey()
+    );
+  }
+
+  #emit(event: NotificationsEvent) {
+    this.#listeners.forEach((listener) => listener(event));
+  }
+}
@@ -1,4 +1,13 @@
-import { APIProvider, AsyncStorage } from './identity/index.js';
+import { DesoClient, createDesoClient } from './client.js';
+import { FetchResponse, createFetchResponse } from './data/index.js';
+import { DesoProtocolConfiguration } from './deso-protocol.js';
+import {
+  APIProvider,
+  AsyncStorage,
+  createSeedSigner,
+  keygen,
+  publicKeyToBase58Check,
+} from './identity/index.js';
 
 class LocalStorageFake implements Storage {
   db: Record<string, string> = {};
@@ -79,3 +88,88 @@ export function getAPIFake(overrides: Partial<APIProvider> = {}): APIProvider {
     ...overrides,
   };
 }
+
+/**
+ * Creates a random account with its base58 public key and a seed signer.
+ */
+export function createAccount() {
+  const keys = keygen();
+
+  return {
+    ...keys,
+    publicKey: publicKeyToBase58Check(keys.public),
+    signer: createSeedSigner({ seedHex: keys.seedHex }),
+  };
+}
+
+/**
+ * Resolves to a fetch response with the given body as json.
+ */
+export function jsonResponse(
+  body: unknown,
+  status = 200
+): Promise<FetchResponse> {
+  return Promise.resolve(
+    createFetchResponse(
+      status,
+      JSON.stringify(body),
+      status < 300 ? '' : 'error'
+    )
+  );
+}
+
+/**
+ * A request received by a fake node client. The body is the parsed json body,
+ * or empty for requests without one, like uploads.
+ */
+export interface FakeNodeRequest {
+  endpoint: string;
+  body: Record<string, any>;
+}
+
+/**
+ * Responds to requests for an endpoint, keyed by the last segment of its path.
+ */
+export type FakeNodeResponses = Record<
+  string,
+  (body: FakeNodeRequest['body']) => unknown
+>;
+
+export interface FakeNodeClientOptions extends DesoProtocolConfiguration {
+  /**
+   * Collects each request the client makes, in order.
+   */
+  calls?: FakeNodeRequest[];
+  /**
+   * Responds to endpoints that are not in the responses. Without it, requests
+   * to those endpoints fail.
+   */
+  fallback?: (endpoint: string, body: FakeNodeRequest['body']) => unknown;
+}
+
+/**
+ * Creates a client whose node responds with the given responses. Use
+ * MockDesoNode instead for tests that need transactions to be validated and
+ * applied.
+ */
+export function createFakeNodeClient(
+  responses: FakeNodeResponses,
+  { calls = [], fallback, ...options }: FakeNodeClientOptions = {}
+): DesoClient {
+  return createDesoClient({
+    ...options,
+    fetch: (url: string, init?: { body?: unknown }) => {
+      const endpoint = url.split('/').pop() as string;
+      const body = typeof init?.body === 'string' ? JSON.parse(init.body) : {};
+      calls.push({ endpoint, body });
+
+      const respond =
+        responses[endpoint] ??
+        (fallback && ((body) => fallback(endpoint, body)));
+
+      return respond
+        ? jsonResponse(respond(body))
+        : Promise.reject(new Error(`unexpected request: ${endpoint}`));
+    },
+  });
+}
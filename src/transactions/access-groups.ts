@@ -40,7 +40,8 @@ const buildAccessGroupMetadata = (params: CreateAccessGroupRequestParams) => {
 };
 
 export const constructCreateAccessGroupTransaction = (
-  params: CreateAccessGroupRequestParams
+  params: CreateAccessGroupRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.AccessGroupOwnerPublicKeyBase58Check,
@@ -49,7 +50,9 @@ export const constructCreateAccessGroupTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -80,32 +83,35 @@ export const createAccessGroup = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      // NOTE: This is more permissive than we actually need it to be, but I
-      // couldn't get it to work when specifying the AccessGroupKeyName and
-      // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
-      // revisit it, but this is not a terribly sensitive permission to grant.
-      AccessGroupLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-      AccessGroupMemberLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        // NOTE: This is more permissive than we actually need it to be, but I
+        // couldn't get it to work when specifying the AccessGroupKeyName and
+        // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
+        // revisit it, but this is not a terribly sensitive permission to grant.
+        AccessGroupLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+        AccessGroupMemberLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/create-access-group', params, {
@@ -137,7 +143,8 @@ export const updateAccessGroup = (
 };
 
 export const constructUpdateAccessGroupTransaction = (
-  params: UpdateAccessGroupRequestParams
+  params: UpdateAccessGroupRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataAccessGroup();
   metadata.accessGroupPublicKey = bs58PublicKeyToCompressedBytes(
@@ -155,7 +162,9 @@ export const constructUpdateAccessGroupTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -177,32 +186,35 @@ export const addAccessGroupMembers = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      // NOTE: This is more permissive than we actually need it to be, but I
-      // couldn't get it to work when specifying the AccessGroupKeyName and
-      // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
-      // revisit it, but this is not a terribly sensitive permission to grant.
-      AccessGroupLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-      AccessGroupMemberLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        // NOTE: This is more permissive than we actually need it to be, but I
+        // couldn't get it to work when specifying the AccessGroupKeyName and
+        // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
+        // revisit it, but this is not a terribly sensitive permission to grant.
+        AccessGroupLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+        AccessGroupMemberLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/add-access-group-members', params, {
@@ -241,7 +253,8 @@ const buildAddAccessGroupMemberMetadata = (
 };
 
 export const constructAddAccessGroupMembersTransaction = (
-  params: TxRequestWithOptionalFeesAndExtraData<AddAccessGroupMembersRequest>
+  params: TxRequestWithOptionalFeesAndExtraData<AddAccessGroupMembersRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.AccessGroupOwnerPublicKeyBase58Check,
@@ -250,7 +263,9 @@ export const constructAddAccessGroupMembersTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -272,32 +287,35 @@ export const removeAccessGroupMembers = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      // NOTE: This is more permissive than we actually need it to be, but I
-      // couldn't get it to work when specifying the AccessGroupKeyName and
-      // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
-      // revisit it, but this is not a terribly sensitive permission to grant.
-      AccessGroupLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-      AccessGroupMemberLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        // NOTE: This is more permissive than we actually need it to be, but I
+        // couldn't get it to work when specifying the AccessGroupKeyName and
+        // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
+        // revisit it, but this is not a terribly sensitive permission to grant.
+        AccessGroupLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+        AccessGroupMemberLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
   return handleSignAndSubmit('api/v0/remove-access-group-members', params, {
     ...options,
@@ -332,7 +350,8 @@ const buildRemoveAccessGroupMemberMetadata = (
   return metadata;
 };
 export const constructRemoveAccessGroupMembersTransaction = (
-  params: TxRequestWithOptionalFeesAndExtraData<AddAccessGroupMembersRequest>
+  params: TxRequestWithOptionalFeesAndExtraData<AddAccessGroupMembersRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.AccessGroupOwnerPublicKeyBase58Check,
@@ -341,7 +360,9 @@ export const constructRemoveAccessGroupMembersTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -363,32 +384,35 @@ export const updateAccessGroupMembers = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      // NOTE: This is more permissive than we actually need it to be, but I
-      // couldn't get it to work when specifying the AccessGroupKeyName and
-      // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
-      // revisit it, but this is not a terribly sensitive permission to grant.
-      AccessGroupLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-      AccessGroupMemberLimitMap: [
-        {
-          AccessGroupOwnerPublicKeyBase58Check: '',
-          ScopeType: 'Any',
-          AccessGroupKeyName: '',
-          OperationType: 'Any',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        // NOTE: This is more permissive than we actually need it to be, but I
+        // couldn't get it to work when specifying the AccessGroupKeyName and
+        // AccessGroupOwnerPublicKeyBase58Check. If anyone complains, we can
+        // revisit it, but this is not a terribly sensitive permission to grant.
+        AccessGroupLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+        AccessGroupMemberLimitMap: [
+          {
+            AccessGroupOwnerPublicKeyBase58Check: '',
+            ScopeType: 'Any',
+            AccessGroupKeyName: '',
+            OperationType: 'Any',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/update-access-group-members', params, {
@@ -427,7 +451,8 @@ const buildUpdateAccessGroupMembersMetadata = (
 };
 
 export const constructUpdateAccessGroupMembersTransaction = (
-  params: TxRequestWithOptionalFeesAndExtraData<AddAccessGroupMembersRequest>
+  params: TxRequestWithOptionalFeesAndExtraData<AddAccessGroupMembersRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.AccessGroupOwnerPublicKeyBase58Check,
@@ -436,6 +461,8 @@ export const constructUpdateAccessGroupMembersTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
@@ -55,31 +55,34 @@ export const createUserAssociation = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      AssociationLimitMap: [
-        {
-          AssociationClass: 'User',
-          AssociationType: params.AssociationType,
-          AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
-          AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
-          AssociationOperation: 'Create',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-        // NOTE: This is a bit weird, but we don't have AppPublicKeyBase58Check
-        // or AssociationType in the delete params, so we just ask for delete
-        // permission at the same time the association is created.
-        {
-          AssociationClass: 'User',
-          AssociationType: params.AssociationType,
-          AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
-          AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
-          AssociationOperation: 'Delete',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        AssociationLimitMap: [
+          {
+            AssociationClass: 'User',
+            AssociationType: params.AssociationType,
+            AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
+            AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
+            AssociationOperation: 'Create',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+          // NOTE: This is a bit weird, but we don't have AppPublicKeyBase58Check
+          // or AssociationType in the delete params, so we just ask for delete
+          // permission at the same time the association is created.
+          {
+            AssociationClass: 'User',
+            AssociationType: params.AssociationType,
+            AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
+            AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
+            AssociationOperation: 'Delete',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/user-associations/create', params, {
@@ -105,7 +108,8 @@ const buildCreateUserAssociationMetadata = (
 };
 
 export const constructCreateUserAssociationTransaction = (
-  params: CreateUserAssociationRequestParams
+  params: CreateUserAssociationRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -114,7 +118,9 @@ export const constructCreateUserAssociationTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -149,7 +155,8 @@ const buildDeleteUserAssociationMetadata = (
 };
 
 export const constructDeleteUserAssociationTransaction = (
-  params: DeleteUserAssociationRequestParams
+  params: DeleteUserAssociationRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -158,7 +165,9 @@ export const constructDeleteUserAssociationTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -190,31 +199,34 @@ export const createPostAssociation = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      AssociationLimitMap: [
-        {
-          AssociationClass: 'Post',
-          AssociationType: params.AssociationType,
-          AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
-          AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
-          AssociationOperation: 'Create',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-        // NOTE: This is a bit weird, but we don't have AppPublicKeyBase58Check
-        // or AssociationType in the delete params, so we just ask for delete
-        // permission at the same time the association is created.
-        {
-          AssociationClass: 'Post',
-          AssociationType: params.AssociationType,
-          AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
-          AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
-          AssociationOperation: 'Delete',
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        AssociationLimitMap: [
+          {
+            AssociationClass: 'Post',
+            AssociationType: params.AssociationType,
+            AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
+            AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
+            AssociationOperation: 'Create',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+          // NOTE: This is a bit weird, but we don't have AppPublicKeyBase58Check
+          // or AssociationType in the delete params, so we just ask for delete
+          // permission at the same time the association is created.
+          {
+            AssociationClass: 'Post',
+            AssociationType: params.AssociationType,
+            AppScopeType: params.AppPublicKeyBase58Check ? 'Scoped' : 'Any',
+            AppPublicKeyBase58Check: params.AppPublicKeyBase58Check ?? '',
+            AssociationOperation: 'Delete',
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/post-associations/create', params, {
@@ -238,7 +250,8 @@ const buildCreatePostAssociationMetadata = (
 };
 
 export const constructCreatePostAssociationTransaction = (
-  params: CreatePostAssociationRequestParams
+  params: CreatePostAssociationRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -247,7 +260,9 @@ export const constructCreatePostAssociationTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -273,7 +288,8 @@ export const deletePostAssociation = (
 };
 
 export const constructDeletePostAssociationTransaction = (
-  params: DeletePostAssociationRequestParams
+  params: DeletePostAssociationRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataDeletePostAssociation();
   metadata.associationID = encodeUTF8ToBytes(params.AssociationID);
@@ -284,6 +300,8 @@ export const constructDeletePostAssociationTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
@@ -0,0 +1,130 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  Transaction,
+  TransactionExtraData,
+  TransactionMetadataBasicTransfer,
+  TransactionNonce,
+  bs58PublicKeyToCompressedBytes,
+  createSeedSigner,
+  decodeBytesToUTF8,
+  decodeTransaction,
+  identity,
+  keygen,
+  publicKeyToBase58Check,
+  sha256X2,
+} from '../identity/index.js';
+import { AtomicBuilder } from './atomic.js';
+
+function buildTransactionHex(publicKeyBase58Check: string, partialId: number) {
+  const nonce = new TransactionNonce();
+  nonce.expirationBlockHeight = 1000 + partialId;
+  nonce.partialId = partialId;
+
+  return bytesToHex(
+    new Transaction({
+      inputs: [],
+      outputs: [],
+      version: 1,
+      feeNanos: 0,
+      nonce,
+      publicKey: bs58PublicKeyToCompressedBytes(publicKeyBase58Check),
+      metadata: new TransactionMetadataBasicTransfer(),
+      signature: new Uint8Array(0),
+      extraData: new TransactionExtraData(),
+    }).toBytes()
+  );
+}
+
+function getExtraData(txnHex: string) {
+  const [txn] = Transaction.fromBytes(hexToBytes(txnHex)) as [
+    Transaction,
+    Uint8Array
+  ];
+
+  return (txn.extraData?.kvs ?? []).reduce((extraData, { key, value }) => {
+    extraData[decodeBytesToUTF8(key)] = bytesToHex(value);
+    return extraData;
+  }, {} as { [k: string]: string });
+}
+
+function getPreHashHex(txnHex: string) {
+  const [txn] = Transaction.fromBytes(hexToBytes(txnHex)) as [
+    Transaction,
+    Uint8Array
+  ];
+  const extraData = new TransactionExtraData();
+  extraData.kvs = (txn.extraData?.kvs ?? []).filter(
+    ({ key }) => !decodeBytesToUTF8(key).endsWith('AtomicTxnPreHash')
+  );
+
+  return bytesToHex(sha256X2(new Transaction({ ...txn, extraData }).toBytes()));
+}
+
+describe('AtomicBuilder', () => {
+  const alice = createSeedSigner({ seedHex: keygen().seedHex });
+  const bob = createSeedSigner({ seedHex: keygen().seedHex });
+
+  it('links inner transactions and combines their fees', async () => {
+    const { TransactionHex, InnerTransactionHexes, FeeNanos } =
+      await new AtomicBuilder({ MinFeeRateNanosPerKB: 1000 })
+        .add(buildTransactionHex(await alice.getPublicKey(), 1))
+        .add({
+          TransactionHex: buildTransactionHex(await bob.getPublicKey(), 2),
+        })
+        .build();
+
+    const wrapper = decodeTransaction(TransactionHex);
+    const [first, second] = InnerTransactionHexes;
+
+    expect(wrapper.txnTypeString).toEqual('ATOMIC_TXNS_WRAPPER');
+    expect(wrapper.publicKeyBase58Check).toEqual(
+      publicKeyToBase58Check(new Uint8Array(33))
+    );
+    expect(wrapper.nonce?.expirationBlockHeight).toEqual(1001);
+    expect(FeeNanos).toEqual(
+      InnerTransactionHexes.reduce(
+        (sum, txnHex) => sum + Number(decodeTransaction(txnHex).feeNanos ?? 0),
+        0
+      )
+    );
+    expect(FeeNanos).toBeGreaterThanOrEqual(
+      hexToBytes(TransactionHex).length + 2 * 71
+    );
+    expect(getExtraData(first)).toEqual({
+      AtomicTxnsChainLength: '02',
+      NextAtomicTxnPreHash: getPreHashHex(second),
+      PreviousAtomicTxnPreHash: getPreHashHex(second),
+    });
+    expect(getExtraData(second)).toEqual({
+      NextAtomicTxnPreHash: getPreHashHex(first),
+      PreviousAtomicTxnPreHash: getPreHashHex(first),
+    });
+  });
+
+  it('signs each inner transaction with its own signer', async () => {
+    const submitAtomicTx = jest
+      .spyOn(identity, 'submitAtomicTx')
+      .mockResolvedValue({} as any);
+
+    const { constructedTransactionResponse } = await new AtomicBuilder()
+      .add(buildTransactionHex(await alice.getPublicKey(), 1), alice)
+      .add(buildTransactionHex(await bob.getPublicKey(), 2), bob)
+      .submit();
+
+    const [incompleteTxnHex, signedTxnHexes] = submitAtomicTx.mock.calls[0];
+    expect(incompleteTxnHex).toEqual(
+      constructedTransactionResponse.TransactionHex
+    );
+    expect(
+      signedTxnHexes.map((txnHex) => {
+        const { publicKeyBase58Check, signature } = decodeTransaction(txnHex);
+        return [publicKeyBase58Check, signature !== null];
+      })
+    ).toEqual([
+      [await alice.getPublicKey(), true],
+      [await bob.getPublicKey(), true],
+    ]);
+
+    submitAtomicTx.mockRestore();
+  });
+});
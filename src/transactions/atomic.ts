@@ -0,0 +1,319 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { RequestOptions } from '../backend-types/index.js';
+import {
+  DeSoValidationError,
+  InnerTransaction,
+  Signer,
+  Transaction,
+  TransactionExtraData,
+  TransactionExtraDataKV,
+  TransactionMetadataAtomicTxnWrapper,
+  TransactionNonce,
+  concatUint8Arrays,
+  decodeBytesToUTF8,
+  encodeUTF8ToBytes,
+  sha256X2,
+  uvarint64ToBuf,
+} from '../identity/index.js';
+import { computeFee, computeTxSize, getClientContext } from '../internal.js';
+import { ConstructedAndSubmittedTxAtomic } from '../types.js';
+
+// These extra data keys link the inner transactions of an atomic bundle
+// together so that the network can verify none were added, removed or
+// reordered. They mirror the constants in the core repo.
+const ATOMIC_TXNS_CHAIN_LENGTH_KEY = 'AtomicTxnsChainLength';
+const NEXT_ATOMIC_TXN_PRE_HASH_KEY = 'NextAtomicTxnPreHash';
+const PREVIOUS_ATOMIC_TXN_PRE_HASH_KEY = 'PreviousAtomicTxnPreHash';
+const ATOMIC_TXN_KEYS = [
+  ATOMIC_TXNS_CHAIN_LENGTH_KEY,
+  NEXT_ATOMIC_TXN_PRE_HASH_KEY,
+  PREVIOUS_ATOMIC_TXN_PRE_HASH_KEY,
+];
+// The size of the signature that gets added to each inner transaction, same as
+// the estimate used by computeFee.
+const SIGNATURE_SIZE_ESTIMATE = 71;
+
+export type AtomicBuilderTransaction =
+  | string
+  | { TransactionHex: string }
+  | Promise<{ TransactionHex: string }>;
+
+export interface AtomicBuilderOptions extends Pick<RequestOptions, 'client'> {
+  /**
+   * The fee rate used to recompute the fee of each inner transaction once it
+   * has been linked into the bundle. Defaults to the configured fee rate.
+   */
+  MinFeeRateNanosPerKB?: number;
+}
+
+export interface AtomicTransactionBundle {
+  /**
+   * The atomic wrapper transaction with unsigned inner transactions. This is
+   * the IncompleteAtomicTransactionHex expected by submit-atomic-transaction.
+   */
+  TransactionHex: string;
+  /**
+   * The unsigned inner transactions, in order. Each one must be signed by the
+   * owner of its public key.
+   */
+  InnerTransactionHexes: string[];
+  /**
+   * The combined fee of all inner transactions.
+   */
+  FeeNanos: number;
+}
+
+/**
+ * Composes any mix of locally constructed transactions into a single atomic
+ * transaction. Either all of the inner transactions are applied or none of
+ * them are, which makes it possible to build multi party swaps and escrow
+ * flows where each inner transaction is signed by a different user.
+ *
+ * @example
+ * ```ts
+ * const payment = await constructSendDeSoTransaction({
+ *   SenderPublicKeyBase58Check: buyer,
+ *   RecipientPublicKeyOrUsername: seller,
+ *   AmountNanos: 1e9,
+ * });
+ * const tokens = await constructTransferDeSoToken({
+ *   SenderPublicKeyBase58Check: seller,
+ *   ReceiverPublicKeyBase58CheckOrUsername: buyer,
+ *   ProfilePublicKeyBase58CheckOrUsername: seller,
+ *   DAOCoinToTransferNanos: '0x2540be400',
+ * });
+ *
+ * await new AtomicBuilder()
+ *   .add(payment, buyerSigner)
+ *   .add(tokens, sellerSigner)
+ *   .submit();
+ * ```
+ */
+export class AtomicBuilder {
+  #options: AtomicBuilderOptions;
+  #entries: { transaction: AtomicBuilderTransaction; signer?: Signer }[] = [];
+
+  constructor(options: AtomicBuilderOptions = {}) {
+    this.#options = options;
+  }
+
+  /**
+   * Adds a transaction to the end of the bundle. Accepts a constructed
+   * transaction response, a promise for one, or a raw transaction hex.
+   *
+   * @param signer signs this transaction when the bundle is submitted.
+   * Defaults to the logged in identity user.
+   */
+  add(transaction: AtomicBuilderTransaction, signer?: Signer): this {
+    this.#entries.push({ transaction, signer });
+    return this;
+  }
+
+  /**
+   * Links the inner transactions together, recomputes their fees and wraps
+   * them in an atomic transaction. Nothing is signed or submitted.
+   */
+  async build(): Promise<AtomicTransactionBundle> {
+    if (this.#entries.length === 0) {
+      throw new DeSoValidationError(
+        'An atomic transaction needs at least one inner transaction'
+      );
+    }
+
+    const feeRate =
+      this.#options.MinFeeRateNanosPerKB ??
+      getClientContext(this.#options).config.MinFeeRateNanosPerKB;
+    const txns = await Promise.all(
+      this.#entries.map(async ({ transaction }) => {
+        const resolved = await transaction;
+        const [txn] = Transaction.fromBytes(
+          hexToBytes(
+            typeof resolved === 'string' ? resolved : resolved.TransactionHex
+          )
+        ) as [Transaction, Uint8Array];
+
+        // Transactions taken from another bundle still carry its links.
+        if (txn.extraData) {
+          txn.extraData.kvs = txn.extraData.kvs.filter(
+            ({ key }) => !ATOMIC_TXN_KEYS.includes(decodeBytesToUTF8(key))
+          );
+        }
+        txn.signature = new Uint8Array(0);
+        return txn;
+      })
+    );
+
+    // The pre hashes commit to each transaction's fee, so we compute fees with
+    // placeholder hashes of the same size before computing the real ones.
+    const placeholderHash = new Uint8Array(32);
+    txns.forEach((txn, i) => {
+      setExtraData(txn, {
+        ...(i === 0 && {
+          [ATOMIC_TXNS_CHAIN_LENGTH_KEY]: uvarint64ToBuf(txns.length),
+        }),
+        [NEXT_ATOMIC_TXN_PRE_HASH_KEY]: placeholderHash,
+        [PREVIOUS_ATOMIC_TXN_PRE_HASH_KEY]: placeholderHash,
+      });
+      computeFee(txn, feeRate);
+    });
+
+    // The inner fees are each computed against the inner transaction alone,
+    // so the first transaction picks up any shortfall for the wrapper itself.
+    const partialId = Math.floor(Math.random() * Number.MAX_SAFE_INTEGER);
+    let wrapper = buildWrapper(txns, partialId);
+    let requiredFee = computeWrapperFee(wrapper, feeRate);
+    while (wrapper.feeNanos < requiredFee) {
+      txns[0].feeNanos += requiredFee - wrapper.feeNanos;
+      wrapper = buildWrapper(txns, partialId);
+      requiredFee = computeWrapperFee(wrapper, feeRate);
+    }
+
+    const preHashes = txns.map(atomicPreHash);
+    txns.forEach((txn, i) => {
+      setExtraData(txn, {
+        [NEXT_ATOMIC_TXN_PRE_HASH_KEY]: preHashes[(i + 1) % txns.length],
+        [PREVIOUS_ATOMIC_TXN_PRE_HASH_KEY]:
+          preHashes[(i - 1 + txns.length) % txns.length],
+      });
+    });
+    wrapper = buildWrapper(txns, partialId);
+
+    return {
+      TransactionHex: bytesToHex(wrapper.toBytes()),
+      InnerTransactionHexes: txns.map((txn) => bytesToHex(txn.toBytes())),
+      FeeNanos: wrapper.feeNanos,
+    };
+  }
+
+  /**
+   * Builds the bundle, signs each inner transaction with its signer and
+   * submits the atomic transaction.
+   */
+  async submit(): Promise<
+    ConstructedAndSubmittedTxAtomic<AtomicTransactionBundle>
+  > {
+    const { identity } = getClientContext(this.#options);
+    const constructedTransactionResponse = await this.build();
+    const signedInnerTxns: string[] = [];
+
+    // Signed one at a time since identity signers may need to prompt the
+    // user.
+    for (let i = 0; i < this.#entries.length; i++) {
+      const signer = this.#entries[i].signer ?? identity.signer();
+      signedInnerTxns.push(
+        await signer.signTransaction(
+          constructedTransactionResponse.InnerTransactionHexes[i]
+        )
+      );
+    }
+
+    return {
+      constructedTransactionResponse,
+      submittedTransactionResponse: await identity.submitAtomicTx(
+        constructedTransactionResponse.TransactionHex,
+        signedInnerTxns
+      ),
+    };
+  }
+}
+
+const compareBytes = (a: Uint8Array, b: Uint8Array) => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return a[i] - b[i];
+    }
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Sets the given extra data keys on a transaction, replacing any existing
+ * values. Keys are kept sorted bytewise to match the core encoding.
+ */
+const setExtraData = (
+  txn: Transaction,
+  values: { [key: string]: Uint8Array }
+) => {
+  const kvs = (txn.extraData?.kvs ?? []).filter(
+    ({ key }) => !(decodeBytesToUTF8(key) in values)
+  );
+
+  Object.entries(values).forEach(([key, value]) => {
+    kvs.push(new TransactionExtraDataKV(encodeUTF8ToBytes(key), value));
+  });
+
+  const extraData = new TransactionExtraData();
+  extraData.kvs = kvs.sort((a, b) => compareBytes(a.key, b.key));
+  txn.extraData = extraData;
+};
+
+/**
+ * The hash of an inner transaction without its signature or the links to its
+ * neighbors. This is what the next and previous links point to.
+ */
+const atomicPreHash = (txn: Transaction) => {
+  const extraData = new TransactionExtraData();
+  extraData.kvs = (txn.extraData?.kvs ?? []).filter(
+    ({ key }) =>
+      ![
+        NEXT_ATOMIC_TXN_PRE_HASH_KEY,
+        PREVIOUS_ATOMIC_TXN_PRE_HASH_KEY,
+      ].includes(decodeBytesToUTF8(key))
+  );
+
+  return sha256X2(
+    new Transaction({
+      ...txn,
+      extraData,
+      signature: new Uint8Array(0),
+    }).toBytes()
+  );
+};
+
+const buildWrapper = (txns: Transaction[], partialId: number) => {
+  const metadata = new TransactionMetadataAtomicTxnWrapper();
+  metadata.metadata = txns.map((txn) => {
+    const txnBytes = txn.toBytes();
+    const [inner] = InnerTransaction.fromBytes(
+      concatUint8Arrays([uvarint64ToBuf(txnBytes.length), txnBytes])
+    ) as [InnerTransaction, Uint8Array];
+    return inner;
+  });
+
+  const nonce = new TransactionNonce();
+  nonce.expirationBlockHeight = Math.min(
+    ...txns.map(
+      (txn) => txn.nonce?.expirationBlockHeight ?? Number.MAX_SAFE_INTEGER
+    )
+  );
+  nonce.partialId = partialId;
+
+  const extraData = new TransactionExtraData();
+  extraData.kvs = [];
+
+  return new Transaction({
+    version: 1,
+    inputs: [],
+    outputs: [],
+    metadata,
+    // Atomic wrappers are not owned by any one user, so they use the zero
+    // public key.
+    publicKey: new Uint8Array(33),
+    extraData,
+    signature: new Uint8Array(0),
+    feeNanos: txns.reduce((sum, txn) => sum + txn.feeNanos, 0),
+    nonce,
+  });
+};
+
+// Each inner transaction is missing its signature until the bundle is
+// submitted, so we account for them when sizing the wrapper.
+const computeWrapperFee = (wrapper: Transaction, feeRate: number) =>
+  Math.ceil(
+    ((computeTxSize(wrapper) +
+      (wrapper.metadata as TransactionMetadataAtomicTxnWrapper).metadata
+        .length *
+        SIGNATURE_SIZE_ESTIMATE) *
+      feeRate) /
+      1000
+  );
@@ -0,0 +1,85 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import { createDesoClient } from '../client.js';
+import { createFetchResponse } from '../data/index.js';
+import {
+  encodeUTF8ToBytes,
+  keygen,
+  publicKeyToBase58Check,
+} from '../identity/index.js';
+import { MockDesoNode } from '../mock-node/index.js';
+
+describe('DerivedKeyManager', () => {
+  it('lists derived keys with their expiration and decoded memo', async () => {
+    const responses: Record<string, any> = {
+      'get-app-state': { BlockHeight: 1000 },
+      'get-user-derived-keys': {
+        DerivedKeys: {
+          expiring: {
+            OwnerPublicKeyBase58Check: 'BC1YLowner',
+            DerivedPublicKeyBase58Check: 'expiring',
+            ExpirationBlock: 1000 + 2 * 24 * 60 * 60,
+            IsValid: true,
+            TransactionSpendingLimit: { GlobalDESOLimit: 1e9 },
+            Memo: bytesToHex(encodeUTF8ToBytes('my app')),
+          },
+          expired: {
+            OwnerPublicKeyBase58Check: 'BC1YLowner',
+            DerivedPublicKeyBase58Check: 'expired',
+            ExpirationBlock: 10,
+            IsValid: false,
+            TransactionSpendingLimit: null,
+            Memo: '',
+          },
+        },
+      },
+    };
+    const client = createDesoClient({
+      fetch: (url: string) =>
+        Promise.resolve(
+          createFetchResponse(
+            200,
+            JSON.stringify(responses[url.split('/').pop() as string])
+          )
+        ),
+    });
+    client.derivedKeyManager.configure({ expiryWarningDays: 1 });
+
+    const [expiring, expired] = await client.derivedKeyManager.listDerivedKeys(
+      'BC1YLowner'
+    );
+
+    expect(expiring).toMatchObject({
+      DerivedPublicKeyBase58Check: 'expiring',
+      isPrimary: false,
+      expiresInBlocks: 2 * 24 * 60 * 60,
+      isExpiringSoon: false,
+      TransactionSpendingLimit: { GlobalDESOLimit: 1e9 },
+      Memo: 'my app',
+    });
+    expect(expiring.expiresAt.getTime()).toBeGreaterThan(
+      Date.now() + 24 * 60 * 60 * 1000
+    );
+    expect(expired).toMatchObject({ expiresInBlocks: 0, isExpiringSoon: true });
+  });
+
+  it('revokes a derived key with the owner seed', async () => {
+    const owner = keygen();
+    const ownerPublicKey = publicKeyToBase58Check(owner.public);
+    const derivedPublicKey = publicKeyToBase58Check(keygen().public);
+    const node = new MockDesoNode({ balances: { [ownerPublicKey]: 1e9 } });
+    node.ledger.derivedKeys.set(ownerPublicKey, new Set([derivedPublicKey]));
+    const client = createDesoClient({ fetch: node.fetch });
+
+    await expect(
+      client.derivedKeyManager.revokeDerivedKey(derivedPublicKey)
+    ).rejects.toThrow(
+      `Cannot revoke derived key ${derivedPublicKey} without the owner seed hex`
+    );
+
+    await client.derivedKeyManager.revokeDerivedKey(derivedPublicKey, {
+      ownerSeedHex: owner.seedHex,
+    });
+
+    expect(node.ledger.derivedKeys.get(ownerPublicKey)?.size).toEqual(0);
+  });
+});
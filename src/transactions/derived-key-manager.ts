@@ -0,0 +1,362 @@
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import {
+  AuthorizeDerivedKeyResponse,
+  RequestOptions,
+  TransactionSpendingLimitResponse,
+  UserDerivedKey,
+} from '../backend-types/index.js';
+import { getAppState, getUserDerivedKeys } from '../data/index.js';
+import {
+  DeSoValidationError,
+  IdentityDerivePayload,
+  IdentityState,
+  bs58PublicKeyToCompressedBytes,
+  createSeedSigner,
+  keygen,
+  publicKeyToBase58Check,
+  sha256X2,
+  sign,
+  uint64ToBufBigEndian,
+} from '../identity/index.js';
+import { getClientContext } from '../internal.js';
+import { ConstructedAndSubmittedTx } from '../types.js';
+import { authorizeDerivedKey } from './derived-keys.js';
+
+export interface DerivedKeyManagerConfig {
+  /**
+   * How many days before a derived key expires it is considered to be
+   * expiring soon. Defaults to 7.
+   */
+  expiryWarningDays?: number;
+  /**
+   * The average number of seconds between blocks, used to approximate when a
+   * key expires. Defaults to 1.
+   */
+  blockTimeSeconds?: number;
+  /**
+   * Called by checkPrimaryDerivedKeyExpiry when the primary derived key of
+   * the logged in user is expiring soon.
+   */
+  onExpiryWarning?: (key: DerivedKeyInfo) => void;
+}
+
+export interface DerivedKeyInfo {
+  OwnerPublicKeyBase58Check: string;
+  DerivedPublicKeyBase58Check: string;
+  IsValid: boolean;
+  /**
+   * Whether this is the primary derived key of the logged in user.
+   */
+  isPrimary: boolean;
+  ExpirationBlock: number;
+  /**
+   * The number of blocks left until the key expires. This is 0 for keys that
+   * have already expired.
+   */
+  expiresInBlocks: number;
+  /**
+   * Approximate wall-clock time at which the key expires, based on the
+   * configured block time.
+   */
+  expiresAt: Date;
+  isExpiringSoon: boolean;
+  TransactionSpendingLimit: TransactionSpendingLimitResponse | null;
+  /**
+   * The memo the key was authorized with, usually the app name.
+   */
+  Memo: string;
+}
+
+export interface RevokeDerivedKeyOptions extends RequestOptions {
+  /**
+   * The owner's seed hex. This is required to revoke any key other than the
+   * logged in user's primary derived key, which can revoke itself.
+   */
+  ownerSeedHex?: string;
+}
+
+export interface RotatePrimaryDerivedKeyOptions {
+  /**
+   * The seed hex to use for the new derived key. Defaults to a random seed.
+   */
+  derivedSeedHex?: string;
+  /**
+   * Whether to revoke the previous primary derived key once the new one is
+   * authorized. Defaults to true.
+   */
+  revokePrevious?: boolean;
+}
+
+const DEFAULT_EXPIRY_WARNING_DAYS = 7;
+const DEFAULT_BLOCK_TIME_SECONDS = 1;
+const SECONDS_PER_DAY = 24 * 60 * 60;
+// How long a revocation signed with the owner seed stays valid.
+const REVOCATION_EXPIRATION_SECONDS = SECONDS_PER_DAY;
+
+// The node returns the memo as it is stored in the key's extra data, which is
+// the hex encoding of the utf-8 memo.
+const decodeMemo = (memo: string) => {
+  if (!memo || !/^([0-9a-f]{2})+$/i.test(memo)) {
+    return memo ?? '';
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(hexToBytes(memo));
+  } catch {
+    return memo;
+  }
+};
+
+/**
+ * Lists, inspects, revokes and rotates the derived keys of the logged in
+ * user. Revoking and rotating sign with the owner key when its seed is
+ * available, e.g. for users that logged in with loginWithAutoDerive, so no
+ * identity window is opened.
+ * @example
+ * ```ts
+ * const manager = new DerivedKeyManager({
+ *   onExpiryWarning: () => manager.rotatePrimaryDerivedKey(ownerSeedHex),
+ * });
+ *
+ * await manager.checkPrimaryDerivedKeyExpiry();
+ * ```
+ */
+export class DerivedKeyManager {
+  #config: Required<Omit<DerivedKeyManagerConfig, 'onExpiryWarning'>> &
+    Pick<DerivedKeyManagerConfig, 'onExpiryWarning'> = {
+    expiryWarningDays: DEFAULT_EXPIRY_WARNING_DAYS,
+    blockTimeSeconds: DEFAULT_BLOCK_TIME_SECONDS,
+  };
+  #requestOptions: Pick<RequestOptions, 'client'>;
+
+  /**
+   * @param requestOptions used to pick the client whose identity and node
+   * the keys are managed through.
+   */
+  constructor(
+    config: DerivedKeyManagerConfig = {},
+    requestOptions: Pick<RequestOptions, 'client'> = {}
+  ) {
+    this.#requestOptions = requestOptions;
+    this.configure(config);
+  }
+
+  configure(config: DerivedKeyManagerConfig) {
+    if (typeof config.expiryWarningDays === 'number') {
+      this.#config.expiryWarningDays = config.expiryWarningDays;
+    }
+
+    if (typeof config.blockTimeSeconds === 'number') {
+      this.#config.blockTimeSeconds = config.blockTimeSeconds;
+    }
+
+    if (config.onExpiryWarning) {
+      this.#config.onExpiryWarning = config.onExpiryWarning;
+    }
+  }
+
+  /**
+   * Lists every derived key of the owner, including expired and revoked
+   * ones. Defaults to the logged in user.
+   */
+  async listDerivedKeys(
+    ownerPublicKeyBase58Check?: string
+  ): Promise<DerivedKeyInfo[]> {
+    const { currentUser } = await this.#getIdentityState();
+    const owner = ownerPublicKeyBase58Check ?? currentUser?.publicKey;
+
+    if (!owner) {
+      throw new DeSoValidationError(
+        'Cannot list derived keys without a logged in user or owner public key'
+      );
+    }
+
+    const [{ DerivedKeys }, { BlockHeight }] = await Promise.all([
+      getUserDerivedKeys({ PublicKeyBase58Check: owner }, this.#requestOptions),
+      getAppState({}, this.#requestOptions),
+    ]);
+    const primaryDerivedPublicKey =
+      currentUser?.publicKey === owner
+        ? currentUser.primaryDerivedKey?.derivedPublicKeyBase58Check
+        : undefined;
+
+    return Object.values(DerivedKeys ?? {}).map((key) =>
+      this.#toDerivedKeyInfo(key, BlockHeight, primaryDerivedPublicKey)
+    );
+  }
+
+  /**
+   * Returns the primary derived key of the logged in user, or null if there
+   * is no logged in user or the key is not registered on chain. If the key is
+   * expiring soon, the configured onExpiryWarning callback is called with it.
+   */
+  async checkPrimaryDerivedKeyExpiry(): Promise<DerivedKeyInfo | null> {
+    const keys = await this.listDerivedKeys().catch((e) => {
+      if (e instanceof DeSoValidationError) {
+        return [];
+      }
+      throw e;
+    });
+    const primary = keys.find(({ isPrimary }) => isPrimary) ?? null;
+
+    if (primary?.IsValid && primary.isExpiringSoon) {
+      this.#config.onExpiryWarning?.(primary);
+    }
+
+    return primary;
+  }
+
+  /**
+   * Revokes a derived key by submitting a DeleteKey authorize transaction.
+   * With ownerSeedHex the transaction is signed by the owner and any of the
+   * owner's keys can be revoked. Without it, only the logged in user's
+   * primary derived key can be revoked, in which case the key signs its own
+   * revocation and the user will need to log in again to transact.
+   */
+  async revokeDerivedKey(
+    derivedPublicKeyBase58Check: string,
+    { ownerSeedHex, ...options }: RevokeDerivedKeyOptions = {}
+  ): Promise<ConstructedAndSubmittedTx<AuthorizeDerivedKeyResponse>> {
+    const requestOptions = { ...this.#requestOptions, ...options };
+
+    if (ownerSeedHex) {
+      const { currentUser } = await this.#getIdentityState();
+      const ownerKeys = keygen(ownerSeedHex);
+      const network = currentUser?.primaryDerivedKey?.network ?? 'mainnet';
+      const OwnerPublicKeyBase58Check = publicKeyToBase58Check(
+        ownerKeys.public,
+        { network }
+      );
+      const { BlockHeight } = await getAppState({}, requestOptions);
+      // The expiration of a revocation only needs to be in the future and
+      // covered by the access signature.
+      const revocationExpirationBlocks = Math.ceil(
+        REVOCATION_EXPIRATION_SECONDS / this.#config.blockTimeSeconds
+      );
+      const ExpirationBlock = BlockHeight + revocationExpirationBlocks;
+      const accessBytes = new Uint8Array([
+        ...bs58PublicKeyToCompressedBytes(derivedPublicKeyBase58Check),
+        ...uint64ToBufBigEndian(ExpirationBlock),
+      ]);
+      const [accessSignature] = await sign(
+        bytesToHex(sha256X2(accessBytes)),
+        ownerKeys.private
+      );
+
+      return authorizeDerivedKey(
+        {
+          OwnerPublicKeyBase58Check,
+          DerivedPublicKeyBase58Check: derivedPublicKeyBase58Check,
+          ExpirationBlock,
+          AccessSignature: bytesToHex(accessSignature),
+          TransactionSpendingLimitHex: '',
+          Memo: '',
+          DeleteKey: true,
+        },
+        {
+          ...requestOptions,
+          signer: createSeedSigner({ seedHex: ownerSeedHex, network }),
+        }
+      );
+    }
+
+    const { currentUser } = await this.#getIdentityState();
+    const primaryDerivedKey = currentUser?.primaryDerivedKey;
+
+    if (
+      !currentUser ||
+      !primaryDerivedKey ||
+      primaryDerivedKey.derivedPublicKeyBase58Check !==
+        derivedPublicKeyBase58Check
+    ) {
+      throw new DeSoValidationError(
+        `Cannot revoke derived key ${derivedPublicKeyBase58Check} without the owner seed hex`
+      );
+    }
+
+    return authorizeDerivedKey(
+      {
+        OwnerPublicKeyBase58Check: currentUser.publicKey,
+        DerivedPublicKeyBase58Check: derivedPublicKeyBase58Check,
+        ExpirationBlock: primaryDerivedKey.expirationBlock,
+        AccessSignature: primaryDerivedKey.accessSignature,
+        TransactionSpendingLimitHex:
+          primaryDerivedKey.transactionSpendingLimitHex,
+        Memo: '',
+        DerivedKeySignature: true,
+        DeleteKey: true,
+      },
+      requestOptions
+    );
+  }
+
+  /**
+   * Replaces the logged in user's primary derived key with a newly
+   * authorized one without opening the identity window. The new key gets the
+   * identity's configured spending limit and expiration, and by default the
+   * previous key is revoked once the new one is in place.
+   */
+  async rotatePrimaryDerivedKey(
+    ownerSeedHex: string,
+    {
+      derivedSeedHex,
+      revokePrevious = true,
+    }: RotatePrimaryDerivedKeyOptions = {}
+  ): Promise<IdentityDerivePayload> {
+    const { identity } = getClientContext(this.#requestOptions);
+    const { currentUser } = await this.#getIdentityState();
+    const network = currentUser?.primaryDerivedKey?.network ?? 'mainnet';
+
+    if (
+      !currentUser ||
+      publicKeyToBase58Check(keygen(ownerSeedHex).public, { network }) !==
+        currentUser.publicKey
+    ) {
+      throw new DeSoValidationError(
+        'The owner seed hex does not belong to the logged in user'
+      );
+    }
+
+    const previous = currentUser.primaryDerivedKey?.derivedPublicKeyBase58Check;
+    const payload = await identity.loginWithAutoDerive(ownerSeedHex, {
+      derivedSeedHex,
+    });
+
+    if (
+      revokePrevious &&
+      previous &&
+      previous !== payload.derivedPublicKeyBase58Check
+    ) {
+      await this.revokeDerivedKey(previous, { ownerSeedHex });
+    }
+
+    return payload;
+  }
+
+  async #getIdentityState(): Promise<IdentityState> {
+    return getClientContext(this.#requestOptions).identity.snapshot();
+  }
+
+  #toDerivedKeyInfo(
+    key: UserDerivedKey,
+    blockHeight: number,
+    primaryDerivedPublicKey?: string
+  ): DerivedKeyInfo {
+    const { expiryWarningDays, blockTimeSeconds } = this.#config;
+    const expiresInBlocks = Math.max(key.ExpirationBlock - blockHeight, 0);
+    const expiresInSeconds = expiresInBlocks * blockTimeSeconds;
+
+    return {
+      OwnerPublicKeyBase58Check: key.OwnerPublicKeyBase58Check,
+      DerivedPublicKeyBase58Check: key.DerivedPublicKeyBase58Check,
+      IsValid: key.IsValid,
+      isPrimary: key.DerivedPublicKeyBase58Check === primaryDerivedPublicKey,
+      ExpirationBlock: key.ExpirationBlock,
+      expiresInBlocks,
+      expiresAt: new Date(Date.now() + expiresInSeconds * 1000),
+      isExpiringSoon: expiresInSeconds <= expiryWarningDays * SECONDS_PER_DAY,
+      TransactionSpendingLimit: key.TransactionSpendingLimit,
+      Memo: decodeMemo(key.Memo),
+    };
+  }
+}
@@ -40,7 +40,8 @@ export const authorizeDerivedKey = (
 };
 
 export const constructAuthorizeDerivedKey = (
-  params: AuthorizeDerivedKeyRequestParams
+  params: AuthorizeDerivedKeyRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataAuthorizeDerivedKey();
   metadata.accessSignature = hexToBytes(params.AccessSignature || '');
@@ -80,10 +81,16 @@ export const constructAuthorizeDerivedKey = (
       )
     );
   }
-  return constructBalanceModelTx(params.OwnerPublicKeyBase58Check, metadata, {
-    ConsensusExtraDataKVs: consensusExtraDataKVs,
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-  });
+  return constructBalanceModelTx(
+    params.OwnerPublicKeyBase58Check,
+    metadata,
+    {
+      ConsensusExtraDataKVs: consensusExtraDataKVs,
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
@@ -0,0 +1,133 @@
+import {
+  DeSoValidationError,
+  decodeTransaction,
+  publicKeyToBase58Check,
+} from '../identity/index.js';
+import {
+  FakeNodeRequest,
+  createAccount,
+  createFakeNodeClient,
+} from '../test-utils.js';
+
+const decodeMetadata = (txnHex: string) =>
+  decodeTransaction(txnHex).metadata?.data as any;
+
+describe('DeSo token local construction', () => {
+  const transactor = createAccount().publicKey;
+  const token = createAccount().publicKey;
+  const localOptions = { localConstruction: true, broadcast: false };
+
+  const createClient = (calls: FakeNodeRequest[] = []) =>
+    createFakeNodeClient(
+      {
+        'get-app-state': () => ({ BlockHeight: 1000 }),
+      },
+      { calls, MinFeeRateNanosPerKB: 1000 }
+    );
+
+  it('scales limit order prices by the decimals of both coins', async () => {
+    const client = createClient();
+
+    const bid = decodeMetadata(
+      (
+        await client.constructDeSoTokenLimitOrder({
+          TransactorPublicKeyBase58Check: transactor,
+          BuyingDAOCoinCreatorPublicKeyBase58Check: token,
+          SellingDAOCoinCreatorPublicKeyBase58Check: '',
+          Price: '0.5',
+          Quantity: '2',
+          OperationType: 'BID',
+        } as any)
+      ).TransactionHex
+    );
+    const ask = decodeMetadata(
+      (
+        await client.constructDeSoTokenLimitOrder({
+          TransactorPublicKeyBase58Check: transactor,
+          BuyingDAOCoinCreatorPublicKeyBase58Check: '',
+          SellingDAOCoinCreatorPublicKeyBase58Check: token,
+          Price: '0.5',
+          Quantity: '2',
+          OperationType: 'ASK',
+        } as any)
+      ).TransactionHex
+    );
+
+    // 0.5 DESO (1e9 base units) per token (1e18 base units), scaled by 1e38.
+    expect(BigInt(bid.scaledExchangeRateCoinsToSellPerCoinToBuy)).toEqual(
+      BigInt(5) * BigInt(10) ** BigInt(28)
+    );
+    expect(BigInt(bid.quantityToFillInBaseUnits)).toEqual(
+      BigInt(2) * BigInt(10) ** BigInt(18)
+    );
+    expect(bid).toMatchObject({ operationType: 2, fillType: 1 });
+    // The inverse: 2 tokens per DESO.
+    expect(BigInt(ask.scaledExchangeRateCoinsToSellPerCoinToBuy)).toEqual(
+      BigInt(2) * BigInt(10) ** BigInt(47)
+    );
+    expect(BigInt(ask.quantityToFillInBaseUnits)).toEqual(
+      BigInt(2) * BigInt(10) ** BigInt(18)
+    );
+    expect(ask).toMatchObject({ operationType: 1, fillType: 1 });
+  });
+
+  it('constructs market orders as immediate or cancel orders at any price', async () => {
+    const client = createClient();
+
+    const { constructedTransactionResponse } =
+      await client.sellDeSoTokenMarketOrder(
+        {
+          TransactorPublicKeyBase58Check: transactor,
+          SellingDAOCoinCreatorPublicKeyBase58Check: token,
+          Quantity: '3',
+        } as any,
+        localOptions
+      );
+    const metadata = decodeMetadata(
+      constructedTransactionResponse.TransactionHex
+    );
+
+    expect(BigInt(metadata.scaledExchangeRateCoinsToSellPerCoinToBuy)).toEqual(
+      BigInt(0)
+    );
+    expect(metadata).toMatchObject({
+      operationType: 1,
+      fillType: 2,
+      // DESO is the coin being bought when selling a token.
+      buyingDAOCoinCreatorPublicKey: publicKeyToBase58Check(new Uint8Array(33)),
+      sellingDAOCoinCreatorPublicKey: token,
+    });
+    expect(BigInt(metadata.quantityToFillInBaseUnits)).toEqual(
+      BigInt(3) * BigInt(10) ** BigInt(18)
+    );
+  });
+
+  it.each([
+    [
+      'createDeSoTokenMarketOrderWithFee',
+      'api/v0/create-dao-coin-limit-order-with-fee',
+    ],
+    ['createNewCoin', 'api/v0/create-new-coin'],
+    ['updateCoinProperties', '/api/v0/update-coin-properties'],
+  ] as const)(
+    'throws in strict mode for %s, which the node has to construct',
+    async (method, endpoint) => {
+      const calls: FakeNodeRequest[] = [];
+      const client = createClient(calls);
+
+      await expect(
+        client[method]({} as any, {
+          ...localOptions,
+          strictLocalConstruction: true,
+          checkPermissions: false,
+        })
+      ).rejects.toEqual(
+        expect.objectContaining({
+          constructor: DeSoValidationError,
+          endpoint,
+        })
+      );
+      expect(calls).toEqual([]);
+    }
+  );
+});
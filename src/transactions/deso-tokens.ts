@@ -12,6 +12,7 @@ import {
   DAOCoinResponse,
   DeSoTokenMarketOrderWithFeeRequest,
   DeSoTokenMarketOrderWithFeeResponse,
+  FillTypeWithFee,
   LockupLimitMapItem,
   LockupLimitOperationString,
   LockupLimitScopeType,
@@ -26,13 +27,16 @@ import {
 } from '../backend-types/index.js';
 import { PartialWithRequiredFields } from '../data/index.js';
 import {
+  DeSoValidationError,
   bs58PublicKeyToCompressedBytes,
-  identity,
+  parseUnits,
   TransactionMetadataDAOCoin,
+  TransactionMetadataDAOCoinLimitOrder,
   TransactionMetadataTransferDAOCoin,
 } from '../identity/index.js';
 import {
   constructBalanceModelTx,
+  getClientContext,
   getTxWithFeeNanos,
   handleSignAndSubmit,
   handleSignAndSubmitAtomic,
@@ -43,8 +47,9 @@ import {
   ConstructedAndSubmittedTx,
   ConstructedAndSubmittedTxAtomic,
   TxRequestOptions,
+  WithBigIntAmounts,
 } from '../types.js';
-import { guardTxPermission, stripHexPrefix } from './utils.js';
+import { guardTxPermission, stripHexPrefix, uint256ToBytes } from './utils.js';
 
 /**
  * https://docs.deso.org/deso-backend/construct-transactions/dao-transactions-api#create-deso-token-dao-coin
@@ -52,7 +57,10 @@ import { guardTxPermission, stripHexPrefix } from './utils.js';
 export type ConstructBurnDeSoTokenRequestParams =
   TxRequestWithOptionalFeesAndExtraData<
     PartialWithRequiredFields<
-      Omit<DAOCoinRequest, 'OperationType'>,
+      WithBigIntAmounts<
+        Omit<DAOCoinRequest, 'OperationType'>,
+        'CoinsToBurnNanos'
+      >,
       | 'UpdaterPublicKeyBase58Check'
       | 'ProfilePublicKeyBase58CheckOrUsername'
       | 'CoinsToBurnNanos'
@@ -79,28 +87,36 @@ export const burnDeSoToken = async (
 
     if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
       return Promise.reject(
-        'must provide profile public key, not username for ProfilePublicKeyBase58CheckOrUsername when checking dao coin transfer permissions'
+        new DeSoValidationError(
+          'must provide profile public key, not username for ProfilePublicKeyBase58CheckOrUsername when checking dao coin transfer permissions'
+        )
       );
     }
 
     const txnLimitCount =
       options?.txLimitCount ??
-      identity.transactionSpendingLimitOptions?.DAOCoinOperationLimitMap?.[
+      getClientContext(options).identity.transactionSpendingLimitOptions
+        ?.DAOCoinOperationLimitMap?.[
         params.ProfilePublicKeyBase58CheckOrUsername
       ].burn ??
       1;
 
-    await guardTxPermission({
-      GlobalDESOLimit:
-        // TODO: when I figure out how to properly calculate the fee for this transaction
-        // we can remove this static 1500 buffer.
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees) + 1500,
-      DAOCoinOperationLimitMap: {
-        [params.ProfilePublicKeyBase58CheckOrUsername]: {
-          burn: txnLimitCount,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          // TODO: when I figure out how to properly calculate the fee for this transaction
+          // we can remove this static 1500 buffer.
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees) +
+          1500,
+        DAOCoinOperationLimitMap: {
+          [params.ProfilePublicKeyBase58CheckOrUsername]: {
+            burn: txnLimitCount,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit(
@@ -114,28 +130,33 @@ export const burnDeSoToken = async (
 };
 
 export const constructBurnDeSoTokenTransaction = (
-  params: ConstructBurnDeSoTokenRequestParams
+  params: ConstructBurnDeSoTokenRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataDAOCoin();
-  // TODO: I know we're passing hex strings representing uint256, but need
-  // to figure out how they go to bytes.
   if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
     return Promise.reject(
-      'must provide profile public key, not username for local transaction construction'
+      new DeSoValidationError(
+        'must provide profile public key, not username for local transaction construction'
+      )
     );
   }
-  metadata.coinsToBurnNanos = hexToBytes(
-    stripHexPrefix(params.CoinsToBurnNanos)
-  );
+  metadata.coinsToBurnNanos = uint256ToBytes(params.CoinsToBurnNanos);
   metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(
     params.ProfilePublicKeyBase58CheckOrUsername
   );
   metadata.operationType = 1;
-  return constructBalanceModelTx(params.UpdaterPublicKeyBase58Check, metadata, {
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-  });
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
 
 /**
@@ -143,7 +164,10 @@ export const constructBurnDeSoTokenTransaction = (
  */
 export type MintDeSoTokenRequestParams = TxRequestWithOptionalFeesAndExtraData<
   PartialWithRequiredFields<
-    Omit<DAOCoinRequest, 'OperationType'>,
+    WithBigIntAmounts<
+      Omit<DAOCoinRequest, 'OperationType'>,
+      'CoinsToMintNanos'
+    >,
     | 'UpdaterPublicKeyBase58Check'
     | 'ProfilePublicKeyBase58CheckOrUsername'
     | 'CoinsToMintNanos'
@@ -157,18 +181,23 @@ export const mintDeSoToken = async (
   if (options?.checkPermissions !== false) {
     if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
       return Promise.reject(
-        'must provide profile public key, not username for local transaction construction'
+        new DeSoValidationError(
+          'must provide profile public key, not username for local transaction construction'
+        )
       );
     }
 
-    await guardTxPermission({
-      GlobalDESOLimit: 1 * 1e9,
-      DAOCoinOperationLimitMap: {
-        [params.UpdaterPublicKeyBase58Check]: {
-          mint: 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit: 1 * 1e9,
+        DAOCoinOperationLimitMap: {
+          [params.UpdaterPublicKeyBase58Check]: {
+            mint: 1,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit(
@@ -182,28 +211,33 @@ export const mintDeSoToken = async (
 };
 
 export const constructMintDeSoTokenTransaction = (
-  params: MintDeSoTokenRequestParams
+  params: MintDeSoTokenRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataDAOCoin();
-  // TODO: I know we're passing hex strings representing uint256, but need
-  // to figure out how they go to bytes.
   if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
     return Promise.reject(
-      'must provide profile public key, not username for local transaction construction'
+      new DeSoValidationError(
+        'must provide profile public key, not username for local transaction construction'
+      )
     );
   }
-  metadata.coinsToMintNanos = hexToBytes(
-    stripHexPrefix(params.CoinsToMintNanos)
-  );
+  metadata.coinsToMintNanos = uint256ToBytes(params.CoinsToMintNanos);
   metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(
     params.ProfilePublicKeyBase58CheckOrUsername
   );
   metadata.operationType = 0;
-  return constructBalanceModelTx(params.UpdaterPublicKeyBase58Check, metadata, {
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-  });
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
 
 /**
@@ -226,18 +260,23 @@ export const updateDeSoTokenTransferRestrictionStatus = async (
   if (options?.checkPermissions !== false) {
     if (!isMaybeDeSoPublicKey(params.UpdaterPublicKeyBase58Check)) {
       return Promise.reject(
-        'must provide profile public key, not username for UpdaterPublicKeyBase58Check when checking dao coin token transfer restriction status permissions'
+        new DeSoValidationError(
+          'must provide profile public key, not username for UpdaterPublicKeyBase58Check when checking dao coin token transfer restriction status permissions'
+        )
       );
     }
 
-    await guardTxPermission({
-      GlobalDESOLimit: 1 * 1e9,
-      DAOCoinOperationLimitMap: {
-        [params.UpdaterPublicKeyBase58Check]: {
-          update_transfer_restriction_status: 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit: 1 * 1e9,
+        DAOCoinOperationLimitMap: {
+          [params.UpdaterPublicKeyBase58Check]: {
+            update_transfer_restriction_status: 1,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit(
@@ -255,14 +294,15 @@ export const updateDeSoTokenTransferRestrictionStatus = async (
 };
 
 export const constructUpdateDeSoTokenTransferRestrictionStatusTransaction = (
-  params: UpdateDeSoTokenTransferRestrictionStatusRequestParams
+  params: UpdateDeSoTokenTransferRestrictionStatusRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataDAOCoin();
-  // TODO: I know we're passing hex strings representing uint256, but need
-  // to figure out how they go to bytes.
   if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
     return Promise.reject(
-      'must provide profile public key, not username for local transaction construction'
+      new DeSoValidationError(
+        'must provide profile public key, not username for local transaction construction'
+      )
     );
   }
   metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(
@@ -284,14 +324,22 @@ export const constructUpdateDeSoTokenTransferRestrictionStatusTransaction = (
       transferRestrictionStatus = 0;
       break;
     default:
-      return Promise.reject('invalid transfer restriction status value');
+      return Promise.reject(
+        new DeSoValidationError('invalid transfer restriction status value')
+      );
   }
   metadata.transferRestrictionStatus = transferRestrictionStatus;
-  return constructBalanceModelTx(params.UpdaterPublicKeyBase58Check, metadata, {
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-  });
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
 
 export type DisableMintingDeSoTokenRequestParams =
@@ -316,30 +364,44 @@ export const disableMintingDeSoToken = (
 };
 
 export const constructDisableMintingDeSoToken = (
-  params: DisableMintingDeSoTokenRequestParams
+  params: DisableMintingDeSoTokenRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   const metadata = new TransactionMetadataDAOCoin();
   if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
     return Promise.reject(
-      'must provide profile public key, not username for local transaction construction'
+      new DeSoValidationError(
+        'must provide profile public key, not username for local transaction construction'
+      )
     );
   }
   metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(
     params.ProfilePublicKeyBase58CheckOrUsername
   );
   metadata.operationType = 2;
-  return constructBalanceModelTx(params.UpdaterPublicKeyBase58Check, metadata, {
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-  });
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
 
 /**
  * https://docs.deso.org/deso-backend/construct-transactions/dao-transactions-api#transfer-deso-token-dao-coin
  */
+export type TransferDeSoTokenRequestParams =
+  TxRequestWithOptionalFeesAndExtraData<
+    WithBigIntAmounts<TransferDAOCoinRequest, 'DAOCoinToTransferNanos'>
+  >;
+
 export const transferDeSoToken = async (
-  params: TxRequestWithOptionalFeesAndExtraData<TransferDAOCoinRequest>,
+  params: TransferDeSoTokenRequestParams,
   options?: TxRequestOptions
 ): Promise<ConstructedAndSubmittedTx<TransferDAOCoinResponse>> => {
   if (options?.checkPermissions !== false) {
@@ -359,28 +421,36 @@ export const transferDeSoToken = async (
 
     if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
       return Promise.reject(
-        'must provide profile public key, not username for ProfilePublicKeyBase58CheckOrUsername when checking dao coin transfer permissions'
+        new DeSoValidationError(
+          'must provide profile public key, not username for ProfilePublicKeyBase58CheckOrUsername when checking dao coin transfer permissions'
+        )
       );
     }
 
     const txnLimitCount =
       options?.txLimitCount ??
-      identity.transactionSpendingLimitOptions?.DAOCoinOperationLimitMap?.[
+      getClientContext(options).identity.transactionSpendingLimitOptions
+        ?.DAOCoinOperationLimitMap?.[
         params.ProfilePublicKeyBase58CheckOrUsername
       ].transfer ??
       1;
 
-    await guardTxPermission({
-      GlobalDESOLimit:
-        // TODO: when I figure out how to properly calculate the fee for this transaction
-        // we can remove this static 1500 buffer.
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees) + 1500,
-      DAOCoinOperationLimitMap: {
-        [params.ProfilePublicKeyBase58CheckOrUsername]: {
-          transfer: txnLimitCount,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          // TODO: when I figure out how to properly calculate the fee for this transaction
+          // we can remove this static 1500 buffer.
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees) +
+          1500,
+        DAOCoinOperationLimitMap: {
+          [params.ProfilePublicKeyBase58CheckOrUsername]: {
+            transfer: txnLimitCount,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/transfer-dao-coin', params, {
@@ -390,16 +460,19 @@ export const transferDeSoToken = async (
 };
 
 export const constructTransferDeSoToken = (
-  params: TxRequestWithOptionalFeesAndExtraData<TransferDAOCoinRequest>
+  params: TransferDeSoTokenRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   if (!isMaybeDeSoPublicKey(params.ProfilePublicKeyBase58CheckOrUsername)) {
     return Promise.reject(
-      'must provide profile public key, not username for local transaction construction'
+      new DeSoValidationError(
+        'must provide profile public key, not username for local transaction construction'
+      )
     );
   }
   const metadata = new TransactionMetadataTransferDAOCoin();
-  metadata.daoCoinToTransferNanos = hexToBytes(
-    stripHexPrefix(params.DAOCoinToTransferNanos)
+  metadata.daoCoinToTransferNanos = uint256ToBytes(
+    params.DAOCoinToTransferNanos
   );
   metadata.profilePublicKey = bs58PublicKeyToCompressedBytes(
     params.ProfilePublicKeyBase58CheckOrUsername
@@ -407,19 +480,27 @@ export const constructTransferDeSoToken = (
   metadata.receiverPublicKey = bs58PublicKeyToCompressedBytes(
     params.ReceiverPublicKeyBase58CheckOrUsername
   );
-  return constructBalanceModelTx(params.SenderPublicKeyBase58Check, metadata, {
-    ExtraData: params.ExtraData,
-    MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
-    TransactionFees: params.TransactionFees,
-  });
+  return constructBalanceModelTx(
+    params.SenderPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
 
-// TODO: Balance model transaction construction for limit orders.
 /**
  * https://docs.deso.org/deso-backend/construct-transactions/dao-transactions-api#create-deso-token-dao-coin-limit-order
  */
+export type CreateDeSoTokenLimitOrderRequestParams =
+  TxRequestWithOptionalFeesAndExtraData<DAOCoinLimitOrderRequest>;
+
 export const createDeSoTokenLimitOrder = (
-  params: DAOCoinLimitOrderRequest,
+  params: CreateDeSoTokenLimitOrderRequestParams,
   options?: RequestOptions
 ): Promise<ConstructedAndSubmittedTx<DAOCoinOrderResponse>> => {
   return handleSignAndSubmit(
@@ -427,12 +508,26 @@ export const createDeSoTokenLimitOrder = (
     {
       ...params,
     },
+    { ...options, constructionFunction: constructDeSoTokenLimitOrder }
+  );
+};
+
+export const constructDeSoTokenLimitOrder = (
+  params: CreateDeSoTokenLimitOrderRequestParams,
+  options?: RequestOptions
+): Promise<ConstructedTransactionResponse> => {
+  return constructDeSoTokenOrder(
+    params,
+    FillTypeWithFee.GOOD_TILL_CANCELLED,
     options
   );
 };
 
+export type CreateDeSoTokenMarketOrderRequestParams =
+  TxRequestWithOptionalFeesAndExtraData<DAOCoinMarketOrderRequest>;
+
 export const createDeSoTokenMarketOrder = (
-  params: DAOCoinMarketOrderRequest,
+  params: CreateDeSoTokenMarketOrderRequestParams,
   options?: RequestOptions
 ): Promise<ConstructedAndSubmittedTx<DAOCoinOrderResponse>> => {
   return handleSignAndSubmit(
@@ -440,19 +535,34 @@ export const createDeSoTokenMarketOrder = (
     {
       ...params,
     },
+    { ...options, constructionFunction: constructDeSoTokenMarketOrder }
+  );
+};
+
+export const constructDeSoTokenMarketOrder = (
+  params: CreateDeSoTokenMarketOrderRequestParams,
+  options?: RequestOptions
+): Promise<ConstructedTransactionResponse> => {
+  // Market orders are limit orders with a zero exchange rate, which the
+  // backend interprets as "fill at any price".
+  return constructDeSoTokenOrder(
+    { ...params, Price: '0' },
+    FillTypeWithFee.IMMEDIATE_OR_CANCEL,
     options
   );
 };
 
 export const buyDeSoTokenMarketOrder = (
-  params: PartialWithRequiredFields<
-    Omit<
-      DAOCoinMarketOrderRequest,
-      'SellingDAOCoinCreatorPublicKeyBase58Check' | 'OperationType'
-    >,
-    | 'TransactorPublicKeyBase58Check'
-    | 'BuyingDAOCoinCreatorPublicKeyBase58Check'
-    | 'Quantity'
+  params: TxRequestWithOptionalFeesAndExtraData<
+    PartialWithRequiredFields<
+      Omit<
+        DAOCoinMarketOrderRequest,
+        'SellingDAOCoinCreatorPublicKeyBase58Check' | 'OperationType'
+      >,
+      | 'TransactorPublicKeyBase58Check'
+      | 'BuyingDAOCoinCreatorPublicKeyBase58Check'
+      | 'Quantity'
+    >
   >,
   options?: RequestOptions
 ): Promise<ConstructedAndSubmittedTx<DAOCoinOrderResponse>> => {
@@ -463,19 +573,21 @@ export const buyDeSoTokenMarketOrder = (
       SellingDAOCoinCreatorPublicKeyBase58Check: '',
       OperationType: 'BID',
     },
-    options
+    { ...options, constructionFunction: constructDeSoTokenMarketOrder }
   );
 };
 
 export const sellDeSoTokenMarketOrder = (
-  params: PartialWithRequiredFields<
-    Omit<
-      DAOCoinMarketOrderRequest,
-      'BuyingDAOCoinCreatorPublicKeyBase58Check' | 'OperationType'
-    >,
-    | 'TransactorPublicKeyBase58Check'
-    | 'SellingDAOCoinCreatorPublicKeyBase58Check'
-    | 'Quantity'
+  params: TxRequestWithOptionalFeesAndExtraData<
+    PartialWithRequiredFields<
+      Omit<
+        DAOCoinMarketOrderRequest,
+        'BuyingDAOCoinCreatorPublicKeyBase58Check' | 'OperationType'
+      >,
+      | 'TransactorPublicKeyBase58Check'
+      | 'SellingDAOCoinCreatorPublicKeyBase58Check'
+      | 'Quantity'
+    >
   >,
   options?: RequestOptions
 ): Promise<ConstructedAndSubmittedTx<DAOCoinOrderResponse>> => {
@@ -483,10 +595,11 @@ export const sellDeSoTokenMarketOrder = (
     'api/v0/create-dao-coin-market-order',
     {
       ...params,
-      SellingDAOCoinCreatorPublicKeyBase58Check: '',
+      // NOTE: DESO is what we receive when selling, so it is the buying coin.
+      BuyingDAOCoinCreatorPublicKeyBase58Check: '',
       OperationType: 'ASK',
     },
-    options
+    { ...options, constructionFunction: constructDeSoTokenMarketOrder }
   );
 };
 
@@ -497,13 +610,40 @@ export const cancelDeSoTokenLimitOrder = (
   params: TxRequestWithOptionalFeesAndExtraData<DAOCoinLimitOrderWithCancelOrderIDRequest>,
   options?: RequestOptions
 ): Promise<ConstructedAndSubmittedTx<DAOCoinOrderResponse>> => {
-  return handleSignAndSubmit(
-    'api/v0/cancel-dao-coin-limit-order',
-    params,
+  return handleSignAndSubmit('api/v0/cancel-dao-coin-limit-order', params, {
+    ...options,
+    constructionFunction: constructCancelDeSoTokenLimitOrder,
+  });
+};
+
+export const constructCancelDeSoTokenLimitOrder = (
+  params: TxRequestWithOptionalFeesAndExtraData<DAOCoinLimitOrderWithCancelOrderIDRequest>,
+  options?: RequestOptions
+): Promise<ConstructedTransactionResponse> => {
+  const metadata = new TransactionMetadataDAOCoinLimitOrder();
+  metadata.cancelOrderID = hexToBytes(stripHexPrefix(params.CancelOrderID));
+  return constructBalanceModelTx(
+    params.TransactorPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
     options
   );
 };
 
+/**
+ * Places a market order and pays the market's trading fees in the same atomic
+ * transaction.
+ *
+ * NOTE: This can't be constructed locally. The node fills the order against
+ * its own view of the order book and AMM, and the bundle it returns includes
+ * transactions signed by the AMM keys, so it is always constructed by the
+ * node and strict local construction throws.
+ */
 export const createDeSoTokenMarketOrderWithFee = async (
   params: TxRequestWithOptionalFeesAndExtraData<DeSoTokenMarketOrderWithFeeRequest>,
   options?: TxRequestOptions
@@ -513,7 +653,9 @@ export const createDeSoTokenMarketOrderWithFee = async (
   if (options?.checkPermissions !== false) {
     if (!isMaybeDeSoPublicKey(params.TransactorPublicKeyBase58Check)) {
       return Promise.reject(
-        'must provide profile public key, not username for ProfilePublicKeyBase58CheckOrUsername when checking dao coin transfer permissions'
+        new DeSoValidationError(
+          'must provide profile public key, not username for ProfilePublicKeyBase58CheckOrUsername when checking dao coin transfer permissions'
+        )
       );
     }
 
@@ -530,13 +672,14 @@ export const createDeSoTokenMarketOrderWithFee = async (
             },
           };
 
-    await guardTxPermission({
-      GlobalDESOLimit:
-        // TODO: there is no way to calculate how much we are spending so this is going to fail
-        1000 * 1e9,
-      DAOCoinLimitOrderLimitMap: DAOCoinLimitOrderLimitMap,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          // TODO: there is no way to calculate how much we are spending so this is going to fail
+          1000 * 1e9,
+        DAOCoinLimitOrderLimitMap: DAOCoinLimitOrderLimitMap,
 
-      /*
+        /*
       This is hideous, however if we are not providing the spending limits
       we need to assume that this transaction may contain many dao coin transfers
       and basic transfers.
@@ -544,28 +687,30 @@ export const createDeSoTokenMarketOrderWithFee = async (
       Any users of this function should preview the transaction first and construct
       appropriate spending limits and pass them in options.spendingLimits.
       */
-      ...((identity.transactionSpendingLimitOptions?.DAOCoinOperationLimitMap?.[
-        params.QuoteCurrencyPublicKeyBase58Check
-      ]?.transfer || 0) < 10
-        ? {
-            DAOCoinOperationLimitMap: {
-              [params.QuoteCurrencyPublicKeyBase58Check]: {
-                transfer: 'UNLIMITED',
+        ...((getClientContext(options).identity.transactionSpendingLimitOptions
+          ?.DAOCoinOperationLimitMap?.[params.QuoteCurrencyPublicKeyBase58Check]
+          ?.transfer || 0) < 10
+          ? {
+              DAOCoinOperationLimitMap: {
+                [params.QuoteCurrencyPublicKeyBase58Check]: {
+                  transfer: 'UNLIMITED',
+                },
               },
-            },
-          }
-        : {}),
-      ...((identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-        ?.BASIC_TRANSFER || 0) < 10
-        ? {
-            TransactionCountLimitMap: {
-              BASIC_TRANSFER: 'UNLIMITED',
-            },
-          }
-        : {}),
+            }
+          : {}),
+        ...((getClientContext(options).identity.transactionSpendingLimitOptions
+          ?.TransactionCountLimitMap?.BASIC_TRANSFER || 0) < 10
+          ? {
+              TransactionCountLimitMap: {
+                BASIC_TRANSFER: 'UNLIMITED',
+              },
+            }
+          : {}),
 
-      ...(options?.spendingLimit || {}),
-    });
+        ...(options?.spendingLimit || {}),
+      },
+      options
+    );
   }
 
   return handleSignAndSubmitAtomic<DeSoTokenMarketOrderWithFeeResponse>(
@@ -575,6 +720,15 @@ export const createDeSoTokenMarketOrderWithFee = async (
   );
 };
 
+/**
+ * Creates a new coin with its supply, AMM, lockup and coin properties in one
+ * atomic transaction.
+ *
+ * NOTE: This can't be constructed locally. The node decides the supply and
+ * the AMM's share of it, and the bundle it returns includes transactions
+ * signed by the AMM keys, so it is always constructed by the node and strict
+ * local construction throws.
+ */
 export const createNewCoin = async (
   params: TxRequestWithOptionalFeesAndExtraData<CreateNewCoinRequest>,
   options?: TxRequestOptions
@@ -582,7 +736,9 @@ export const createNewCoin = async (
   if (options?.checkPermissions !== false) {
     if (!isMaybeDeSoPublicKey(params.UpdaterPublicKey)) {
       return Promise.reject(
-        'must provide profile public key, not username for UpdaterPublicKey when checking your transfer permissions'
+        new DeSoValidationError(
+          'must provide profile public key, not username for UpdaterPublicKey when checking your transfer permissions'
+        )
       );
     }
 
@@ -608,24 +764,29 @@ export const createNewCoin = async (
       });
     }
 
-    await guardTxPermission({
-      GlobalDESOLimit:
-        // TODO: there is no way to calculate how much we are spending so this is going to fail
-        1 * 1e9,
-      DAOCoinOperationLimitMap: {
-        [params.UpdaterPublicKey]: {
-          disable_minting: params.DisableMintingOfNewCoins ? 1 : 0,
-          update_transfer_restriction_status:
-            params.EnablePermanentlyUnrestrictedTransfers ? 1 : 0,
-          mint: 2,
-          transfer: 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          // TODO: there is no way to calculate how much we are spending so this is going to fail
+          1 * 1e9,
+        DAOCoinOperationLimitMap: {
+          [params.UpdaterPublicKey]: {
+            disable_minting: params.DisableMintingOfNewCoins ? 1 : 0,
+            update_transfer_restriction_status:
+              params.EnablePermanentlyUnrestrictedTransfers ? 1 : 0,
+            mint: 2,
+            transfer: 1,
+          },
         },
+        TransactionCountLimitMap: {
+          [TransactionType.UpdateProfile]: params.NewProfileUsername ? 2 : 1,
+        },
+        ...(lockupLimitMapParam.LockupLimitMap.length
+          ? lockupLimitMapParam
+          : {}),
       },
-      TransactionCountLimitMap: {
-        [TransactionType.UpdateProfile]: params.NewProfileUsername ? 2 : 1,
-      },
-      ...(lockupLimitMapParam.LockupLimitMap.length ? lockupLimitMapParam : {}),
-    });
+      options
+    );
   }
 
   return handleSignAndSubmitAtomic<CreateNewCoinResponse>(
@@ -635,6 +796,13 @@ export const createNewCoin = async (
   );
 };
 
+/**
+ * Updates the properties of an existing coin in one atomic transaction.
+ *
+ * NOTE: This can't be constructed locally for the same reasons as
+ * createNewCoin. It is always constructed by the node and strict local
+ * construction throws.
+ */
 export const updateCoinProperties = async (
   params: TxRequestWithOptionalFeesAndExtraData<UpdateCoinPropertiesRequest>,
   options?: TxRequestOptions
@@ -642,7 +810,9 @@ export const updateCoinProperties = async (
   if (options?.checkPermissions !== false) {
     if (!isMaybeDeSoPublicKey(params.UpdaterPublicKey)) {
       return Promise.reject(
-        'must provide profile public key, not username for UpdaterPublicKey when checking your transfer permissions'
+        new DeSoValidationError(
+          'must provide profile public key, not username for UpdaterPublicKey when checking your transfer permissions'
+        )
       );
     }
 
@@ -659,34 +829,38 @@ export const updateCoinProperties = async (
       });
     }
 
-    await guardTxPermission({
-      GlobalDESOLimit: 1 * 1e9,
-      DAOCoinOperationLimitMap: {
-        [params.UpdaterPublicKey]: {
-          disable_minting: params.DisableMintingOfNewCoins ? 1 : 0,
-          update_transfer_restriction_status: 1,
-          mint: 2,
-          transfer: 1,
-        },
-      },
-      TransactionCountLimitMap: {
-        [TransactionType.UpdateProfile]: params.NewProfileUsername ? 2 : 1,
-      },
-      LockupLimitMap: [
-        {
-          ProfilePublicKeyBase58Check: params.UpdaterPublicKey,
-          Operation: LockupLimitOperationString.UPDATE_COIN_LOCKUP_YIELD_CURVE,
-          ScopeType: LockupLimitScopeType.SCOPED,
-          OpCount: 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit: 1 * 1e9,
+        DAOCoinOperationLimitMap: {
+          [params.UpdaterPublicKey]: {
+            disable_minting: params.DisableMintingOfNewCoins ? 1 : 0,
+            update_transfer_restriction_status: 1,
+            mint: 2,
+            transfer: 1,
+          },
         },
-        {
-          ProfilePublicKeyBase58Check: params.UpdaterPublicKey,
-          Operation: LockupLimitOperationString.COIN_LOCKUP,
-          ScopeType: LockupLimitScopeType.SCOPED,
-          OpCount: 1,
+        TransactionCountLimitMap: {
+          [TransactionType.UpdateProfile]: params.NewProfileUsername ? 2 : 1,
         },
-      ],
-    });
+        LockupLimitMap: [
+          {
+            ProfilePublicKeyBase58Check: params.UpdaterPublicKey,
+            Operation:
+              LockupLimitOperationString.UPDATE_COIN_LOCKUP_YIELD_CURVE,
+            ScopeType: LockupLimitScopeType.SCOPED,
+            OpCount: 1,
+          },
+          {
+            ProfilePublicKeyBase58Check: params.UpdaterPublicKey,
+            Operation: LockupLimitOperationString.COIN_LOCKUP,
+            ScopeType: LockupLimitScopeType.SCOPED,
+            OpCount: 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmitAtomic<UpdateCoinPropertiesResponse>(
@@ -695,3 +869,137 @@ export const updateCoinProperties = async (
     { ...options, jwt: true }
   );
 };
+
+// The backend represents DESO as the zero public key in limit orders.
+const ZERO_PUBLIC_KEY = new Uint8Array(33);
+const DESO_DECIMALS = 9;
+const DESO_TOKEN_DECIMALS = 18;
+// Exchange rates are stored as fixed point numbers scaled by 1e38.
+const EXCHANGE_RATE_SCALING_EXPONENT = 38;
+
+const DAO_COIN_LIMIT_ORDER_OPERATION_TYPES = { ASK: 1, BID: 2 };
+
+const DAO_COIN_LIMIT_ORDER_FILL_TYPES = {
+  [FillTypeWithFee.GOOD_TILL_CANCELLED]: 1,
+  [FillTypeWithFee.IMMEDIATE_OR_CANCEL]: 2,
+  [FillTypeWithFee.FILL_OR_KILL]: 3,
+};
+
+const constructDeSoTokenOrder = (
+  params: CreateDeSoTokenLimitOrderRequestParams,
+  defaultFillType: FillTypeWithFee,
+  options?: RequestOptions
+): Promise<ConstructedTransactionResponse> => {
+  const {
+    BuyingDAOCoinCreatorPublicKeyBase58Check: buyingPublicKey,
+    SellingDAOCoinCreatorPublicKeyBase58Check: sellingPublicKey,
+  } = params;
+
+  if (
+    (buyingPublicKey && !isMaybeDeSoPublicKey(buyingPublicKey)) ||
+    (sellingPublicKey && !isMaybeDeSoPublicKey(sellingPublicKey))
+  ) {
+    return Promise.reject(
+      new DeSoValidationError(
+        'must provide public keys, not usernames for local transaction construction'
+      )
+    );
+  }
+
+  const operationType =
+    DAO_COIN_LIMIT_ORDER_OPERATION_TYPES[params.OperationType];
+  const fillType =
+    DAO_COIN_LIMIT_ORDER_FILL_TYPES[
+      (params.FillType || defaultFillType) as FillTypeWithFee
+    ];
+
+  if (!operationType) {
+    return Promise.reject(
+      new DeSoValidationError(`invalid operation type ${params.OperationType}`)
+    );
+  }
+  if (!fillType) {
+    return Promise.reject(
+      new DeSoValidationError(`invalid fill type ${params.FillType}`)
+    );
+  }
+
+  const buyingDecimals = buyingPublicKey ? DESO_TOKEN_DECIMALS : DESO_DECIMALS;
+  const sellingDecimals = sellingPublicKey
+    ? DESO_TOKEN_DECIMALS
+    : DESO_DECIMALS;
+
+  const metadata = new TransactionMetadataDAOCoinLimitOrder();
+  metadata.buyingDAOCoinCreatorPublicKey = buyingPublicKey
+    ? bs58PublicKeyToCompressedBytes(buyingPublicKey)
+    : ZERO_PUBLIC_KEY;
+  metadata.sellingDAOCoinCreatorPublicKey = sellingPublicKey
+    ? bs58PublicKeyToCompressedBytes(sellingPublicKey)
+    : ZERO_PUBLIC_KEY;
+  metadata.scaledExchangeRateCoinsToSellPerCoinToBuy = uint256ToBytes(
+    calculateScaledExchangeRate(
+      params.Price,
+      params.OperationType,
+      buyingDecimals,
+      sellingDecimals
+    )
+  );
+  // Bids are denominated in the coin being bought, asks in the coin being sold.
+  metadata.quantityToFillInBaseUnits = uint256ToBytes(
+    parseUnits(
+      params.Quantity,
+      params.OperationType === 'BID' ? buyingDecimals : sellingDecimals
+    )
+  );
+  metadata.operationType = operationType;
+  metadata.fillType = fillType;
+
+  return constructBalanceModelTx(
+    params.TransactorPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
+};
+
+/**
+ * Price is always quoted as the amount of the "other" coin per whole unit of
+ * the coin whose quantity is specified. For a bid that is coins to sell per
+ * coin to buy, and for an ask we need to invert it.
+ */
+const calculateScaledExchangeRate = (
+  price: string,
+  operationType: 'ASK' | 'BID',
+  buyingDecimals: number,
+  sellingDecimals: number
+): bigint => {
+  const { digits, decimals } = parseDecimal(price);
+  if (digits === BigInt(0)) {
+    return BigInt(0);
+  }
+
+  const exponent =
+    EXCHANGE_RATE_SCALING_EXPONENT + sellingDecimals - buyingDecimals;
+
+  return operationType === 'BID'
+    ? (digits * BigInt(10) ** BigInt(exponent)) / BigInt(10) ** decimals
+    : BigInt(10) ** (BigInt(exponent) + decimals) / digits;
+};
+
+const parseDecimal = (value: string) => {
+  const match = value.trim().match(/^(\d*)(?:\.(\d*))?$/);
+  if (!match || !(match[1] || match[2])) {
+    throw new DeSoValidationError(`invalid decimal string ${value}`);
+  }
+  const fraction = match[2] ?? '';
+
+  return {
+    digits: BigInt(`${match[1]}${fraction}` || '0'),
+    decimals: BigInt(fraction.length),
+  };
+};
@@ -0,0 +1,67 @@
+import { DeSoValidationError, decodeTransaction } from '../identity/index.js';
+import { createAccount, createFakeNodeClient } from '../test-utils.js';
+
+describe('creator coin local construction', () => {
+  const updater = createAccount().publicKey;
+  const creator = createAccount().publicKey;
+  const client = createFakeNodeClient({
+    'get-app-state': () => ({ BlockHeight: 1000 }),
+  });
+
+  it('carries the expected amounts of a buy', async () => {
+    const { TransactionHex } = await client.constructBuyCreatorCoinTransaction({
+      UpdaterPublicKeyBase58Check: updater,
+      CreatorPublicKeyBase58Check: creator,
+      DeSoToSellNanos: 1e9,
+      MinCreatorCoinExpectedNanos: 2500,
+    });
+
+    expect(decodeTransaction(TransactionHex).metadata).toMatchObject({
+      txnTypeString: 'CREATOR_COIN',
+      data: {
+        profilePublicKey: creator,
+        operationType: 0,
+        desoToSellNanos: 1e9,
+        minCreatorCoinExpectedNanos: 2500,
+      },
+    });
+  });
+
+  it('carries the expected amounts of a sell', async () => {
+    const { TransactionHex } = await client.constructSellCreatorCoinTransaction(
+      {
+        UpdaterPublicKeyBase58Check: updater,
+        CreatorPublicKeyBase58Check: creator,
+        CreatorCoinToSellNanos: 2500,
+        MinDeSoExpectedNanos: 1e6,
+      }
+    );
+
+    expect(decodeTransaction(TransactionHex).metadata).toMatchObject({
+      txnTypeString: 'CREATOR_COIN',
+      data: {
+        profilePublicKey: creator,
+        operationType: 1,
+        creatorCoinToSellNanos: 2500,
+        minDeSoExpectedNanos: 1e6,
+      },
+    });
+  });
+
+  it('requires a slippage tolerance', async () => {
+    await expect(
+      client.constructBuyCreatorCoinTransaction({
+        UpdaterPublicKeyBase58Check: updater,
+        CreatorPublicKeyBase58Check: creator,
+        DeSoToSellNanos: 1e9,
+      })
+    ).rejects.toBeInstanceOf(DeSoValidationError);
+    await expect(
+      client.constructSellCreatorCoinTransaction({
+        UpdaterPublicKeyBase58Check: updater,
+        CreatorPublicKeyBase58Check: creator,
+        CreatorCoinToSellNanos: 2500,
+      })
+    ).rejects.toBeInstanceOf(DeSoValidationError);
+  });
+});
@@ -2,6 +2,7 @@ import {
   BuyOrSellCreatorCoinRequest,
   BuyOrSellCreatorCoinResponse,
   ConstructedTransactionResponse,
+  RequestOptions,
   SendDeSoRequest,
   SendDeSoResponse,
   TransferCreatorCoinRequest,
@@ -10,23 +11,31 @@ import {
 } from '../backend-types/index.js';
 import { PartialWithRequiredFields } from '../data/index.js';
 import {
+  DeSoValidationError,
   TransactionMetadataBasicTransfer,
   TransactionMetadataCreatorCoin,
   TransactionMetadataCreatorCoinTransfer,
   TransactionOutput,
   bs58PublicKeyToCompressedBytes,
-  identity,
 } from '../identity/index.js';
 import {
   constructBalanceModelTx,
+  getClientContext,
   getTxWithFeeNanos,
   handleSignAndSubmit,
   isMaybeDeSoPublicKey,
   sumTransactionFees,
 } from '../internal.js';
-import { ConstructedAndSubmittedTx, TxRequestOptions } from '../types.js';
+import {
+  ConstructedAndSubmittedTx,
+  TxRequestOptions,
+  WithBigIntAmounts,
+} from '../types.js';
 import { guardTxPermission } from './utils.js';
 
+export type SendDeSoRequestParams =
+  TxRequestWithOptionalFeesAndExtraData<SendDeSoRequest>;
+
 /**
  * https://docs.deso.org/deso-backend/construct-transactions/financial-transactions-api#send-deso
  *
@@ -35,7 +44,7 @@ import { guardTxPermission } from './utils.js';
  * should provide the optional spendingLimitAmountNanos to be used instead.
  */
 export const sendDeso = async (
-  params: TxRequestWithOptionalFeesAndExtraData<SendDeSoRequest>,
+  params: SendDeSoRequestParams,
   options?: TxRequestOptions & { spendingLimitAmountNanos?: number }
 ): Promise<
   ConstructedAndSubmittedTx<SendDeSoResponse | ConstructedTransactionResponse>
@@ -53,6 +62,8 @@ export const sendDeso = async (
         // key is because it could cause the derived key re-approval popup to
         // get blocked by browser popup blockers.
         RecipientPublicKeyOrUsername: params.SenderPublicKeyBase58Check,
+        // A max send uses -1, which can't be encoded as a uvarint.
+        AmountNanos: params.AmountNanos < 0 ? 0 : params.AmountNanos,
       }),
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
@@ -66,19 +77,22 @@ export const sendDeso = async (
         ? options.spendingLimitAmountNanos
         : params.AmountNanos;
 
-    await guardTxPermission({
-      GlobalDESOLimit:
-        amountNanos +
-        txWithFee.feeNanos +
-        sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        BASIC_TRANSFER:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions.TransactionCountLimitMap
-            ?.BASIC_TRANSFER ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          amountNanos +
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          BASIC_TRANSFER:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              .TransactionCountLimitMap?.BASIC_TRANSFER ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/send-deso', params, {
@@ -87,9 +101,7 @@ export const sendDeso = async (
   });
 };
 
-const buildSendDeSoOutputs = (
-  params: TxRequestWithOptionalFeesAndExtraData<SendDeSoRequest>
-) => {
+const buildSendDeSoOutputs = (params: SendDeSoRequestParams) => {
   const transactionOutput = new TransactionOutput();
   transactionOutput.amountNanos = params.AmountNanos;
   transactionOutput.publicKey = bs58PublicKeyToCompressedBytes(
@@ -103,10 +115,11 @@ const buildSendDeSoOutputs = (
 };
 
 export const constructSendDeSoTransaction = (
-  params: TxRequestWithOptionalFeesAndExtraData<SendDeSoRequest>
+  params: SendDeSoRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   if (!isMaybeDeSoPublicKey(params.RecipientPublicKeyOrUsername)) {
-    throw new Error(
+    throw new DeSoValidationError(
       'must provide public key, not user name for local construction'
     );
   }
@@ -120,20 +133,22 @@ export const constructSendDeSoTransaction = (
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
       Nonce: params.Nonce,
-    }
+    },
+    options
   );
 };
 
-// TODO: BUY creator coins is hard. Need to move some
-// big float math into js.
 /**
  * https://docs.deso.org/deso-backend/construct-transactions/financial-transactions-api#buy-or-sell-creator-coin
  */
 export type BuyCreatorCoinRequestParams = TxRequestWithOptionalFeesAndExtraData<
   PartialWithRequiredFields<
-    Omit<
-      BuyOrSellCreatorCoinRequest,
-      'CreatorCoinToSellNanos' | 'OperationType'
+    WithBigIntAmounts<
+      Omit<
+        BuyOrSellCreatorCoinRequest,
+        'CreatorCoinToSellNanos' | 'OperationType'
+      >,
+      'MinCreatorCoinExpectedNanos'
     >,
     | 'UpdaterPublicKeyBase58Check'
     | 'CreatorPublicKeyBase58Check'
@@ -159,17 +174,20 @@ export const buyCreatorCoin = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        params.DeSoToSellNanos +
-        txWithFee.feeNanos +
-        sumTransactionFees(params.TransactionFees),
-      CreatorCoinOperationLimitMap: {
-        [params.CreatorPublicKeyBase58Check]: {
-          buy: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          params.DeSoToSellNanos +
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees),
+        CreatorCoinOperationLimitMap: {
+          [params.CreatorPublicKeyBase58Check]: {
+            buy: options?.txLimitCount ?? 1,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit(
@@ -178,12 +196,43 @@ export const buyCreatorCoin = async (
       ...params,
       OperationType: 'buy',
     },
+    { ...options, constructionFunction: constructBuyCreatorCoinTransaction }
+  );
+};
+
+export const constructBuyCreatorCoinTransaction = (
+  params: BuyCreatorCoinRequestParams,
+  options?: RequestOptions
+): Promise<ConstructedTransactionResponse> => {
+  // The node uses the bonding curve to fill in the minimum when it constructs
+  // the transaction. Locally we need the caller's slippage tolerance, since
+  // defaulting to 0 would accept any amount.
+  if (
+    params.MinCreatorCoinExpectedNanos === undefined ||
+    params.MinCreatorCoinExpectedNanos === null
+  ) {
+    return Promise.reject(
+      new DeSoValidationError(
+        'must provide MinCreatorCoinExpectedNanos for local transaction construction'
+      )
+    );
+  }
+
+  const metadata = buildBuyCreatorCoinMetadata(params);
+
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
     options
   );
 };
 
-// TODO: SELL creator coins is hard. Need to move some
-// big float math into js.
 /**
  * https://docs.deso.org/deso-backend/construct-transactions/financial-transactions-api#buy-or-sell-creator-coin
  */
@@ -191,7 +240,10 @@ export const buyCreatorCoin = async (
 export type SellCreatorCoinRequestParams =
   TxRequestWithOptionalFeesAndExtraData<
     PartialWithRequiredFields<
-      Omit<BuyOrSellCreatorCoinRequest, 'DesoToSellNanos' | 'OperationType'>,
+      WithBigIntAmounts<
+        Omit<BuyOrSellCreatorCoinRequest, 'DesoToSellNanos' | 'OperationType'>,
+        'CreatorCoinToSellNanos' | 'MinDeSoExpectedNanos'
+      >,
       | 'UpdaterPublicKeyBase58Check'
       | 'CreatorPublicKeyBase58Check'
       | 'CreatorCoinToSellNanos'
@@ -217,15 +269,18 @@ export const sellCreatorCoin = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      CreatorCoinOperationLimitMap: {
-        [params.CreatorPublicKeyBase58Check]: {
-          sell: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        CreatorCoinOperationLimitMap: {
+          [params.CreatorPublicKeyBase58Check]: {
+            sell: options?.txLimitCount ?? 1,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit(
@@ -234,6 +289,36 @@ export const sellCreatorCoin = async (
       ...params,
       OperationType: 'sell',
     },
+    { ...options, constructionFunction: constructSellCreatorCoinTransaction }
+  );
+};
+
+export const constructSellCreatorCoinTransaction = (
+  params: SellCreatorCoinRequestParams,
+  options?: RequestOptions
+): Promise<ConstructedTransactionResponse> => {
+  if (
+    params.MinDeSoExpectedNanos === undefined ||
+    params.MinDeSoExpectedNanos === null
+  ) {
+    return Promise.reject(
+      new DeSoValidationError(
+        'must provide MinDeSoExpectedNanos for local transaction construction'
+      )
+    );
+  }
+
+  const metadata = buildSellCreatorCoinMetadata(params);
+
+  return constructBalanceModelTx(
+    params.UpdaterPublicKeyBase58Check,
+    metadata,
+    {
+      ExtraData: params.ExtraData,
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
     options
   );
 };
@@ -244,7 +329,10 @@ export const sellCreatorCoin = async (
 export type TransferCreatorCoinRequestParams =
   TxRequestWithOptionalFeesAndExtraData<
     PartialWithRequiredFields<
-      TransferCreatorCoinRequest,
+      WithBigIntAmounts<
+        TransferCreatorCoinRequest,
+        'CreatorCoinToTransferNanos'
+      >,
       | 'SenderPublicKeyBase58Check'
       | 'CreatorPublicKeyBase58Check'
       | 'ReceiverUsernameOrPublicKeyBase58Check'
@@ -266,15 +354,18 @@ export const transferCreatorCoin = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      CreatorCoinOperationLimitMap: {
-        [params.CreatorPublicKeyBase58Check]: {
-          transfer: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        CreatorCoinOperationLimitMap: {
+          [params.CreatorPublicKeyBase58Check]: {
+            transfer: options?.txLimitCount ?? 1,
+          },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/transfer-creator-coin', params, {
@@ -299,11 +390,14 @@ const buildTransferCreatorCoinMetadata = (
 };
 
 const constructTransferCreatorCoinTransaction = (
-  params: TransferCreatorCoinRequestParams
+  params: TransferCreatorCoinRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   if (!isMaybeDeSoPublicKey(params.ReceiverUsernameOrPublicKeyBase58Check)) {
     return Promise.reject(
-      'must provide public key, not user name for local construction'
+      new DeSoValidationError(
+        'must provide public key, not user name for local construction'
+      )
     );
   }
   return constructBalanceModelTx(
@@ -313,7 +407,9 @@ const constructTransferCreatorCoinTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -0,0 +1,156 @@
+import { decrypt, keygen, publicKeyToBase58Check } from '../identity/index.js';
+import {
+  FakeNodeRequest,
+  FakeNodeResponses,
+  createAccount,
+  createFakeNodeClient,
+} from '../test-utils.js';
+
+describe('groupChat', () => {
+  const owner = createAccount();
+  const alice = createAccount();
+  const bob = createAccount();
+  const carol = createAccount();
+  const accounts = [owner, alice, bob, carol];
+  const options = {
+    broadcast: false,
+    checkPermissions: false,
+    signer: owner.signer,
+  };
+
+  const createClient = (
+    responses: FakeNodeResponses,
+    calls: FakeNodeRequest[]
+  ) =>
+    createFakeNodeClient(responses, {
+      calls,
+      fallback: (endpoint) => ({ TransactionHex: endpoint }),
+    });
+
+  // every member uses their owner key as their default key
+  const checkPartyAccessGroups: FakeNodeResponses[string] = (body) => ({
+    RecipientAccessGroupPublicKeyBase58Check:
+      body.RecipientPublicKeyBase58Check,
+    RecipientAccessGroupKeyName: 'default-key',
+  });
+
+  const decryptMemberKeys = (calls: FakeNodeRequest[]) =>
+    Promise.all(
+      calls.flatMap(({ body }) =>
+        body.AccessGroupMemberList.map(async (member: any) => {
+          const account = accounts.find(
+            ({ publicKey }) =>
+              publicKey === member.AccessGroupMemberPublicKeyBase58Check
+          );
+          return [
+            member.AccessGroupMemberPublicKeyBase58Check,
+            await decrypt(account?.seedHex as string, member.EncryptedKey),
+          ];
+        })
+      )
+    ).then(Object.fromEntries);
+
+  it('creates a group and shares its key with the owner and members in batches', async () => {
+    const calls: FakeNodeRequest[] = [];
+    const client = createClient(
+      { 'check-party-access-groups': checkPartyAccessGroups },
+      calls
+    );
+
+    const { AccessGroupPublicKeyBase58Check, transactions } =
+      await client.groupChat.create(
+        {
+          AccessGroupOwnerPublicKeyBase58Check: owner.publicKey,
+          AccessGroupKeyName: 'friends',
+          Members: [alice.publicKey, bob.publicKey, alice.publicKey],
+        },
+        { ...options, batchSize: 2 }
+      );
+
+    const created = calls.find(
+      ({ endpoint }) => endpoint === 'create-access-group'
+    );
+    const added = calls.filter(
+      ({ endpoint }) => endpoint === 'add-access-group-members'
+    );
+    expect(created?.body.AccessGroupPublicKeyBase58Check).toEqual(
+      AccessGroupPublicKeyBase58Check
+    );
+    expect(added.map(({ body }) => body.AccessGroupMemberList.length)).toEqual([
+      2, 1,
+    ]);
+    expect(transactions).toHaveLength(3);
+
+    const memberKeys = await decryptMemberKeys(added);
+    expect(Object.keys(memberKeys).sort()).toEqual(
+      [owner.publicKey, alice.publicKey, bob.publicKey].sort()
+    );
+    Object.values(memberKeys).forEach((seedHex) =>
+      expect(publicKeyToBase58Check(keygen(seedHex as string).public)).toEqual(
+        AccessGroupPublicKeyBase58Check
+      )
+    );
+  });
+
+  it('rotates the group key after removing members', async () => {
+    const members = [owner, alice, bob, carol].map(
+      ({ publicKey }) => publicKey
+    );
+    const calls: FakeNodeRequest[] = [];
+    const client = createClient(
+      {
+        'check-party-access-groups': checkPartyAccessGroups,
+        'remove-access-group-members': (body) => {
+          const removed = body.AccessGroupMemberList.map(
+            (member: any) => member.AccessGroupMemberPublicKeyBase58Check
+          );
+          members.splice(
+            0,
+            members.length,
+            ...members.filter((member) => !removed.includes(member))
+          );
+          return { TransactionHex: 'remove' };
+        },
+        'get-paginated-access-group-members': () => ({
+          AccessGroupMembersBase58Check: members,
+        }),
+      },
+      calls
+    );
+    const params = {
+      AccessGroupOwnerPublicKeyBase58Check: owner.publicKey,
+      AccessGroupKeyName: 'friends',
+    };
+
+    const result = await client.groupChat.removeMembers(
+      { ...params, Members: [carol.publicKey] },
+      options
+    );
+
+    const updated = calls.find(
+      ({ endpoint }) => endpoint === 'update-access-group'
+    );
+    expect(updated?.body.AccessGroupPublicKeyBase58Check).toEqual(
+      result?.AccessGroupPublicKeyBase58Check
+    );
+    expect(calls.map(({ endpoint }) => endpoint)).toEqual([
+      'remove-access-group-members',
+      'get-paginated-access-group-members',
+      'update-access-group',
+      'check-party-access-groups',
+      'check-party-access-groups',
+      'check-party-access-groups',
+      'update-access-group-members',
+    ]);
+
+    const memberKeys = await decryptMemberKeys(
+      calls.filter(({ endpoint }) => endpoint === 'update-access-group-members')
+    );
+    expect(Object.keys(memberKeys).sort()).toEqual(
+      [owner.publicKey, alice.publicKey, bob.publicKey].sort()
+    );
+    expect(
+      publicKeyToBase58Check(keygen(memberKeys[alice.publicKey]).public)
+    ).toEqual(result?.AccessGroupPublicKeyBase58Check);
+  });
+});
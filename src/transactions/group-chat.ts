@@ -0,0 +1,328 @@
+import {
+  AccessGroupMember,
+  AddAccessGroupMembersResponse,
+  CreateAccessGroupResponse,
+} from '../backend-types/index.js';
+import {
+  checkPartyAccessGroups,
+  getAccessGroupMemberInfo,
+  getPaginatedAccessGroupMembers,
+  paginate,
+} from '../data/index.js';
+import {
+  DeSoValidationError,
+  bs58PublicKeyToCompressedBytes,
+  encrypt,
+  keygen,
+  publicKeyToBase58Check,
+} from '../identity/index.js';
+import { getClientContext } from '../internal.js';
+import { ConstructedAndSubmittedTx, TxRequestOptions } from '../types.js';
+import {
+  addAccessGroupMembers,
+  createAccessGroup,
+  removeAccessGroupMembers,
+  updateAccessGroup,
+  updateAccessGroupMembers,
+} from './access-groups.js';
+
+export interface GroupChatParams {
+  AccessGroupOwnerPublicKeyBase58Check: string;
+  AccessGroupKeyName: string;
+}
+
+export interface GroupChatMembersParams extends GroupChatParams {
+  /**
+   * The owner public keys of the members.
+   */
+  Members: string[];
+}
+
+export interface GroupChatOptions extends TxRequestOptions {
+  /**
+   * The maximum number of members added, updated or removed per
+   * transaction. Defaults to 100.
+   */
+  batchSize?: number;
+}
+
+export interface GroupChatResult {
+  /**
+   * The public key of the group's current key pair.
+   */
+  AccessGroupPublicKeyBase58Check: string;
+  transactions: ConstructedAndSubmittedTx<
+    CreateAccessGroupResponse | AddAccessGroupMembersResponse
+  >[];
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const toBatches = <T>(items: T[], batchSize: number) => {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    batches.push(items.slice(i, i + batchSize));
+  }
+  return batches;
+};
+
+// The group key uses the same network prefix as the owner's key.
+const generateGroupKeyPair = (owner: string) => {
+  const keys = keygen();
+  return {
+    seedHex: keys.seedHex,
+    publicKeyBase58Check: publicKeyToBase58Check(keys.public, {
+      network: owner.startsWith('tBC') ? 'testnet' : 'mainnet',
+    }),
+  };
+};
+
+/**
+ * Encrypts the group's private key to each member's default access group,
+ * falling back to their owner key if they don't have one.
+ */
+const shareGroupKey = (
+  { AccessGroupOwnerPublicKeyBase58Check, Members }: GroupChatMembersParams,
+  groupSeedHex: string,
+  options?: GroupChatOptions
+): Promise<AccessGroupMember[]> =>
+  Promise.all(
+    Array.from(new Set(Members)).map(async (member) => {
+      const {
+        RecipientAccessGroupPublicKeyBase58Check,
+        RecipientAccessGroupKeyName,
+      } = await checkPartyAccessGroups(
+        {
+          SenderPublicKeyBase58Check: AccessGroupOwnerPublicKeyBase58Check,
+          SenderAccessGroupKeyName: 'default-key',
+          RecipientPublicKeyBase58Check: member,
+          RecipientAccessGroupKeyName: 'default-key',
+        },
+        options
+      );
+
+      return {
+        AccessGroupMemberPublicKeyBase58Check: member,
+        AccessGroupMemberKeyName: RecipientAccessGroupKeyName,
+        EncryptedKey: await encrypt(
+          bs58PublicKeyToCompressedBytes(
+            RecipientAccessGroupPublicKeyBase58Check
+          ),
+          groupSeedHex
+        ),
+      };
+    })
+  );
+
+/**
+ * Reads the group's private key from the owner's own member entry.
+ */
+const getGroupSeedHex = async (
+  params: GroupChatParams,
+  options?: GroupChatOptions
+) => {
+  const { EncryptedKey } = await getAccessGroupMemberInfo(
+    {
+      ...params,
+      AccessGroupMemberPublicKeyBase58Check:
+        params.AccessGroupOwnerPublicKeyBase58Check,
+    },
+    options
+  );
+
+  if (!EncryptedKey) {
+    throw new DeSoValidationError(
+      `The owner is not a member of group chat ${params.AccessGroupKeyName}`
+    );
+  }
+
+  const { identity } = getClientContext(options);
+  const { seedHex } = await identity.decryptAccessGroupKeyPair(
+    EncryptedKey,
+    options?.signer ?? identity.signer()
+  );
+
+  return seedHex;
+};
+
+const submitMemberBatches = async (
+  submit: typeof addAccessGroupMembers,
+  params: GroupChatParams,
+  members: AccessGroupMember[],
+  options?: GroupChatOptions
+) => {
+  const transactions: ConstructedAndSubmittedTx<AddAccessGroupMembersResponse>[] =
+    [];
+  // one at a time so the transactions are submitted in order
+  for (const AccessGroupMemberList of toBatches(
+    members,
+    options?.batchSize ?? DEFAULT_BATCH_SIZE
+  )) {
+    transactions.push(
+      await submit({ ...params, AccessGroupMemberList }, options)
+    );
+  }
+  return transactions;
+};
+
+/**
+ * Creates a group chat with a fresh key pair and shares its private key with
+ * the members. The owner is always added as a member so they can read the
+ * group key back to add members or send messages later.
+ * @example
+ * ```ts
+ * await createGroupChat({
+ *   AccessGroupOwnerPublicKeyBase58Check: owner,
+ *   AccessGroupKeyName: 'friends',
+ *   Members: [alice, bob],
+ * });
+ * ```
+ */
+export const createGroupChat = async (
+  params: GroupChatMembersParams,
+  options?: GroupChatOptions
+): Promise<GroupChatResult> => {
+  const groupKeys = generateGroupKeyPair(
+    params.AccessGroupOwnerPublicKeyBase58Check
+  );
+  const created = await createAccessGroup(
+    {
+      AccessGroupOwnerPublicKeyBase58Check:
+        params.AccessGroupOwnerPublicKeyBase58Check,
+      AccessGroupKeyName: params.AccessGroupKeyName,
+      AccessGroupPublicKeyBase58Check: groupKeys.publicKeyBase58Check,
+    },
+    options
+  );
+  const members = await shareGroupKey(
+    {
+      ...params,
+      Members: [params.AccessGroupOwnerPublicKeyBase58Check, ...params.Members],
+    },
+    groupKeys.seedHex,
+    options
+  );
+
+  return {
+    AccessGroupPublicKeyBase58Check: groupKeys.publicKeyBase58Check,
+    transactions: [
+      created,
+      ...(await submitMemberBatches(
+        addAccessGroupMembers,
+        params,
+        members,
+        options
+      )),
+    ],
+  };
+};
+
+/**
+ * Adds members to a group chat owned by the logged in user, or by the
+ * signer passed in the options.
+ */
+export const addGroupChatMembers = async (
+  params: GroupChatMembersParams,
+  options?: GroupChatOptions
+): Promise<ConstructedAndSubmittedTx<AddAccessGroupMembersResponse>[]> => {
+  const members = await shareGroupKey(
+    params,
+    await getGroupSeedHex(params, options),
+    options
+  );
+
+  return submitMemberBatches(addAccessGroupMembers, params, members, options);
+};
+
+/**
+ * Replaces the group's key pair and shares the new private key with every
+ * current member. Messages sent after the rotation can only be read by
+ * members that received the new key.
+ */
+export const rotateGroupChatKey = async (
+  params: GroupChatParams,
+  options?: GroupChatOptions
+): Promise<GroupChatResult> => {
+  const groupKeys = generateGroupKeyPair(
+    params.AccessGroupOwnerPublicKeyBase58Check
+  );
+  const Members: string[] = [];
+
+  for await (const member of paginate(getPaginatedAccessGroupMembers, params, {
+    client: options?.client,
+    nodeURI: options?.nodeURI,
+  })) {
+    Members.push(member);
+  }
+
+  const updated = await updateAccessGroup(
+    {
+      ...params,
+      AccessGroupPublicKeyBase58Check: groupKeys.publicKeyBase58Check,
+    },
+    options
+  );
+  const members = await shareGroupKey(
+    {
+      ...params,
+      Members: [params.AccessGroupOwnerPublicKeyBase58Check, ...Members],
+    },
+    groupKeys.seedHex,
+    options
+  );
+
+  return {
+    AccessGroupPublicKeyBase58Check: groupKeys.publicKeyBase58Check,
+    transactions: [
+      updated,
+      ...(await submitMemberBatches(
+        updateAccessGroupMembers,
+        params,
+        members,
+        options
+      )),
+    ],
+  };
+};
+
+/**
+ * Removes members from a group chat and then rotates the group key, so the
+ * removed members can't decrypt new messages. Pass rotateKey: false to only
+ * remove them.
+ */
+export const removeGroupChatMembers = async (
+  params: GroupChatMembersParams,
+  {
+    rotateKey = true,
+    ...options
+  }: GroupChatOptions & { rotateKey?: boolean } = {}
+): Promise<GroupChatResult | null> => {
+  const removed = await submitMemberBatches(
+    removeAccessGroupMembers,
+    params,
+    params.Members.map((member) => ({
+      AccessGroupMemberPublicKeyBase58Check: member,
+      AccessGroupMemberKeyName: '',
+      EncryptedKey: '',
+    })),
+    options
+  );
+
+  if (!rotateKey) {
+    return null;
+  }
+
+  const rotated = await rotateGroupChatKey(params, options);
+
+  return { ...rotated, transactions: [...removed, ...rotated.transactions] };
+};
+
+/**
+ * The group chat lifecycle functions under one namespace.
+ */
+export const groupChat = {
+  create: createGroupChat,
+  addMembers: addGroupChatMembers,
+  removeMembers: removeGroupChatMembers,
+  rotateKey: rotateGroupChatKey,
+};
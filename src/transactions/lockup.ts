@@ -2,6 +2,7 @@ import {
   ConstructedAndSubmittedTx,
   TxRequestOptions,
   TypeWithOptionalFeesAndExtraData,
+  WithBigIntAmounts,
 } from '../types.js';
 import {
   CoinLockResponse,
@@ -12,26 +13,33 @@ import {
   LockupLimitMapItem,
   LockupLimitOperationString,
   LockupLimitScopeType,
+  RequestOptions,
   UpdateCoinLockupParamsRequest,
 } from '../backend-types/index.js';
 import {
+  DeSoValidationError,
   bs58PublicKeyToCompressedBytes,
   TransactionMetadataCoinLockup,
   TransactionMetadataCoinLockupTransfer,
   TransactionMetadataCoinUnlock,
   TransactionMetadataUpdateCoinLockupParams,
 } from '../identity/index.js';
-import { hexToBytes } from '@noble/hashes/utils';
 import {
   constructBalanceModelTx,
   getTxWithFeeNanos,
   handleSignAndSubmit,
   sumTransactionFees,
 } from '../internal.js';
-import { guardTxPermission, stripHexPrefix } from './utils.js';
+import { guardTxPermission, uint256ToBytes } from './utils.js';
 
-type CoinLockupRequestParams =
-  TypeWithOptionalFeesAndExtraData<CoinLockupRequest>;
+type CoinLockupRequestParams = TypeWithOptionalFeesAndExtraData<
+  WithBigIntAmounts<
+    CoinLockupRequest,
+    | 'LockupAmountBaseUnits'
+    | 'UnlockTimestampNanoSecs'
+    | 'VestingEndTimestampNanoSecs'
+  >
+>;
 
 const buildCoinLockupMetadata = (params: CoinLockupRequestParams) => {
   const metadata = new TransactionMetadataCoinLockup();
@@ -41,17 +49,15 @@ const buildCoinLockupMetadata = (params: CoinLockupRequestParams) => {
   metadata.recipientPublicKey = bs58PublicKeyToCompressedBytes(
     params.RecipientPublicKeyBase58Check
   );
-  // TODO: make sure this replace is correct.
-  metadata.lockupAmountBaseUnits = hexToBytes(
-    stripHexPrefix(params.LockupAmountBaseUnits)
-  );
+  metadata.lockupAmountBaseUnits = uint256ToBytes(params.LockupAmountBaseUnits);
   metadata.unlockTimestampNanoSecs = params.UnlockTimestampNanoSecs;
   metadata.vestingEndTimestampNanoSecs = params.VestingEndTimestampNanoSecs;
   return metadata;
 };
 
 export const constructCoinLockupTransaction = (
-  params: CoinLockupRequestParams
+  params: CoinLockupRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -60,7 +66,9 @@ export const constructCoinLockupTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -81,18 +89,21 @@ export const coinLockup = async (
       }
     );
 
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      LockupLimitMap: [
-        {
-          ProfilePublicKeyBase58Check: params.ProfilePublicKeyBase58Check,
-          Operation: LockupLimitOperationString.COIN_LOCKUP,
-          ScopeType: LockupLimitScopeType.SCOPED,
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        LockupLimitMap: [
+          {
+            ProfilePublicKeyBase58Check: params.ProfilePublicKeyBase58Check,
+            Operation: LockupLimitOperationString.COIN_LOCKUP,
+            ScopeType: LockupLimitScopeType.SCOPED,
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/coin-lockup', params, {
@@ -113,7 +124,8 @@ const buildCoinUnlockMetadata = (params: CoinUnlockRequestParams) => {
 };
 
 export const constructCoinUnlockTransaction = (
-  params: CoinUnlockRequestParams
+  params: CoinUnlockRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -122,7 +134,9 @@ export const constructCoinUnlockTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -143,18 +157,21 @@ export const coinUnlock = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      LockupLimitMap: [
-        {
-          ProfilePublicKeyBase58Check: params.ProfilePublicKeyBase58Check,
-          Operation: LockupLimitOperationString.COIN_UNLOCK,
-          ScopeType: LockupLimitScopeType.SCOPED,
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        LockupLimitMap: [
+          {
+            ProfilePublicKeyBase58Check: params.ProfilePublicKeyBase58Check,
+            Operation: LockupLimitOperationString.COIN_UNLOCK,
+            ScopeType: LockupLimitScopeType.SCOPED,
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/coin-unlock', params, {
@@ -163,8 +180,12 @@ export const coinUnlock = async (
   });
 };
 
-type CoinLockupTransferRequestParams =
-  TypeWithOptionalFeesAndExtraData<CoinLockupTransferRequest>;
+type CoinLockupTransferRequestParams = TypeWithOptionalFeesAndExtraData<
+  WithBigIntAmounts<
+    CoinLockupTransferRequest,
+    'LockedCoinsToTransferBaseUnits' | 'UnlockTimestampNanoSecs'
+  >
+>;
 
 const buildCoinLockupTransferMetadata = (
   params: CoinLockupTransferRequestParams
@@ -177,15 +198,15 @@ const buildCoinLockupTransferMetadata = (
     params.RecipientPublicKeyBase58Check
   );
   metadata.unlockTimestampNanoSecs = params.UnlockTimestampNanoSecs;
-  // TODO: make sure this replace is correct.
-  metadata.lockedCoinsToTransferBaseUnits = hexToBytes(
-    stripHexPrefix(params.LockedCoinsToTransferBaseUnits)
+  metadata.lockedCoinsToTransferBaseUnits = uint256ToBytes(
+    params.LockedCoinsToTransferBaseUnits
   );
   return metadata;
 };
 
 export const constructCoinLockupTransferTransaction = (
-  params: CoinLockupTransferRequestParams
+  params: CoinLockupTransferRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -194,7 +215,9 @@ export const constructCoinLockupTransferTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -215,18 +238,21 @@ export const coinLockupTransfer = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      LockupLimitMap: [
-        {
-          ProfilePublicKeyBase58Check: params.ProfilePublicKeyBase58Check,
-          Operation: LockupLimitOperationString.COIN_LOCKUP_TRANSFER,
-          ScopeType: LockupLimitScopeType.SCOPED,
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        LockupLimitMap: [
+          {
+            ProfilePublicKeyBase58Check: params.ProfilePublicKeyBase58Check,
+            Operation: LockupLimitOperationString.COIN_LOCKUP_TRANSFER,
+            ScopeType: LockupLimitScopeType.SCOPED,
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/coin-lockup-transfer', params, {
@@ -261,14 +287,15 @@ const buildUpdateCoinLockupParamsMetadata = (
       transferRestrictionStatus = 0;
       break;
     default:
-      throw new Error('Invalid LockupTransferRestrictionStatus');
+      throw new DeSoValidationError('Invalid LockupTransferRestrictionStatus');
   }
   metadata.lockupTransferRestrictionStatus = transferRestrictionStatus;
   return metadata;
 };
 
 export const constructUpdateCoinLockupParamsTransaction = (
-  params: UpdateCoinLockupParamsRequestParams
+  params: UpdateCoinLockupParamsRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -277,7 +304,9 @@ export const constructUpdateCoinLockupParamsTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -321,11 +350,14 @@ export const updateCoinLockupParams = async (
     if (newLockupTransferRestrictionLimit) {
       limits.push(newLockupTransferRestrictionLimit);
     }
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      LockupLimitMap: limits,
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        LockupLimitMap: limits,
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/update-coin-lockup-params', params, {
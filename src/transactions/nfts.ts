@@ -11,6 +11,7 @@ import {
   CreateNFTBidResponse,
   CreateNFTRequest,
   CreateNFTResponse,
+  RequestOptions,
   TransferNFTRequest,
   TransferNFTResponse,
   TxRequestWithOptionalFeesAndExtraData,
@@ -74,13 +75,16 @@ export const createNFT = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        CREATE_NFT: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          CREATE_NFT: options?.txLimitCount ?? 1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/create-nft', params, {
@@ -156,7 +160,8 @@ const buildCreateNFTConsensusKVs = (params: CreateNFTRequestParams) => {
 };
 
 export const constructCreateNFTTransaction = (
-  params: CreateNFTRequestParams
+  params: CreateNFTRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -166,7 +171,9 @@ export const constructCreateNFTTransaction = (
       ConsensusExtraDataKVs: buildCreateNFTConsensusKVs(params),
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -200,13 +207,16 @@ export const updateNFT = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        UPDATE_NFT: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          UPDATE_NFT: options?.txLimitCount ?? 1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/update-nft', params, {
@@ -238,7 +248,8 @@ const buildUpdateNFTConsensusKVs = (params: UpdateNFTRequestParams) => {
 };
 
 export const constructUpdateNFTTransaction = (
-  params: UpdateNFTRequestParams
+  params: UpdateNFTRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -247,8 +258,10 @@ export const constructUpdateNFTTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
       ConsensusExtraDataKVs: buildUpdateNFTConsensusKVs(params),
-    }
+    },
+    options
   );
 };
 
@@ -283,19 +296,22 @@ export const createNFTBid = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        params.BidAmountNanos +
-        txWithFee.feeNanos +
-        sumTransactionFees(params.TransactionFees),
-      NFTOperationLimitMap: {
-        [params.NFTPostHashHex]: {
-          [params.SerialNumber]: {
-            nft_bid: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          params.BidAmountNanos +
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees),
+        NFTOperationLimitMap: {
+          [params.NFTPostHashHex]: {
+            [params.SerialNumber]: {
+              nft_bid: options?.txLimitCount ?? 1,
+            },
           },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/create-nft-bid', params, {
@@ -314,7 +330,8 @@ const buildCreateNFTBidMetadata = (params: CreateNFTBidRequestParams) => {
 };
 
 export const constructNFTBidTransaction = (
-  params: CreateNFTBidRequestParams
+  params: CreateNFTBidRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -323,7 +340,9 @@ export const constructNFTBidTransaction = (
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       ExtraData: params.ExtraData,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -359,19 +378,22 @@ export const acceptNFTBid = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        params.BidAmountNanos +
-        txWithFee.feeNanos +
-        sumTransactionFees(params.TransactionFees),
-      NFTOperationLimitMap: {
-        [params.NFTPostHashHex]: {
-          [params.SerialNumber]: {
-            accept_nft_bid: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          params.BidAmountNanos +
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees),
+        NFTOperationLimitMap: {
+          [params.NFTPostHashHex]: {
+            [params.SerialNumber]: {
+              accept_nft_bid: options?.txLimitCount ?? 1,
+            },
           },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/accept-nft-bid', params, {
@@ -398,7 +420,8 @@ const buildAcceptNFTBidMetadata = (params: AcceptNFTBidRequestParams) => {
 };
 
 export const constructAcceptNFTBidTransaction = (
-  params: AcceptNFTBidRequestParams
+  params: AcceptNFTBidRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -407,7 +430,9 @@ export const constructAcceptNFTBidTransaction = (
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       ExtraData: params.ExtraData,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -442,17 +467,20 @@ export const transferNFT = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      NFTOperationLimitMap: {
-        [params.NFTPostHashHex]: {
-          [params.SerialNumber]: {
-            transfer: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        NFTOperationLimitMap: {
+          [params.NFTPostHashHex]: {
+            [params.SerialNumber]: {
+              transfer: options?.txLimitCount ?? 1,
+            },
           },
         },
       },
-    });
+      options
+    );
   }
   return handleSignAndSubmit('api/v0/transfer-nft', params, {
     ...options,
@@ -475,7 +503,8 @@ const buildTransferNFTMetadata = (params: TransferNFTRequestParams) => {
 };
 
 export const constructTransferNFT = (
-  params: TransferNFTRequestParams
+  params: TransferNFTRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse | ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.SenderPublicKeyBase58Check,
@@ -484,7 +513,9 @@ export const constructTransferNFT = (
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       ExtraData: params.ExtraData,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -517,17 +548,20 @@ export const acceptNFTTransfer = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      NFTOperationLimitMap: {
-        [params.NFTPostHashHex]: {
-          [params.SerialNumber]: {
-            accept_nft_transfer: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        NFTOperationLimitMap: {
+          [params.NFTPostHashHex]: {
+            [params.SerialNumber]: {
+              accept_nft_transfer: options?.txLimitCount ?? 1,
+            },
           },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/accept-nft-transfer', params, {
@@ -547,7 +581,8 @@ export const buildAcceptNFTTransferMetadata = (
 };
 
 export const constructAcceptNFTTransfer = (
-  params: AcceptNFTTransferRequestParams
+  params: AcceptNFTTransferRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -556,7 +591,9 @@ export const constructAcceptNFTTransfer = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -586,17 +623,20 @@ export const burnNFT = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      NFTOperationLimitMap: {
-        [params.NFTPostHashHex]: {
-          [params.SerialNumber]: {
-            burn: options?.txLimitCount ?? 1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        NFTOperationLimitMap: {
+          [params.NFTPostHashHex]: {
+            [params.SerialNumber]: {
+              burn: options?.txLimitCount ?? 1,
+            },
           },
         },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/burn-nft', params, {
@@ -614,7 +654,8 @@ const buildBurnNFTMetadata = (params: BurnNFTRequestParams) => {
 };
 
 export const constructBurnNFTTransation = (
-  params: BurnNFTRequestParams
+  params: BurnNFTRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -623,6 +664,8 @@ export const constructBurnNFTTransation = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
@@ -8,6 +8,7 @@ import {
   CreateLikeStatelessResponse,
   DeSoBodySchema,
   DiamondLevelString,
+  RequestOptions,
   SendDiamondsRequest,
   SendDiamondsResponse,
   SendNewMessageRequest,
@@ -21,9 +22,12 @@ import {
 import {
   PartialWithRequiredFields,
   checkPartyAccessGroups,
+  getSinglePost,
 } from '../data/index.js';
 import { DIAMOND_LEVEL_MAP } from '../identity/constants.js';
 import {
+  DeSoValidationError,
+  MessageEnvelopeContent,
   TransactionExtraDataKV,
   TransactionMetadataBasicTransfer,
   TransactionMetadataFollow,
@@ -31,13 +35,15 @@ import {
   TransactionMetadataNewMessage,
   TransactionMetadataSubmitPost,
   TransactionMetadataUpdateProfile,
+  TransactionOutput,
   bs58PublicKeyToCompressedBytes,
+  encodeMessageEnvelope,
   encodeUTF8ToBytes,
-  identity,
-  uvarint64ToBuf,
+  varint64ToBuf,
 } from '../identity/index.js';
 import {
   constructBalanceModelTx,
+  getClientContext,
   getTxWithFeeNanos,
   handleSignAndSubmit,
   sumTransactionFees,
@@ -68,7 +74,8 @@ const buildUpdateProfileMetadata = (params: UpdateProfileRequestParams) => {
 };
 
 export const constructUpdateProfileTransaction = (
-  params: TypeWithOptionalFeesAndExtraData<UpdateProfileRequest>
+  params: TypeWithOptionalFeesAndExtraData<UpdateProfileRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -77,7 +84,9 @@ export const constructUpdateProfileTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -112,17 +121,20 @@ export const updateProfile = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        UPDATE_PROFILE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.UPDATE_PROFILE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          UPDATE_PROFILE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.UPDATE_PROFILE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/update-profile', params, {
@@ -185,7 +197,8 @@ const buildSubmitPostConsensusKVs = (params: SubmitPostRequestParams) => {
 };
 
 export const constructSubmitPost = (
-  params: SubmitPostRequestParams
+  params: SubmitPostRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.UpdaterPublicKeyBase58Check,
@@ -195,7 +208,9 @@ export const constructSubmitPost = (
       ConsensusExtraDataKVs: buildSubmitPostConsensusKVs(params),
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -226,17 +241,20 @@ export const submitPost = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        SUBMIT_POST:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.SUBMIT_POST ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          SUBMIT_POST:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.SUBMIT_POST ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/submit-post', params, {
@@ -270,17 +288,20 @@ export const updateFollowingStatus = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        FOLLOW:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.FOLLOW ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          FOLLOW:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.FOLLOW ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/create-follow-txn-stateless', params, {
@@ -299,7 +320,8 @@ const buildFollowMetadata = (params: CreateFollowTxnRequestParams) => {
 };
 
 export const constructFollowTransaction = (
-  params: CreateFollowTxnRequestParams
+  params: CreateFollowTxnRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.FollowerPublicKeyBase58Check,
@@ -308,7 +330,9 @@ export const constructFollowTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -331,22 +355,30 @@ export const sendDiamonds = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos +
-        sumTransactionFees(params.TransactionFees) +
-        DIAMOND_LEVEL_MAP[params.DiamondLevel.toString() as DiamondLevelString],
-      TransactionCountLimitMap: {
-        BASIC_TRANSFER:
-          identity.transactionSpendingLimitOptions.TransactionCountLimitMap
-            ?.BASIC_TRANSFER ??
-          options?.txLimitCount ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos +
+          sumTransactionFees(params.TransactionFees) +
+          DIAMOND_LEVEL_MAP[
+            params.DiamondLevel.toString() as DiamondLevelString
+          ],
+        TransactionCountLimitMap: {
+          BASIC_TRANSFER:
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              .TransactionCountLimitMap?.BASIC_TRANSFER ??
+            options?.txLimitCount ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
-  return handleSignAndSubmit('api/v0/send-diamonds', params, options);
+  return handleSignAndSubmit('api/v0/send-diamonds', params, {
+    ...options,
+    constructionFunction: constructDiamondTransaction,
+  });
 };
 
 const buildSendDiamondsConsensusKVs = (
@@ -355,7 +387,7 @@ const buildSendDiamondsConsensusKVs = (
   const consensusExtraDataKVs: TransactionExtraDataKV[] = [];
   const diamondLevelKV = new TransactionExtraDataKV();
   diamondLevelKV.key = encodeUTF8ToBytes('DiamondLevel');
-  diamondLevelKV.value = uvarint64ToBuf(params.DiamondLevel);
+  diamondLevelKV.value = varint64ToBuf(params.DiamondLevel);
   consensusExtraDataKVs.push(diamondLevelKV);
   const diamondPostHashKV = new TransactionExtraDataKV();
   diamondPostHashKV.key = encodeUTF8ToBytes('DiamondPostHash');
@@ -366,11 +398,59 @@ const buildSendDiamondsConsensusKVs = (
   return consensusExtraDataKVs;
 };
 
-// This one is a bit annoying since we should really look up how many diamonds you've already given on this post and only send the diff.
-export const constructDiamondTransaction = (
-  params: TypeWithOptionalFeesAndExtraData<SendDiamondsRequest>
+export const constructDiamondTransaction = async (
+  params: TypeWithOptionalFeesAndExtraData<SendDiamondsRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
-  return Promise.reject('Local construction for diamonds not supported yet.');
+  const diamondLevel = params.DiamondLevel.toString() as DiamondLevelString;
+  if (!DIAMOND_LEVEL_MAP[diamondLevel]) {
+    return Promise.reject(
+      new DeSoValidationError(`invalid diamond level ${params.DiamondLevel}`)
+    );
+  }
+
+  // Diamonds are cumulative, so we only send the difference between the
+  // requested level and whatever the sender has already given on this post.
+  const { PostFound } = await getSinglePost(
+    {
+      PostHashHex: params.DiamondPostHashHex,
+      ReaderPublicKeyBase58Check: params.SenderPublicKeyBase58Check,
+    },
+    options
+  );
+  const levelBestowed =
+    PostFound?.PostEntryReaderState?.DiamondLevelBestowed ?? 0;
+  if (levelBestowed >= params.DiamondLevel) {
+    return Promise.reject(
+      new DeSoValidationError(
+        `diamond level ${params.DiamondLevel} has already been given for this post`
+      )
+    );
+  }
+
+  const output = new TransactionOutput();
+  output.publicKey = bs58PublicKeyToCompressedBytes(
+    params.ReceiverPublicKeyBase58Check
+  );
+  output.amountNanos =
+    DIAMOND_LEVEL_MAP[diamondLevel] -
+    (levelBestowed
+      ? DIAMOND_LEVEL_MAP[levelBestowed.toString() as DiamondLevelString]
+      : 0);
+
+  return constructBalanceModelTx(
+    params.SenderPublicKeyBase58Check,
+    new TransactionMetadataBasicTransfer(),
+    {
+      Outputs: [output],
+      ExtraData: params.ExtraData,
+      ConsensusExtraDataKVs: buildSendDiamondsConsensusKVs(params),
+      MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+      TransactionFees: params.TransactionFees,
+      Nonce: params.Nonce,
+    },
+    options
+  );
 };
 
 /**
@@ -398,17 +478,20 @@ export const updateLikeStatus = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        LIKE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions.TransactionCountLimitMap
-            ?.LIKE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          LIKE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              .TransactionCountLimitMap?.LIKE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/create-like-stateless', params, {
@@ -425,7 +508,8 @@ const buildLikeMetadata = (params: CreateLikeTransactionParams) => {
 };
 
 export const constructLikeTransaction = (
-  params: CreateLikeTransactionParams
+  params: CreateLikeTransactionParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.ReaderPublicKeyBase58Check,
@@ -434,7 +518,9 @@ export const constructLikeTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -483,17 +569,20 @@ export const sendDMMessage = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        NEW_MESSAGE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.NEW_MESSAGE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          NEW_MESSAGE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.NEW_MESSAGE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/send-dm-message', params, {
@@ -540,7 +629,8 @@ const buildNewMessageMetadata = (
 };
 
 export const constructSendDMTransaction = (
-  params: SendNewMessageParams
+  params: SendNewMessageParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.SenderAccessGroupOwnerPublicKeyBase58Check,
@@ -552,7 +642,9 @@ export const constructSendDMTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -582,17 +674,20 @@ export const updateDMMessage = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        NEW_MESSAGE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.NEW_MESSAGE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          NEW_MESSAGE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.NEW_MESSAGE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/update-dm-message', params, {
@@ -602,7 +697,8 @@ export const updateDMMessage = async (
 };
 
 export const constructUpdateDMTransaction = (
-  params: TypeWithOptionalFeesAndExtraData<SendNewMessageRequest>
+  params: TypeWithOptionalFeesAndExtraData<SendNewMessageRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.SenderAccessGroupOwnerPublicKeyBase58Check,
@@ -615,7 +711,9 @@ export const constructUpdateDMTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -644,17 +742,20 @@ export const sendGroupChatMessage = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        NEW_MESSAGE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.NEW_MESSAGE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          NEW_MESSAGE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.NEW_MESSAGE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/send-group-chat-message', params, {
@@ -664,7 +765,8 @@ export const sendGroupChatMessage = async (
 };
 
 export const constructSendGroupChatMessageTransaction = (
-  params: SendNewMessageParams
+  params: SendNewMessageParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.SenderAccessGroupOwnerPublicKeyBase58Check,
@@ -676,7 +778,9 @@ export const constructSendGroupChatMessageTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -686,11 +790,16 @@ export const constructSendGroupChatMessageTransaction = (
  * provided we make the assumption that this is a direct message and use the
  * user's default messaging group. You may also pass an optional
  * sendMessageUnencrypted flag to force the message to be sent unencrypted.
+ * Pass an Envelope to send replies, reactions, mentions, attachments or link
+ * previews along with the Message, which becomes the envelope's text. NOTE:
+ * the envelope is sent in plain text too if the message is unencrypted, so
+ * attachments with encryption keys can only be sent in encrypted messages.
  */
-interface SendMessageParams {
+export interface SendMessageParams {
   SenderPublicKeyBase58Check: string;
   RecipientPublicKeyBase58Check: string;
   Message: string;
+  Envelope?: Omit<MessageEnvelopeContent, 'text'>;
   AccessGroup?: string;
   ExtraData?: { [key: string]: string };
   MinFeeRateNanosPerKB?: number;
@@ -700,10 +809,23 @@ export const sendMessage = async (
   params: SendMessageParams,
   options?: TxRequestOptions & { sendMessageUnencrypted?: boolean }
 ) => {
+  if (
+    options?.sendMessageUnencrypted &&
+    params.Envelope?.attachments?.some(({ encryption }) => encryption)
+  ) {
+    throw new DeSoValidationError(
+      'Encrypted attachments cannot be sent in an unencrypted message since that would publish their keys'
+    );
+  }
+
   if (!params.AccessGroup) {
     params.AccessGroup = 'default-key';
   }
 
+  const messageText = params.Envelope
+    ? encodeMessageEnvelope({ ...params.Envelope, text: params.Message })
+    : params.Message;
+
   const txWithFee = getTxWithFeeNanos(
     params.SenderPublicKeyBase58Check,
     buildNewMessageMetadata(
@@ -729,7 +851,7 @@ export const sendMessage = async (
         // plain text message for the fee calculation which is not exactly
         // right, but it should be close. We may need to revisit this, however,
         // and include a buffer in the fee calculation.
-        EncryptedMessageText: params.Message,
+        EncryptedMessageText: messageText,
 
         MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
         TransactionFees: params.TransactionFees,
@@ -748,17 +870,20 @@ export const sendMessage = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        NEW_MESSAGE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.NEW_MESSAGE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          NEW_MESSAGE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.NEW_MESSAGE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   const {
@@ -766,23 +891,27 @@ export const sendMessage = async (
     SenderAccessGroupKeyName,
     RecipientAccessGroupPublicKeyBase58Check,
     RecipientAccessGroupKeyName,
-  } = await checkPartyAccessGroups({
-    SenderPublicKeyBase58Check: params.SenderPublicKeyBase58Check,
-    SenderAccessGroupKeyName: 'default-key',
-    RecipientPublicKeyBase58Check: params.RecipientPublicKeyBase58Check,
-    RecipientAccessGroupKeyName: params.AccessGroup,
-  });
+  } = await checkPartyAccessGroups(
+    {
+      SenderPublicKeyBase58Check: params.SenderPublicKeyBase58Check,
+      SenderAccessGroupKeyName: 'default-key',
+      RecipientPublicKeyBase58Check: params.RecipientPublicKeyBase58Check,
+      RecipientAccessGroupKeyName: params.AccessGroup,
+    },
+    options
+  );
 
   if (!SenderAccessGroupKeyName) {
-    throw new Error('Sender does not have default messaging group');
+    throw new DeSoValidationError(
+      'Sender does not have default messaging group'
+    );
   }
 
   const EncryptedMessageText = options?.sendMessageUnencrypted
-    ? hexEncodePlainText(params.Message)
-    : await identity.encryptMessage(
-        RecipientAccessGroupPublicKeyBase58Check,
-        params.Message
-      );
+    ? hexEncodePlainText(messageText)
+    : await (
+        options?.signer ?? getClientContext(options).identity.signer()
+      ).encrypt(RecipientAccessGroupPublicKeyBase58Check, messageText);
 
   if (!EncryptedMessageText) {
     throw new Error('Failed to encrypt message');
@@ -800,6 +929,7 @@ export const sendMessage = async (
     EncryptedMessageText,
     ExtraData: params.ExtraData,
     MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
+    TransactionFees: params.TransactionFees,
   };
 
   return params.AccessGroup === 'default-key'
@@ -833,17 +963,20 @@ export const updateGroupChatMessage = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        NEW_MESSAGE:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.NEW_MESSAGE ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          NEW_MESSAGE:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.NEW_MESSAGE ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/update-group-chat-message', params, {
@@ -853,7 +986,8 @@ export const updateGroupChatMessage = async (
 };
 
 export const constructUpdateGroupChatMessageTransaction = (
-  params: TypeWithOptionalFeesAndExtraData<SendNewMessageRequest>
+  params: TypeWithOptionalFeesAndExtraData<SendNewMessageRequest>,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.SenderAccessGroupOwnerPublicKeyBase58Check,
@@ -867,7 +1001,9 @@ export const constructUpdateGroupChatMessageTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
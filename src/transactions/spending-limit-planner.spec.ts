@@ -0,0 +1,109 @@
+import { createDesoClient } from '../client.js';
+import { createFetchResponse } from '../data/index.js';
+import { keygen, publicKeyToBase58Check } from '../identity/index.js';
+import { MockDesoNode } from '../mock-node/index.js';
+import { PlannedAction, planSpendingLimits } from './spending-limit-planner.js';
+
+const actions: PlannedAction[] = [
+  { type: 'post', count: 10 },
+  { type: 'like', count: 50 },
+  {
+    type: 'daoCoin',
+    operation: 'transfer',
+    ProfilePublicKeyBase58CheckOrUsername: 'openfund',
+    count: 3,
+  },
+  { type: 'nftBid', maxBidAmountNanos: 5 * 1e9 },
+];
+
+describe('planSpendingLimits', () => {
+  it('merges the actions into one set of limits with estimated fees', async () => {
+    const publicKey = publicKeyToBase58Check(keygen().public);
+    const node = new MockDesoNode({ minFeeRateNanosPerKB: 1500 });
+    const client = createDesoClient({
+      fetch: node.fetch,
+      MinFeeRateNanosPerKB: 1500,
+    });
+
+    const plan = client.planSpendingLimits(
+      [...actions, { type: 'like', count: 20 }],
+      { PublicKeyBase58Check: publicKey }
+    );
+
+    expect(plan.limits).toEqual({
+      GlobalDESOLimit: plan.feeNanos + 5 * 1e9,
+      TransactionCountLimitMap: { SUBMIT_POST: 10, LIKE: 70 },
+      DAOCoinOperationLimitMap: { openfund: { transfer: 3 } },
+      NFTOperationLimitMap: { '': { 0: { nft_bid: 1 } } },
+    });
+    expect(plan.feeNanos).toEqual(
+      plan.actions.reduce(
+        (sum, { action, feeNanosPerTxn }) =>
+          sum + feeNanosPerTxn * (action.count ?? 1),
+        0
+      )
+    );
+
+    const { FeeNanos } = await client.constructLikeTransaction({
+      ReaderPublicKeyBase58Check: publicKey,
+      LikedPostHashHex: 'ab'.repeat(32),
+      IsUnlike: false,
+    });
+    const likeEstimate = plan.actions[1].feeNanosPerTxn;
+
+    expect(likeEstimate).toBeGreaterThanOrEqual(FeeNanos);
+    expect(likeEstimate - FeeNanos).toBeLessThan(20);
+    expect(() => planSpendingLimits([{ type: 'like', count: 0 }])).toThrow(
+      'Invalid count 0 for planned like'
+    );
+  });
+
+  it('reports which actions each derived key covers', async () => {
+    const client = createDesoClient({
+      fetch: () =>
+        Promise.resolve(
+          createFetchResponse(
+            200,
+            JSON.stringify({
+              DerivedKeys: {
+                social: {
+                  DerivedPublicKeyBase58Check: 'social',
+                  IsValid: true,
+                  TransactionSpendingLimit: {
+                    GlobalDESOLimit: 1e9,
+                    TransactionCountLimitMap: { SUBMIT_POST: 100, LIKE: 100 },
+                  },
+                },
+                everything: {
+                  DerivedPublicKeyBase58Check: 'everything',
+                  IsValid: true,
+                  TransactionSpendingLimit: { IsUnlimited: true },
+                },
+                revoked: {
+                  DerivedPublicKeyBase58Check: 'revoked',
+                  IsValid: false,
+                  TransactionSpendingLimit: { IsUnlimited: true },
+                },
+              },
+            })
+          )
+        ),
+    });
+    const plan = client.planSpendingLimits(actions);
+
+    const [social, everything, revoked] = await client.getDerivedKeysCoverage(
+      plan,
+      'BC1YLowner'
+    );
+
+    expect(social).toEqual({
+      DerivedPublicKeyBase58Check: 'social',
+      coversPlan: false,
+      coveredActions: actions.slice(0, 2),
+      uncoveredActions: actions.slice(2),
+    });
+    expect(everything.coversPlan).toBe(true);
+    expect(everything.uncoveredActions).toEqual([]);
+    expect(revoked.coveredActions).toEqual([]);
+  });
+});
@@ -0,0 +1,471 @@
+import {
+  RequestOptions,
+  TransactionSpendingLimitResponse,
+  TransactionType,
+  UserDerivedKey,
+} from '../backend-types/index.js';
+import { getUserDerivedKeys } from '../data/index.js';
+import {
+  DeSoValidationError,
+  TransactionMetadataBasicTransfer,
+  TransactionMetadataCreatorCoin,
+  TransactionMetadataCreatorCoinTransfer,
+  TransactionMetadataDAOCoin,
+  TransactionMetadataFollow,
+  TransactionMetadataLike,
+  TransactionMetadataNFTBid,
+  TransactionMetadataNewMessage,
+  TransactionMetadataRecord,
+  TransactionMetadataSubmitPost,
+  TransactionMetadataTransferDAOCoin,
+  TransactionOutput,
+  TransactionSpendingLimitResponseOptions,
+} from '../identity/index.js';
+import {
+  compareTransactionSpendingLimits,
+  mergeTransactionSpendingLimits,
+} from '../identity/permissions-utils.js';
+import { getClientContext, getTxWithFeeNanos } from '../internal.js';
+import { guardTxPermission } from './utils.js';
+
+// Sizes used to build the largest transaction an action can produce, so the
+// estimated fee is an upper bound.
+const PUBLIC_KEY_BYTES = 33;
+const HASH_BYTES = 32;
+const UINT256_BYTES = 32;
+const MAX_UVARINT_AMOUNT = Number.MAX_SAFE_INTEGER;
+const DEFAULT_MAX_BODY_BYTES = 1024;
+const DEFAULT_MAX_MESSAGE_BYTES = 1024;
+
+interface PlannedActionBase {
+  /**
+   * How many times the action will be performed. Defaults to 1.
+   */
+  count?: number;
+}
+
+export interface PlannedPost extends PlannedActionBase {
+  type: 'post';
+  /**
+   * The largest serialized post body expected. Defaults to 1024 bytes.
+   */
+  maxBodyBytes?: number;
+}
+
+export interface PlannedLike extends PlannedActionBase {
+  type: 'like';
+}
+
+export interface PlannedFollow extends PlannedActionBase {
+  type: 'follow';
+}
+
+export interface PlannedMessage extends PlannedActionBase {
+  type: 'message';
+  /**
+   * The largest encrypted message expected. Defaults to 1024 bytes.
+   */
+  maxMessageBytes?: number;
+}
+
+export interface PlannedSendDeso extends PlannedActionBase {
+  type: 'sendDeso';
+  /**
+   * The most DESO sent by a single transfer.
+   */
+  maxAmountNanos: number;
+}
+
+export interface PlannedCreatorCoinOperation extends PlannedActionBase {
+  type: 'creatorCoin';
+  operation: 'buy' | 'sell' | 'transfer';
+  CreatorPublicKeyBase58Check: string;
+  /**
+   * The most DESO spent by a single buy. Required for buys.
+   */
+  maxDeSoToSellNanos?: number;
+}
+
+export interface PlannedDAOCoinOperation extends PlannedActionBase {
+  type: 'daoCoin';
+  operation:
+    | 'transfer'
+    | 'burn'
+    | 'mint'
+    | 'update_transfer_restriction_status';
+  ProfilePublicKeyBase58CheckOrUsername: string;
+}
+
+export interface PlannedNFTBid extends PlannedActionBase {
+  type: 'nftBid';
+  /**
+   * The most DESO offered by a single bid.
+   */
+  maxBidAmountNanos: number;
+  /**
+   * Limits the bids to a single NFT. Bids on any NFT are allowed if omitted.
+   */
+  NFTPostHashHex?: string;
+  SerialNumber?: number;
+}
+
+/**
+ * An action a session intends to perform, e.g. `{ type: 'like', count: 50 }`.
+ */
+export type PlannedAction =
+  | PlannedPost
+  | PlannedLike
+  | PlannedFollow
+  | PlannedMessage
+  | PlannedSendDeso
+  | PlannedCreatorCoinOperation
+  | PlannedDAOCoinOperation
+  | PlannedNFTBid;
+
+export interface PlannedActionEstimate {
+  action: PlannedAction;
+  /**
+   * The estimated fee of a single transaction for the action.
+   */
+  feeNanosPerTxn: number;
+  /**
+   * The DESO spent by all the transactions for the action, excluding fees.
+   */
+  spendNanos: number;
+  /**
+   * The permissions needed for just this action.
+   */
+  limits: TransactionSpendingLimitResponseOptions;
+}
+
+export interface SpendingLimitPlan {
+  actions: PlannedActionEstimate[];
+  /**
+   * The estimated fees of every transaction in the plan.
+   */
+  feeNanos: number;
+  /**
+   * The merged permissions needed for every action in the plan.
+   */
+  limits: TransactionSpendingLimitResponseOptions;
+}
+
+export interface PlanSpendingLimitsOptions
+  extends Pick<RequestOptions, 'client'> {
+  /**
+   * The public key that will sign the transactions. Only used to size the
+   * transactions, so it can be omitted.
+   */
+  PublicKeyBase58Check?: string;
+  /**
+   * Defaults to the configured fee rate.
+   */
+  MinFeeRateNanosPerKB?: number;
+}
+
+export interface DerivedKeyCoverage {
+  DerivedPublicKeyBase58Check: string;
+  /**
+   * True if the key's remaining limits cover every action in the plan at once.
+   */
+  coversPlan: boolean;
+  coveredActions: PlannedAction[];
+  uncoveredActions: PlannedAction[];
+}
+
+interface PlannedActionScheme<A extends PlannedAction> {
+  metadata: (action: A) => TransactionMetadataRecord;
+  outputs?: (action: A) => TransactionOutput[];
+  // The DESO spent by one transaction, excluding fees.
+  spendNanos?: (action: A) => number;
+  limits: (
+    action: A,
+    count: number
+  ) => Omit<TransactionSpendingLimitResponseOptions, 'GlobalDESOLimit'>;
+}
+
+const filledBytes = (length: number) => new Uint8Array(length).fill(0xff);
+
+const countLimit = (txnType: TransactionType) => {
+  return (_: PlannedAction, count: number) => ({
+    TransactionCountLimitMap: { [txnType]: count },
+  });
+};
+
+const PLANNED_ACTION_SCHEMES: {
+  [T in PlannedAction['type']]: PlannedActionScheme<
+    Extract<PlannedAction, { type: T }>
+  >;
+} = {
+  post: {
+    metadata: ({ maxBodyBytes = DEFAULT_MAX_BODY_BYTES }) => {
+      const metadata = new TransactionMetadataSubmitPost();
+      metadata.body = filledBytes(maxBodyBytes);
+      metadata.parentStakeId = filledBytes(HASH_BYTES);
+      metadata.timestampNanos = MAX_UVARINT_AMOUNT;
+      return metadata;
+    },
+    limits: countLimit(TransactionType.SubmitPost),
+  },
+  like: {
+    metadata: () => {
+      const metadata = new TransactionMetadataLike();
+      metadata.likedPostHash = filledBytes(HASH_BYTES);
+      return metadata;
+    },
+    limits: countLimit(TransactionType.Like),
+  },
+  follow: {
+    metadata: () => {
+      const metadata = new TransactionMetadataFollow();
+      metadata.followedPublicKey = filledBytes(PUBLIC_KEY_BYTES);
+      return metadata;
+    },
+    limits: countLimit(TransactionType.Follow),
+  },
+  message: {
+    metadata: ({ maxMessageBytes = DEFAULT_MAX_MESSAGE_BYTES }) => {
+      const metadata = new TransactionMetadataNewMessage();
+      metadata.senderAccessGroupOwnerPublicKey = filledBytes(PUBLIC_KEY_BYTES);
+      metadata.senderAccessGroupKeyName = filledBytes(HASH_BYTES);
+      metadata.senderAccessGroupPublicKey = filledBytes(PUBLIC_KEY_BYTES);
+      metadata.recipientAccessGroupOwnerPublicKey =
+        filledBytes(PUBLIC_KEY_BYTES);
+      metadata.recipientAccessGroupKeyname = filledBytes(HASH_BYTES);
+      metadata.recipientAccessGroupPublicKey = filledBytes(PUBLIC_KEY_BYTES);
+      metadata.encryptedText = filledBytes(maxMessageBytes);
+      metadata.timestampNanos = MAX_UVARINT_AMOUNT;
+      return metadata;
+    },
+    limits: countLimit(TransactionType.NewMessage),
+  },
+  sendDeso: {
+    metadata: () => new TransactionMetadataBasicTransfer(),
+    outputs: ({ maxAmountNanos }) => {
+      const output = new TransactionOutput();
+      output.publicKey = filledBytes(PUBLIC_KEY_BYTES);
+      output.amountNanos = maxAmountNanos;
+      return [output];
+    },
+    spendNanos: ({ maxAmountNanos }) => maxAmountNanos,
+    limits: countLimit(TransactionType.BasicTransfer),
+  },
+  creatorCoin: {
+    metadata: ({ operation, maxDeSoToSellNanos }) => {
+      if (operation === 'transfer') {
+        const metadata = new TransactionMetadataCreatorCoinTransfer();
+        metadata.profilePublicKey = filledBytes(PUBLIC_KEY_BYTES);
+        metadata.creatorCoinToTransferNanos = MAX_UVARINT_AMOUNT;
+        metadata.receiverPublicKey = filledBytes(PUBLIC_KEY_BYTES);
+        return metadata;
+      }
+
+      const metadata = new TransactionMetadataCreatorCoin();
+      metadata.profilePublicKey = filledBytes(PUBLIC_KEY_BYTES);
+      metadata.operationType = operation === 'buy' ? 0 : 1;
+      metadata.desoToSellNanos = maxDeSoToSellNanos ?? 0;
+      metadata.creatorCoinToSellNanos = MAX_UVARINT_AMOUNT;
+      metadata.minDeSoExpectedNanos = MAX_UVARINT_AMOUNT;
+      metadata.minCreatorCoinExpectedNanos = MAX_UVARINT_AMOUNT;
+      return metadata;
+    },
+    spendNanos: ({ operation, maxDeSoToSellNanos }) => {
+      if (operation === 'buy' && typeof maxDeSoToSellNanos !== 'number') {
+        throw new DeSoValidationError(
+          'maxDeSoToSellNanos is required to plan creator coin buys'
+        );
+      }
+      return operation === 'buy' ? (maxDeSoToSellNanos as number) : 0;
+    },
+    limits: ({ operation, CreatorPublicKeyBase58Check }, count) => ({
+      CreatorCoinOperationLimitMap: {
+        [CreatorPublicKeyBase58Check]: { [operation]: count },
+      },
+    }),
+  },
+  daoCoin: {
+    metadata: ({ operation }) => {
+      if (operation === 'transfer') {
+        const metadata = new TransactionMetadataTransferDAOCoin();
+        metadata.profilePublicKey = filledBytes(PUBLIC_KEY_BYTES);
+        metadata.daoCoinToTransferNanos = filledBytes(UINT256_BYTES);
+        metadata.receiverPublicKey = filledBytes(PUBLIC_KEY_BYTES);
+        return metadata;
+      }
+
+      const metadata = new TransactionMetadataDAOCoin();
+      metadata.profilePublicKey = filledBytes(PUBLIC_KEY_BYTES);
+      metadata.coinsToMintNanos = filledBytes(UINT256_BYTES);
+      metadata.coinsToBurnNanos = filledBytes(UINT256_BYTES);
+      return metadata;
+    },
+    limits: ({ operation, ProfilePublicKeyBase58CheckOrUsername }, count) => ({
+      DAOCoinOperationLimitMap: {
+        [ProfilePublicKeyBase58CheckOrUsername]: { [operation]: count },
+      },
+    }),
+  },
+  nftBid: {
+    metadata: ({ maxBidAmountNanos }) => {
+      const metadata = new TransactionMetadataNFTBid();
+      metadata.nftPostHash = filledBytes(HASH_BYTES);
+      metadata.serialNumber = MAX_UVARINT_AMOUNT;
+      metadata.bidAmountNanos = maxBidAmountNanos;
+      return metadata;
+    },
+    spendNanos: ({ maxBidAmountNanos }) => maxBidAmountNanos,
+    limits: ({ NFTPostHashHex = '', SerialNumber = 0 }, count) => ({
+      NFTOperationLimitMap: {
+        [NFTPostHashHex]: { [SerialNumber]: { nft_bid: count } },
+      },
+    }),
+  },
+};
+
+/**
+ * Computes the smallest set of derived key permissions that allows every
+ * action in a session, so they can be approved once instead of one popup per
+ * transaction. Fees are estimated with the largest transaction each action can
+ * produce at the configured fee rate, and the GlobalDESOLimit covers the fees
+ * plus any DESO the actions spend.
+ *
+ * @example
+ * ```ts
+ * const plan = planSpendingLimits([
+ *   { type: 'post', count: 10 },
+ *   { type: 'like', count: 50 },
+ *   {
+ *     type: 'daoCoin',
+ *     operation: 'transfer',
+ *     ProfilePublicKeyBase58CheckOrUsername: 'openfund',
+ *     count: 3,
+ *   },
+ *   { type: 'nftBid', maxBidAmountNanos: 5 * 1e9 },
+ * ]);
+ *
+ * await requestPlannedPermissions(plan);
+ * ```
+ */
+export const planSpendingLimits = (
+  actions: PlannedAction[],
+  options: PlanSpendingLimitsOptions = {}
+): SpendingLimitPlan => {
+  const MinFeeRateNanosPerKB =
+    options.MinFeeRateNanosPerKB ??
+    getClientContext(options).config.MinFeeRateNanosPerKB;
+
+  const estimates = actions.map((action): PlannedActionEstimate => {
+    const scheme = PLANNED_ACTION_SCHEMES[action.type] as PlannedActionScheme<
+      typeof action
+    >;
+
+    if (!scheme) {
+      throw new DeSoValidationError(
+        `Unsupported planned action type ${action.type}`
+      );
+    }
+
+    const count = action.count ?? 1;
+
+    if (!Number.isInteger(count) || count < 1) {
+      throw new DeSoValidationError(
+        `Invalid count ${action.count} for planned ${action.type}`
+      );
+    }
+
+    const { feeNanos } = getTxWithFeeNanos(
+      options.PublicKeyBase58Check ?? '',
+      scheme.metadata(action),
+      {
+        Outputs: scheme.outputs?.(action),
+        MinFeeRateNanosPerKB,
+      }
+    );
+    const spendNanos = (scheme.spendNanos?.(action) ?? 0) * count;
+
+    return {
+      action,
+      feeNanosPerTxn: feeNanos,
+      spendNanos,
+      limits: {
+        GlobalDESOLimit: feeNanos * count + spendNanos,
+        ...scheme.limits(action, count),
+      },
+    };
+  });
+
+  return {
+    actions: estimates,
+    feeNanos: estimates.reduce(
+      (sum, { action, feeNanosPerTxn }) =>
+        sum + feeNanosPerTxn * (action.count ?? 1),
+      0
+    ),
+    limits: estimates.reduce(
+      (limits, estimate) =>
+        mergeTransactionSpendingLimits(limits, estimate.limits),
+      {} as TransactionSpendingLimitResponseOptions
+    ),
+  };
+};
+
+/**
+ * Requests the permissions for a plan with a single approval, unless the
+ * active derived key already has them.
+ */
+export const requestPlannedPermissions = (
+  plan: SpendingLimitPlan,
+  options?: Pick<RequestOptions, 'client'>
+) => {
+  return guardTxPermission(plan.limits, options);
+};
+
+/**
+ * Reports which planned actions the remaining limits of a derived key cover.
+ * Invalid keys cover nothing.
+ */
+export const getSpendingLimitCoverage = (
+  plan: SpendingLimitPlan,
+  derivedKey: Pick<
+    UserDerivedKey,
+    'DerivedPublicKeyBase58Check' | 'IsValid' | 'TransactionSpendingLimit'
+  >
+): DerivedKeyCoverage => {
+  const covers = (limits: TransactionSpendingLimitResponseOptions) =>
+    derivedKey.IsValid &&
+    compareTransactionSpendingLimits(
+      limits,
+      derivedKey.TransactionSpendingLimit ??
+        ({} as TransactionSpendingLimitResponse)
+    );
+
+  return {
+    DerivedPublicKeyBase58Check: derivedKey.DerivedPublicKeyBase58Check,
+    coversPlan: covers(plan.limits),
+    coveredActions: plan.actions
+      .filter(({ limits }) => covers(limits))
+      .map(({ action }) => action),
+    uncoveredActions: plan.actions
+      .filter(({ limits }) => !covers(limits))
+      .map(({ action }) => action),
+  };
+};
+
+/**
+ * Fetches the derived keys of a user and reports which planned actions each
+ * of them covers.
+ */
+export const getDerivedKeysCoverage = async (
+  plan: SpendingLimitPlan,
+  PublicKeyBase58Check: string,
+  options?: RequestOptions
+): Promise<DerivedKeyCoverage[]> => {
+  const { DerivedKeys } = await getUserDerivedKeys(
+    { PublicKeyBase58Check },
+    options
+  );
+
+  return Object.values(DerivedKeys ?? {}).map((derivedKey) =>
+    getSpendingLimitCoverage(plan, derivedKey)
+  );
+};
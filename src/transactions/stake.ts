@@ -1,6 +1,7 @@
 import { hexToBytes } from '@noble/hashes/utils';
 import {
   ConstructedTransactionResponse,
+  RequestOptions,
   StakeRequest,
   StakeRewardMethod,
   StakeTxnResponse,
@@ -13,6 +14,7 @@ import {
   TransactionMetadataUnstake,
   bs58PublicKeyToCompressedBytes,
   concatUint8Arrays,
+  toUint256Hex,
 } from '../identity/index.js';
 import {
   constructBalanceModelTx,
@@ -24,10 +26,13 @@ import {
   ConstructedAndSubmittedTx,
   TxRequestOptions,
   TypeWithOptionalFeesAndExtraData,
+  WithBigIntAmounts,
 } from '../types.js';
-import { guardTxPermission, stripHexPrefix } from './utils.js';
+import { guardTxPermission, stripHexPrefix, uint256ToBytes } from './utils.js';
 
-type StakeRequestParams = TypeWithOptionalFeesAndExtraData<StakeRequest>;
+type StakeRequestParams = TypeWithOptionalFeesAndExtraData<
+  WithBigIntAmounts<StakeRequest, 'StakeAmountNanos'>
+>;
 
 const buildStakeMetadata = (params: StakeRequestParams) => {
   const metadata = new TransactionMetadataStake();
@@ -36,15 +41,14 @@ const buildStakeMetadata = (params: StakeRequestParams) => {
   );
   metadata.rewardMethod =
     params.RewardMethod === StakeRewardMethod.PayToBalance ? 0 : 1;
-  metadata.stakeAmountNanos = hexToBytes(
-    stripHexPrefix(params.StakeAmountNanos)
-  );
+  metadata.stakeAmountNanos = uint256ToBytes(params.StakeAmountNanos);
 
   return metadata;
 };
 
 export const constructStakeTransaction = (
-  params: StakeRequestParams
+  params: StakeRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -53,7 +57,9 @@ export const constructStakeTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -77,10 +83,9 @@ export const stake = async (
   // get accepted. If a user is only trying to update their reward method then
   // it is possible for the stake limit to actually be 0. In this case, we set
   // the stake limit to a very tiny amount of 1 nano.
+  const stakeAmountHex = toUint256Hex(params.StakeAmountNanos);
   const stakeLimit =
-    parseInt(params.StakeAmountNanos, 16) === 0
-      ? '0x1'
-      : params.StakeAmountNanos;
+    parseInt(stakeAmountHex, 16) === 0 ? '0x1' : stakeAmountHex;
 
   const GlobalDESOLimit =
     parseInt(stakeLimit, 16) +
@@ -88,15 +93,18 @@ export const stake = async (
     sumTransactionFees(params.TransactionFees);
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit,
-      StakeLimitMap: [
-        {
-          ValidatorPublicKeyBase58Check: params.ValidatorPublicKeyBase58Check,
-          StakeLimit: stakeLimit,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit,
+        StakeLimitMap: [
+          {
+            ValidatorPublicKeyBase58Check: params.ValidatorPublicKeyBase58Check,
+            StakeLimit: stakeLimit,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/stake', params, {
@@ -105,14 +113,16 @@ export const stake = async (
   });
 };
 
-type UnstakeRequestParams = TypeWithOptionalFeesAndExtraData<UnstakeRequest>;
+type UnstakeRequestParams = TypeWithOptionalFeesAndExtraData<
+  WithBigIntAmounts<UnstakeRequest, 'UnstakeAmountNanos'>
+>;
 
 const buildUnstakeMetadata = (params: UnstakeRequestParams) => {
   const metadata = new TransactionMetadataUnstake();
   metadata.validatorPublicKey = bs58PublicKeyToCompressedBytes(
     params.ValidatorPublicKeyBase58Check
   );
-  const hex = stripHexPrefix(params.UnstakeAmountNanos);
+  const hex = stripHexPrefix(toUint256Hex(params.UnstakeAmountNanos));
   metadata.unstakeAmountNanos =
     hex === '0' ? new Uint8Array([0]) : hexToBytes(hex);
 
@@ -120,7 +130,8 @@ const buildUnstakeMetadata = (params: UnstakeRequestParams) => {
 };
 
 export const constructUnstakeTransaction = (
-  params: UnstakeRequestParams
+  params: UnstakeRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -129,7 +140,9 @@ export const constructUnstakeTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -150,16 +163,19 @@ export const unstake = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      UnstakeLimitMap: [
-        {
-          ValidatorPublicKeyBase58Check: params.ValidatorPublicKeyBase58Check,
-          UnstakeLimit: params.UnstakeAmountNanos,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        UnstakeLimitMap: [
+          {
+            ValidatorPublicKeyBase58Check: params.ValidatorPublicKeyBase58Check,
+            UnstakeLimit: toUint256Hex(params.UnstakeAmountNanos),
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/unstake', params, {
@@ -183,7 +199,8 @@ const buildUnlockStakeMetadata = (params: UnlockStakeRequestParams) => {
 };
 
 export const constructUnlockStakeTransaction = (
-  params: UnlockStakeRequestParams
+  params: UnlockStakeRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -192,7 +209,9 @@ export const constructUnlockStakeTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -213,16 +232,19 @@ export const unlockStake = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      UnlockStakeLimitMap: [
-        {
-          ValidatorPublicKeyBase58Check: params.ValidatorPublicKeyBase58Check,
-          OpCount: options?.txLimitCount ?? 1,
-        },
-      ],
-    });
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        UnlockStakeLimitMap: [
+          {
+            ValidatorPublicKeyBase58Check: params.ValidatorPublicKeyBase58Check,
+            OpCount: options?.txLimitCount ?? 1,
+          },
+        ],
+      },
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/unlock-stake', params, {
@@ -1,11 +1,18 @@
+import { hexToBytes } from '@noble/hashes/utils';
+import { RequestOptions } from '../backend-types/index.js';
 import {
+  Numeric,
   TransactionSpendingLimitResponseOptions,
-  identity,
+  toBigInt,
+  toUint256Hex,
 } from '../identity/index.js';
+import { getClientContext } from '../internal.js';
 
 export async function guardTxPermission(
-  spendingLimitOptions: TransactionSpendingLimitResponseOptions
+  spendingLimitOptions: TransactionSpendingLimitResponseOptions,
+  options?: Pick<RequestOptions, 'client'>
 ) {
+  const { identity } = getClientContext(options);
   const hasPermissions = identity.hasPermissions(spendingLimitOptions);
   const guard = (hasPermissions: boolean) => {
     if (!hasPermissions) {
@@ -34,3 +41,16 @@ export function stripHexPrefix(hex: string) {
 
   return unPadded;
 }
+
+/**
+ * Converts a uint256 amount to the bytes used in transaction metadata. Accepts
+ * the 0x prefixed hex strings used by the node as well as bigints, numbers and
+ * decimal strings.
+ */
+export function uint256ToBytes(value: Numeric | string): Uint8Array {
+  if (typeof value !== 'string' && toBigInt(value) === BigInt(0)) {
+    return new Uint8Array(0);
+  }
+
+  return hexToBytes(stripHexPrefix(toUint256Hex(value)));
+}
@@ -2,19 +2,21 @@ import { hexToBytes } from '@noble/hashes/utils';
 import {
   ConstructedTransactionResponse,
   RegisterAsValidatorRequest,
+  RequestOptions,
   UnjailValidatorRequest,
   UnregisterAsValidatorRequest,
   ValidatorTxnResponse,
 } from '../backend-types/index.js';
 import {
+  DeSoValidationError,
   TransactionMetadataRegisterAsValidator,
   TransactionMetadataUnjailValidator,
   TransactionMetadataUnregisterAsValidator,
   encodeUTF8ToBytes,
-  identity,
 } from '../identity/index.js';
 import {
   constructBalanceModelTx,
+  getClientContext,
   getTxWithFeeNanos,
   handleSignAndSubmit,
   sumTransactionFees,
@@ -38,7 +40,10 @@ const buildRegisterAsValidatorMetadata = (
   try {
     parsedVotingPublicKey = hexToBytes(stripHexPrefix(params.VotingPublicKey));
   } catch (e) {
-    throw new Error('Error parsing voting public key: ' + String(e));
+    throw new DeSoValidationError(
+      'Error parsing voting public key: ' + String(e),
+      { cause: e }
+    );
   }
 
   try {
@@ -46,7 +51,10 @@ const buildRegisterAsValidatorMetadata = (
       stripHexPrefix(params.VotingAuthorization)
     );
   } catch (e) {
-    throw new Error('Error parsing voting authorization: ' + String(e));
+    throw new DeSoValidationError(
+      'Error parsing voting authorization: ' + String(e),
+      { cause: e }
+    );
   }
 
   const metadata = new TransactionMetadataRegisterAsValidator();
@@ -61,7 +69,8 @@ const buildRegisterAsValidatorMetadata = (
 };
 
 export const constructRegisterAsValidatorTransaction = (
-  params: RegisterAsValidatorRequestParams
+  params: RegisterAsValidatorRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -70,7 +79,9 @@ export const constructRegisterAsValidatorTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -93,17 +104,20 @@ export const registerAsValidator = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        REGISTER_AS_VALIDATOR:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.REGISTER_AS_VALIDATOR ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          REGISTER_AS_VALIDATOR:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.REGISTER_AS_VALIDATOR ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/validators/register', params, {
@@ -122,7 +136,8 @@ const buildUnregisterAsValidatorMetadata = (
 };
 
 export const constructUnregisterAsValidatorTransaction = (
-  params: UnregisterAsValidatorRequestParams
+  params: UnregisterAsValidatorRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -131,7 +146,9 @@ export const constructUnregisterAsValidatorTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -154,17 +171,20 @@ export const unRegisterAsValidator = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        UNREGISTER_AS_VALIDATOR:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.UNREGISTER_AS_VALIDATOR ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          UNREGISTER_AS_VALIDATOR:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.UNREGISTER_AS_VALIDATOR ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/validators/unregister', params, {
@@ -181,7 +201,8 @@ const buildUnjailValidatorMetadata = (params: UnjailValidatorRequestParams) => {
 };
 
 export const constructUnjailValidatorTransaction = (
-  params: UnjailValidatorRequestParams
+  params: UnjailValidatorRequestParams,
+  options?: RequestOptions
 ): Promise<ConstructedTransactionResponse> => {
   return constructBalanceModelTx(
     params.TransactorPublicKeyBase58Check,
@@ -190,7 +211,9 @@ export const constructUnjailValidatorTransaction = (
       ExtraData: params.ExtraData,
       MinFeeRateNanosPerKB: params.MinFeeRateNanosPerKB,
       TransactionFees: params.TransactionFees,
-    }
+      Nonce: params.Nonce,
+    },
+    options
   );
 };
 
@@ -213,17 +236,20 @@ export const unJailValidator = async (
   );
 
   if (options?.checkPermissions !== false) {
-    await guardTxPermission({
-      GlobalDESOLimit:
-        txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
-      TransactionCountLimitMap: {
-        UNJAIL_VALIDATOR:
-          options?.txLimitCount ??
-          identity.transactionSpendingLimitOptions?.TransactionCountLimitMap
-            ?.UNREGISTER_AS_VALIDATOR ??
-          1,
+    await guardTxPermission(
+      {
+        GlobalDESOLimit:
+          txWithFee.feeNanos + sumTransactionFees(params.TransactionFees),
+        TransactionCountLimitMap: {
+          UNJAIL_VALIDATOR:
+            options?.txLimitCount ??
+            getClientContext(options).identity.transactionSpendingLimitOptions
+              ?.TransactionCountLimitMap?.UNREGISTER_AS_VALIDATOR ??
+            1,
+        },
       },
-    });
+      options
+    );
   }
 
   return handleSignAndSubmit('api/v0/validators/unjail', params, {
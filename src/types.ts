@@ -1,14 +1,22 @@
 import {
+  DeSoNonce,
+  DuplicateSubmitTransactionResponse,
   RequestOptions,
   SubmitTransactionAtomicResponse,
   SubmitTransactionResponse,
   TransactionFee,
 } from './backend-types/index.js';
+import { PartialWithRequiredFields } from './data/index.js';
 import { TransactionSpendingLimitResponseOptions } from './identity/index.js';
 export interface OptionalFeesAndExtraData {
   MinFeeRateNanosPerKB?: number;
   TransactionFees?: TransactionFee[] | null;
   ExtraData?: { [key: string]: string };
+  /**
+   * Only used for local construction. If PartialID is omitted, a unique one is
+   * reserved from the nonce manager.
+   */
+  Nonce?: PartialWithRequiredFields<DeSoNonce, 'ExpirationBlockHeight'>;
 }
 
 export type TypeWithOptionalFeesAndExtraData<T> = Omit<
@@ -17,10 +25,21 @@ export type TypeWithOptionalFeesAndExtraData<T> = Omit<
 > &
   OptionalFeesAndExtraData;
 
+/**
+ * Widens the given amount fields of a request to also accept bigints, for
+ * amounts that can exceed Number.MAX_SAFE_INTEGER.
+ */
+export type WithBigIntAmounts<T, K extends keyof T> = Omit<T, K> & {
+  [P in K]: T[P] | bigint;
+};
+
 export interface ConstructedAndSubmittedTx<T> {
   constructedTransactionResponse: T;
   // This will be null if the broadcast option is set to false.
-  submittedTransactionResponse: SubmitTransactionResponse | null;
+  submittedTransactionResponse:
+    | SubmitTransactionResponse
+    | DuplicateSubmitTransactionResponse
+    | null;
 }
 
 export interface ConstructedAndSubmittedTxAtomic<T> {